@@ -0,0 +1,184 @@
+/**
+ * revtrack analyze: analyse files and print the results
+ */
+
+import { parseArgs } from 'node:util';
+import { analyzePath, expandInputs, setupNodeEngine } from './node';
+import { diagnosticLine, log, textTable, writeOutput } from './output';
+import type { EngineResult } from '../src/engine';
+import { stopOcrPools } from '../src/ocrPool';
+import { runQueue } from '../src/taskQueue';
+import { mergeTimeline } from '../src/timeline';
+import { formatCurrency, knownBreakdown } from '../src/revenueAnalyzer';
+import type { AnalysisOptions } from '../src/revenueAnalyzer';
+import { NUMBER_LOCALES } from '../src/numberParser';
+import type { NumberLocale } from '../src/numberParser';
+import { SUPPORTED_CURRENCIES } from '../src/currencyDetector';
+import { batchToCsv, batchToJson, timelineToCsv, timelineToJson } from '../src/export';
+
+const FORMATS = ['table', 'json', 'csv'] as const;
+type Format = typeof FORMATS[number];
+
+export const ANALYZE_USAGE = `Usage: revtrack analyze <files, folders or "patterns"...> [options]
+
+Analyse revenue screenshots, PDF statements and CSV exports offline.
+
+Options:
+  -f, --format <table|json|csv>   Output format (default: table)
+  -o, --output <file>             Write the output to a file instead of stdout
+      --timeline                  Merge all files into one monthly timeline
+      --locale <${NUMBER_LOCALES.map(locale => locale.value).join('|')}|auto>   Number format (default: auto)
+      --currency <code>           Currency when a file doesn't say (default: USD)
+      --reporting-currency <code> Convert results into this currency
+      --languages <auto|eng|eng+ara|...>  OCR languages (default: auto)
+      --tessdata <folder>         OCR language data (default: public/tessdata)
+  -j, --jobs <n>                  Files analysed at once (default: 1)
+  -v, --verbose                   Print diagnostics to stderr as they happen
+
+Exit status: 0 when every file was analysed, 1 when any failed, 2 on bad usage.`;
+
+export type AnalyzeCommand = ReturnType<typeof parseAnalyze>;
+
+function currencyOption(value: string | undefined, flag: string): string | undefined {
+  if (value === undefined) return undefined;
+  const code = value.toUpperCase();
+  if (!SUPPORTED_CURRENCIES.includes(code)) throw new Error(`${flag}: unknown currency "${value}"`);
+  return code;
+}
+
+/**
+ * Read the arguments after "analyze"
+ *
+ * @throws Error - When they don't make sense
+ */
+export function parseAnalyze(argv: string[]) {
+  const { values, positionals: inputs } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      output: { type: 'string', short: 'o' },
+      timeline: { type: 'boolean', default: false },
+      locale: { type: 'string', default: 'auto' },
+      currency: { type: 'string' },
+      'reporting-currency': { type: 'string' },
+      languages: { type: 'string', default: 'auto' },
+      tessdata: { type: 'string' },
+      jobs: { type: 'string', short: 'j', default: '1' },
+      verbose: { type: 'boolean', short: 'v', default: false },
+    },
+  });
+
+  if (inputs.length === 0) throw new Error('No files given');
+  if (!FORMATS.includes(values.format as Format)) throw new Error(`--format: expected ${FORMATS.join(', ')}`);
+  if (values.locale !== 'auto' && !NUMBER_LOCALES.some(locale => locale.value === values.locale)) {
+    throw new Error(`--locale: expected auto or ${NUMBER_LOCALES.map(locale => locale.value).join(', ')}`);
+  }
+  const jobs = Number(values.jobs);
+  if (!Number.isInteger(jobs) || jobs < 1) throw new Error('--jobs: expected a whole number from 1');
+
+  const options: AnalysisOptions = {
+    locale: values.locale as NumberLocale | 'auto',
+    // A terminal has no browser region to default from
+    defaultCurrency: currencyOption(values.currency, '--currency') ?? 'USD',
+    reportingCurrency: currencyOption(values['reporting-currency'], '--reporting-currency'),
+    ocrLanguages: values.languages === 'auto' ? 'auto' : values.languages.split('+'),
+  };
+  return {
+    inputs,
+    format: values.format as Format,
+    output: values.output,
+    timeline: values.timeline,
+    tessdata: values.tessdata,
+    jobs,
+    verbose: values.verbose,
+    options,
+  };
+}
+
+function resultsTable(results: EngineResult[], reportingCurrency: string | undefined): string {
+  const rows = results.map(({ name, outcome }) => {
+    if (!outcome.ok) return [name, '', '', '', '', '', `${outcome.error.message}${outcome.error.detail ? ` (${outcome.error.detail})` : ''}`];
+    const analysis = outcome.value;
+    const money = (amount: number | null) => amount === null ? '–' : formatCurrency(amount, analysis.currency, { convertTo: reportingCurrency });
+    const { thisMonth, lastMonth, growth } = knownBreakdown(analysis);
+    return [
+      name,
+      money(analysis.totalRevenue),
+      money(thisMonth),
+      money(lastMonth),
+      growth === null ? '–' : `${growth >= 0 ? '+' : ''}${growth}%`,
+      `${Math.round(analysis.confidence * 100)}%`,
+      analysis.analysisMethod,
+    ];
+  });
+  const table = textTable(
+    ['File', 'Total', 'This month', 'Last month', 'Growth', 'Conf.', 'Method'],
+    rows,
+    [false, true, true, true, true, true, false]
+  );
+  const unavailable = results.some(({ outcome }) => outcome.ok && knownBreakdown(outcome.value).growth === null);
+  const flags = results.flatMap(({ name, diagnostics }) => diagnostics
+    .filter(diagnostic => diagnostic.stage === 'validation')
+    .map(diagnostic => `! ${name}: ${diagnostic.message}\n`));
+  return table
+    + (unavailable ? '\n– No monthly table or labelled months in the file\n' : '')
+    + (flags.length > 0 ? `\n${flags.join('')}` : '');
+}
+
+function render(results: EngineResult[], command: AnalyzeCommand): string {
+  const { format, options } = command;
+  if (command.timeline) {
+    const sources = results.flatMap(({ name, outcome }, i) => outcome.ok ? [{ id: String(i), name, analysis: outcome.value }] : []);
+    const timeline = mergeTimeline(sources, options.reportingCurrency);
+    if (format === 'json') return timelineToJson(timeline) + '\n';
+    if (format === 'csv') return timelineToCsv(timeline);
+    const table = textTable(
+      ['Month', 'Revenue', 'Status', 'Source'],
+      timeline.periods.map(period => [period.label, formatCurrency(Math.round(period.amount), timeline.currency), period.status, period.chosen.sourceName]),
+      [false, true, false, false]
+    );
+    return table + timeline.skipped.map(entry => `Skipped ${entry.sourceName}: ${entry.reason}\n`).join('');
+  }
+
+  const entries = results.map(({ name, outcome, diagnostics, durationMs }) => ({ sourceName: name, outcome, diagnostics, durationMs }));
+  if (format === 'json') return batchToJson(entries) + '\n';
+  if (format === 'csv') return batchToCsv(entries);
+  return resultsTable(results, options.reportingCurrency);
+}
+
+/**
+ * Analyse every file and write the output
+ *
+ * @returns Promise<number> - Exit status
+ */
+export async function runAnalyze(command: AnalyzeCommand): Promise<number> {
+  const { files, missing } = await expandInputs(command.inputs);
+  if (missing.length > 0) {
+    log(`revtrack: nothing found for ${missing.map(arg => `"${arg}"`).join(', ')}`);
+    return 2;
+  }
+
+  setupNodeEngine({ tessdata: command.tessdata, workers: command.jobs });
+  let done = 0;
+
+  const results = await runQueue(files, command.jobs, async file => {
+    const result = await analyzePath(file, {
+      ...command.options,
+      onDiagnostic: command.verbose ? diagnostic => log(diagnosticLine(file, diagnostic)) : undefined,
+    });
+    done++;
+    const status = result.outcome.ok ? 'ok' : `failed: ${result.outcome.error.message}`;
+    log(`[${done}/${files.length}] ${file} ${status} (${(result.durationMs / 1000).toFixed(1)}s)`);
+    return result;
+  });
+  await stopOcrPools();
+
+  const finished: EngineResult[] = [];
+  results.forEach((result, index) => {
+    if (result.ok) finished.push(result.value);
+    else log(`${files[index]} failed unexpectedly: ${result.error instanceof Error ? result.error.message : String(result.error)}`);
+  });
+  await writeOutput(render(finished, command), command.output);
+  return finished.length === files.length && finished.every(result => result.outcome.ok) ? 0 : 1;
+}
@@ -0,0 +1,220 @@
+/**
+ * revtrack eval: score extraction against the golden corpus
+ *
+ * Loads corpus/cases/*.json with their fixtures, runs them (see
+ * src/evaluation/), prints precision and recall per field and compares
+ * them with corpus/baseline.json. Every template's own fixture is checked
+ * too. The run fails when a metric drops below the baseline.
+ */
+
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { setupNodeEngine } from './node';
+import { diagnosticLine, log, textTable, writeOutput } from './output';
+import {
+  SCORED_FIELDS, baselineFromResults, compareWithBaseline, parseCachedLayout, parseCase, runCase, summarizeResults,
+} from '../src/evaluation';
+import type { BaselineComparison, CaseResult, CorpusBaseline, CorpusCase, CorpusScore, OcrMode } from '../src/evaluation';
+import { listTemplates, runTemplateFixture } from '../src/templates';
+import { stopOcrPools } from '../src/ocrPool';
+import type { OcrLayout } from '../src/layoutExtractor';
+
+export const EVAL_USAGE = `Usage: revtrack eval [corpus folder] [options]
+
+Score extraction against a golden corpus (default: corpus/).
+
+Options:
+      --ocr <cached|live>   Screenshots from cached OCR (default) or read again
+      --write-cache         With --ocr live, save what OCR read as <case>.ocr.json
+      --baseline <file>     Scores to compare with (default: <corpus>/baseline.json)
+      --update-baseline     Save this run's scores as the baseline
+  -f, --format <table|json> Output format (default: table)
+  -o, --output <file>       Write the output to a file instead of stdout
+      --tessdata <folder>   OCR language data, for --ocr live
+  -v, --verbose             List every check, and print diagnostics to stderr
+
+Exit status: 1 when a field's precision or recall fell below the baseline,
+or a template no longer reads its own fixture.`;
+
+export type EvalCommand = ReturnType<typeof parseEval>;
+
+/**
+ * Read the arguments after "eval"
+ *
+ * @throws Error - When they don't make sense
+ */
+export function parseEval(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ocr: { type: 'string', default: 'cached' },
+      'write-cache': { type: 'boolean', default: false },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false },
+      format: { type: 'string', short: 'f', default: 'table' },
+      output: { type: 'string', short: 'o' },
+      tessdata: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v', default: false },
+    },
+  });
+
+  if (positionals.length > 1) throw new Error('Only one corpus folder at a time');
+  if (values.ocr !== 'cached' && values.ocr !== 'live') throw new Error('--ocr: expected cached or live');
+  if (values['write-cache'] && values.ocr !== 'live') throw new Error('--write-cache needs --ocr live');
+  if (values.format !== 'table' && values.format !== 'json') throw new Error('--format: expected table or json');
+
+  const corpus = positionals[0] ?? 'corpus';
+  return {
+    corpus,
+    ocr: values.ocr as OcrMode,
+    writeCache: values['write-cache'],
+    baseline: values.baseline ?? join(corpus, 'baseline.json'),
+    updateBaseline: values['update-baseline'],
+    format: values.format as 'table' | 'json',
+    output: values.output,
+    tessdata: values.tessdata,
+    verbose: values.verbose,
+  };
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  return readFile(path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  });
+}
+
+// Cases in file name order, each with its fixtures read
+async function loadCorpus(folder: string): Promise<Array<{ corpusCase: CorpusCase, file: File | null, cachePath: string, cachedLayout: OcrLayout | null }>> {
+  const names = (await readdir(folder)).filter(name => name.endsWith('.json') && !name.endsWith('.ocr.json')).sort();
+  return Promise.all(names.map(async name => {
+    const id = basename(name, '.json');
+    const corpusCase = parseCase(id, JSON.parse(await readFile(join(folder, name), 'utf8')));
+    const file = corpusCase.file
+      ? new File([await readFile(join(folder, corpusCase.file))], basename(corpusCase.file))
+      : null;
+    // Without an "ocr" entry, a case uses the cache a live run writes
+    const cachePath = join(folder, corpusCase.ocr ?? `${id}.ocr.json`);
+    const cache = await readOptional(cachePath);
+    return { corpusCase, file, cachePath, cachedLayout: cache === null ? null : parseCachedLayout(cachePath, cache) };
+  }));
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function renderTable(
+  results: CaseResult[],
+  score: CorpusScore,
+  baseline: CorpusBaseline | null,
+  comparison: BaselineComparison | null,
+  templateProblems: string[],
+  verbose: boolean
+): string {
+  const sections: string[] = [];
+
+  sections.push(textTable(
+    ['Field', 'Precision', 'Recall', 'Right', 'Wrong', 'Missed', 'Baseline P / R'],
+    SCORED_FIELDS.map(field => {
+      const { precision, recall, truePositives, falsePositives, falseNegatives } = score.fields[field];
+      const before = baseline?.fields[field];
+      return [
+        field, percent(precision), percent(recall),
+        String(truePositives), String(falsePositives), String(falseNegatives),
+        before ? `${percent(before.precision)} / ${percent(before.recall)}` : '',
+      ];
+    }),
+    [false, true, true, true, true, true, true]
+  ));
+  sections.push(`${score.cases} cases: ${score.perfect} perfect, ${score.failed} failed, ${score.skipped} skipped\n`);
+
+  const details = results.flatMap(result => {
+    if (result.status === 'skipped') return [`  ${result.id}: skipped (${result.detail})`];
+    const lines = result.status === 'failed' ? [`  ${result.id}: analysis failed (${result.detail})`] : [];
+    return [
+      ...lines,
+      ...result.checks
+        .filter(c => verbose || !c.correct)
+        .map(c => `  ${result.id}  ${c.key}: ${c.correct ? 'ok' : `expected ${c.expected ?? 'nothing'}, got ${c.actual ?? 'nothing'}`}`),
+    ];
+  });
+  if (details.length > 0) sections.push(`${verbose ? 'Checks' : 'Mistakes'}:\n${details.join('\n')}\n`);
+
+  if (templateProblems.length > 0) sections.push(`Template fixtures:\n${templateProblems.map(p => `  ${p}`).join('\n')}\n`);
+
+  if (comparison) {
+    const change = ({ field, metric, before, after }: BaselineComparison['regressions'][number]) =>
+      `  ${field} ${metric}: ${percent(before)} → ${percent(after)}`;
+    if (comparison.regressions.length > 0) sections.push(`Regressions:\n${comparison.regressions.map(change).join('\n')}\n`);
+    if (comparison.improvements.length > 0) {
+      sections.push(`Improvements (run with --update-baseline to keep them):\n${comparison.improvements.map(change).join('\n')}\n`);
+    }
+    if (comparison.lost.length > 0) {
+      sections.push(`Passed in the baseline, failing now:\n${comparison.lost.map(({ caseId, key }) => `  ${caseId}  ${key}`).join('\n')}\n`);
+    }
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Run the corpus, report, and compare with (or update) the baseline
+ *
+ * @returns Promise<number> - Exit status
+ */
+export async function runEval(command: EvalCommand): Promise<number> {
+  let cases: Awaited<ReturnType<typeof loadCorpus>>;
+  try {
+    cases = await loadCorpus(join(command.corpus, 'cases'));
+  } catch (error) {
+    log(`revtrack: can't read the corpus: ${(error as Error).message}`);
+    return 2;
+  }
+  setupNodeEngine({ tessdata: command.tessdata });
+
+  const results: CaseResult[] = [];
+  for (const { corpusCase, file, cachePath, cachedLayout } of cases) {
+    const { result, layout } = await runCase(
+      corpusCase,
+      { file, cachedLayout },
+      command.ocr,
+      { onDiagnostic: command.verbose ? diagnostic => log(diagnosticLine(corpusCase.id, diagnostic)) : undefined }
+    );
+    if (layout && command.writeCache) {
+      if (cachePath.endsWith('.json')) await writeFile(cachePath, JSON.stringify(layout, null, 2) + '\n');
+      else log(`${corpusCase.id}: cache not written; "${corpusCase.ocr}" is hand-written text`);
+    }
+    results.push(result);
+  }
+  await stopOcrPools();
+
+  const templateProblems = listTemplates().flatMap(runTemplateFixture);
+  const score = summarizeResults(results);
+  let baseline: CorpusBaseline | null;
+  try {
+    const baselineText = await readOptional(command.baseline);
+    baseline = baselineText === null ? null : JSON.parse(baselineText) as CorpusBaseline;
+  } catch (error) {
+    log(`revtrack: can't read the baseline: ${(error as Error).message}`);
+    return 2;
+  }
+  const comparison = baseline && !command.updateBaseline ? compareWithBaseline(results, score, baseline) : null;
+
+  if (command.format === 'json') {
+    await writeOutput(JSON.stringify({ score, results, comparison, templateProblems }, null, 2) + '\n', command.output);
+  } else {
+    await writeOutput(renderTable(results, score, baseline, comparison, templateProblems, command.verbose), command.output);
+  }
+
+  if (command.updateBaseline) {
+    await writeFile(command.baseline, JSON.stringify(baselineFromResults(results, score), null, 2) + '\n');
+    log(`Baseline saved to ${command.baseline}`);
+  } else if (!baseline) {
+    log(`No baseline at ${command.baseline}; run with --update-baseline to save one`);
+  }
+
+  return templateProblems.length > 0 || (comparison?.regressions.length ?? 0) > 0 ? 1 : 0;
+}
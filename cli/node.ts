@@ -0,0 +1,116 @@
+/**
+ * The analysis engine under Node
+ *
+ * The engine itself (src/engine.ts) only sees bytes. This adds what a
+ * terminal needs: reading files and folders from disk, OCR language data
+ * from a local folder instead of the app's origin, and pdf.js's legacy
+ * build, which runs on Node versions the browser build doesn't. Nothing
+ * here goes to the network.
+ */
+
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { failure } from '../src/analysisErrors';
+import { configureOcrPool } from '../src/ocrPool';
+import { configurePdfJs } from '../src/importers';
+import { analyzeInput } from '../src/engine';
+import type { EngineOptions, EngineResult } from '../src/engine';
+
+// Language data fetched by `npm run tessdata`, relative to the built CLI in dist-cli/
+export const DEFAULT_TESSDATA = fileURLToPath(new URL('../public/tessdata', import.meta.url));
+
+// Files a folder is searched for
+const SUPPORTED_FILES = /\.(png|jpe?g|webp|bmp|pdf|csv|tsv)$/i;
+
+export interface NodeEngineOptions {
+  tessdata?: string;  // Folder holding <lang>.traineddata.gz; DEFAULT_TESSDATA if omitted
+  workers?: number;   // OCR workers per language set
+}
+
+/**
+ * Point OCR and pdf.js at local files
+ *
+ * Call once before analysing. Language data isn't cached: it is already
+ * on disk, and caching would write copies into the working directory.
+ */
+export function setupNodeEngine(options: NodeEngineOptions = {}): void {
+  configureOcrPool({
+    langPath: options.tessdata ?? DEFAULT_TESSDATA,
+    cache: false,
+    ...(options.workers ? { size: options.workers } : {}),
+  });
+  configurePdfJs(async () => {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    // Without this pdf.js warns about font data it only needs for rendering
+    return { getDocument: params => pdfjs.getDocument({ ...params, verbosity: pdfjs.VerbosityLevel.ERRORS }) };
+  });
+}
+
+function wildcardPattern(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Turn command-line arguments into a list of files
+ *
+ * How it works:
+ * - A file is taken as-is, whatever its extension
+ * - A folder contributes every supported file in it, subfolders included
+ * - A name with * or ? (quoted, so the shell left it alone) matches files
+ *   in its folder
+ * - Files are sorted by path with numbers compared as numbers, so
+ *   month-end screenshots come out in order
+ *
+ * @param args - Paths, folders and patterns
+ * @returns Promise - The files found, and arguments that matched nothing
+ */
+export async function expandInputs(args: string[]): Promise<{ files: string[], missing: string[] }> {
+  const files = new Set<string>();
+  const missing: string[] = [];
+  const byPath = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+  for (const arg of args) {
+    const info = await stat(arg).catch(() => null);
+    let found: string[] = [];
+    if (info?.isFile()) {
+      found = [arg];
+    } else if (info?.isDirectory()) {
+      const entries = await readdir(arg, { recursive: true, withFileTypes: true });
+      found = entries
+        .filter(entry => entry.isFile() && SUPPORTED_FILES.test(entry.name))
+        .map(entry => join(entry.parentPath, entry.name))
+        .sort(byPath);
+    } else if (/[*?]/.test(basename(arg))) {
+      const folder = dirname(arg);
+      const pattern = wildcardPattern(basename(arg));
+      const entries = await readdir(folder, { withFileTypes: true }).catch(() => []);
+      found = entries
+        .filter(entry => entry.isFile() && pattern.test(entry.name))
+        .map(entry => join(folder, entry.name))
+        .sort(byPath);
+    }
+    if (found.length === 0) missing.push(arg);
+    found.forEach(file => files.add(file));
+  }
+  return { files: [...files], missing };
+}
+
+/**
+ * Analyse a file on disk
+ *
+ * @param path - Screenshot, PDF or CSV
+ * @param options - Analysis settings; the name defaults to the path
+ * @returns Promise<EngineResult> - An 'unsupported-file' error when it can't be read
+ */
+export async function analyzePath(path: string, options: EngineOptions = {}): Promise<EngineResult> {
+  const name = options.name ?? path;
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(path);
+  } catch (error) {
+    return { name, kind: 'unsupported', outcome: failure('unsupported-file', error), diagnostics: [], durationMs: 0 };
+  }
+  return analyzeInput(bytes, { ...options, name });
+}
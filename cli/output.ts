@@ -0,0 +1,34 @@
+/**
+ * Terminal output shared by the commands
+ *
+ * Results go to stdout (or a file); progress and diagnostics go to stderr,
+ * so output can be piped or redirected without them.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import type { Diagnostic } from '../src/diagnostics';
+
+export function log(line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+export function diagnosticLine(source: string, diagnostic: Diagnostic): string {
+  return `  ${source} [${diagnostic.stage}] ${diagnostic.level === 'info' ? '' : `${diagnostic.level}: `}${diagnostic.message}`;
+}
+
+/**
+ * Columns padded to their widest cell, numbers right-aligned
+ */
+export function textTable(header: string[], rows: string[][], numeric: boolean[]): string {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells
+    .map((cell, i) => numeric[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))
+    .join('  ')
+    .trimEnd();
+  return [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n') + '\n';
+}
+
+export async function writeOutput(output: string, file: string | undefined): Promise<void> {
+  if (file) await writeFile(file, output);
+  else process.stdout.write(output);
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * revtrack: the analysis engine from the terminal
+ *
+ * Analyses screenshots, PDF statements and CSV exports exactly as the app
+ * does, fully offline, and prints the results as a table, CSV or the
+ * versioned JSON export (analyze.ts). Also scores extraction against the
+ * golden corpus (evaluate.ts). Build it with `npm run build:cli`; see
+ * "Command line" in the README.
+ */
+
+import { ANALYZE_USAGE, parseAnalyze, runAnalyze } from './analyze';
+import { EVAL_USAGE, parseEval, runEval } from './evaluate';
+import { log } from './output';
+
+function command<T>(usage: string, parse: (argv: string[]) => T, run: (parsed: T) => Promise<number>) {
+  return {
+    usage,
+    async run(argv: string[]): Promise<number> {
+      let parsed: T;
+      try {
+        parsed = parse(argv);
+      } catch (error) {
+        // Anything wrong with the arguments, including what parseArgs rejects
+        log(`revtrack: ${(error as Error).message}\n\n${usage}`);
+        return 2;
+      }
+      return run(parsed);
+    },
+  };
+}
+
+const COMMANDS = {
+  analyze: command(ANALYZE_USAGE, parseAnalyze, runAnalyze),
+  eval: command(EVAL_USAGE, parseEval, runEval),
+};
+
+const USAGE = Object.values(COMMANDS).map(command => command.usage).join('\n\n');
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  const command = COMMANDS[name as keyof typeof COMMANDS];
+  if (!name || name === '--help' || name === '-h') {
+    process.stdout.write(`${USAGE}\n`);
+    return name ? 0 : 2;
+  }
+  if (!command) {
+    log(`revtrack: unknown command "${name}"\n\n${USAGE}`);
+    return 2;
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    process.stdout.write(`${command.usage}\n`);
+    return 0;
+  }
+  return command.run(rest);
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    // Exit once stdout is flushed: a Tesseract worker that failed to start
+    // can't be stopped, and would keep Node running
+    process.stdout.write('', () => process.exit(code));
+  })
+  .catch((error: unknown) => {
+    log(`revtrack: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+// Copy Tesseract's worker script and OCR core from node_modules into
+// public/tesseract, so the app serves them itself and OCR works offline.
+// Run again after upgrading tesseract.js.
+//
+// Usage: node scripts/copy-tesseract.mjs
+
+import { copyFile, mkdir } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { basename, dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const require = createRequire(import.meta.url)
+const target = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'tesseract')
+
+// The worker picks the SIMD build when the browser has it; both are
+// LSTM-only, like the language data in public/tessdata
+const files = [
+  require.resolve('tesseract.js/dist/worker.min.js'),
+  join(dirname(require.resolve('tesseract.js-core/package.json')), 'tesseract-core-lstm.wasm.js'),
+  join(dirname(require.resolve('tesseract.js-core/package.json')), 'tesseract-core-simd-lstm.wasm.js'),
+]
+
+await mkdir(target, { recursive: true })
+for (const file of files) {
+  await copyFile(file, join(target, basename(file)))
+  console.log(`${basename(file)}: copied to public/tesseract`)
+}
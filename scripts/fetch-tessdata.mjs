@@ -0,0 +1,37 @@
+// Download the OCR language data into public/tessdata, so the app serves
+// it itself and OCR works offline. Files already present are kept. Run it
+// once after cloning (npm run tessdata); dev and build don't, so they work
+// without a network.
+//
+// Usage: node scripts/fetch-tessdata.mjs [lang ...]   (default: eng ara)
+
+import { existsSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// Same LSTM-only models Tesseract.js downloads by default
+const SOURCE = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data'
+const VERSION = '4.0.0_best_int'
+
+const target = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'tessdata')
+const languages = process.argv.length > 2 ? process.argv.slice(2) : ['eng', 'ara']
+
+await mkdir(target, { recursive: true })
+for (const language of languages) {
+  const file = join(target, `${language}.traineddata.gz`)
+  if (existsSync(file)) {
+    console.log(`${language}: already present`)
+    continue
+  }
+  try {
+    const response = await fetch(`${SOURCE}/${language}/${VERSION}/${language}.traineddata.gz`)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    await writeFile(file, Buffer.from(await response.arrayBuffer()))
+    console.log(`${language}: saved to public/tessdata`)
+  } catch (error) {
+    // fetch() fails with a bare "fetch failed"; the reason is its cause
+    console.warn(`${language}: not downloaded (${error.cause?.message ?? error.message}); OCR in ${language} won't work until it is`)
+    process.exitCode = 1
+  }
+}
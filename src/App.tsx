@@ -1,66 +1,478 @@
-import { useState } from 'react'
-import { Upload, TrendingUp, AlertCircle } from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Upload, TrendingUp, AlertCircle, History, LogOut, FileText, Download } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
 import { supabase } from './supabase'
-import { analyzeRevenueScreenshot, formatCurrency } from './revenueAnalyzer'
-import type { RevenueAnalysis } from './revenueAnalyzer'
+import { ANALYSIS_METHOD_NAMES, BREAKDOWN_SOURCE_NAMES, analyzeSample, formatCurrency, knownBreakdown } from './revenueAnalyzer'
+import { UPLOAD_ACCEPT, analyzeFile, detectFileKind } from './importers'
+import type { AnalysisOptions, AnalysisProgress, RevenueAnalysis } from './revenueAnalyzer'
+import type { AnalysisError } from './analysisErrors'
+import { NUMBER_LOCALES } from './numberParser'
+import { SUPPORTED_CURRENCIES, defaultCurrencyForLocale } from './currencyDetector'
+import type { NumberLocale } from './numberParser'
+import { BUNDLED_RATES, bundledRateProvider, convertAmount, createTableRateProvider, parseRatesTable } from './fx'
+import type { RatesTable } from './fx'
+import type { TemplateField } from './templates'
+import ConfidenceFactors from './components/ConfidenceFactors'
+import AnalysisErrorPanel from './components/AnalysisErrorPanel'
+import AnalysisHistory from './components/AnalysisHistory'
+import SignIn from './components/SignIn'
+import { signOut, useSession } from './auth'
+import AnalysisReview from './components/AnalysisReview'
+import BatchAnalysis from './components/BatchAnalysis'
+import AnalysisProgressBar from './components/AnalysisProgressBar'
+import { createIndexedDbAnalysisStore, createPrivateAnalysisStore, createSupabaseAnalysisStore, createSyncQueue } from './storage'
+import type { SyncConflict, SyncStatus } from './storage'
+import { applyCorrections } from './corrections'
+import type { AnalysisCorrections } from './corrections'
+import { DEFAULT_PREPROCESSING, blurRegions, canPreprocess } from './preprocessing'
+import type { PixelRegion, PreprocessingOptions, PreprocessingStepName } from './preprocessing'
+import CropSelector from './components/CropSelector'
+import { OCR_LANGUAGE_CHOICES, languageNames } from './ocrLanguages'
+import PreprocessingSettings from './components/PreprocessingSettings'
+import RevenueChart from './components/RevenueChart'
+import PeriodComparisonTable from './components/PeriodComparisonTable'
+import { summarizeSeries } from './seriesStats'
+import ExportButtons from './components/ExportButtons'
+import { analysisReportHtml, analysisToCsv, analysisToJson } from './export'
+import { logDiagnostic } from './diagnostics'
+import { PRIVACY_MODES, describeRedactions, withoutSourceText } from './redaction'
+import type { PrivacyMode } from './redaction'
+import PrivacySettings from './components/PrivacySettings'
+import { checkAnalysis, fileHash, findDuplicates } from './validation'
+import type { ValueFlag } from './validation'
+import { coveredMonths } from './timeline'
+import ValueFlags from './components/ValueFlags'
+import { forecastSeries, recommendModel } from './forecast'
+import type { ForecastModel } from './forecast'
+import { goalProgress } from './goals'
+import type { GoalPeriod, RevenueGoal } from './goals'
+import ForecastPanel from './components/ForecastPanel'
+import GoalTracker from './components/GoalTracker'
+import { DEFAULT_LINE_ITEM_RULES, breakDownRevenue } from './lineItems'
+import type { LineItemRule } from './lineItems'
+import RevenueBreakdownPanel from './components/RevenueBreakdownPanel'
+import SyncStatusBadge from './components/SyncStatusBadge'
+import { useInstallPrompt } from './pwa'
+
+// The privacy setting survives reloads, and every save reads it
+const PRIVACY_STORAGE_KEY = 'revtrackr.privacy'
+
+function loadPrivacyMode(): PrivacyMode {
+  const stored = localStorage.getItem(PRIVACY_STORAGE_KEY)
+  return PRIVACY_MODES.find(choice => choice.value === stored)?.value ?? 'standard'
+}
+
+// Analyses are kept in this browser first, so the app works offline, and
+// synced to Supabase in the background. The privacy mode applies before
+// anything is kept, and again when it's sent, so the server never gets more
+// than the browser has, nor more than the mode allows at the time.
+const serverStore = createSupabaseAnalysisStore(supabase)
+const currentUserId = async () => (await supabase.auth.getSession()).data.session?.user.id ?? null
+const localStore = createIndexedDbAnalysisStore({
+  userId: currentUserId,
+  remoteImageUrl: path => serverStore.getImageUrl(path),
+  onChange: () => void syncQueue.sync(),
+})
+const syncQueue = createSyncQueue(localStore, createPrivateAnalysisStore(serverStore, loadPrivacyMode), { userId: currentUserId })
+const analysisStore = createPrivateAnalysisStore(localStore, loadPrivacyMode)
+
+const SYNC_CONFLICT_MESSAGES: { [resolution in SyncConflict['resolution']]: (name: string) => string } = {
+  'kept-local': name => `${name} was also corrected on another device; your later corrections were kept`,
+  'kept-server': name => `${name} was corrected on another device since; those later corrections were kept`,
+  'restored': name => `${name} was deleted on another device; it was kept, since you corrected it here`,
+}
+
+const TEMPLATE_FIELD_NAMES: { [field in TemplateField]: string } = {
+  gross: 'Gross',
+  net: 'Net',
+  fees: 'Fees',
+  refunds: 'Refunds',
+}
+
+const PREPROCESSING_STEP_NAMES: { [step in PreprocessingStepName]: string } = {
+  crop: 'Cropped',
+  grayscale: 'Grayscale',
+  invert: 'Inverted',
+  deskew: 'Straightened',
+  upscale: 'Enlarged',
+  threshold: 'Black and white',
+}
+
+// Imported FX rates survive reloads
+const RATES_STORAGE_KEY = 'revtrackr.fxRates'
+
+function loadImportedRates(): RatesTable | null {
+  try {
+    const stored = localStorage.getItem(RATES_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as RatesTable : null
+  } catch {
+    return null
+  }
+}
+
+// Revenue goals survive reloads, in the currency they were set in
+const GOALS_STORAGE_KEY = 'revtrackr.goals'
+
+function loadGoals(): RevenueGoal[] {
+  try {
+    const stored = localStorage.getItem(GOALS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as RevenueGoal[] : []
+  } catch {
+    return []
+  }
+}
+
+// Edited categorisation rules survive reloads
+const LINE_ITEM_RULES_STORAGE_KEY = 'revtrackr.lineItemRules'
+
+function loadLineItemRules(): LineItemRule[] {
+  try {
+    const stored = localStorage.getItem(LINE_ITEM_RULES_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as LineItemRule[] : DEFAULT_LINE_ITEM_RULES
+  } catch {
+    return DEFAULT_LINE_ITEM_RULES
+  }
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => reader.error ? reject(reader.error) : resolve(reader.result as string)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// The screenshot with masked data blurred, or null when there's nothing to blur
+async function blurredPreview(image: File, analysis: RevenueAnalysis): Promise<string | null> {
+  const boxes = analysis.redactions.flatMap(redaction => redaction.bbox ? [redaction.bbox] : [])
+  if (analysis.analysisMethod !== 'ocr' || boxes.length === 0 || !canPreprocess()) return null
+  return readAsDataUrl(await blurRegions(image, boxes))
+}
 
 function App() {
+  const session = useSession(supabase)
+  const signedIn = session.status === 'signed-in'
   const [file, setFile] = useState<File | null>(null)
   const [preview, setPreview] = useState<string | null>(null)
   const [showDashboard, setShowDashboard] = useState(false)
-  const [analysisResult, setAnalysisResult] = useState<RevenueAnalysis | null>(null)
+  const [extractedResult, setExtractedResult] = useState<RevenueAnalysis | null>(null)
+  const [corrections, setCorrections] = useState<AnalysisCorrections>({})
+  const [reviewing, setReviewing] = useState(false)
+  const analysisResult = extractedResult ? applyCorrections(extractedResult, corrections) : null
+  const seriesSummary = analysisResult ? summarizeSeries(analysisResult.series) : null
+  const months = analysisResult ? knownBreakdown(analysisResult) : null
+  const [sourceHash, setSourceHash] = useState<string | null>(null)
+  const [duplicateFlags, setDuplicateFlags] = useState<ValueFlag[]>([])
+  const flags = analysisResult ? [...checkAnalysis(analysisResult), ...duplicateFlags] : []
+  const flagsFor = (field: ValueFlag['field']) => flags.filter(flag => flag.field === field)
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null)
+  const [savedAnalysisId, setSavedAnalysisId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [historyVersion, setHistoryVersion] = useState(0)  // Bumped when a sync changes the history
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncQueue.status)
+  const installApp = useInstallPrompt()
+  const [batchFiles, setBatchFiles] = useState<File[]>([])
+  const [dragging, setDragging] = useState(false)
   const [analyzing, setAnalyzing] = useState(false)
+  const [imageCleanup, setImageCleanup] = useState<Omit<PreprocessingOptions, 'crop'>>(DEFAULT_PREPROCESSING)
+  const [cropRegion, setCropRegion] = useState<PixelRegion | null>(null)
+  const [ocrLanguages, setOcrLanguages] = useState('auto')  // 'auto' or codes joined with '+'
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const analysisController = useRef<AbortController | null>(null)
+  const [numberLocale, setNumberLocale] = useState<NumberLocale | 'auto'>('auto')
+  const [defaultCurrency, setDefaultCurrency] = useState(() => defaultCurrencyForLocale(navigator.language))
+  const [reportingCurrency, setReportingCurrency] = useState('')
+  const [importedRates, setImportedRates] = useState<RatesTable | null>(loadImportedRates)
+  const [privacy, setPrivacy] = useState<PrivacyMode>(loadPrivacyMode)
+  // What leaves the app in an export: in strict mode, no text from the source
+  const exportedAnalysis = (analysis: RevenueAnalysis) => privacy === 'strict' ? withoutSourceText(analysis) : analysis
+  const rateProvider = useMemo(
+    () => importedRates ? createTableRateProvider(importedRates) : bundledRateProvider,
+    [importedRates]
+  )
+  const [forecastModel, setForecastModel] = useState<ForecastModel | null>(null)  // null: best fit
+  const [forecastHorizon, setForecastHorizon] = useState(6)
+  const [goals, setGoals] = useState<RevenueGoal[]>(loadGoals)
+  const recommendedModel = seriesSummary && analysisResult ? recommendModel(analysisResult.series) : null
+  const chosenModel = forecastModel ?? recommendedModel
+  const forecast = analysisResult && chosenModel ? forecastSeries(analysisResult.series, chosenModel, forecastHorizon) : null
+  // Goals in the analysis currency; one without a rate to it is left out
+  const goalTarget = (period: GoalPeriod) => {
+    const goal = goals.find(g => g.period === period)
+    return goal && analysisResult ? convertAmount(goal.amount, goal.currency, analysisResult.currency, rateProvider)?.amount ?? null : null
+  }
+  const [lineItemRules, setLineItemRules] = useState<LineItemRule[]>(loadLineItemRules)
+  const revenueBreakdown = analysisResult ? breakDownRevenue(analysisResult, lineItemRules, rateProvider) : null
+  const goalFor = (period: GoalPeriod) => {
+    const target = goalTarget(period)
+    return target !== null && analysisResult ? goalProgress({ period, amount: target }, analysisResult.series, forecast) : null
+  }
+  const money = (amount: number, currency: string) =>
+    formatCurrency(amount, currency, { convertTo: reportingCurrency || undefined, rateProvider })
   const [email, setEmail] = useState('')
   const [submitting, setSubmitting] = useState(false)
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
+  useEffect(() => {
+    if (!signedIn) return
+    const unsubscribe = syncQueue.subscribe((status, report) => {
+      setSyncStatus(status)
+      if (!report) return
+      report.conflicts.forEach(conflict => toast(SYNC_CONFLICT_MESSAGES[conflict.resolution](conflict.sourceName), { icon: '🔀' }))
+      if (report.pulled > 0 || report.conflicts.length > 0) setHistoryVersion(version => version + 1)
+    })
+    const stop = syncQueue.start()
+    return () => {
+      stop()
+      unsubscribe()
+    }
+  }, [signedIn])
+
+  const handleFiles = (files: File[]) => {
+    if (files.length > 1) {
+      // Several screenshots: analyze them together and merge a timeline
+      setBatchFiles(files)
+      setFile(null)
+      setPreview(null)
+      setAnalysisError(null)
+      return
+    }
+    
+    const selectedFile = files[0]
     if (selectedFile) {
       setFile(selectedFile)
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setPreview(reader.result as string)
+      setCropRegion(null)
+      if (detectFileKind(selectedFile) === 'image') {
+        const reader = new FileReader()
+        reader.onloadend = () => {
+          setPreview(reader.result as string)
+        }
+        reader.readAsDataURL(selectedFile)
+        toast.success('Screenshot uploaded! 📸')
+      } else {
+        // PDFs and CSVs have nothing to crop
+        setPreview(null)
+        toast.success(`${selectedFile.name} uploaded! 📄`)
       }
-      reader.readAsDataURL(selectedFile)
-      toast.success('Screenshot uploaded! 📸')
       // Reset previous analysis
       setShowDashboard(false)
-      setAnalysisResult(null)
+      setExtractedResult(null)
+      setCorrections({})
+      setAnalysisError(null)
     }
   }
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles([...(e.target.files ?? [])])
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    handleFiles([...e.dataTransfer.files])
+  }
+
+  const handleBatchAnalyzed = (batchFile: File, analysis: RevenueAnalysis, batchFileHash: string | null) => {
+    analysisStore.save({ analysis, image: { name: batchFile.name, data: batchFile }, sourceHash: batchFileHash })
+      .catch((error: unknown) => {
+        console.error('Save failed:', error)
+        toast.error(`${batchFile.name} not saved to your history`)
+      })
+  }
+
+  // Flag saved analyses of the same file or months; the dashboard works without it
+  const checkDuplicates = (hash: string | null, analysis: RevenueAnalysis, excludeId: string | null) => {
+    setDuplicateFlags([])
+    const months = coveredMonths(analysis)
+    analysisStore.findMatching({ sourceHash: hash, periods: months.map(month => month.period) })
+      .then(saved => setDuplicateFlags(findDuplicates({ sourceHash: hash, months }, saved, excludeId)))
+      .catch((error: unknown) => console.error('Duplicate check failed:', error))
+  }
+
+  const analysisOptions = (): AnalysisOptions => ({
+    locale: numberLocale,
+    defaultCurrency,
+    reportingCurrency: reportingCurrency || undefined,
+    rateProvider,
+    preprocessing: imageCleanup,
+    ocrLanguages: ocrLanguages === 'auto' ? 'auto' : ocrLanguages.split('+'),
+    redact: privacy !== 'off',
+    // Engine diagnostics in the console while developing
+    onDiagnostic: import.meta.env.DEV ? logDiagnostic : undefined,
+  })
+
   const handleGenerateDashboard = async () => {
     if (!file) {
-      toast.error('Please upload a screenshot first')
+      toast.error('Please upload a screenshot, PDF or CSV first')
       return
     }
 
     setAnalyzing(true)
-    toast.loading('Analyzing your revenue screenshot...', { id: 'analyzing' })
+    setAnalysisError(null)
+    analysisController.current = new AbortController()
 
     try {
       // Call the real analysis engine
-      const result = await analyzeRevenueScreenshot(file)
+      const outcome = await analyzeFile(file, {
+        ...analysisOptions(),
+        preprocessing: { ...imageCleanup, crop: cropRegion },
+        signal: analysisController.current.signal,
+        onProgress: setProgress,
+      })
       
-      // Update state with results
-      setAnalysisResult(result)
-      setShowDashboard(true)
+      if (!outcome.ok) {
+        // Show what went wrong and how to recover, never placeholder numbers
+        setAnalysisError(outcome.error)
+        toast.error(outcome.error.message)
+        return
+      }
+      const result = outcome.value
+      
+      // Show the screenshot with masked data blurred from here on
+      if (preview && privacy !== 'off') {
+        const blurred = await blurredPreview(file, result).catch(() => null)
+        if (blurred) setPreview(blurred)
+      }
+
+      // Update state with results, then let the user check them
+      // Without a hash (no Web Crypto, or the file went away) only months are checked
+      const hash = await fileHash(file).catch(() => null)
+      setSourceHash(hash)
+      checkDuplicates(hash, result, null)
+      setExtractedResult(result)
+      setCorrections({})
+      setSavedAnalysisId(null)
+      setReviewing(true)
       
       // Show success message with confidence indicator
       toast.success(
-        `Analysis complete! Confidence: ${Math.round(result.confidence * 100)}%`,
-        { id: 'analyzing' }
+        `Analysis complete! Confidence: ${Math.round(result.confidence * 100)}%`
       )
       
       // Log analysis for debugging
       console.log('Analysis Result:', result)
       
-    } catch (error) {
-      console.error('Analysis error:', error)
-      toast.error('Failed to analyze screenshot. Please try again.', { id: 'analyzing' })
     } finally {
       setAnalyzing(false)
+      setProgress(null)
+      analysisController.current = null
+    }
+  }
+
+  const handleConfirmReview = (reviewed: AnalysisCorrections) => {
+    setCorrections(reviewed)
+    setReviewing(false)
+    setShowDashboard(true)
+    if (!extractedResult || extractedResult.analysisMethod === 'sample') return
+    
+    // Keep it in the user's history; the dashboard works even if this fails
+    const saving = savedAnalysisId
+      ? analysisStore.updateCorrections(savedAnalysisId, reviewed)
+      : analysisStore.save({
+          analysis: extractedResult,
+          image: file ? { name: file.name, data: file } : null,
+          sourceHash,
+          corrections: reviewed,
+        })
+    saving
+      .then(saved => setSavedAnalysisId(saved.id))
+      .catch((error: unknown) => {
+        console.error('Save failed:', error)
+        toast.error('Analysis not saved to your history')
+      })
+  }
+
+  const handleTrySample = () => {
+    setAnalysisError(null)
+    setExtractedResult(analyzeSample(analysisOptions()))
+    setCorrections({})
+    setSourceHash(null)
+    setDuplicateFlags([])
+    setShowDashboard(true)
+    toast.success('Showing sample data')
+  }
+
+  const handleStartOver = () => {
+    setFile(null)
+    setPreview(null)
+    setCropRegion(null)
+    setAnalysisError(null)
+    setExtractedResult(null)
+    setCorrections({})
+    setSavedAnalysisId(null)
+    setSourceHash(null)
+    setDuplicateFlags([])
+    setReviewing(false)
+    setShowDashboard(false)
+    setBatchFiles([])
+  }
+
+  const handleSignOut = async () => {
+    try {
+      await signOut(supabase)
+      handleStartOver()
+      setShowHistory(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not sign out')
+    }
+  }
+
+  const handleOpenSaved = async (id: string) => {
+    try {
+      const saved = await analysisStore.get(id)
+      if (!saved) {
+        toast.error('That analysis no longer exists')
+        return
+      }
+      setFile(null)
+      // Imported PDFs and CSVs are kept too, but only images can be shown
+      const isImage = saved.sourceImagePath && /\.(png|jpe?g|webp|bmp)$/i.test(saved.sourceImagePath)
+      setPreview(isImage ? await analysisStore.getImageUrl(saved.sourceImagePath!) : null)
+      setAnalysisError(null)
+      setExtractedResult(saved.analysis)
+      setCorrections(saved.corrections)
+      setSourceHash(saved.sourceHash)
+      checkDuplicates(saved.sourceHash, applyCorrections(saved.analysis, saved.corrections), saved.id)
+      setReviewing(false)
+      setSavedAnalysisId(saved.id)
+      setShowHistory(false)
+      setShowDashboard(true)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not open that analysis')
+    }
+  }
+
+  const handlePrivacyChange = (mode: PrivacyMode) => {
+    localStorage.setItem(PRIVACY_STORAGE_KEY, mode)
+    setPrivacy(mode)
+  }
+
+  const handleSetGoal = (period: GoalPeriod, amount: number | null) => {
+    if (!analysisResult) return
+    const others = goals.filter(goal => goal.period !== period)
+    const updated = amount === null ? others : [...others, { period, amount, currency: analysisResult.currency }]
+    localStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(updated))
+    setGoals(updated)
+  }
+
+  const handleLineItemRulesChange = (rules: LineItemRule[]) => {
+    localStorage.setItem(LINE_ITEM_RULES_STORAGE_KEY, JSON.stringify(rules))
+    setLineItemRules(rules)
+  }
+
+  const handleRatesImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const ratesFile = e.target.files?.[0]
+    if (!ratesFile) return
+
+    try {
+      const table = parseRatesTable(await ratesFile.text(), ratesFile.name)
+      localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(table))
+      setImportedRates(table)
+      toast.success(`Imported ${Object.keys(table.rates).length} rates (${table.base}, ${table.date})`)
+    } catch (error) {
+      console.error('Rates import error:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not read that rates file')
+    } finally {
+      e.target.value = ''
     }
   }
 
@@ -103,6 +515,35 @@ function App() {
         <div className="flex items-center gap-2">
           <TrendingUp className="text-emerald-500" size={28} />
           <h1 className="text-2xl font-bold text-slate-900">RevTrackr Test</h1>
+          {session.status === 'signed-in' && (
+            <div className="ml-auto flex items-center gap-6">
+              {installApp && (
+                <button
+                  onClick={installApp}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                >
+                  <Download size={18} />
+                  Install app
+                </button>
+              )}
+              <SyncStatusBadge status={syncStatus} onSync={() => void syncQueue.sync()} />
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:text-slate-900 font-medium"
+              >
+                <History size={18} />
+                History
+              </button>
+              <span className="text-sm text-slate-500">{session.session.user.email}</span>
+              <button
+                onClick={handleSignOut}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:text-slate-900 font-medium"
+              >
+                <LogOut size={18} />
+                Sign out
+              </button>
+            </div>
+          )}
         </div>
       </nav>
 
@@ -117,7 +558,7 @@ function App() {
           </p>
           <div className="flex items-center justify-center gap-8 text-sm text-slate-500">
             <div className="flex items-center gap-2">
-              ✓ No signup required
+              ✓ Private to your account
             </div>
             <div className="flex items-center gap-2">
               ✓ 100% free to test
@@ -128,8 +569,22 @@ function App() {
           </div>
         </div>
 
+        {/* Sign In */}
+        {session.status === 'signed-out' && (
+          <div className="mb-12">
+            <SignIn client={supabase} />
+          </div>
+        )}
+
+        {/* History */}
+        {signedIn && showHistory && (
+          <div className="mb-12">
+            <AnalysisHistory key={historyVersion} store={analysisStore} onOpen={handleOpenSaved} onClose={() => setShowHistory(false)} />
+          </div>
+        )}
+
         {/* How it works */}
-        {!preview && !showDashboard && (
+        {!file && !showDashboard && batchFiles.length === 0 && (
           <div className="mb-12 grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="bg-white rounded-xl p-6 border border-slate-200">
               <div className="text-4xl mb-3">📸</div>
@@ -150,11 +605,17 @@ function App() {
         )}
 
         {/* Upload Area */}
-        {!showDashboard && (
-          <div className="bg-white rounded-2xl shadow-lg border-2 border-dashed border-slate-300 p-12 text-center hover:border-emerald-500 transition-colors">
+        {signedIn && !showDashboard && !reviewing && batchFiles.length === 0 && (
+          <div
+            onDragOver={(e) => { e.preventDefault(); setDragging(true) }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            className={`bg-white rounded-2xl shadow-lg border-2 border-dashed p-12 text-center hover:border-emerald-500 transition-colors ${dragging ? 'border-emerald-500 bg-emerald-50' : 'border-slate-300'}`}
+          >
             <input
               type="file"
-              accept="image/*"
+              accept={UPLOAD_ACCEPT}
+              multiple
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -162,33 +623,184 @@ function App() {
             <label htmlFor="file-upload" className="cursor-pointer">
               <Upload className="mx-auto text-slate-400 mb-4" size={48} />
               <p className="text-lg font-semibold text-slate-900 mb-2">
-                Click to upload your revenue screenshot
+                Click or drop your revenue screenshots, PDFs or CSVs here
               </p>
               <p className="text-sm text-slate-500">
-                Stripe dashboard, Excel sheet, bank statement - anything works!
+                Stripe dashboard, Excel sheet, bank statement - anything works! Add several to build a timeline.
               </p>
             </label>
+            {!file && (
+              <button
+                onClick={handleTrySample}
+                className="mt-6 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+              >
+                No screenshot handy? Try with sample data
+              </button>
+            )}
+            <PrivacySettings mode={privacy} onChange={handlePrivacyChange} />
           </div>
         )}
 
+        {/* Batch */}
+        {signedIn && batchFiles.length > 0 && (
+          <BatchAnalysis
+            files={batchFiles}
+            options={analysisOptions()}
+            onAnalyzed={handleBatchAnalyzed}
+            onDone={handleStartOver}
+          />
+        )}
+
         {/* Preview */}
-        {preview && !showDashboard && (
+        {signedIn && file && !showDashboard && !reviewing && (
           <div className="mt-8 bg-white rounded-2xl shadow-lg p-6">
-            <h3 className="text-xl font-semibold text-slate-900 mb-4">Your Screenshot:</h3>
-            <img src={preview} alt="Preview" className="w-full rounded-lg border border-slate-200" />
-            <button
-              onClick={handleGenerateDashboard}
-              disabled={analyzing}
-              className="mt-4 px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold w-full disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {analyzing ? 'Analyzing... 🤖' : 'Generate Dashboard →'}
-            </button>
+            <h3 className="text-xl font-semibold text-slate-900 mb-4">{preview ? 'Your Screenshot:' : 'Your File:'}</h3>
+            {preview ? (
+              <CropSelector src={preview} region={cropRegion} onChange={setCropRegion} />
+            ) : (
+              <div className="flex items-center gap-3 p-4 rounded-lg border border-slate-200 text-slate-700">
+                <FileText className="text-slate-400 flex-shrink-0" size={24} />
+                <span className="truncate">{file.name}</span>
+              </div>
+            )}
+            <label className="mt-4 flex items-center justify-between gap-4 text-sm text-slate-600">
+              Number format
+              <select
+                value={numberLocale}
+                onChange={(e) => setNumberLocale(e.target.value as NumberLocale | 'auto')}
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+              >
+                <option value="auto">Detect automatically</option>
+                {NUMBER_LOCALES.map(locale => (
+                  <option key={locale.value} value={locale.value}>{locale.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="mt-2 flex items-center justify-between gap-4 text-sm text-slate-600">
+              Text language
+              <select
+                value={ocrLanguages}
+                onChange={(e) => setOcrLanguages(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+              >
+                <option value="auto">Detect automatically</option>
+                {OCR_LANGUAGE_CHOICES.map(choice => (
+                  <option key={choice.value} value={choice.value}>{choice.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="mt-2 flex items-center justify-between gap-4 text-sm text-slate-600">
+              Default currency (when the screenshot doesn't show one)
+              <select
+                value={defaultCurrency}
+                onChange={(e) => setDefaultCurrency(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+            <label className="mt-2 flex items-center justify-between gap-4 text-sm text-slate-600">
+              Show results in
+              <select
+                value={reportingCurrency}
+                onChange={(e) => setReportingCurrency(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+              >
+                <option value="">Screenshot currency</option>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+            {reportingCurrency && (
+              <div className="mt-2 flex items-center justify-between gap-4 text-xs text-slate-500">
+                <span>Rates: {rateProvider.name} ({(importedRates ?? BUNDLED_RATES).date})</span>
+                <input
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  onChange={handleRatesImport}
+                  className="hidden"
+                  id="rates-upload"
+                />
+                <label htmlFor="rates-upload" className="cursor-pointer text-emerald-600 hover:text-emerald-700 font-medium">
+                  Import rates (JSON/CSV)
+                </label>
+              </div>
+            )}
+            <PreprocessingSettings settings={imageCleanup} onChange={setImageCleanup} />
+            {analyzing ? (
+              <div className="mt-4 flex items-center gap-4">
+                {progress && <AnalysisProgressBar progress={progress} />}
+                <button
+                  onClick={() => analysisController.current?.abort()}
+                  className="px-4 py-2 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors text-sm font-medium flex-shrink-0"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleGenerateDashboard}
+                className="mt-4 px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold w-full"
+              >
+                Generate Dashboard →
+              </button>
+            )}
           </div>
         )}
 
+        {/* Analysis Error */}
+        {signedIn && analysisError && !showDashboard && (
+          <AnalysisErrorPanel error={analysisError} onRetry={handleStartOver} onTrySample={handleTrySample} />
+        )}
+
+        {/* Review */}
+        {signedIn && reviewing && extractedResult && (
+          <AnalysisReview
+            analysis={extractedResult}
+            image={preview}
+            initialCorrections={corrections}
+            onConfirm={handleConfirmReview}
+            onCancel={() => setReviewing(false)}
+          />
+        )}
+
         {/* Dashboard */}
-        {showDashboard && analysisResult && (
+        {signedIn && showDashboard && !reviewing && analysisResult && months && (
           <div className="mt-8 space-y-6">
+            {/* Sample Data Notice */}
+            {analysisResult.analysisMethod === 'sample' && (
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-blue-900">Sample Data</p>
+                  <p className="text-sm text-blue-700 mt-1">
+                    This dashboard was built from a sample Stripe screenshot, not your numbers.
+                  </p>
+                </div>
+                <button
+                  onClick={handleStartOver}
+                  className="flex-shrink-0 text-sm text-blue-700 hover:text-blue-900 font-medium"
+                >
+                  Upload your own →
+                </button>
+              </div>
+            )}
+
+            {/* Uploaded before */}
+            {flagsFor('source').length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+                <AlertCircle className="text-amber-600 flex-shrink-0 mt-0.5" size={20} />
+                <div>
+                  <p className="text-sm font-semibold text-amber-900">Uploaded Before?</p>
+                  {flagsFor('source').map((flag, index) => (
+                    <p key={index} className="text-sm text-amber-700 mt-1">{flag.message}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Confidence Warning */}
             {analysisResult.confidence < 0.5 && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 flex items-start gap-3">
@@ -206,31 +818,221 @@ function App() {
             <div className="bg-white rounded-2xl shadow-lg p-8">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-2xl font-bold text-slate-900">Your Revenue Dashboard</h3>
-                <div className="text-sm text-slate-500">
-                  Confidence: {Math.round(analysisResult.confidence * 100)}%
+                <div className="flex items-center gap-4 text-sm text-slate-500">
+                  <span>Confidence: {Math.round(analysisResult.confidence * 100)}%</span>
+                  <button onClick={() => setReviewing(true)} className="text-emerald-600 hover:text-emerald-700 font-medium">
+                    Review values
+                  </button>
                 </div>
               </div>
 
               {/* Stats */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-                <div className="bg-gradient-to-r from-emerald-500 to-blue-500 rounded-xl p-6 text-white">
-                  <p className="text-emerald-100 text-sm mb-1">Total Revenue</p>
-                  <p className="text-4xl font-bold">
-                    {formatCurrency(analysisResult.totalRevenue, analysisResult.currency)}
-                  </p>
-                </div>
+              <div className={`grid grid-cols-1 gap-6 mb-8 ${seriesSummary ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-3'}`}>
+                {revenueBreakdown ? (
+                  <div className="bg-gradient-to-r from-emerald-500 to-blue-500 rounded-xl p-6 text-white">
+                    <p className="text-emerald-100 text-sm mb-1">Net Revenue</p>
+                    <p className="text-4xl font-bold">
+                      {money(Math.round(revenueBreakdown.net), analysisResult.currency)}
+                    </p>
+                    <dl className="mt-3 text-sm text-emerald-50 space-y-0.5">
+                      <div className="flex justify-between gap-2">
+                        <dt>Gross{revenueBreakdown.grossFrom === 'template' && ` (${analysisResult.template?.name})`}</dt>
+                        <dd>{money(Math.round(revenueBreakdown.gross), analysisResult.currency)}</dd>
+                      </div>
+                      {revenueBreakdown.refunds > 0 && (
+                        <div className="flex justify-between gap-2">
+                          <dt>− Refunds</dt>
+                          <dd>{money(Math.round(revenueBreakdown.refunds), analysisResult.currency)}</dd>
+                        </div>
+                      )}
+                      {revenueBreakdown.fees > 0 && (
+                        <div className="flex justify-between gap-2">
+                          <dt>− Fees</dt>
+                          <dd>{money(Math.round(revenueBreakdown.fees), analysisResult.currency)}</dd>
+                        </div>
+                      )}
+                      <div className="flex justify-between gap-2 text-emerald-100">
+                        <dt>Total read{analysisResult.fieldSources.totalRevenue === 'corrected' && ' · edited'}</dt>
+                        <dd>{money(analysisResult.totalRevenue, analysisResult.currency)}</dd>
+                      </div>
+                    </dl>
+                    <ValueFlags flags={flagsFor('totalRevenue')} />
+                  </div>
+                ) : (
+                  <div className="bg-gradient-to-r from-emerald-500 to-blue-500 rounded-xl p-6 text-white">
+                    <p className="text-emerald-100 text-sm mb-1">
+                      Total Revenue
+                      {analysisResult.fieldSources.totalRevenue === 'corrected' && ' · edited'}
+                    </p>
+                    <p className="text-4xl font-bold">
+                      {money(analysisResult.totalRevenue, analysisResult.currency)}
+                    </p>
+                    <ValueFlags flags={flagsFor('totalRevenue')} />
+                  </div>
+                )}
                 <div className="bg-white border border-slate-200 rounded-xl p-6">
-                  <p className="text-slate-600 text-sm mb-1">This Month</p>
+                  <p className="text-slate-600 text-sm mb-1">
+                    This Month
+                    {analysisResult.breakdownSource === 'table' && ` (${analysisResult.series[analysisResult.series.length - 1].label})`}
+                    {analysisResult.fieldSources.thisMonth === 'corrected' && ' · edited'}
+                  </p>
                   <p className="text-4xl font-bold text-slate-900">
-                    {formatCurrency(analysisResult.thisMonth, analysisResult.currency)}
+                    {months.thisMonth !== null ? money(months.thisMonth, analysisResult.currency) : '–'}
                   </p>
+                  <ValueFlags flags={flagsFor('thisMonth')} />
                 </div>
+                {months.lastMonth !== null && (
+                  <div className="bg-white border border-slate-200 rounded-xl p-6">
+                    <p className="text-slate-600 text-sm mb-1">
+                      Last Month
+                      {analysisResult.breakdownSource === 'table' && ` (${analysisResult.series[analysisResult.series.length - 2].label})`}
+                      {analysisResult.fieldSources.lastMonth === 'corrected' && ' · edited'}
+                    </p>
+                    <p className="text-4xl font-bold text-slate-900">
+                      {money(months.lastMonth, analysisResult.currency)}
+                    </p>
+                    <ValueFlags flags={flagsFor('lastMonth')} />
+                  </div>
+                )}
                 <div className="bg-white border border-slate-200 rounded-xl p-6">
-                  <p className="text-slate-600 text-sm mb-1">Growth</p>
-                  <p className={`text-4xl font-bold ${analysisResult.growth >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                    {analysisResult.growth >= 0 ? '+' : ''}{analysisResult.growth}%
+                  <p className="text-slate-600 text-sm mb-1">
+                    Growth
+                    {(analysisResult.fieldSources.thisMonth === 'corrected' || analysisResult.fieldSources.lastMonth === 'corrected') && ' · from edited values'}
                   </p>
+                  {months.growth !== null ? (
+                    <p className={`text-4xl font-bold ${months.growth >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {months.growth >= 0 ? '+' : ''}{months.growth}%
+                    </p>
+                  ) : (
+                    <p className="text-4xl font-bold text-slate-400">–</p>
+                  )}
+                  <ValueFlags flags={flagsFor('growth')} />
+                </div>
+              </div>
+
+              {analysisResult.currencyBreakdown.length > 1 && (
+                <p className="text-sm text-slate-500 -mt-4 mb-8">
+                  This screenshot mixes currencies:{' '}
+                  {analysisResult.currencyBreakdown
+                    .map(share => money(share.revenue, share.currency))
+                    .join(' + ')}
+                  . Totals above are in {analysisResult.currency}.
+                </p>
+              )}
+
+              {analysisResult.template && (
+                <p className="text-sm text-slate-500 -mt-4 mb-8">
+                  Recognised as a {analysisResult.template.name} screenshot
+                  {analysisResult.template.period && ` (${analysisResult.template.period})`}
+                  {analysisResult.template.totalField && `; Total Revenue is ${TEMPLATE_FIELD_NAMES[analysisResult.template.totalField].toLowerCase()}`}.
+                </p>
+              )}
+
+              {analysisResult.reporting && (
+                <p className="text-sm text-slate-500 -mt-4 mb-8">
+                  Converted to {analysisResult.reporting.currency} at{' '}
+                  {analysisResult.reporting.totalRevenue.rate.toFixed(4)} ({analysisResult.reporting.totalRevenue.rateSource},{' '}
+                  {analysisResult.reporting.totalRevenue.rateDate}).
+                </p>
+              )}
+
+              {months.growth === null && (
+                <p className="text-sm text-slate-500 -mt-4 mb-8">
+                  This screenshot has no monthly table and no amounts labelled this and last month, so
+                  This Month, Last Month and Growth are left out. Enter them with Review values if you know them.
+                </p>
+              )}
+
+              {/* Categories and sources */}
+              {revenueBreakdown && (
+                <div className="mb-8">
+                  <RevenueBreakdownPanel
+                    breakdown={revenueBreakdown}
+                    rules={lineItemRules}
+                    format={amount => money(amount, analysisResult.currency)}
+                    onRulesChange={handleLineItemRulesChange}
+                  />
+                </div>
+              )}
+
+              {/* Monthly series: chart and comparisons */}
+              {seriesSummary && (
+                <div className="mb-8 space-y-6">
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <p className="text-slate-600 text-xs mb-1">
+                        Trailing 12 Months
+                        {seriesSummary.trailingMonthCount < 12 && ` (${seriesSummary.trailingMonthCount} in table)`}
+                      </p>
+                      <p className="text-xl font-bold text-slate-900">
+                        {money(Math.round(seriesSummary.trailingTwelveMonths), analysisResult.currency)}
+                      </p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <p className="text-slate-600 text-xs mb-1">Monthly Average</p>
+                      <p className="text-xl font-bold text-slate-900">
+                        {money(Math.round(seriesSummary.average), analysisResult.currency)}
+                      </p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <p className="text-slate-600 text-xs mb-1">Best Month ({seriesSummary.best.label})</p>
+                      <p className="text-xl font-bold text-emerald-600">
+                        {money(Math.round(seriesSummary.best.amount), analysisResult.currency)}
+                      </p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <p className="text-slate-600 text-xs mb-1">Worst Month ({seriesSummary.worst.label})</p>
+                      <p className="text-xl font-bold text-slate-900">
+                        {money(Math.round(seriesSummary.worst.amount), analysisResult.currency)}
+                      </p>
+                    </div>
+                  </div>
+                  <RevenueChart
+                    months={seriesSummary.months}
+                    average={seriesSummary.average}
+                    format={amount => money(amount, analysisResult.currency)}
+                    flagged={flagsFor('series').map(flag => flag.period ?? '')}
+                    forecast={forecast?.points}
+                  />
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <ForecastPanel
+                      forecast={forecast}
+                      model={forecastModel}
+                      recommended={recommendedModel}
+                      monthCount={analysisResult.series.length}
+                      horizon={forecastHorizon}
+                      format={amount => money(amount, analysisResult.currency)}
+                      onModelChange={setForecastModel}
+                      onHorizonChange={setForecastHorizon}
+                    />
+                    <GoalTracker
+                      targets={{ month: goalTarget('month'), year: goalTarget('year') }}
+                      currency={analysisResult.currency}
+                      progress={{ month: goalFor('month'), year: goalFor('year') }}
+                      format={amount => money(amount, analysisResult.currency)}
+                      onSetGoal={handleSetGoal}
+                    />
+                  </div>
+                  <PeriodComparisonTable
+                    months={seriesSummary.months}
+                    format={amount => money(amount, analysisResult.currency)}
+                    flags={flagsFor('series')}
+                  />
                 </div>
+              )}
+
+              <div className="mb-6">
+                <ExportButtons
+                  baseName={`${file ? file.name.replace(/\.[^.]+$/, '') : 'revenue'}-analysis`}
+                  csv={() => analysisToCsv(exportedAnalysis(analysisResult))}
+                  json={() => analysisToJson(exportedAnalysis(analysisResult), { sourceName: file?.name })}
+                  report={() => analysisReportHtml(exportedAnalysis(analysisResult), {
+                    sourceName: file?.name,
+                    imageUrl: privacy === 'strict' ? null : preview,
+                    convertTo: reportingCurrency || undefined,
+                    rateProvider,
+                  })}
+                />
               </div>
 
               {/* Analysis Details (for transparency) */}
@@ -240,11 +1042,92 @@ function App() {
                     View Analysis Details
                   </summary>
                   <div className="mt-4 space-y-2 text-slate-600 bg-slate-50 p-4 rounded-lg">
-                    <p><strong>Method:</strong> {analysisResult.analysisMethod === 'ocr' ? 'OCR Text Recognition' : 'Mock Data'}</p>
+                    <p><strong>Method:</strong> {ANALYSIS_METHOD_NAMES[analysisResult.analysisMethod]}</p>
+                    {analysisResult.ocrLanguages?.length > 0 && (
+                      <p><strong>Languages:</strong> {languageNames(analysisResult.ocrLanguages)}</p>
+                    )}
+                    {analysisResult.preprocessing?.length > 0 && (
+                      <p>
+                        <strong>Image cleanup:</strong>{' '}
+                        {analysisResult.preprocessing.map(step => `${PREPROCESSING_STEP_NAMES[step.step]} (${step.detail})`).join(' · ')}
+                      </p>
+                    )}
+                    {analysisResult.confidenceFactors.length > 0 && (
+                      <>
+                        <p><strong>Why {Math.round(analysisResult.confidence * 100)}% confidence:</strong></p>
+                        <div className="bg-white p-2 rounded border border-slate-200">
+                          <ConfidenceFactors factors={analysisResult.confidenceFactors} />
+                        </div>
+                      </>
+                    )}
+                    {analysisResult.totalRevenueFigure && (
+                      <>
+                        <p><strong>Why "{analysisResult.totalRevenueFigure.text}" became Total Revenue:</strong></p>
+                        <div className="bg-white p-2 rounded border border-slate-200">
+                          <ConfidenceFactors factors={analysisResult.totalRevenueFigure.confidenceFactors} />
+                        </div>
+                      </>
+                    )}
+                    {analysisResult.template && (
+                      <p>
+                        <strong>Platform:</strong> {analysisResult.template.name} ({Math.round(analysisResult.template.score * 100)}% match)
+                        {(Object.entries(analysisResult.template.fields) as Array<[TemplateField, number]>)
+                          .map(([field, value]) => ` · ${TEMPLATE_FIELD_NAMES[field]}: ${money(value, analysisResult.currency)}`)
+                          .join('')}
+                      </p>
+                    )}
+                    <p><strong>Number Format:</strong> {NUMBER_LOCALES.find(locale => locale.value === analysisResult.numberLocale)?.label}</p>
                     <p><strong>Numbers Detected:</strong> {analysisResult.detectedNumbers.join(', ')}</p>
-                    <p><strong>Currency:</strong> {analysisResult.currency}</p>
+                    <p><strong>Currency:</strong> {analysisResult.currency} — {analysisResult.currencyExplanation}</p>
+                    {analysisResult.currencyBreakdown.length > 1 && (
+                      <p>
+                        <strong>Currencies on this screenshot:</strong>{' '}
+                        {analysisResult.currencyBreakdown
+                          .map(share => `${share.currency} (${share.figureCount} ${share.figureCount === 1 ? 'amount' : 'amounts'})`)
+                          .join(', ')}
+                      </p>
+                    )}
+                    <p><strong>Breakdown:</strong> {BREAKDOWN_SOURCE_NAMES[analysisResult.breakdownSource]}</p>
+                    {analysisResult.series.length > 0 && (
+                      <p>
+                        <strong>Monthly Series:</strong>{' '}
+                        {analysisResult.series
+                          .map(period => `${period.label}: ${money(period.amount, analysisResult.currency)}`)
+                          .join(', ')}
+                      </p>
+                    )}
+                    {analysisResult.figures.length > 0 && (
+                      <>
+                        <p><strong>Labelled Figures:</strong></p>
+                        <ul className="text-xs bg-white p-2 rounded border border-slate-200 space-y-1">
+                          {analysisResult.figures.map((figure, index) => (
+                            <li
+                              key={index}
+                              className={figure === analysisResult.totalRevenueFigure ? 'font-semibold text-emerald-700' : ''}
+                            >
+                              <details>
+                                <summary className="cursor-pointer">
+                                  {figure.label || <em>(no label)</em>} → {figure.text}
+                                  {figure.currency && ` [${figure.currency}, ${Math.round(figure.currencyConfidence * 100)}%]`}
+                                  <span className="text-slate-400">
+                                    {' '}({figure.labelPosition}, at {figure.bbox.x0},{figure.bbox.y0}) · score {Math.round(figure.confidence * 100)}%
+                                  </span>
+                                  {figure === analysisResult.totalRevenueFigure && ' ← used as Total Revenue'}
+                                </summary>
+                                <div className="mt-1 ml-4 font-normal text-slate-600">
+                                  <ConfidenceFactors factors={figure.confidenceFactors} />
+                                </div>
+                              </details>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                    {analysisResult.redactions?.length > 0 && (
+                      <p><strong>Masked:</strong> {describeRedactions(analysisResult.redactions)}</p>
+                    )}
                     <p><strong>Raw Text (first 200 chars):</strong></p>
-                    <p className="text-xs bg-white p-2 rounded border border-slate-200 font-mono">
+                    <p dir="auto" className="text-xs bg-white p-2 rounded border border-slate-200 font-mono">
                       {analysisResult.rawText.substring(0, 200)}...
                     </p>
                   </div>
@@ -252,10 +1135,15 @@ function App() {
               </div>
 
               {/* Original Screenshot */}
-              <div className="border-t border-slate-200 pt-6">
-                <p className="text-sm text-slate-600 mb-3">Based on your screenshot:</p>
-                <img src={preview || ''} alt="Original" className="w-full rounded-lg opacity-50" />
-              </div>
+              {preview && (
+                <div className="border-t border-slate-200 pt-6">
+                  <p className="text-sm text-slate-600 mb-3">Based on your screenshot:</p>
+                  <img src={preview} alt="Original" className="w-full rounded-lg opacity-50" />
+                </div>
+              )}
+              {savedAnalysisId && (
+                <p className="text-xs text-slate-400 mt-4">Saved to your history.</p>
+              )}
             </div>
 
             {/* CTA */}
@@ -283,12 +1171,7 @@ function App() {
 
             {/* Try Another */}
             <button
-              onClick={() => {
-                setShowDashboard(false)
-                setAnalysisResult(null)
-                setFile(null)
-                setPreview(null)
-              }}
+              onClick={handleStartOver}
               className="w-full px-6 py-3 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors font-semibold"
             >
               ← Analyze Another Screenshot
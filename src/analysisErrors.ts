@@ -0,0 +1,60 @@
+/**
+ * Typed analysis failures
+ *
+ * Every way an analysis can fail has its own kind, so the dashboard can
+ * tell the user what went wrong and what to try next instead of showing
+ * made-up numbers.
+ */
+
+export type AnalysisErrorKind =
+  | 'unsupported-file'  // Not an image, PDF or CSV we can read, or a corrupt one
+  | 'image-too-small'   // Too few pixels for OCR to read digits
+  | 'ocr-failed'        // OCR ran but found no text, or threw while reading
+  | 'no-numbers'        // Text was found but no amounts in it
+  | 'worker-crashed'    // The OCR worker couldn't start or died
+  | 'cancelled'         // The user stopped the analysis
+  | 'unexpected';       // A bug in the pipeline itself
+
+export interface AnalysisError {
+  kind: AnalysisErrorKind;
+  message: string;        // One sentence for the user
+  detail: string | null;  // Technical detail (file type, size, original error)
+}
+
+// Either a value or the reason there isn't one
+export type Outcome<T> =
+  | { ok: true, value: T }
+  | { ok: false, error: AnalysisError };
+
+const MESSAGES: { [kind in AnalysisErrorKind]: string } = {
+  'unsupported-file': "This file isn't an image, PDF or CSV we can read.",
+  'image-too-small': 'This image is too small to read the numbers in it.',
+  'ocr-failed': "We couldn't read any text in this screenshot.",
+  'no-numbers': 'We read the text but found no amounts in it.',
+  'worker-crashed': 'The text recognition engine stopped unexpectedly.',
+  'cancelled': 'Analysis cancelled.',
+  'unexpected': 'Something went wrong while analysing this screenshot.',
+};
+
+/**
+ * Build an error of the given kind
+ *
+ * @param kind - What went wrong
+ * @param detail - Technical detail, or the caught error
+ * @returns AnalysisError - With the standard user-facing message
+ */
+export function analysisError(kind: AnalysisErrorKind, detail: unknown = null): AnalysisError {
+  return {
+    kind,
+    message: MESSAGES[kind],
+    detail: detail instanceof Error ? detail.message : detail === null ? null : String(detail),
+  };
+}
+
+export function failure<T>(kind: AnalysisErrorKind, detail: unknown = null): Outcome<T> {
+  return { ok: false, error: analysisError(kind, detail) };
+}
+
+export function success<T>(value: T): Outcome<T> {
+  return { ok: true, value };
+}
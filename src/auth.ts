@@ -0,0 +1,86 @@
+/**
+ * Supabase Auth: sign-in methods and the session hook
+ *
+ * Analyses and screenshots are private to the signed-in user; the RLS
+ * policies in supabase/migrations enforce that on the server. Sign-in is
+ * by email magic link or email + password.
+ */
+
+import { useEffect, useState } from 'react';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+
+export type SessionState =
+  | { status: 'loading' }
+  | { status: 'signed-out' }
+  | { status: 'signed-in', session: Session };
+
+/**
+ * Track the current session
+ *
+ * Starts as 'loading' until Supabase has restored any stored session
+ * (including one arriving from a magic link), then follows sign-in,
+ * sign-out and token refreshes.
+ *
+ * @param client - Supabase client (see supabase.ts)
+ * @returns SessionState
+ */
+export function useSession(client: SupabaseClient): SessionState {
+  const [state, setState] = useState<SessionState>({ status: 'loading' });
+
+  useEffect(() => {
+    const toState = (session: Session | null): SessionState =>
+      session ? { status: 'signed-in', session } : { status: 'signed-out' };
+
+    client.auth.getSession().then(({ data }) => setState(toState(data.session)));
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => setState(toState(session)));
+    return () => subscription.unsubscribe();
+  }, [client]);
+
+  return state;
+}
+
+/**
+ * Email a one-time sign-in link
+ *
+ * New addresses get an account on first sign-in.
+ *
+ * @throws Error when Supabase refuses (rate limit, invalid address)
+ */
+export async function sendMagicLink(client: SupabaseClient, email: string): Promise<void> {
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Sign in with email and password
+ *
+ * @throws Error on wrong credentials or an unconfirmed address
+ */
+export async function signInWithPassword(client: SupabaseClient, email: string, password: string): Promise<void> {
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Create an account with email and password
+ *
+ * @returns boolean - true when the address still has to be confirmed by email
+ * @throws Error when the address is taken or the password too weak
+ */
+export async function signUpWithPassword(client: SupabaseClient, email: string, password: string): Promise<boolean> {
+  const { data, error } = await client.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw new Error(error.message);
+  return data.session === null;
+}
+
+export async function signOut(client: SupabaseClient): Promise<void> {
+  const { error } = await client.auth.signOut();
+  if (error) throw new Error(error.message);
+}
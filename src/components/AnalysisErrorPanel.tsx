@@ -0,0 +1,101 @@
+import { AlertCircle } from 'lucide-react'
+import type { AnalysisError, AnalysisErrorKind } from '../analysisErrors'
+
+// What to try next for each kind of failure
+const RECOVERY: { [kind in AnalysisErrorKind]: { title: string, steps: string[] } } = {
+  'unsupported-file': {
+    title: 'Unsupported file',
+    steps: [
+      'Upload a PNG, JPEG, WebP or BMP screenshot, a PDF statement or a CSV export.',
+      'Password-protected PDFs have to be unlocked first.',
+      'For Excel workbooks, save the sheet as CSV.',
+    ],
+  },
+  'image-too-small': {
+    title: 'Image too small',
+    steps: [
+      'Upload the original screenshot rather than a thumbnail or preview.',
+      'Zoom the page in before taking the screenshot so the numbers are larger.',
+    ],
+  },
+  'ocr-failed': {
+    title: 'No readable text',
+    steps: [
+      'Make sure the numbers are sharp and not cut off at the edges.',
+      'Avoid photos of screens; use a direct screenshot.',
+      'Dark mode dashboards read better after switching to a light theme.',
+    ],
+  },
+  'no-numbers': {
+    title: 'No amounts found',
+    steps: [
+      'Check the screenshot shows the revenue figures, not just menus or charts.',
+      'If the amounts use a different number format, pick it under "Number format" and try again.',
+    ],
+  },
+  'worker-crashed': {
+    title: 'Text recognition stopped',
+    steps: [
+      'Reload the page and try again.',
+      'Close other heavy tabs; the recognition engine needs some free memory.',
+    ],
+  },
+  'cancelled': {
+    title: 'Analysis cancelled',
+    steps: [
+      'Generate the dashboard again when you are ready.',
+    ],
+  },
+  'unexpected': {
+    title: 'Analysis failed',
+    steps: [
+      'Try again, or with a different screenshot.',
+      'If it keeps happening, the technical detail below helps us fix it.',
+    ],
+  },
+}
+
+/**
+ * Explains why an analysis failed and what to try next
+ */
+function AnalysisErrorPanel({ error, onRetry, onTrySample }: {
+  error: AnalysisError
+  onRetry: () => void
+  onTrySample: () => void
+}) {
+  const recovery = RECOVERY[error.kind]
+
+  return (
+    <div className="mt-8 bg-red-50 border border-red-200 rounded-2xl p-6">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+        <div className="flex-1">
+          <p className="font-semibold text-red-900">{recovery.title}</p>
+          <p className="text-sm text-red-800 mt-1">{error.message}</p>
+          <ul className="mt-3 list-disc list-inside text-sm text-red-800 space-y-1">
+            {recovery.steps.map(step => <li key={step}>{step}</li>)}
+          </ul>
+          {error.detail && (
+            <p className="mt-3 text-xs text-red-700 font-mono">{error.detail}</p>
+          )}
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={onRetry}
+              className="px-4 py-2 bg-white border border-red-300 text-red-800 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium"
+            >
+              Upload a different screenshot
+            </button>
+            <button
+              onClick={onTrySample}
+              className="px-4 py-2 text-red-800 hover:text-red-900 text-sm font-medium"
+            >
+              Try with sample data
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AnalysisErrorPanel
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react'
+import type { AnalysisStore, AnalysisSummary } from '../storage'
+import { formatCurrency } from '../revenueAnalyzer'
+
+/**
+ * List of past analyses, newest first, each with an Open button
+ */
+function AnalysisHistory({ store, onOpen, onClose }: {
+  store: AnalysisStore
+  onOpen: (id: string) => void
+  onClose: () => void
+}) {
+  const [entries, setEntries] = useState<AnalysisSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    store.list()
+      .then(list => { if (!cancelled) setEntries(list) })
+      .catch((err: unknown) => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)) })
+    return () => { cancelled = true }
+  }, [store])
+
+  const handleDelete = async (id: string) => {
+    try {
+      await store.remove(id)
+      setEntries(current => current?.filter(entry => entry.id !== id) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-slate-900">Your Analyses</h3>
+        <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-900">
+          Close
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+      {!entries && !error && <p className="text-sm text-slate-500">Loading…</p>}
+      {entries && entries.length === 0 && (
+        <p className="text-sm text-slate-500">No saved analyses yet. Analyze a screenshot and it will appear here.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ul className="divide-y divide-slate-200">
+          {entries.map(entry => (
+            <li key={entry.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 truncate">{entry.sourceName}</p>
+                <p className="text-xs text-slate-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.templateId && ` · ${entry.templateId}`}
+                  {entry.analysisMethod === 'sample' && ' · sample'}
+                  {entry.analysisMethod === 'pdf-text' && ' · PDF'}
+                  {entry.analysisMethod === 'csv' && ' · CSV'}
+                  {entry.corrected && ' · corrected'}
+                </p>
+              </div>
+              <div className="flex items-center gap-4 flex-shrink-0">
+                <span className="font-semibold text-slate-900">{formatCurrency(entry.totalRevenue, entry.currency)}</span>
+                <button
+                  onClick={() => onOpen(entry.id)}
+                  className="text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="text-sm text-slate-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default AnalysisHistory
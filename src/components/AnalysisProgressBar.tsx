@@ -0,0 +1,30 @@
+import type { AnalysisProgress } from '../revenueAnalyzer'
+
+const STAGE_LABELS: { [stage in AnalysisProgress['stage']]: string } = {
+  checking: 'Checking image',
+  preparing: 'Cleaning up image',
+  queued: 'Waiting for a free worker',
+  loading: 'Loading OCR engine',
+  recognizing: 'Reading text',
+  analyzing: 'Finding revenue',
+}
+
+/**
+ * Progress of one analysis: current stage and how far along it is
+ */
+function AnalysisProgressBar({ progress, compact = false }: { progress: AnalysisProgress, compact?: boolean }) {
+  const percent = Math.round(progress.progress * 100)
+
+  return (
+    <span className={`flex items-center gap-2 ${compact ? '' : 'w-full'}`}>
+      <span className={`${compact ? 'w-24' : 'flex-1'} h-2 bg-slate-200 rounded-full overflow-hidden inline-block`}>
+        <span className="block h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+      </span>
+      <span className="text-xs text-slate-500 whitespace-nowrap">
+        {STAGE_LABELS[progress.stage]}{progress.stage === 'recognizing' || progress.stage === 'loading' ? ` ${percent}%` : ''}
+      </span>
+    </span>
+  )
+}
+
+export default AnalysisProgressBar
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { knownBreakdown } from '../revenueAnalyzer'
+import type { RevenueAnalysis } from '../revenueAnalyzer'
+import type { LabelledFigure } from '../layoutExtractor'
+import { CORRECTABLE_FIELDS, applyCorrections } from '../corrections'
+import type { AnalysisCorrections, CorrectableField } from '../corrections'
+
+const FIELD_LABELS: { [field in CorrectableField]: string } = {
+  totalRevenue: 'Total Revenue',
+  thisMonth: 'This Month',
+  lastMonth: 'Last Month',
+}
+
+// Box and badge colours per field (Tailwind classes)
+const FIELD_COLORS: { [field in CorrectableField]: { box: string, badge: string } } = {
+  totalRevenue: { box: 'border-emerald-500 bg-emerald-500/20', badge: 'bg-emerald-500' },
+  thisMonth: { box: 'border-blue-500 bg-blue-500/20', badge: 'bg-blue-500' },
+  lastMonth: { box: 'border-amber-500 bg-amber-500/20', badge: 'bg-amber-500' },
+}
+
+/**
+ * Review step between analysis and dashboard
+ *
+ * Draws a box over every amount found on the screenshot. Pick a field,
+ * then click a box to assign its amount, or type a value directly.
+ * Without an image (e.g. the sample), amounts are listed as buttons.
+ */
+function AnalysisReview({ analysis, image, initialCorrections, onConfirm, onCancel }: {
+  analysis: RevenueAnalysis
+  image: string | null
+  initialCorrections: AnalysisCorrections
+  onConfirm: (corrections: AnalysisCorrections) => void
+  onCancel: () => void
+}) {
+  const [corrections, setCorrections] = useState<AnalysisCorrections>(initialCorrections)
+  const [activeField, setActiveField] = useState<CorrectableField>('totalRevenue')
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null)
+  // Text being typed, kept until the input loses focus
+  const [drafts, setDrafts] = useState<{ [field in CorrectableField]?: string }>({})
+  // Which figure each field was assigned from, for highlighting
+  const [assigned, setAssigned] = useState<{ [field in CorrectableField]?: LabelledFigure }>(() => {
+    const total = analysis.totalRevenueFigure
+    if (!total || initialCorrections.totalRevenue !== undefined) return {}
+    return { totalRevenue: analysis.figures.find(f => f.bbox.x0 === total.bbox.x0 && f.bbox.y0 === total.bbox.y0) }
+  })
+
+  const current = applyCorrections(analysis, corrections)
+  // Months the source didn't give stay empty rather than 0
+  const known = { totalRevenue: current.totalRevenue, ...knownBreakdown(current) }
+  const extracted = { totalRevenue: analysis.totalRevenue, ...knownBreakdown(analysis) }
+
+  const setField = (field: CorrectableField, value: number | undefined, figure?: LabelledFigure) => {
+    setCorrections(previous => ({ ...previous, [field]: value }))
+    setAssigned(previous => ({ ...previous, [field]: figure }))
+  }
+
+  const assignFigure = (figure: LabelledFigure) => {
+    setField(activeField, figure.value, figure)
+    // Move on to the next field, the usual order of review
+    const next = CORRECTABLE_FIELDS[CORRECTABLE_FIELDS.indexOf(activeField) + 1]
+    if (next) setActiveField(next)
+  }
+
+  const fieldsFor = (figure: LabelledFigure) =>
+    CORRECTABLE_FIELDS.filter(field => assigned[field] === figure)
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-lg p-6">
+      <h3 className="text-xl font-semibold text-slate-900 mb-1">Check the numbers</h3>
+      <p className="text-sm text-slate-600 mb-4">
+        Choose a field, then click the amount on the screenshot that belongs to it, or type the value.
+      </p>
+
+      {/* Fields */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {CORRECTABLE_FIELDS.map(field => (
+          <div
+            key={field}
+            onClick={() => setActiveField(field)}
+            className={`rounded-lg border-2 p-3 cursor-pointer ${activeField === field ? FIELD_COLORS[field].box : 'border-slate-200'}`}
+          >
+            <div className="flex items-center justify-between text-sm text-slate-600">
+              <span>{FIELD_LABELS[field]}</span>
+              {current.fieldSources[field] === 'corrected' && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); setField(field, undefined) }}
+                  className="text-xs text-slate-400 hover:text-slate-700"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+            <input
+              type="number"
+              step="any"
+              value={drafts[field] ?? known[field] ?? ''}
+              placeholder="Not on the page"
+              onFocus={() => setActiveField(field)}
+              onChange={(e) => {
+                const text = e.target.value
+                setDrafts(previous => ({ ...previous, [field]: text }))
+                if (text !== '' && !isNaN(Number(text))) setField(field, Number(text))
+              }}
+              onBlur={() => setDrafts(previous => ({ ...previous, [field]: undefined }))}
+              className="mt-1 w-full px-2 py-1 rounded border border-slate-300 text-lg font-semibold text-slate-900"
+            />
+            <p className="text-xs text-slate-400 mt-1">
+              {current.fieldSources[field] === 'corrected'
+                ? `Extracted: ${extracted[field]?.toLocaleString() ?? 'nothing'}`
+                : extracted[field] === null ? 'Not extracted' : 'Extracted'}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Growth: {known.growth === null ? '–' : `${known.growth >= 0 ? '+' : ''}${known.growth}%`}
+      </p>
+
+      {/* Candidate amounts */}
+      {image ? (
+        <div className="relative">
+          <img
+            src={image}
+            alt="Screenshot under review"
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="w-full rounded-lg border border-slate-200"
+          />
+          {imageSize && analysis.figures.map((figure, index) => {
+            const fields = fieldsFor(figure)
+            return (
+              <button
+                key={index}
+                onClick={() => assignFigure(figure)}
+                title={`${figure.label || 'Unlabelled'}: ${figure.text}`}
+                className={`absolute border-2 rounded-sm ${fields.length > 0 ? FIELD_COLORS[fields[0]].box : 'border-slate-400/70 hover:border-slate-700 hover:bg-slate-500/10'}`}
+                style={{
+                  left: `${(figure.bbox.x0 / imageSize.width) * 100}%`,
+                  top: `${(figure.bbox.y0 / imageSize.height) * 100}%`,
+                  width: `${((figure.bbox.x1 - figure.bbox.x0) / imageSize.width) * 100}%`,
+                  height: `${((figure.bbox.y1 - figure.bbox.y0) / imageSize.height) * 100}%`,
+                }}
+              >
+                {fields.map(field => (
+                  <span
+                    key={field}
+                    className={`absolute -top-5 left-0 px-1 rounded text-[10px] text-white whitespace-nowrap ${FIELD_COLORS[field].badge}`}
+                  >
+                    {FIELD_LABELS[field]}
+                  </span>
+                ))}
+              </button>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {analysis.figures.map((figure, index) => {
+            const fields = fieldsFor(figure)
+            return (
+              <button
+                key={index}
+                onClick={() => assignFigure(figure)}
+                className={`px-3 py-1 rounded-lg border-2 text-sm ${fields.length > 0 ? FIELD_COLORS[fields[0]].box : 'border-slate-200 hover:border-slate-400'}`}
+              >
+                <span className="text-slate-500">{figure.label || 'Unlabelled'}:</span> {figure.text}
+              </button>
+            )
+          })}
+        </div>
+      )}
+      {analysis.figures.length === 0 && (
+        <p className="text-sm text-slate-500">No individual amounts were located; type the values above.</p>
+      )}
+
+      <div className="mt-6 flex gap-3">
+        <button
+          onClick={() => onConfirm(corrections)}
+          className="flex-1 px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold"
+        >
+          Looks right → Show Dashboard
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors font-semibold"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default AnalysisReview
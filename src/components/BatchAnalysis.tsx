@@ -0,0 +1,153 @@
+import { useRef, useState } from 'react'
+import { formatCurrency } from '../revenueAnalyzer'
+import { analyzeFile } from '../importers'
+import type { AnalysisOptions, AnalysisProgress, RevenueAnalysis } from '../revenueAnalyzer'
+import { analysisError } from '../analysisErrors'
+import type { AnalysisError } from '../analysisErrors'
+import { runQueue } from '../taskQueue'
+import { mergeTimeline } from '../timeline'
+import TimelineTable from './TimelineTable'
+import AnalysisProgressBar from './AnalysisProgressBar'
+import ExportButtons from './ExportButtons'
+import { timelineToCsv, timelineToJson } from '../export'
+import { fileHash } from '../validation'
+
+// OCR is CPU-heavy; two at a time keeps the page responsive
+const BATCH_CONCURRENCY = 2
+
+type FileStatus =
+  | { state: 'queued' }
+  | { state: 'analyzing', progress: AnalysisProgress }
+  | { state: 'done', analysis: RevenueAnalysis }
+  | { state: 'failed', error: AnalysisError }
+  | { state: 'duplicate', of: string }  // Same bytes as an earlier file in the batch
+
+/**
+ * Analyze several screenshots, PDFs or CSVs and merge them into one timeline
+ *
+ * A file added twice is analysed once; the copy is listed as skipped.
+ */
+function BatchAnalysis({ files, options, onAnalyzed, onDone }: {
+  files: File[]
+  options: AnalysisOptions
+  onAnalyzed: (file: File, analysis: RevenueAnalysis, sourceHash: string | null) => void  // e.g. save to history
+  onDone: () => void
+}) {
+  const [statuses, setStatuses] = useState<FileStatus[]>(() => files.map(() => ({ state: 'queued' })))
+  const [running, setRunning] = useState(false)
+  const controller = useRef<AbortController | null>(null)
+
+  const setStatus = (index: number, status: FileStatus) =>
+    setStatuses(previous => previous.map((s, i) => i === index ? status : s))
+
+  const handleAnalyzeAll = async () => {
+    setRunning(true)
+    controller.current = new AbortController()
+    const signal = controller.current.signal
+    try {
+      // A file that can't be hashed is still analysed, just never skipped as a copy
+      const hashes = await Promise.all(files.map(file => fileHash(file).catch(() => null)))
+      const results = await runQueue(files, BATCH_CONCURRENCY, async (file, index) => {
+        const first = hashes[index] === null ? index : hashes.indexOf(hashes[index])
+        if (first < index) {
+          setStatus(index, { state: 'duplicate', of: files[first].name })
+          return
+        }
+        setStatus(index, { state: 'analyzing', progress: { stage: 'checking', progress: 0 } })
+        const outcome = await analyzeFile(file, {
+          ...options,
+          signal,
+          onProgress: progress => setStatus(index, { state: 'analyzing', progress }),
+        })
+        if (outcome.ok) {
+          setStatus(index, { state: 'done', analysis: outcome.value })
+          onAnalyzed(file, outcome.value, hashes[index])
+        } else {
+          setStatus(index, { state: 'failed', error: outcome.error })
+        }
+      })
+      // analyzeFile reports its own failures; anything thrown is a bug
+      results.forEach((result, index) => {
+        if (!result.ok) setStatus(index, { state: 'failed', error: analysisError('unexpected', result.error) })
+      })
+    } finally {
+      setRunning(false)
+      controller.current = null
+    }
+  }
+
+  const sources = statuses.flatMap((status, index) =>
+    status.state === 'done' ? [{ id: String(index), name: files[index].name, analysis: status.analysis }] : []
+  )
+  const finished = statuses.every(status => status.state === 'done' || status.state === 'failed' || status.state === 'duplicate')
+  const timeline = finished && sources.length > 0
+    ? mergeTimeline(sources, options.reportingCurrency, options.rateProvider)
+    : null
+
+  return (
+    <div className="mt-8 space-y-6">
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-slate-900">{files.length} screenshots</h3>
+          <button onClick={onDone} disabled={running} className="text-sm text-slate-500 hover:text-slate-900 disabled:opacity-50">
+            Done
+          </button>
+        </div>
+
+        <ul className="divide-y divide-slate-200">
+          {files.map((file, index) => {
+            const status = statuses[index]
+            return (
+              <li key={`${file.name}-${index}`} className="py-3 flex items-center justify-between gap-4 text-sm">
+                <span className="truncate text-slate-900">{file.name}</span>
+                <span className="flex-shrink-0 text-slate-500">
+                  {status.state === 'queued' && 'Queued'}
+                  {status.state === 'analyzing' && <AnalysisProgressBar progress={status.progress} compact />}
+                  {status.state === 'done' && (
+                    <span className="text-slate-900">
+                      {formatCurrency(status.analysis.totalRevenue, status.analysis.currency)}
+                      {status.analysis.template && ` · ${status.analysis.template.name}`}
+                      {status.analysis.series.length > 0 && ` · ${status.analysis.series.length} months`}
+                    </span>
+                  )}
+                  {status.state === 'failed' && <span className="text-red-600">{status.error.message}</span>}
+                  {status.state === 'duplicate' && <span className="text-amber-700">Same file as {status.of}; skipped</span>}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+
+        {!finished && !running && (
+          <button
+            onClick={handleAnalyzeAll}
+            className="mt-4 px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold w-full"
+          >
+            Analyze All →
+          </button>
+        )}
+        {running && (
+          <button
+            onClick={() => controller.current?.abort()}
+            className="mt-4 px-6 py-3 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors font-semibold w-full"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {timeline && (
+        <>
+          <TimelineTable timeline={timeline} />
+          <ExportButtons
+            baseName="revenue-timeline"
+            csv={() => timelineToCsv(timeline)}
+            json={() => timelineToJson(timeline)}
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+export default BatchAnalysis
@@ -0,0 +1,38 @@
+import type { ConfidenceFactor } from '../confidenceModel'
+
+// Readable names for each factor of the confidence model
+const FACTOR_NAMES: { [key in ConfidenceFactor['name']]: string } = {
+  'base': 'Base',
+  'ocr': 'OCR quality',
+  'label-position': 'Label position',
+  'keywords': 'Label keywords',
+  'currency': 'Currency symbol',
+  'magnitude': 'Plausible size',
+  'margin': 'Lead over runner-up',
+  'template': 'Platform template',
+  'table': 'Monthly table',
+  'source': 'Imported file',
+}
+
+/**
+ * Table of confidence factors: what each one added or took away, and why
+ */
+function ConfidenceFactors({ factors }: { factors: ConfidenceFactor[] }) {
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {factors.map((factor, index) => (
+          <tr key={index} className="align-top">
+            <td className="pr-2 py-0.5 whitespace-nowrap text-slate-500">{FACTOR_NAMES[factor.name]}</td>
+            <td className={`pr-2 py-0.5 whitespace-nowrap font-mono ${factor.contribution < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+              {factor.contribution >= 0 ? '+' : ''}{Math.round(factor.contribution * 100)}
+            </td>
+            <td className="py-0.5">{factor.detail}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default ConfidenceFactors
@@ -0,0 +1,110 @@
+import { useRef, useState } from 'react'
+import type { PixelRegion } from '../preprocessing'
+
+// Drags smaller than this (in screen pixels) are clicks, not selections
+const MIN_DRAG = 8
+
+/**
+ * Screenshot preview where the user can drag out the region to read
+ *
+ * The region is reported in the image's own pixels, whatever size it is
+ * shown at.
+ */
+function CropSelector({ src, region, onChange }: {
+  src: string
+  region: PixelRegion | null
+  onChange: (region: PixelRegion | null) => void
+}) {
+  const image = useRef<HTMLImageElement>(null)
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null)
+  const [drag, setDrag] = useState<{ x0: number, y0: number, x1: number, y1: number } | null>(null)
+
+  // Pointer position as a fraction of the displayed image, clamped to it
+  const relative = (e: React.PointerEvent) => {
+    const rect = (image.current ?? e.currentTarget).getBoundingClientRect()
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!imageSize) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const { x, y } = relative(e)
+    setDrag({ x0: x, y0: y, x1: x, y1: y })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const { x, y } = relative(e)
+    setDrag({ ...drag, x1: x, y1: y })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag || !imageSize || !image.current) return
+    setDrag(null)
+    const shown = image.current.getBoundingClientRect()
+    const tooSmall = Math.abs(drag.x1 - drag.x0) * shown.width < MIN_DRAG
+      || Math.abs(drag.y1 - drag.y0) * shown.height < MIN_DRAG
+    if (tooSmall) return
+    onChange({
+      x: Math.round(Math.min(drag.x0, drag.x1) * imageSize.width),
+      y: Math.round(Math.min(drag.y0, drag.y1) * imageSize.height),
+      width: Math.round(Math.abs(drag.x1 - drag.x0) * imageSize.width),
+      height: Math.round(Math.abs(drag.y1 - drag.y0) * imageSize.height),
+    })
+  }
+
+  // What to outline: the drag in progress, or the chosen region
+  const outline = drag
+    ? { left: Math.min(drag.x0, drag.x1), top: Math.min(drag.y0, drag.y1), width: Math.abs(drag.x1 - drag.x0), height: Math.abs(drag.y1 - drag.y0) }
+    : region && imageSize
+      ? { left: region.x / imageSize.width, top: region.y / imageSize.height, width: region.width / imageSize.width, height: region.height / imageSize.height }
+      : null
+
+  return (
+    <div>
+      <div
+        className="relative select-none cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <img
+          ref={image}
+          src={src}
+          alt="Preview"
+          draggable={false}
+          onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="w-full rounded-lg border border-slate-200"
+        />
+        {outline && (
+          <div
+            className="absolute border-2 border-emerald-500 bg-emerald-500/10 rounded-sm pointer-events-none"
+            style={{
+              left: `${outline.left * 100}%`,
+              top: `${outline.top * 100}%`,
+              width: `${outline.width * 100}%`,
+              height: `${outline.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-slate-500">
+        <span>
+          {region
+            ? `Reading only the selected ${region.width}×${region.height} px region`
+            : 'Drag over the screenshot to read only part of it'}
+        </span>
+        {region && (
+          <button onClick={() => onChange(null)} className="text-emerald-600 hover:text-emerald-700 font-medium">
+            Read the whole screenshot
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CropSelector
@@ -0,0 +1,59 @@
+import { Download, Printer } from 'lucide-react'
+
+function download(fileName: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Print from a hidden frame so the report, not the app, ends up in the PDF
+function print(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.display = 'none'
+  frame.srcdoc = html
+  frame.onload = () => {
+    frame.contentWindow?.print()
+    setTimeout(() => frame.remove(), 1000)
+  }
+  document.body.appendChild(frame)
+}
+
+/**
+ * Download buttons for CSV, JSON and (when given) the HTML report
+ *
+ * Content is only built when a button is clicked.
+ */
+function ExportButtons({ baseName, csv, json, report }: {
+  baseName: string  // File name without extension
+  csv: () => string
+  json: () => string
+  report?: () => string
+}) {
+  const button = 'inline-flex items-center gap-1 text-emerald-600 hover:text-emerald-700 font-medium'
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm">
+      <span className="text-slate-500">Export:</span>
+      <button onClick={() => download(`${baseName}.csv`, 'text/csv', csv())} className={button}>
+        <Download size={14} /> CSV
+      </button>
+      <button onClick={() => download(`${baseName}.json`, 'application/json', json())} className={button}>
+        <Download size={14} /> JSON
+      </button>
+      {report && (
+        <>
+          <button onClick={() => download(`${baseName}.html`, 'text/html', report())} className={button}>
+            <Download size={14} /> Report
+          </button>
+          <button onClick={() => print(report())} className={button}>
+            <Printer size={14} /> Print / PDF
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ExportButtons
@@ -0,0 +1,80 @@
+import { ChartLine } from 'lucide-react'
+import { FORECAST_HORIZONS, FORECAST_MODELS } from '../forecast'
+import type { Forecast, ForecastModel } from '../forecast'
+
+/**
+ * Forecast settings and the projected months
+ *
+ * The model list says how many months each one needs; the recommended
+ * one is what "Best fit" picks (see recommendModel).
+ */
+function ForecastPanel({ forecast, model, recommended, monthCount, horizon, format, onModelChange, onHorizonChange }: {
+  forecast: Forecast | null
+  model: ForecastModel | null  // null: use the recommended model
+  recommended: ForecastModel | null
+  monthCount: number
+  horizon: number
+  format: (amount: number) => string
+  onModelChange: (model: ForecastModel | null) => void
+  onHorizonChange: (horizon: number) => void
+}) {
+  const described = FORECAST_MODELS.find(choice => choice.value === (model ?? recommended))
+  const total = forecast?.points.reduce((sum, point) => sum + point.amount, 0) ?? 0
+
+  return (
+    <div className="border border-slate-200 rounded-xl p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className="flex items-center gap-2 font-semibold text-slate-900">
+          <ChartLine className="text-sky-500" size={18} />
+          Forecast
+        </h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={model ?? ''}
+            onChange={(e) => onModelChange(e.target.value ? e.target.value as ForecastModel : null)}
+            className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+          >
+            <option value="">
+              Best fit{recommended && ` (${FORECAST_MODELS.find(choice => choice.value === recommended)?.label.toLowerCase()})`}
+            </option>
+            {FORECAST_MODELS.map(choice => (
+              <option key={choice.value} value={choice.value} disabled={monthCount < choice.minMonths}>
+                {choice.label}{monthCount < choice.minMonths && ` (needs ${choice.minMonths} months)`}
+              </option>
+            ))}
+          </select>
+          <select
+            value={horizon}
+            onChange={(e) => onHorizonChange(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+          >
+            {FORECAST_HORIZONS.map(months => (
+              <option key={months} value={months}>Next {months} months</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {forecast ? (
+        <>
+          <p className="text-slate-600">
+            {described?.description} Fitted on {forecast.basedOn} months; shaded bars on the chart are projections,
+            and the line through each is the range 8 in 10 outcomes fall in if revenue varies as it has.
+          </p>
+          <p className="mt-2 text-slate-900">
+            Next {forecast.points.length} months: <strong>{format(Math.round(total))}</strong>
+            {' '}({forecast.points[0].label} – {forecast.points[forecast.points.length - 1].label})
+          </p>
+        </>
+      ) : (
+        <p className="text-slate-500">
+          {recommended
+            ? 'This model needs twelve months in a row before the forecast starts.'
+            : `A forecast needs at least ${Math.min(...FORECAST_MODELS.map(choice => choice.minMonths))} months in the table.`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default ForecastPanel
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Target } from 'lucide-react'
+import { GOAL_PERIOD_NAMES } from '../goals'
+import type { GoalPeriod, GoalProgress } from '../goals'
+
+function GoalRow({ period, target, currency, progress, format, onSet }: {
+  period: GoalPeriod
+  target: number | null
+  currency: string
+  progress: GoalProgress | null
+  format: (amount: number) => string
+  onSet: (amount: number | null) => void
+}) {
+  const [draft, setDraft] = useState(target === null ? '' : String(Math.round(target)))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(draft)
+    onSet(draft.trim() && amount > 0 ? amount : null)
+  }
+
+  return (
+    <div>
+      <form onSubmit={handleSubmit} className="flex items-center justify-between gap-3">
+        <label htmlFor={`goal-${period}`} className="text-slate-600">{GOAL_PERIOD_NAMES[period]}</label>
+        <span className="flex items-center gap-2">
+          <input
+            id={`goal-${period}`}
+            type="number"
+            min="0"
+            step="any"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="None"
+            className="w-32 px-3 py-1 rounded-lg border border-slate-300 text-right text-slate-900"
+          />
+          <span className="text-slate-500">{currency}</span>
+          <button type="submit" className="text-emerald-600 hover:text-emerald-700 font-medium">Set</button>
+        </span>
+      </form>
+
+      {progress && (
+        <div className="mt-2">
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className={`h-full ${progress.progress >= 1 ? 'bg-emerald-500' : 'bg-sky-500'}`}
+              style={{ width: `${Math.min(100, Math.max(0, progress.progress * 100))}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            {progress.scope}: {format(Math.round(progress.actual))} of {format(Math.round(progress.target))}
+            {' '}({Math.round(progress.progress * 100)}%).{' '}
+            {progress.reached
+              ? `Reached in ${progress.reached.label}.`
+              : progress.projectedHit
+                ? `On the forecast, reached in ${progress.projectedHit.label}.`
+                : period === 'year'
+                  ? `Not reached in ${progress.scope} on the forecast${progress.projected !== null ? ` (${format(Math.round(progress.projected))} by year end)` : ''}.`
+                  : 'Not reached within the forecast.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Monthly and annual revenue goals, with progress and when they'd be reached
+ *
+ * Targets are shown and entered in the analysis currency; an empty box
+ * removes the goal.
+ */
+function GoalTracker({ targets, currency, progress, format, onSetGoal }: {
+  targets: { [period in GoalPeriod]: number | null }
+  currency: string
+  progress: { [period in GoalPeriod]: GoalProgress | null }
+  format: (amount: number) => string
+  onSetGoal: (period: GoalPeriod, amount: number | null) => void
+}) {
+  return (
+    <div className="border border-slate-200 rounded-xl p-4 text-sm space-y-4">
+      <h4 className="flex items-center gap-2 font-semibold text-slate-900">
+        <Target className="text-emerald-500" size={18} />
+        Goals
+      </h4>
+      {(['month', 'year'] as const).map(period => (
+        <GoalRow
+          // Start the box over when the target changes, e.g. in another currency
+          key={`${period}-${targets[period]}`}
+          period={period}
+          target={targets[period]}
+          currency={currency}
+          progress={progress[period]}
+          format={format}
+          onSet={amount => onSetGoal(period, amount)}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default GoalTracker
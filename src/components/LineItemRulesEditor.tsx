@@ -0,0 +1,80 @@
+import { Plus, RotateCcw, X } from 'lucide-react'
+import { DEFAULT_LINE_ITEM_RULES, LINE_ITEM_CATEGORY_NAMES } from '../lineItems'
+import type { LineItemCategory, LineItemRule } from '../lineItems'
+
+/**
+ * Edit the rules that sort line items into categories and sources
+ *
+ * Rules apply top to bottom; the first with a category and the first with
+ * a source win, and new rules go first. Changes apply to the breakdown
+ * straight away.
+ */
+function LineItemRulesEditor({ rules, onChange }: {
+  rules: LineItemRule[]
+  onChange: (rules: LineItemRule[]) => void
+}) {
+  const update = (index: number, change: Partial<LineItemRule>) =>
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...change } : rule))
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-slate-500">
+        <span>Label contains</span>
+        <span>Category</span>
+        <span>Source</span>
+        <span />
+      </div>
+      {rules.map((rule, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          <input
+            value={rule.match}
+            onChange={(e) => update(index, { match: e.target.value })}
+            aria-label="Label contains"
+            className="px-2 py-1 rounded border border-slate-300 text-slate-900"
+          />
+          <select
+            value={rule.category ?? ''}
+            onChange={(e) => update(index, { category: e.target.value ? e.target.value as LineItemCategory : undefined })}
+            aria-label="Category"
+            className="px-2 py-1 rounded border border-slate-300 bg-white text-slate-900"
+          >
+            <option value="">–</option>
+            {Object.entries(LINE_ITEM_CATEGORY_NAMES).map(([category, name]) => (
+              <option key={category} value={category}>{name}</option>
+            ))}
+          </select>
+          <input
+            value={rule.source ?? ''}
+            onChange={(e) => update(index, { source: e.target.value || undefined })}
+            aria-label="Source"
+            placeholder="–"
+            className="px-2 py-1 rounded border border-slate-300 text-slate-900"
+          />
+          <button
+            onClick={() => onChange(rules.filter((_, i) => i !== index))}
+            className="text-slate-400 hover:text-red-600"
+            aria-label={`Remove rule "${rule.match}"`}
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-4 pt-2">
+        <button
+          onClick={() => onChange([{ match: '' }, ...rules])}
+          className="flex items-center gap-1 text-emerald-600 hover:text-emerald-700 font-medium"
+        >
+          <Plus size={16} /> Add rule
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_LINE_ITEM_RULES)}
+          className="flex items-center gap-1 text-slate-500 hover:text-slate-700"
+        >
+          <RotateCcw size={14} /> Reset to defaults
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default LineItemRulesEditor
@@ -0,0 +1,61 @@
+import { AlertTriangle } from 'lucide-react'
+import type { PeriodComparison } from '../seriesStats'
+import type { ValueFlag } from '../validation'
+
+function Change({ growth }: { growth: number | null }) {
+  if (growth === null) return <span className="text-slate-400">–</span>
+  return (
+    <span className={growth >= 0 ? 'text-emerald-600' : 'text-red-600'}>
+      {growth >= 0 ? '+' : ''}{growth}%
+    </span>
+  )
+}
+
+/**
+ * Every month against the month before and the same month last year
+ *
+ * Newest first. A dash means the month compared against isn't in the table.
+ * Flagged months (see validation.ts) are highlighted, with the reason on hover.
+ */
+function PeriodComparisonTable({ months, format, flags = [] }: {
+  months: PeriodComparison[]
+  format: (amount: number) => string
+  flags?: ValueFlag[]
+}) {
+  const showYearOverYear = months.some(month => month.previousYear !== null)
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-slate-500 border-b border-slate-200">
+          <th className="py-2 font-medium">Month</th>
+          <th className="py-2 font-medium text-right">Revenue</th>
+          <th className="py-2 font-medium text-right">vs previous month</th>
+          {showYearOverYear && <th className="py-2 font-medium text-right">vs last year</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {[...months].reverse().map(month => {
+          const flag = flags.find(f => f.field === 'series' && f.period === month.period)
+          return (
+            <tr key={month.period} className={`border-b border-slate-100 ${flag ? 'bg-amber-50' : ''}`} title={flag?.message}>
+              <td className="py-2 text-slate-900">
+                {month.label}
+                {flag && <AlertTriangle className="inline ml-1 text-amber-600" size={12} />}
+              </td>
+              <td className="py-2 text-right font-semibold text-slate-900">{format(Math.round(month.amount))}</td>
+              <td className="py-2 text-right"><Change growth={month.monthOverMonth} /></td>
+              {showYearOverYear && (
+                <td className="py-2 text-right" title={month.previousYear !== null ? format(Math.round(month.previousYear)) : undefined}>
+                  <Change growth={month.yearOverYear} />
+                </td>
+              )}
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+export default PeriodComparisonTable
@@ -0,0 +1,50 @@
+import type { PreprocessingOptions } from '../preprocessing'
+
+type ToggleStep = 'grayscale' | 'deskew' | 'upscale' | 'threshold'
+
+const TOGGLES: Array<{ step: ToggleStep, label: string }> = [
+  { step: 'grayscale', label: 'Grayscale' },
+  { step: 'deskew', label: 'Straighten tilted photos' },
+  { step: 'upscale', label: 'Enlarge small text' },
+  { step: 'threshold', label: 'Black and white' },
+]
+
+/**
+ * Which cleanup steps to run on the image before reading it
+ */
+function PreprocessingSettings({ settings, onChange }: {
+  settings: Omit<PreprocessingOptions, 'crop'>
+  onChange: (settings: Omit<PreprocessingOptions, 'crop'>) => void
+}) {
+  return (
+    <details className="mt-2 text-sm text-slate-600">
+      <summary className="cursor-pointer hover:text-slate-900">Image cleanup</summary>
+      <div className="mt-2 space-y-2 pl-4">
+        <label className="flex items-center justify-between gap-4">
+          Dark mode
+          <select
+            value={String(settings.invert)}
+            onChange={(e) => onChange({ ...settings, invert: e.target.value === 'auto' ? 'auto' : e.target.value === 'true' })}
+            className="px-3 py-1 rounded-lg border border-slate-300 bg-white text-slate-900"
+          >
+            <option value="auto">Detect and invert</option>
+            <option value="true">Always invert</option>
+            <option value="false">Never invert</option>
+          </select>
+        </label>
+        {TOGGLES.map(({ step, label }) => (
+          <label key={step} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings[step]}
+              onChange={(e) => onChange({ ...settings, [step]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </details>
+  )
+}
+
+export default PreprocessingSettings
@@ -0,0 +1,36 @@
+import { ShieldCheck } from 'lucide-react'
+import { PRIVACY_MODES } from '../redaction'
+import type { PrivacyMode } from '../redaction'
+
+/**
+ * How much of an upload is kept: masked, kept local, or as read
+ */
+function PrivacySettings({ mode, onChange }: {
+  mode: PrivacyMode
+  onChange: (mode: PrivacyMode) => void
+}) {
+  const selected = PRIVACY_MODES.find(choice => choice.value === mode)
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-200 text-left text-sm text-slate-600">
+      <label className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-2">
+          <ShieldCheck className="text-emerald-500" size={18} />
+          Privacy
+        </span>
+        <select
+          value={mode}
+          onChange={(e) => onChange(e.target.value as PrivacyMode)}
+          className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-900"
+        >
+          {PRIVACY_MODES.map(choice => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+      </label>
+      {selected && <p className="mt-2 text-xs text-slate-500">{selected.description}</p>}
+    </div>
+  )
+}
+
+export default PrivacySettings
@@ -0,0 +1,114 @@
+import { LINE_ITEM_CATEGORY_NAMES } from '../lineItems'
+import type { LineItemRule, RevenueBreakdown } from '../lineItems'
+import LineItemRulesEditor from './LineItemRulesEditor'
+
+function Bars({ title, rows, format }: {
+  title: string
+  rows: Array<{ name: string, amount: number, muted: boolean }>
+  format: (amount: number) => string
+}) {
+  const max = Math.max(...rows.map(row => row.amount), 0) || 1
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-slate-900 mb-2">{title}</h4>
+      <ul className="space-y-2 text-sm">
+        {rows.map(row => (
+          <li key={row.name}>
+            <div className={`flex justify-between ${row.muted ? 'text-slate-400' : 'text-slate-700'}`}>
+              <span>{row.name}</span>
+              <span>{format(Math.round(row.amount))}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className={`h-full ${row.muted ? 'bg-slate-300' : 'bg-emerald-500'}`}
+                style={{ width: `${Math.max(0, row.amount / max * 100)}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Revenue by category and by source, with the line items behind them
+ *
+ * Taxes and totals are listed but greyed out: they aren't part of net
+ * revenue. The rules that sort items can be edited below the list.
+ */
+function RevenueBreakdownPanel({ breakdown, rules, format, onRulesChange }: {
+  breakdown: RevenueBreakdown
+  rules: LineItemRule[]
+  format: (amount: number) => string
+  onRulesChange: (rules: LineItemRule[]) => void
+}) {
+  const notCounted = (category: string) => category === 'tax' || category === 'summary'
+
+  return (
+    <div className="border border-slate-200 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Bars
+          title="By Category"
+          rows={breakdown.categories.map(({ category, amount }) => ({
+            name: LINE_ITEM_CATEGORY_NAMES[category],
+            amount,
+            muted: notCounted(category),
+          }))}
+          format={format}
+        />
+        {breakdown.sources.length > 0 && (
+          <Bars
+            title="By Source"
+            rows={breakdown.sources.map(({ source, amount }) => ({ name: source, amount, muted: false }))}
+            format={format}
+          />
+        )}
+      </div>
+
+      {breakdown.unconverted > 0 && (
+        <p className="text-xs text-slate-500">
+          {breakdown.unconverted} line item{breakdown.unconverted === 1 ? '' : 's'} left out: no exchange rate to {breakdown.currency}.
+        </p>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-slate-600 hover:text-slate-900 font-medium">
+          Line items ({breakdown.items.length})
+        </summary>
+        <table className="w-full mt-2">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-1 font-medium">Label</th>
+              <th className="py-1 font-medium">Category</th>
+              <th className="py-1 font-medium">Source</th>
+              <th className="py-1 font-medium text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.items.map((item, index) => (
+              <tr key={index} className={`border-b border-slate-100 ${notCounted(item.category) ? 'text-slate-400' : 'text-slate-700'}`}>
+                <td className="py-1">{item.label}</td>
+                <td className="py-1">{LINE_ITEM_CATEGORY_NAMES[item.category]}</td>
+                <td className="py-1">{item.source}</td>
+                <td className="py-1 text-right">{item.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-slate-600 hover:text-slate-900 font-medium">
+          Categorisation rules
+        </summary>
+        <div className="mt-2">
+          <LineItemRulesEditor rules={rules} onChange={onRulesChange} />
+        </div>
+      </details>
+    </div>
+  )
+}
+
+export default RevenueBreakdownPanel
@@ -0,0 +1,102 @@
+import type { PeriodComparison } from '../seriesStats'
+import type { ForecastPoint } from '../forecast'
+
+const CHART_HEIGHT = 160
+const BAR_GAP = 0.25  // Share of each slot left empty between bars
+
+/**
+ * Monthly revenue as a bar chart, with the average as a dashed line
+ *
+ * Plain SVG that stretches to the card's width; hover a bar for its amount.
+ * Flagged months (e.g. unusual jumps) are drawn in amber. Forecast months
+ * follow the real ones in a lighter colour, with their band as a line.
+ */
+function RevenueChart({ months, average, format, flagged = [], forecast = [] }: {
+  months: PeriodComparison[]
+  average: number
+  format: (amount: number) => string
+  flagged?: string[]  // 'YYYY-MM'
+  forecast?: ForecastPoint[]
+}) {
+  const max = Math.max(...months.map(month => month.amount), ...forecast.map(point => point.high), 0)
+  const min = Math.min(...months.map(month => month.amount), ...forecast.map(point => point.low), 0)
+  const range = max - min || 1
+  const y = (amount: number) => CHART_HEIGHT * (max - amount) / range
+  const slot = 100 / (months.length + forecast.length)
+  const labels = [...months, ...forecast]
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-500 mb-1">
+        <span>{format(Math.round(max))}</span>
+        <span className="text-slate-400">- - average {format(Math.round(average))}</span>
+      </div>
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-40 border-b border-slate-200"
+        role="img"
+        aria-label="Monthly revenue"
+      >
+        {months.map((month, index) => {
+          const top = Math.min(y(month.amount), y(0))
+          return (
+            <rect
+              key={month.period}
+              x={index * slot + slot * BAR_GAP / 2}
+              y={top}
+              width={slot * (1 - BAR_GAP)}
+              height={Math.max(Math.abs(y(month.amount) - y(0)), 0.5)}
+              className={month.amount < 0 ? 'fill-red-400' : flagged.includes(month.period) ? 'fill-amber-400' : index === months.length - 1 ? 'fill-emerald-500' : 'fill-emerald-300'}
+            >
+              <title>{`${month.label}: ${format(Math.round(month.amount))}`}</title>
+            </rect>
+          )
+        })}
+        {forecast.map((point, index) => {
+          const x = (months.length + index) * slot
+          return (
+            <g key={point.period}>
+              <rect
+                x={x + slot * BAR_GAP / 2}
+                y={Math.min(y(point.amount), y(0))}
+                width={slot * (1 - BAR_GAP)}
+                height={Math.max(Math.abs(y(point.amount) - y(0)), 0.5)}
+                className="fill-sky-200"
+              >
+                <title>{`${point.label} (forecast): ${format(Math.round(point.amount))}, likely ${format(Math.round(point.low))}–${format(Math.round(point.high))}`}</title>
+              </rect>
+              <line
+                x1={x + slot / 2}
+                x2={x + slot / 2}
+                y1={y(point.high)}
+                y2={y(point.low)}
+                className="stroke-sky-500"
+                vectorEffect="non-scaling-stroke"
+              />
+            </g>
+          )
+        })}
+        <line
+          x1={0}
+          x2={months.length * slot}
+          y1={y(average)}
+          y2={y(average)}
+          className="stroke-slate-400"
+          strokeDasharray="2 2"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex text-xs text-slate-500 mt-1">
+        {labels.map((month, index) => (
+          <span key={month.period} className="text-center truncate" style={{ width: `${slot}%` }}>
+            {/* Label every month when they fit, otherwise every third */}
+            {labels.length <= 12 || index % 3 === 0 ? month.label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default RevenueChart
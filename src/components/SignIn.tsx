@@ -0,0 +1,122 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendMagicLink, signInWithPassword, signUpWithPassword } from '../auth'
+
+/**
+ * Sign-in form: magic link by default, email + password as an option
+ */
+function SignIn({ client }: { client: SupabaseClient }) {
+  const [mode, setMode] = useState<'magic-link' | 'password'>('magic-link')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    if (!email.includes('@')) {
+      toast.error('Please enter a valid email')
+      return
+    }
+    setBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Sign-in failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleMagicLink = () => run(async () => {
+    await sendMagicLink(client, email)
+    setLinkSentTo(email)
+  })
+
+  const handleSignIn = () => run(() => signInWithPassword(client, email, password))
+
+  const handleSignUp = () => run(async () => {
+    const needsConfirmation = await signUpWithPassword(client, email, password)
+    if (needsConfirmation) setLinkSentTo(email)
+  })
+
+  if (linkSentTo) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
+        <h3 className="text-2xl font-bold text-slate-900 mb-2">Check your email</h3>
+        <p className="text-slate-600">
+          We sent a link to <strong>{linkSentTo}</strong>. Open it on this device to sign in.
+        </p>
+        <button
+          onClick={() => setLinkSentTo(null)}
+          className="mt-6 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+        >
+          Use a different email
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 max-w-md mx-auto">
+      <h3 className="text-2xl font-bold text-slate-900 mb-2">Sign in</h3>
+      <p className="text-sm text-slate-600 mb-6">
+        Your screenshots and analyses are private to your account.
+      </p>
+
+      <input
+        type="email"
+        placeholder="your@email.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="px-4 py-3 rounded-lg border border-slate-300 w-full text-slate-900 mb-3"
+      />
+      {mode === 'password' && (
+        <input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+          className="px-4 py-3 rounded-lg border border-slate-300 w-full text-slate-900 mb-3"
+        />
+      )}
+
+      {mode === 'magic-link' ? (
+        <button
+          onClick={handleMagicLink}
+          disabled={busy}
+          className="w-full px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy ? 'Sending...' : 'Email me a sign-in link'}
+        </button>
+      ) : (
+        <div className="flex gap-3">
+          <button
+            onClick={handleSignIn}
+            disabled={busy}
+            className="flex-1 px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Sign in
+          </button>
+          <button
+            onClick={handleSignUp}
+            disabled={busy}
+            className="flex-1 px-6 py-3 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create account
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setMode(mode === 'magic-link' ? 'password' : 'magic-link')}
+        className="mt-4 w-full text-sm text-slate-500 hover:text-slate-900"
+      >
+        {mode === 'magic-link' ? 'Use a password instead' : 'Email me a link instead'}
+      </button>
+    </div>
+  )
+}
+
+export default SignIn
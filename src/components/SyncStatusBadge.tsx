@@ -0,0 +1,34 @@
+import { Cloud, CloudAlert, CloudOff, RefreshCw } from 'lucide-react'
+import type { SyncStatus } from '../storage'
+
+/**
+ * Whether saved analyses have reached the server
+ *
+ * Analyses are kept in this browser first, so being offline only delays
+ * syncing. Clicking syncs straight away.
+ */
+function SyncStatusBadge({ status, onSync }: {
+  status: SyncStatus
+  onSync: () => void
+}) {
+  const waiting = status.pending > 0 ? ` · ${status.pending} to sync` : ''
+  const [Icon, label, tone] =
+    status.state === 'offline' ? [CloudOff, `Offline${waiting}`, 'text-slate-500']
+      : status.state === 'syncing' ? [RefreshCw, 'Syncing…', 'text-sky-600']
+        : status.error ? [CloudAlert, `Not synced${waiting}`, 'text-amber-600']
+          : [Cloud, status.pending > 0 ? `${status.pending} to sync` : 'Synced', 'text-slate-500']
+
+  return (
+    <button
+      onClick={onSync}
+      disabled={status.state === 'offline' || status.state === 'syncing'}
+      title={status.error ?? (status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}` : undefined)}
+      className={`flex items-center gap-2 text-sm font-medium ${tone} hover:text-slate-900 disabled:cursor-default`}
+    >
+      <Icon size={18} className={status.state === 'syncing' ? 'animate-spin' : undefined} />
+      {label}
+    </button>
+  )
+}
+
+export default SyncStatusBadge
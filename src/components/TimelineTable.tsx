@@ -0,0 +1,73 @@
+import { formatCurrency } from '../revenueAnalyzer'
+import type { RevenueTimeline } from '../timeline'
+
+/**
+ * Merged monthly timeline, with duplicates and conflicts marked
+ */
+function TimelineTable({ timeline }: { timeline: RevenueTimeline }) {
+  const total = timeline.periods.reduce((sum, period) => sum + period.amount, 0)
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <h3 className="text-xl font-semibold text-slate-900 mb-1">Revenue Timeline</h3>
+      <p className="text-sm text-slate-500 mb-4">
+        {timeline.periods.length} months in {timeline.currency}
+        {timeline.conflicts > 0 && ` · ${timeline.conflicts} ${timeline.conflicts === 1 ? 'month has' : 'months have'} conflicting figures`}
+      </p>
+
+      {timeline.periods.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 font-medium">Month</th>
+              <th className="py-2 font-medium text-right">Revenue</th>
+              <th className="py-2 font-medium pl-4">Source</th>
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.periods.map(period => (
+              <tr key={period.period} className={`border-b border-slate-100 align-top ${period.status === 'conflict' ? 'bg-amber-50' : ''}`}>
+                <td className="py-2 text-slate-900">{period.label}</td>
+                <td className="py-2 text-right font-semibold text-slate-900">{formatCurrency(Math.round(period.amount), timeline.currency)}</td>
+                <td className="py-2 pl-4 text-slate-600">
+                  {period.chosen.sourceName}
+                  {period.status === 'duplicate' && (
+                    <span className="text-slate-400"> · also in {period.contributions.length - 1} other {period.contributions.length === 2 ? 'file' : 'files'}, counted once</span>
+                  )}
+                  {period.status === 'conflict' && (
+                    <div className="text-amber-700 text-xs mt-1">
+                      Conflicts with{' '}
+                      {period.contributions
+                        .filter(c => c !== period.chosen)
+                        .map(c => `${c.sourceName} (${formatCurrency(Math.round(c.amount), timeline.currency)})`)
+                        .join(', ')}
+                      ; not added together
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td className="py-2 font-semibold text-slate-900">Total</td>
+              <td className="py-2 text-right font-bold text-slate-900">{formatCurrency(Math.round(total), timeline.currency)}</td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      {timeline.skipped.length > 0 && (
+        <div className="mt-4 text-xs text-slate-500">
+          <p className="font-medium">Not on the timeline:</p>
+          <ul className="list-disc list-inside">
+            {timeline.skipped.map(entry => <li key={entry.sourceId}>{entry.sourceName}: {entry.reason}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TimelineTable
@@ -0,0 +1,22 @@
+import { AlertTriangle } from 'lucide-react'
+import type { ValueFlag } from '../validation'
+
+/**
+ * Why a figure looks wrong, shown right under it
+ */
+function ValueFlags({ flags }: { flags: ValueFlag[] }) {
+  if (flags.length === 0) return null
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {flags.map((flag, index) => (
+        <li key={index} className="flex items-start gap-1 text-xs bg-amber-100 text-amber-900 rounded px-2 py-1">
+          <AlertTriangle className="flex-shrink-0 mt-0.5" size={12} />
+          {flag.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default ValueFlags
@@ -0,0 +1,254 @@
+/**
+ * Explainable confidence model for revenue figures
+ *
+ * Each labelled figure is scored from a handful of independent factors:
+ * how sure Tesseract was about the digits, how close and where its label
+ * sits, what the label says (including words like "refund" or "fee" that
+ * argue against revenue), whether a currency is printed with it, and
+ * whether its size is plausible for revenue. Every factor records its
+ * contribution and a sentence explaining it, so the dashboard can show
+ * why a number was picked.
+ */
+
+import type { LabelledFigure } from './layoutExtractor';
+import { normalizeKeyword } from './ocrLanguages';
+
+export interface ConfidenceFactor {
+  name: 'base' | 'ocr' | 'label-position' | 'keywords' | 'currency' | 'magnitude' | 'margin' | 'template' | 'table' | 'source';
+  contribution: number;  // Added to the score (negative lowers it)
+  detail: string;        // Why, in words
+}
+
+export interface FigureScore {
+  confidence: number;  // 0-1 scale
+  factors: ConfidenceFactor[];
+}
+
+const BASE_SCORE = 0.3;
+
+// Label words and how strongly they point towards (or away from) revenue
+const KEYWORD_WEIGHTS: { [keyword: string]: number } = {
+  revenue: 0.35, sales: 0.3, gross: 0.3, mrr: 0.3, arr: 0.3,
+  total: 0.25, income: 0.25, earnings: 0.25, turnover: 0.25,
+  net: 0.2, volume: 0.15, received: 0.15, collected: 0.15, payout: 0.1, payouts: 0.1,
+  refund: -0.4, refunds: -0.4, chargeback: -0.4, chargebacks: -0.4, date: -0.4, id: -0.4,
+  fee: -0.35, fees: -0.35, tax: -0.35, vat: -0.35, gst: -0.35,
+  discount: -0.3, discounts: -0.3, orders: -0.3, customers: -0.3, count: -0.3, visitors: -0.3,
+  balance: -0.15, pending: -0.15,
+
+  // German, French and Spanish
+  umsatz: 0.25, umsätze: 0.25, erlöse: 0.35, einnahmen: 0.25, gesamt: 0.25, summe: 0.25,
+  revenus: 0.35, ventes: 0.3, recettes: 0.25, ingresos: 0.35, ventas: 0.3, facturación: 0.25,
+  erstattung: -0.4, erstattungen: -0.4, remboursement: -0.4, remboursements: -0.4, reembolso: -0.4, reembolsos: -0.4,
+  gebühr: -0.35, gebühren: -0.35, frais: -0.35, comisión: -0.35, comisiones: -0.35,
+  saldo: -0.15, solde: -0.15,
+
+  // Arabic, in normalizeKeyword() form: no article, plain alef
+  'ايرادات': 0.35, 'ايراد': 0.35, 'مبيعات': 0.3, 'اجمالي': 0.25, 'مجموع': 0.25,
+  'دخل': 0.25, 'ارباح': 0.25, 'صافي': 0.2, 'مقبوضات': 0.15, 'ايداعات': 0.1, 'ايداع': 0.1,
+  'استرداد': -0.4, 'مستردات': -0.4, 'مرتجعات': -0.4, 'تاريخ': -0.4, 'رقم': -0.4,
+  'رسوم': -0.35, 'رسم': -0.35, 'عمولة': -0.35, 'عمولات': -0.35, 'ضريبة': -0.35,
+  'خصم': -0.3, 'خصومات': -0.3, 'طلبات': -0.3, 'عملاء': -0.3, 'عدد': -0.3,
+  'رصيد': -0.15, 'معلق': -0.15,
+};
+
+/**
+ * OCR factor: Tesseract's own word confidence
+ *
+ * Maps 50% → 0 and 100% → +0.15, so blurry digits drag the score down.
+ */
+function ocrFactor(figure: LabelledFigure): ConfidenceFactor {
+  const contribution = 0.3 * (figure.ocrConfidence - 0.5);
+  return {
+    name: 'ocr',
+    contribution,
+    detail: `OCR read "${figure.text}" with ${Math.round(figure.ocrConfidence * 100)}% certainty`,
+  };
+}
+
+/**
+ * Label position factor: distance and direction of the label
+ *
+ * A label just beside the amount (left, or right on right-to-left lines)
+ * or right above it is worth up to +0.1,
+ * fading out over three line heights. No label at all costs 0.1.
+ */
+function labelPositionFactor(figure: LabelledFigure): ConfidenceFactor {
+  const label = figure.labelBbox;
+  if (figure.labelPosition === 'none' || !label) {
+    return { name: 'label-position', contribution: -0.1, detail: 'No label found next to or above the amount' };
+  }
+
+  const height = Math.max(1, figure.bbox.y1 - figure.bbox.y0);
+  // Same-row labels sit left of the amount, or right of it on right-to-left lines;
+  // labels above line up on the left edge, or the right one
+  const gap = figure.labelPosition === 'same-row'
+    ? Math.max(0, figure.bbox.x0 - label.x1, label.x0 - figure.bbox.x1)
+    : Math.max(0, figure.bbox.y0 - label.y1)
+      + Math.min(Math.abs(figure.bbox.x0 - label.x0), Math.abs(figure.bbox.x1 - label.x1)) / 4;
+  const distance = gap / height;
+  const contribution = 0.1 * Math.max(0, 1 - distance / 3);
+
+  const where = figure.labelPosition === 'same-row' ? 'on the same row' : 'above';
+  return {
+    name: 'label-position',
+    contribution,
+    detail: `Label "${figure.label}" is ${where}, ${distance.toFixed(1)} line heights away`,
+  };
+}
+
+/**
+ * Keyword factor: the strongest positive and strongest negative label word
+ *
+ * Only the strongest word in each direction counts, so "Total net gross
+ * revenue" doesn't stack up to certainty.
+ */
+function keywordFactor(figure: LabelledFigure): ConfidenceFactor {
+  const words = figure.label.split(/[^\p{L}\p{M}]+/u).filter(Boolean).map(normalizeKeyword);
+  let best: [string, number] | null = null;
+  let worst: [string, number] | null = null;
+
+  for (const word of words) {
+    const weight = KEYWORD_WEIGHTS[word];
+    if (weight === undefined) continue;
+    if (weight > 0 && (!best || weight > best[1])) best = [word, weight];
+    if (weight < 0 && (!worst || weight < worst[1])) worst = [word, weight];
+  }
+
+  const contribution = (best?.[1] ?? 0) + (worst?.[1] ?? 0);
+  const parts = [
+    best && `"${best[0]}" suggests revenue`,
+    worst && `"${worst[0]}" suggests this is not revenue`,
+  ].filter(Boolean);
+
+  return {
+    name: 'keywords',
+    contribution,
+    detail: parts.length > 0 ? parts.join('; ') : 'Label has no revenue keywords',
+  };
+}
+
+// Label words for things counted rather than paid, in normalizeKeyword() form
+const COUNT_WORDS = new Set([
+  'orders', 'order', 'customers', 'customer', 'users', 'user', 'items', 'item', 'visitors', 'visits',
+  'sessions', 'subscribers', 'signups', 'units', 'quantity', 'qty', 'count', 'transactions',
+  'bestellungen', 'kunden', 'nutzer', 'artikel', 'commandes', 'clients', 'utilisateurs', 'articles',
+  'pedidos', 'clientes', 'usuarios', 'artículos',
+  'طلبات', 'عملاء', 'مستخدمين', 'مستخدمون', 'عدد', 'زوار',
+]);
+
+/**
+ * Currency factor: is a currency printed with the amount?
+ *
+ * Without one, a label that counts something ("Orders this month 87")
+ * means the number is a count, and costs 0.25.
+ */
+function currencyFactor(figure: LabelledFigure): ConfidenceFactor {
+  if (figure.currencyMarker) {
+    return { name: 'currency', contribution: 0.1, detail: `"${figure.currencyMarker}" is printed with the amount` };
+  }
+  const counted = figure.label.split(/[^\p{L}\p{M}]+/u).filter(Boolean).map(normalizeKeyword).find(word => COUNT_WORDS.has(word));
+  return counted
+    ? { name: 'currency', contribution: -0.25, detail: `No currency symbol, and "${counted}" is something counted` }
+    : { name: 'currency', contribution: 0, detail: 'No currency symbol next to the amount' };
+}
+
+/**
+ * Magnitude factor: is this a plausible revenue amount?
+ *
+ * Years, tiny integers (counts) and absurdly large numbers are penalised;
+ * amounts with cents or in the thousands get a small boost.
+ */
+function magnitudeFactor(figure: LabelledFigure): ConfidenceFactor {
+  const value = Math.abs(figure.value);
+  const isInteger = Number.isInteger(value);
+
+  if (isInteger && value >= 1990 && value <= 2100 && !figure.currencyMarker) {
+    return { name: 'magnitude', contribution: -0.3, detail: `${value} looks like a year` };
+  }
+  if (value > 1e10) {
+    return { name: 'magnitude', contribution: -0.3, detail: 'Too large to be revenue (likely an ID or account number)' };
+  }
+  if (value < 1) {
+    return { name: 'magnitude', contribution: -0.2, detail: 'Below 1, unlikely to be a revenue total' };
+  }
+  if (isInteger && value < 100 && !figure.currencyMarker) {
+    return { name: 'magnitude', contribution: -0.15, detail: 'Small whole number without a currency, likely a count' };
+  }
+  if (!isInteger || value >= 1000) {
+    return { name: 'magnitude', contribution: 0.05, detail: 'Size and format look like a money amount' };
+  }
+  return { name: 'magnitude', contribution: 0, detail: 'Size is neutral' };
+}
+
+/**
+ * Score a single figure
+ *
+ * @param figure - Labelled figure (currency marker, boxes and OCR confidence)
+ * @returns FigureScore - Confidence clamped to 0-1, with every factor
+ */
+export function scoreFigure(figure: LabelledFigure): FigureScore {
+  const factors: ConfidenceFactor[] = [
+    { name: 'base', contribution: BASE_SCORE, detail: 'Starting score for any amount' },
+    ocrFactor(figure),
+    labelPositionFactor(figure),
+    keywordFactor(figure),
+    currencyFactor(figure),
+    magnitudeFactor(figure),
+  ];
+
+  const total = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  return { confidence: Math.min(1, Math.max(0, total)), factors };
+}
+
+/**
+ * Add a factor to an existing score, e.g. a platform template's verdict
+ *
+ * @param score - Score from scoreFigure()
+ * @param factor - Extra factor to include
+ * @returns FigureScore - Re-clamped confidence with the factor appended
+ */
+export function withFactor(score: FigureScore, factor: ConfidenceFactor): FigureScore {
+  const factors = [...score.factors, factor];
+  const total = factors.reduce((sum, f) => sum + f.contribution, 0);
+  return { confidence: Math.min(1, Math.max(0, total)), factors };
+}
+
+/**
+ * Overall confidence in the chosen total
+ *
+ * Starts from the winner's score, then discounts it when the runner-up is
+ * nearly as likely: two equally plausible totals mean we might have picked
+ * the wrong one.
+ *
+ * @param ranked - Figures sorted by confidence, best first
+ * @returns FigureScore - Overall confidence with its factors
+ */
+export function overallConfidence(ranked: LabelledFigure[]): FigureScore {
+  if (ranked.length === 0) {
+    return {
+      confidence: 0.2,
+      factors: [{ name: 'base', contribution: 0.2, detail: 'No labelled amounts were found' }],
+    };
+  }
+
+  const [best, runnerUp] = ranked;
+  const factors: ConfidenceFactor[] = [
+    { name: 'base', contribution: best.confidence, detail: `Best figure "${best.label || best.text}" scored ${Math.round(best.confidence * 100)}%` },
+  ];
+
+  if (runnerUp) {
+    const lead = best.confidence - runnerUp.confidence;
+    const penalty = -best.confidence * 0.3 * (1 - Math.min(1, lead / 0.2));
+    factors.push({
+      name: 'margin',
+      contribution: penalty,
+      detail: lead >= 0.2
+        ? `Clear lead over the next candidate "${runnerUp.label || runnerUp.text}"`
+        : `Only ${Math.round(lead * 100)} points ahead of "${runnerUp.label || runnerUp.text}"`,
+    });
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  return { confidence: Math.min(1, Math.max(0, total)), factors };
+}
@@ -0,0 +1,84 @@
+/**
+ * User corrections to an analysis
+ *
+ * The review step lets users reassign or type over the headline values.
+ * Corrections are stored separately from the extracted result, so both
+ * stay available and the dashboard can say which values a person set.
+ */
+
+import { calculateGrowth } from './revenueAnalyzer';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+import type { ConvertedAmount } from './fx';
+
+export type CorrectableField = 'totalRevenue' | 'thisMonth' | 'lastMonth';
+
+export const CORRECTABLE_FIELDS: CorrectableField[] = ['totalRevenue', 'thisMonth', 'lastMonth'];
+
+// Values the user assigned or typed over the extracted ones
+export interface AnalysisCorrections {
+  totalRevenue?: number;
+  thisMonth?: number;
+  lastMonth?: number;
+  currency?: string;
+}
+
+// Where each headline value came from
+export type FieldSources = { [field in CorrectableField]: 'extracted' | 'corrected' };
+
+// Same conversion at the same rate, for a corrected amount
+function reconvert(converted: ConvertedAmount, originalAmount: number): ConvertedAmount {
+  return { ...converted, originalAmount, amount: originalAmount * converted.rate };
+}
+
+/**
+ * Apply the user's corrections to an analysis
+ *
+ * How it works:
+ * - Corrected values replace the extracted ones and are marked in fieldSources
+ * - Growth is recomputed when either month was corrected
+ * - Reporting-currency totals are reconverted at the same rate; a corrected
+ *   currency drops them, since the rate no longer applies
+ *
+ * @param analysis - Result as extracted
+ * @param corrections - Values the user set
+ * @returns RevenueAnalysis - Result the dashboard should show
+ */
+export function applyCorrections(analysis: RevenueAnalysis, corrections: AnalysisCorrections): RevenueAnalysis {
+  const totalRevenue = corrections.totalRevenue ?? analysis.totalRevenue;
+  const thisMonth = corrections.thisMonth ?? analysis.thisMonth;
+  const lastMonth = corrections.lastMonth ?? analysis.lastMonth;
+  const monthsCorrected = corrections.thisMonth !== undefined || corrections.lastMonth !== undefined;
+  const currencyCorrected = corrections.currency !== undefined && corrections.currency !== analysis.currency;
+
+  // Results saved before fieldSources existed have none
+  const fieldSources: FieldSources = analysis.fieldSources
+    ? { ...analysis.fieldSources }
+    : { totalRevenue: 'extracted', thisMonth: 'extracted', lastMonth: 'extracted' };
+  for (const field of CORRECTABLE_FIELDS) {
+    if (corrections[field] !== undefined) fieldSources[field] = 'corrected';
+  }
+
+  const reporting = analysis.reporting && !currencyCorrected
+    ? {
+        ...analysis.reporting,
+        totalRevenue: reconvert(analysis.reporting.totalRevenue, totalRevenue),
+        thisMonth: reconvert(analysis.reporting.thisMonth, thisMonth),
+        lastMonth: reconvert(analysis.reporting.lastMonth, lastMonth),
+      }
+    : null;
+
+  return {
+    ...analysis,
+    totalRevenue,
+    currency: corrections.currency ?? analysis.currency,
+    thisMonth,
+    lastMonth,
+    growth: monthsCorrected ? Math.round(calculateGrowth(thisMonth, lastMonth)) : analysis.growth,
+    reporting,
+    fieldSources,
+  };
+}
+
+export function hasCorrections(corrections: AnalysisCorrections): boolean {
+  return Object.values(corrections).some(value => value !== undefined);
+}
@@ -0,0 +1,279 @@
+/**
+ * Per-amount currency detection
+ *
+ * Every amount gets the currency of the symbol or code printed next to it.
+ * Ambiguous symbols ("$" is USD, CAD, AUD...; "kr" is SEK, NOK, DKK...) are
+ * settled with hints from the rest of the page, then with the user's default
+ * currency. Amounts without a marker inherit the page's dominant currency.
+ * Each decision carries a confidence score and a short explanation.
+ */
+
+import type { LabelledFigure } from './layoutExtractor';
+
+// How a currency was decided, from most to least reliable
+export type CurrencyMethod = 'code' | 'symbol' | 'page-hint' | 'page' | 'default';
+
+export interface CurrencyAttribution {
+  currency: string;      // ISO 4217 code
+  method: CurrencyMethod;
+  confidence: number;    // 0-1 scale
+  candidates: string[];  // Every currency the marker could mean
+}
+
+export interface CurrencyShare {
+  currency: string;
+  figureCount: number;
+  revenue: number;       // Best-scored positive figure in this currency (CSV: sum of its rows)
+}
+
+// Summary for a whole screenshot
+export interface CurrencySummary {
+  currency: string;            // Primary currency of the result
+  method: CurrencyMethod;
+  confidence: number;
+  explanation: string;         // Human-readable reason, shown in the dashboard
+  breakdown: CurrencyShare[];  // More than one entry when the screenshot mixes currencies
+}
+
+export interface CurrencySettings {
+  defaultCurrency: string;  // Used when nothing on the page decides
+}
+
+// Marker → every currency it may stand for, most common first
+const CURRENCY_MARKERS: { [key: string]: string[] } = {
+  'US$': ['USD'], 'C$': ['CAD'], 'CA$': ['CAD'], 'A$': ['AUD'], 'AU$': ['AUD'],
+  'NZ$': ['NZD'], 'S$': ['SGD'], 'HK$': ['HKD'], 'R$': ['BRL'],
+  '$': ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD', 'MXN'],
+  '€': ['EUR'], '£': ['GBP'], '₹': ['INR'], '¥': ['JPY', 'CNY'], '₩': ['KRW'],
+  'DH': ['AED'], 'DHS': ['AED'], 'د.إ': ['AED'], 'درهم': ['AED'],
+  'SR': ['SAR'], 'ر.س': ['SAR'], 'ريال': ['SAR', 'QAR', 'OMR'],
+  'RS': ['INR', 'PKR', 'LKR', 'NPR'], 'RS.': ['INR', 'PKR', 'LKR', 'NPR'],
+  'KR': ['SEK', 'NOK', 'DKK', 'ISK'], 'KR.': ['DKK', 'SEK', 'NOK', 'ISK'],
+  'FR.': ['CHF'],
+};
+
+// ISO codes we recognise when printed next to an amount
+const ISO_CODES = [
+  'AED', 'USD', 'EUR', 'GBP', 'INR', 'SAR', 'QAR', 'OMR', 'KWD', 'BHD', 'EGP',
+  'CAD', 'AUD', 'NZD', 'SGD', 'HKD', 'JPY', 'CNY', 'KRW', 'CHF', 'SEK', 'NOK',
+  'DKK', 'ISK', 'PKR', 'LKR', 'NPR', 'BRL', 'MXN', 'ZAR',
+];
+
+// Words elsewhere on the page that point at one reading of an ambiguous marker
+const PAGE_HINTS: Array<{ pattern: RegExp, currency: string }> = [
+  { pattern: /\bcanad(a|ian)\b|\bGST\/HST\b/i, currency: 'CAD' },
+  { pattern: /\baustralia(n)?\b|\bABN\b/i, currency: 'AUD' },
+  { pattern: /\bnew zealand\b/i, currency: 'NZD' },
+  { pattern: /\bsingapore\b/i, currency: 'SGD' },
+  { pattern: /\bhong kong\b/i, currency: 'HKD' },
+  { pattern: /\bmexic(o|an)\b/i, currency: 'MXN' },
+  { pattern: /\bsweden\b|\bsvenska\b|\bmoms\b/i, currency: 'SEK' },
+  { pattern: /\bnorway\b|\bnorsk\b/i, currency: 'NOK' },
+  { pattern: /\bdenmark\b|\bdansk\b/i, currency: 'DKK' },
+  { pattern: /\bpakistan\b/i, currency: 'PKR' },
+  { pattern: /\bsri lanka\b/i, currency: 'LKR' },
+  { pattern: /\bindia\b|\bGSTIN\b|\bUPI\b/i, currency: 'INR' },
+  { pattern: /\bchina\b|\bRMB\b|人民币/i, currency: 'CNY' },
+];
+
+// Region of a browser locale → its currency, for the default setting
+const REGION_CURRENCIES: { [key: string]: string } = {
+  AE: 'AED', SA: 'SAR', QA: 'QAR', OM: 'OMR', KW: 'KWD', BH: 'BHD', EG: 'EGP',
+  US: 'USD', CA: 'CAD', AU: 'AUD', NZ: 'NZD', SG: 'SGD', HK: 'HKD', GB: 'GBP',
+  IN: 'INR', PK: 'PKR', LK: 'LKR', JP: 'JPY', CN: 'CNY', KR: 'KRW', CH: 'CHF',
+  SE: 'SEK', NO: 'NOK', DK: 'DKK', BR: 'BRL', MX: 'MXN', ZA: 'ZAR',
+  DE: 'EUR', FR: 'EUR', ES: 'EUR', IT: 'EUR', NL: 'EUR', IE: 'EUR', BE: 'EUR',
+  AT: 'EUR', PT: 'EUR', FI: 'EUR', GR: 'EUR',
+};
+
+export const SUPPORTED_CURRENCIES = [...ISO_CODES].sort();
+
+/**
+ * Regex source matching any currency marker next to a number
+ *
+ * Shared with the number parser and the layout extractor so that all three
+ * agree on what counts as a marker. Letter markers must not touch other
+ * letters, so "Rs" inside "Orders" is not a rupee sign.
+ */
+export const CURRENCY_MARKER_PATTERN = '(?:(?:(?<!\\p{L})(?:US|CA?|AU?|NZ|S|HK|R))?\\$|[€£₹¥₩]|د\\.إ|درهم|ر\\.س|ريال|'
+  + `(?<!\\p{L})(?:${ISO_CODES.join('|')}|Dhs?|Rs\\.?|SR|kr\\.?|Fr\\.)(?!\\p{L}))`;
+
+/**
+ * Pick a default currency from a browser locale such as "en-AE"
+ *
+ * @param locale - BCP 47 language tag, usually navigator.language
+ * @returns string - ISO code, USD when the region is unknown
+ */
+export function defaultCurrencyForLocale(locale: string): string {
+  const region = locale.split(/[-_]/).find((part, i) => i > 0 && /^[A-Za-z]{2}$/.test(part));
+  return (region && REGION_CURRENCIES[region.toUpperCase()]) || 'USD';
+}
+
+/**
+ * Collect currencies the page itself points at
+ *
+ * ISO codes printed anywhere and country words both count, so a "$" on a
+ * page that also says "CAD" or "Canada" reads as Canadian dollars.
+ */
+function pageHints(text: string): Set<string> {
+  const hints = new Set<string>();
+  for (const code of ISO_CODES) {
+    if (new RegExp(`(?<!\\p{L})${code}(?!\\p{L})`, 'u').test(text)) hints.add(code);
+  }
+  for (const hint of PAGE_HINTS) {
+    if (hint.pattern.test(text)) hints.add(hint.currency);
+  }
+  return hints;
+}
+
+/**
+ * Work out which currency a single marker stands for
+ *
+ * How it works:
+ * - ISO codes are exact
+ * - Symbols with one meaning ("€", "₹", "د.إ") are nearly exact
+ * - Ambiguous symbols prefer a currency the page mentions, then the
+ *   default currency if it's a candidate, then the most common reading
+ *
+ * @param marker - Symbol or code next to the amount, e.g. "$", "AED"
+ * @param hints - Currencies the page points at (see pageHints)
+ * @param settings - User's default currency
+ * @returns CurrencyAttribution | null - null for an unknown marker
+ */
+export function resolveCurrencyMarker(
+  marker: string,
+  hints: Set<string>,
+  settings: CurrencySettings
+): CurrencyAttribution | null {
+  const key = marker.trim().toUpperCase();
+
+  if (ISO_CODES.includes(key)) {
+    return { currency: key, method: 'code', confidence: 0.95, candidates: [key] };
+  }
+
+  const candidates = CURRENCY_MARKERS[key] ?? CURRENCY_MARKERS[marker.trim()];
+  if (!candidates) return null;
+
+  if (candidates.length === 1) {
+    return { currency: candidates[0], method: 'symbol', confidence: 0.9, candidates };
+  }
+
+  const hinted = candidates.filter(code => hints.has(code));
+  if (hinted.length === 1) {
+    return { currency: hinted[0], method: 'page-hint', confidence: 0.75, candidates };
+  }
+  if (candidates.includes(settings.defaultCurrency)) {
+    return { currency: settings.defaultCurrency, method: 'default', confidence: 0.6, candidates };
+  }
+  return { currency: candidates[0], method: 'symbol', confidence: 0.5, candidates };
+}
+
+/**
+ * Attach a currency to every figure and summarise the page
+ *
+ * How it works:
+ * - Resolves each figure's own marker (see resolveCurrencyMarker)
+ * - Figures without a marker take the currency most marked figures use
+ * - With no markers at all, the page's ISO codes or the default decide
+ * - The primary currency is the one attached to the total, and the
+ *   breakdown lists every currency found among positive figures, each
+ *   with its best-scored figure as its revenue (figures must be scored)
+ *
+ * @param figures - Labelled figures with their raw currency markers
+ * @param text - Full OCR text, for page-level hints
+ * @param settings - User's default currency
+ * @param totalFigure - The figure chosen as total revenue, if any
+ * @returns figures with currency fields filled in, plus the page summary
+ */
+export function attributeCurrencies(
+  figures: LabelledFigure[],
+  text: string,
+  settings: CurrencySettings,
+  totalFigure: LabelledFigure | null
+): { figures: LabelledFigure[], summary: CurrencySummary } {
+  const hints = pageHints(text);
+
+  const resolved = figures.map(figure =>
+    figure.currencyMarker ? resolveCurrencyMarker(figure.currencyMarker, hints, settings) : null
+  );
+
+  // Dominant currency among figures that carry their own marker
+  const counts = new Map<string, number>();
+  for (const attribution of resolved) {
+    if (attribution) counts.set(attribution.currency, (counts.get(attribution.currency) ?? 0) + 1);
+  }
+  const dominant = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  let pageFallback: CurrencyAttribution;
+  if (dominant) {
+    pageFallback = { currency: dominant, method: 'page', confidence: 0.6, candidates: [dominant] };
+  } else if (hints.size === 1) {
+    const [only] = [...hints];
+    pageFallback = { currency: only, method: 'page-hint', confidence: 0.5, candidates: [only] };
+  } else {
+    const currency = settings.defaultCurrency;
+    pageFallback = { currency, method: 'default', confidence: 0.3, candidates: [currency] };
+  }
+
+  const attributed = figures.map((figure, i) => {
+    const attribution = resolved[i] ?? pageFallback;
+    return { ...figure, currency: attribution.currency, currencyConfidence: attribution.confidence };
+  });
+
+  // Breakdown over positive figures; each currency's revenue is picked the
+  // way the total is, never summed over gross, net, fees and table months
+  const shares = new Map<string, CurrencyShare & { confidence: number }>();
+  for (const figure of attributed) {
+    if (figure.value <= 0 || !figure.currency) continue;
+    const share = shares.get(figure.currency);
+    if (!share) {
+      shares.set(figure.currency, { currency: figure.currency, figureCount: 1, revenue: figure.value, confidence: figure.confidence });
+      continue;
+    }
+    share.figureCount++;
+    if (figure.confidence > share.confidence) {
+      share.revenue = figure.value;
+      share.confidence = figure.confidence;
+    }
+  }
+  const breakdown = [...shares.values()]
+    .map(({ currency, figureCount, revenue }) => ({ currency, figureCount, revenue }))
+    .sort((a, b) => b.figureCount - a.figureCount || b.revenue - a.revenue);
+
+  const totalIndex = totalFigure ? figures.indexOf(totalFigure) : -1;
+  const primary = totalIndex >= 0 ? (resolved[totalIndex] ?? pageFallback) : pageFallback;
+  const marker = totalIndex >= 0 ? figures[totalIndex].currencyMarker : null;
+
+  return {
+    figures: attributed,
+    summary: {
+      currency: primary.currency,
+      method: primary.method,
+      confidence: primary.confidence,
+      explanation: explain(primary, marker, settings),
+      breakdown,
+    },
+  };
+}
+
+function explain(attribution: CurrencyAttribution, marker: string | null, settings: CurrencySettings): string {
+  const others = attribution.candidates.filter(code => code !== attribution.currency);
+  const alternatives = others.length > 0 ? ` (could also be ${others.join(', ')})` : '';
+
+  switch (attribution.method) {
+    case 'code':
+      return `"${marker}" is printed next to the total`;
+    case 'symbol':
+      return `"${marker}" next to the total reads as ${attribution.currency}${alternatives}`;
+    case 'page-hint':
+      return marker
+        ? `"${marker}" next to the total is ambiguous; the page mentions ${attribution.currency}${alternatives}`
+        : `No symbol next to the total; the page mentions ${attribution.currency}`;
+    case 'page':
+      return `No symbol next to the total; other amounts on the page are in ${attribution.currency}`;
+    case 'default':
+      return marker
+        ? `"${marker}" next to the total is ambiguous; using your default currency ${settings.defaultCurrency}${alternatives}`
+        : `No currency found on the page; using your default currency ${settings.defaultCurrency}`;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Analysis diagnostics
+ *
+ * What the engine noticed along the way: the number format it chose, the
+ * figures it scored, steps it skipped. They used to go to the console;
+ * now they go to whoever asked for them (AnalysisOptions.onDiagnostic),
+ * so the browser can log them, the CLI can print or export them, and a
+ * library caller can ignore them.
+ */
+
+export type DiagnosticLevel = 'info' | 'warning' | 'error';
+
+// Pipeline stage a diagnostic comes from
+export type DiagnosticStage =
+  | 'input'
+  | 'preprocessing'
+  | 'ocr'
+  | 'privacy'
+  | 'numbers'
+  | 'figures'
+  | 'currency'
+  | 'breakdown'
+  | 'fx'
+  | 'pdf'
+  | 'csv'
+  | 'validation';
+
+export interface Diagnostic {
+  level: DiagnosticLevel;
+  stage: DiagnosticStage;
+  message: string;
+  data?: unknown;  // Details for debugging; not meant to be shown as-is
+}
+
+export type DiagnosticListener = (diagnostic: Diagnostic) => void;
+
+/**
+ * Send a diagnostic to the listener, if there is one
+ */
+export function emitDiagnostic(
+  listener: DiagnosticListener | undefined,
+  level: DiagnosticLevel,
+  stage: DiagnosticStage,
+  message: string,
+  data?: unknown
+): void {
+  listener?.(data === undefined ? { level, stage, message } : { level, stage, message, data });
+}
+
+/**
+ * Listener that writes diagnostics to the console, as the engine used to
+ */
+export function logDiagnostic(diagnostic: Diagnostic): void {
+  const log = diagnostic.level === 'error' ? console.error : diagnostic.level === 'warning' ? console.warn : console.log;
+  const line = `[${diagnostic.stage}] ${diagnostic.message}`;
+  if (diagnostic.data === undefined) log(line);
+  else log(line, diagnostic.data);
+}
@@ -0,0 +1,74 @@
+/**
+ * Headless analysis engine
+ *
+ * The same pipeline the app runs, without the app: hand it bytes, get back
+ * the analysis (or the error) plus everything the engine noticed on the
+ * way. Nothing here touches React, the DOM or Node, so it runs in a
+ * browser, a worker or Node alike; the Node CLI (cli/) adds reading files
+ * from disk and pointing OCR at local language data.
+ */
+
+import { failure } from './analysisErrors';
+import type { Outcome } from './analysisErrors';
+import { analyzeFile, detectFileKind } from './importers';
+import type { FileKind } from './importers';
+import type { AnalysisOptions, RevenueAnalysis } from './revenueAnalyzer';
+import type { Diagnostic } from './diagnostics';
+import { checkAnalysis } from './validation';
+
+// Bytes of a screenshot, PDF or CSV; a Node Buffer is a Uint8Array
+export type AnalysisInput = Blob | Uint8Array | ArrayBuffer;
+
+export interface EngineOptions extends AnalysisOptions {
+  name?: string;  // File name; its extension decides the kind when there's no type
+  type?: string;  // MIME type; defaults to the Blob's own
+}
+
+export interface EngineResult {
+  name: string;
+  kind: FileKind;
+  outcome: Outcome<RevenueAnalysis>;
+  diagnostics: Diagnostic[];  // In the order they happened
+  durationMs: number;
+}
+
+/**
+ * Analyse one screenshot, PDF or CSV
+ *
+ * Diagnostics are collected into the result and still passed to
+ * options.onDiagnostic as they happen, followed by a warning for every
+ * implausible value (see validation.ts). Never throws: anything
+ * unexpected comes back as an 'unexpected' error.
+ *
+ * @param input - File contents
+ * @param options - Name and type of the input, plus the usual analysis settings
+ * @returns Promise<EngineResult>
+ */
+export async function analyzeInput(input: AnalysisInput, options: EngineOptions = {}): Promise<EngineResult> {
+  const { name = 'input', type, ...analysisOptions } = options;
+  const started = Date.now();
+  const diagnostics: Diagnostic[] = [];
+  const onDiagnostic = (diagnostic: Diagnostic) => {
+    diagnostics.push(diagnostic);
+    options.onDiagnostic?.(diagnostic);
+  };
+
+  const file = new File(
+    [input instanceof Blob ? input : new Uint8Array(input)],
+    name,
+    { type: type ?? (input instanceof Blob ? input.type : '') }
+  );
+  const kind = detectFileKind(file);
+  onDiagnostic({ level: 'info', stage: 'input', message: `${name}: ${kind}, ${file.size} bytes` });
+
+  let outcome: Outcome<RevenueAnalysis>;
+  try {
+    outcome = await analyzeFile(file, { ...analysisOptions, onDiagnostic });
+  } catch (error) {
+    outcome = failure('unexpected', error);
+  }
+  if (outcome.ok) {
+    checkAnalysis(outcome.value).forEach(flag => onDiagnostic({ level: 'warning', stage: 'validation', message: flag.message, data: flag }));
+  }
+  return { name, kind, outcome, diagnostics, durationMs: Date.now() - started };
+}
@@ -0,0 +1,91 @@
+/**
+ * Golden-file corpus format
+ *
+ * A case is a JSON file describing one source (a screenshot, PDF or CSV,
+ * or just the text OCR read from one) and what a person reading it says
+ * the right answers are. Cases live in corpus/cases/ next to their
+ * fixtures; see "Extraction accuracy" in the README.
+ */
+
+import type { NumberLocale } from '../numberParser';
+import { NUMBER_LOCALES } from '../numberParser';
+
+// The right answers for one source. A field left out isn't scored; null
+// means the source doesn't show it, so any value produced is a mistake.
+export interface ExpectedResult {
+  totalRevenue?: number | null;
+  currency?: string | null;
+  thisMonth?: number | null;
+  lastMonth?: number | null;
+  series?: Array<{ period: string, amount: number }>;  // Every month the source lists; [] when it lists none
+}
+
+export interface CorpusCase {
+  id: string;  // File name without .json
+  description: string;
+  file: string | null;  // Source file, relative to the case
+  ocr: string | null;   // Cached OCR: plain text (.txt) or a layout with boxes (.json)
+  options: {
+    locale?: NumberLocale | 'auto';
+    defaultCurrency: string;  // Fixed, so results don't depend on the machine's region
+    ocrLanguages?: string[];
+  };
+  expected: ExpectedResult;
+}
+
+function isAmount(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Read and check a case file
+ *
+ * @param id - Case name, for error messages
+ * @param json - Parsed contents of the case file
+ * @returns CorpusCase
+ * @throws Error - Saying what is wrong with the file
+ */
+export function parseCase(id: string, json: unknown): CorpusCase {
+  const problem = (message: string) => new Error(`${id}: ${message}`);
+  if (typeof json !== 'object' || json === null) throw problem('not a JSON object');
+  const raw = json as Record<string, unknown>;
+
+  const file = typeof raw.file === 'string' ? raw.file : null;
+  const ocr = typeof raw.ocr === 'string' ? raw.ocr : null;
+  if (!file && !ocr) throw problem('needs "file", "ocr" or both');
+
+  const options = (raw.options ?? {}) as Record<string, unknown>;
+  if (options.locale !== undefined && options.locale !== 'auto' && !NUMBER_LOCALES.some(locale => locale.value === options.locale)) {
+    throw problem(`unknown locale "${String(options.locale)}"`);
+  }
+  if (options.ocrLanguages !== undefined && !(Array.isArray(options.ocrLanguages) && options.ocrLanguages.every(l => typeof l === 'string'))) {
+    throw problem('"ocrLanguages" must be a list of language codes');
+  }
+
+  const expected = raw.expected as Record<string, unknown> | undefined;
+  if (typeof expected !== 'object' || expected === null) throw problem('needs "expected"');
+  for (const field of ['totalRevenue', 'thisMonth', 'lastMonth'] as const) {
+    if (field in expected && !isAmount(expected[field])) throw problem(`"expected.${field}" must be a number or null`);
+  }
+  if ('currency' in expected && expected.currency !== null && typeof expected.currency !== 'string') {
+    throw problem('"expected.currency" must be a currency code or null');
+  }
+  if ('series' in expected && !(Array.isArray(expected.series) && expected.series.every(month =>
+    typeof month?.period === 'string' && /^\d{4}-\d{2}$/.test(month.period) && typeof month.amount === 'number'
+  ))) {
+    throw problem('"expected.series" must list { "period": "YYYY-MM", "amount": number }');
+  }
+
+  return {
+    id,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    file,
+    ocr,
+    options: {
+      locale: options.locale as NumberLocale | 'auto' | undefined,
+      defaultCurrency: typeof options.defaultCurrency === 'string' ? options.defaultCurrency : 'USD',
+      ocrLanguages: options.ocrLanguages as string[] | undefined,
+    },
+    expected: expected as ExpectedResult,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Extraction accuracy against a golden corpus
+ *
+ * Runs each corpus case through the engine and scores the result (see
+ * scoring.ts). Screenshots are read from cached OCR by default, so a run
+ * is fast and gives the same answer every time; live OCR is there to
+ * refresh the cache. PDFs and CSVs need no OCR and always run for real.
+ * Reading the corpus from disk is left to the caller (cli/evaluate.ts).
+ */
+
+import type { Outcome } from '../analysisErrors';
+import { analyzeFile, detectFileKind } from '../importers';
+import { analyzeLayout, recognizeImage } from '../revenueAnalyzer';
+import type { AnalysisOptions, RevenueAnalysis } from '../revenueAnalyzer';
+import { layoutFromText } from '../layoutExtractor';
+import type { OcrLayout } from '../layoutExtractor';
+import type { CorpusCase } from './corpus';
+import { scoreOutcome } from './scoring';
+import type { CaseResult } from './scoring';
+
+export type OcrMode = 'cached' | 'live';
+
+// A case's fixtures, loaded
+export interface CaseSource {
+  file: File | null;
+  cachedLayout: OcrLayout | null;
+}
+
+/**
+ * Read a cached OCR file
+ *
+ * @param fileName - .json for a layout with boxes (as written by a live run), anything else for plain text
+ * @param contents - The file's text
+ * @returns OcrLayout
+ */
+export function parseCachedLayout(fileName: string, contents: string): OcrLayout {
+  if (!fileName.toLowerCase().endsWith('.json')) return layoutFromText(contents);
+  const layout = JSON.parse(contents) as OcrLayout;
+  if (typeof layout?.text !== 'string' || !Array.isArray(layout.lines)) {
+    throw new Error(`${fileName}: not an OCR layout ({ "text", "lines" })`);
+  }
+  return layout;
+}
+
+/**
+ * Run one case and score it
+ *
+ * How it works:
+ * - PDFs and CSVs are analysed from the file
+ * - Screenshots are read from the cached OCR, or with live OCR when asked
+ *   (falling back to the cache when there's no image)
+ * - A screenshot with no cached OCR is skipped in cached mode
+ *
+ * @param corpusCase - The case
+ * @param source - Its fixtures
+ * @param mode - Cached or live OCR for screenshots
+ * @param options - Extra analysis settings, e.g. a diagnostics listener
+ * @returns Promise - The scored case, and the layout live OCR read (to cache it)
+ */
+export async function runCase(
+  corpusCase: CorpusCase,
+  source: CaseSource,
+  mode: OcrMode,
+  options: AnalysisOptions = {}
+): Promise<{ result: CaseResult, layout: OcrLayout | null }> {
+  const started = Date.now();
+  const analysisOptions: AnalysisOptions = { ...options, ...corpusCase.options };
+  const fromLayout = (layout: OcrLayout, ocrLanguages: string[]) =>
+    analyzeLayout(layout, analysisOptions, { analysisMethod: 'ocr', preprocessing: [], ocrLanguages });
+
+  let outcome: Outcome<RevenueAnalysis>;
+  let liveLayout: OcrLayout | null = null;
+  const image = source.file !== null && detectFileKind(source.file) === 'image';
+
+  if (source.file && !image) {
+    outcome = await analyzeFile(source.file, analysisOptions);
+  } else if (source.file && mode === 'live') {
+    const ocr = await recognizeImage(source.file, analysisOptions);
+    if (ocr.ok) liveLayout = ocr.value.layout;
+    outcome = ocr.ok ? fromLayout(ocr.value.layout, ocr.value.languages) : ocr;
+  } else if (source.cachedLayout) {
+    outcome = fromLayout(source.cachedLayout, corpusCase.options.ocrLanguages ?? []);
+  } else {
+    return {
+      result: { id: corpusCase.id, status: 'skipped', detail: 'No cached OCR for this screenshot', checks: [], durationMs: 0 },
+      layout: null,
+    };
+  }
+
+  return {
+    result: {
+      id: corpusCase.id,
+      status: outcome.ok ? 'scored' : 'failed',
+      detail: outcome.ok ? null : `${outcome.error.kind}: ${outcome.error.detail ?? outcome.error.message}`,
+      checks: scoreOutcome(corpusCase.expected, outcome),
+      durationMs: Date.now() - started,
+    },
+    layout: liveLayout,
+  };
+}
+
+export { parseCase } from './corpus';
+export type { CorpusCase, ExpectedResult } from './corpus';
+export { SCORED_FIELDS, baselineFromResults, compareWithBaseline, scoreOutcome, summarizeResults } from './scoring';
+export type { BaselineComparison, CaseResult, CorpusBaseline, CorpusScore, FieldCheck, FieldScore, ScoredField } from './scoring';
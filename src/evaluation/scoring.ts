@@ -0,0 +1,195 @@
+/**
+ * Scoring extraction against a golden corpus
+ *
+ * Every expected value becomes a check, and so does every value the
+ * engine produced where the source shows none. Per field that gives:
+ * - precision: of the values produced, the share that were right
+ * - recall: of the values the source shows, the share found correctly
+ * A wrong value counts against both. Monthly series are scored month by
+ * month, so reading five of six rows still earns most of the credit.
+ */
+
+import type { Outcome } from '../analysisErrors';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import type { ExpectedResult } from './corpus';
+
+export const SCORED_FIELDS = ['totalRevenue', 'currency', 'thisMonth', 'lastMonth', 'series'] as const;
+export type ScoredField = typeof SCORED_FIELDS[number];
+
+// Totals are rounded to whole units, so amounts this close count as equal
+const AMOUNT_TOLERANCE = 1;
+
+// Metrics are stored to this many decimals, and smaller drops are noise
+const METRIC_DECIMALS = 4;
+
+export interface FieldCheck {
+  field: ScoredField;
+  key: string;  // The field, or "series 2025-04" for one month
+  expected: string | number | null;
+  actual: string | number | null;
+  correct: boolean;
+}
+
+export interface CaseResult {
+  id: string;
+  status: 'scored' | 'failed' | 'skipped';  // failed: the engine returned an error; skipped: couldn't run here
+  detail: string | null;  // Error or reason for skipping
+  checks: FieldCheck[];
+  durationMs: number;
+}
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;  // 1 when nothing was produced
+  recall: number;     // 1 when nothing was expected
+}
+
+export interface CorpusScore {
+  cases: number;
+  scored: number;
+  failed: number;
+  skipped: number;
+  perfect: number;  // Cases with every check right
+  fields: { [field in ScoredField]: FieldScore };
+}
+
+// What a run is compared against; written with --update-baseline
+export interface CorpusBaseline {
+  version: 1;
+  fields: { [field in ScoredField]: { precision: number, recall: number } };
+  passing: { [caseId: string]: string[] };  // Checks each case got right
+}
+
+export interface BaselineComparison {
+  regressions: Array<{ field: ScoredField, metric: 'precision' | 'recall', before: number, after: number }>;
+  improvements: Array<{ field: ScoredField, metric: 'precision' | 'recall', before: number, after: number }>;
+  lost: Array<{ caseId: string, key: string }>;  // Checks that passed in the baseline and fail now
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) <= AMOUNT_TOLERANCE;
+}
+
+function check(field: ScoredField, key: string, expected: string | number | null, actual: string | number | null): FieldCheck {
+  const correct = expected === null || actual === null
+    ? expected === actual
+    : typeof expected === 'number' && typeof actual === 'number' ? sameAmount(expected, actual) : expected === actual;
+  return { field, key, expected, actual, correct };
+}
+
+/**
+ * Check one analysis against the expected values
+ *
+ * A failed analysis produced nothing, so every expected value is missed.
+ *
+ * @param expected - The case's right answers
+ * @param outcome - What the engine returned
+ * @returns FieldCheck[] - One per scored value
+ */
+export function scoreOutcome(expected: ExpectedResult, outcome: Outcome<RevenueAnalysis>): FieldCheck[] {
+  const analysis = outcome.ok ? outcome.value : null;
+  const checks: FieldCheck[] = [];
+
+  for (const field of ['totalRevenue', 'currency', 'thisMonth', 'lastMonth'] as const) {
+    const want = expected[field];
+    if (want === undefined) continue;
+    checks.push(check(field, field, want, analysis ? analysis[field] : null));
+  }
+
+  if (expected.series) {
+    const produced = new Map((analysis?.series ?? []).map(month => [month.period, month.amount]));
+    const wanted = new Map(expected.series.map(month => [month.period, month.amount]));
+    const periods = [...new Set([...wanted.keys(), ...produced.keys()])].sort();
+    periods.forEach(period => checks.push(check('series', `series ${period}`, wanted.get(period) ?? null, produced.get(period) ?? null)));
+  }
+
+  return checks;
+}
+
+function round(value: number): number {
+  const factor = 10 ** METRIC_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Precision and recall per field across the corpus
+ */
+export function summarizeResults(results: CaseResult[]): CorpusScore {
+  const fields = Object.fromEntries(SCORED_FIELDS.map(field => {
+    const checks = results.flatMap(result => result.checks.filter(c => c.field === field));
+    const truePositives = checks.filter(c => c.correct && c.actual !== null).length;
+    const falsePositives = checks.filter(c => !c.correct && c.actual !== null).length;
+    const falseNegatives = checks.filter(c => !c.correct && c.expected !== null).length;
+    return [field, {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: round(truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1),
+      recall: round(truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1),
+    }];
+  })) as CorpusScore['fields'];
+
+  return {
+    cases: results.length,
+    scored: results.filter(result => result.status === 'scored').length,
+    failed: results.filter(result => result.status === 'failed').length,
+    skipped: results.filter(result => result.status === 'skipped').length,
+    perfect: results.filter(result => result.status !== 'skipped' && result.checks.every(c => c.correct)).length,
+    fields,
+  };
+}
+
+/**
+ * The baseline to store for this run
+ */
+export function baselineFromResults(results: CaseResult[], score: CorpusScore): CorpusBaseline {
+  return {
+    version: 1,
+    fields: Object.fromEntries(SCORED_FIELDS.map(field => [
+      field,
+      { precision: score.fields[field].precision, recall: score.fields[field].recall },
+    ])) as CorpusBaseline['fields'],
+    passing: Object.fromEntries(results
+      .filter(result => result.status !== 'skipped')
+      .map(result => [result.id, result.checks.filter(c => c.correct).map(c => c.key)])),
+  };
+}
+
+/**
+ * Compare a run with the stored baseline
+ *
+ * A metric that dropped is a regression and should fail the run. Checks
+ * that used to pass are listed too, to show where to look, but on their
+ * own they aren't a regression: a change can fix more than it breaks.
+ * Skipped cases are left out of the lost list.
+ *
+ * @param results - This run's cases
+ * @param score - This run's summary
+ * @param baseline - The stored baseline
+ * @returns BaselineComparison
+ */
+export function compareWithBaseline(results: CaseResult[], score: CorpusScore, baseline: CorpusBaseline): BaselineComparison {
+  const comparison: BaselineComparison = { regressions: [], improvements: [], lost: [] };
+
+  for (const field of SCORED_FIELDS) {
+    const before = baseline.fields[field];
+    if (!before) continue;
+    for (const metric of ['precision', 'recall'] as const) {
+      const after = score.fields[field][metric];
+      if (after < before[metric]) comparison.regressions.push({ field, metric, before: before[metric], after });
+      else if (after > before[metric]) comparison.improvements.push({ field, metric, before: before[metric], after });
+    }
+  }
+
+  for (const result of results) {
+    if (result.status === 'skipped') continue;
+    const passing = new Set(result.checks.filter(c => c.correct).map(c => c.key));
+    (baseline.passing[result.id] ?? [])
+      .filter(key => !passing.has(key))
+      .forEach(key => comparison.lost.push({ caseId: result.id, key }));
+  }
+
+  return comparison;
+}
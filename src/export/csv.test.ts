@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { analysisToCsv, batchToCsv } from './csv';
+import { analyzeSample } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import { analysisError } from '../analysisErrors';
+
+const sample = analyzeSample({ defaultCurrency: 'USD' });
+const totalOnly: RevenueAnalysis = { ...sample, series: [], breakdownSource: 'unavailable', thisMonth: 0, lastMonth: 0, growth: 0 };
+
+const lines = (csv: string) => csv.split('\r\n').slice(0, -1);
+
+describe('analysisToCsv', () => {
+  it('writes headline values, months and figures as records', () => {
+    const [header, ...rows] = lines(analysisToCsv(sample));
+
+    expect(header).toBe('record,label,period,amount,currency,confidence,source');
+    expect(rows.slice(0, 4)).toEqual([
+      'metric,Total Revenue,,48920,USD,,extracted',
+      'metric,This Month,2025-09,9444,USD,,extracted',
+      'metric,Last Month,2025-08,8905,USD,,extracted',
+      'metric,Growth (%),,6,,,table',
+    ]);
+    expect(rows.filter(row => row.startsWith('month,'))).toHaveLength(6);
+    expect(rows.filter(row => row.startsWith('figure,'))).toHaveLength(sample.figures.length);
+  });
+
+  it('leaves months and growth empty when they aren\'t known', () => {
+    const rows = lines(analysisToCsv(totalOnly));
+
+    expect(rows.slice(2, 5)).toEqual([
+      'metric,This Month,,,USD,,extracted',
+      'metric,Last Month,,,USD,,extracted',
+      'metric,Growth (%),,,,,unavailable',
+    ]);
+  });
+
+  it('quotes separators and keeps formulas from running', () => {
+    const figure = { ...sample.figures[1], label: '=HYPERLINK("x"), total', text: '-$1,200.00' };
+    const rows = lines(analysisToCsv({ ...sample, figures: [figure] }));
+
+    expect(rows.at(-1)).toBe(`figure,"'=HYPERLINK(""x""), total",,${figure.value},USD,${Math.round(figure.confidence * 100) / 100},"'-$1,200.00"`);
+  });
+});
+
+describe('batchToCsv', () => {
+  it('writes a row per file, failed ones with their error', () => {
+    const rows = lines(batchToCsv([
+      { sourceName: 'stripe.png', outcome: { ok: true, value: totalOnly } },
+      { sourceName: 'blank.png', outcome: { ok: false, error: analysisError('no-numbers', '12 words read') } },
+    ]));
+
+    expect(rows[1]).toBe(`stripe.png,ok,48920,,,,USD,${Math.round(totalOnly.confidence * 100) / 100},sample,unavailable,`);
+    expect(rows[2]).toBe('blank.png,failed,,,,,,,,,no-numbers: 12 words read');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * CSV export
+ *
+ * One table per file so spreadsheets open it without fiddling. An analysis
+ * becomes "long" rows (a record type, then label, period, amount...), so
+ * headline values, months and individual figures share one sheet and can
+ * be filtered by the first column. A timeline is one row per month, and a
+ * batch one row per file.
+ */
+
+import { knownBreakdown } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import type { RevenueTimeline } from '../timeline';
+import type { Outcome } from '../analysisErrors';
+
+type Cell = string | number | null;
+
+/**
+ * One CSV field (RFC 4180)
+ *
+ * Text starting with =, +, - or @ gets a leading apostrophe so a
+ * spreadsheet shows it instead of running it as a formula; OCR labels are
+ * untrusted input.
+ */
+function field(value: Cell): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsv(header: string[], rows: Cell[][]): string {
+  return [header, ...rows].map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * An analysis as CSV
+ *
+ * Records:
+ * - metric: Total Revenue, This Month, Last Month, Growth (%), with
+ *   "corrected" in the source column where a person set the value
+ * - month: every month of the series
+ * - figure: every amount found, with its label and confidence
+ *
+ * @param analysis - Analysis to export, with corrections already applied
+ * @returns string - CSV text with a header row and CRLF line ends
+ */
+export function analysisToCsv(analysis: RevenueAnalysis): string {
+  const { currency, fieldSources } = analysis;
+  // The months behind This/Last Month, when they came from real rows
+  const months = analysis.breakdownSource === 'table' ? analysis.series : [];
+  // Left empty when the source had no monthly figures
+  const known = knownBreakdown(analysis);
+  const rows: Cell[][] = [
+    ['metric', 'Total Revenue', null, analysis.totalRevenue, currency, null, fieldSources.totalRevenue],
+    ['metric', 'This Month', months.at(-1)?.period ?? null, known.thisMonth, currency, null, fieldSources.thisMonth],
+    ['metric', 'Last Month', months.at(-2)?.period ?? null, known.lastMonth, currency, null, fieldSources.lastMonth],
+    ['metric', 'Growth (%)', null, known.growth, null, null, analysis.breakdownSource],
+    ...analysis.series.map((month): Cell[] => ['month', month.label, month.period, month.amount, currency, null, `${month.rowCount} rows`]),
+    ...analysis.figures.map((figure): Cell[] => [
+      'figure', figure.label, null, figure.value, figure.currency ?? currency, Math.round(figure.confidence * 100) / 100, figure.text,
+    ]),
+  ];
+  return toCsv(['record', 'label', 'period', 'amount', 'currency', 'confidence', 'source'], rows);
+}
+
+/**
+ * A merged timeline as CSV, one row per month
+ */
+export function timelineToCsv(timeline: RevenueTimeline): string {
+  const rows = timeline.periods.map((period): Cell[] => [
+    period.period,
+    period.label,
+    Math.round(period.amount * 100) / 100,
+    timeline.currency,
+    period.status,
+    period.chosen.sourceName,
+    period.contributions.filter(c => c !== period.chosen).map(c => c.sourceName).join('; ') || null,
+  ]);
+  return toCsv(['period', 'label', 'amount', 'currency', 'status', 'source', 'other_sources'], rows);
+}
+
+/**
+ * A batch of analyses as CSV, one row per file
+ *
+ * Failed files keep their row, with the error in place of the figures.
+ */
+export function batchToCsv(entries: Array<{ sourceName: string, outcome: Outcome<RevenueAnalysis> }>): string {
+  const rows = entries.map(({ sourceName, outcome }): Cell[] => {
+    if (!outcome.ok) return [sourceName, 'failed', null, null, null, null, null, null, null, null, `${outcome.error.kind}: ${outcome.error.detail ?? outcome.error.message}`];
+    const analysis = outcome.value;
+    const known = knownBreakdown(analysis);
+    return [
+      sourceName,
+      'ok',
+      analysis.totalRevenue,
+      known.thisMonth,
+      known.lastMonth,
+      known.growth,
+      analysis.currency,
+      Math.round(analysis.confidence * 100) / 100,
+      analysis.analysisMethod,
+      analysis.breakdownSource,
+      null,
+    ];
+  });
+  return toCsv(
+    ['source', 'status', 'total_revenue', 'this_month', 'last_month', 'growth', 'currency', 'confidence', 'method', 'breakdown', 'error'],
+    rows
+  );
+}
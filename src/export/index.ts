@@ -0,0 +1,5 @@
+export { analysisToCsv, batchToCsv, timelineToCsv } from './csv';
+export { EXPORT_SCHEMA_VERSION, analysisToExport, analysisToJson, batchToExport, batchToJson, timelineToExport, timelineToJson } from './json';
+export type { AnalysisExportV2, BatchExportV2, ExportAmountV2, ExportSourceV2, TimelineExportV2 } from './json';
+export { analysisReportHtml } from './report';
+export type { ReportOptions } from './report';
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_SCHEMA_VERSION, analysisToExport, batchToExport } from './json';
+import { analyzeSample } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import { analysisError } from '../analysisErrors';
+
+const exportedAt = new Date('2026-10-19T12:00:00.000Z');
+const sample = analyzeSample({ defaultCurrency: 'USD', reportingCurrency: 'EUR' });
+
+// No monthly table or labelled months on the page
+const totalOnly: RevenueAnalysis = { ...sample, series: [], breakdownSource: 'unavailable', thisMonth: 0, lastMonth: 0, growth: 0 };
+
+describe('analysisToExport', () => {
+  it('maps an analysis onto the schema', () => {
+    const exported = analysisToExport(sample, { sourceName: 'stripe.png', exportedAt });
+
+    expect(exported).toMatchObject({
+      schema: 'revtrackr.analysis',
+      version: EXPORT_SCHEMA_VERSION,
+      exportedAt: '2026-10-19T12:00:00.000Z',
+      source: { name: 'stripe.png', method: 'sample', template: { id: 'stripe', name: 'Stripe' } },
+      currency: 'USD',
+      totals: { totalRevenue: 48920, thisMonth: 9444, lastMonth: 8905, growth: 6 },
+      breakdownSource: 'table',
+      reporting: { currency: 'EUR' },
+      currencyBreakdown: [{ amount: 48920, currency: 'USD' }],
+    });
+    expect(exported.series).toHaveLength(6);
+    expect(exported.figures[0]).toEqual(expect.objectContaining({ amount: expect.any(Number), currency: 'USD', bbox: expect.any(Object) }));
+  });
+
+  it('exports months and growth it doesn\'t know as null, not 0', () => {
+    const exported = analysisToExport(totalOnly, { exportedAt });
+
+    expect(exported.totals).toEqual({ totalRevenue: 48920, thisMonth: null, lastMonth: null, growth: null });
+    expect(exported.reporting).toMatchObject({ thisMonth: null, lastMonth: null });
+    expect(exported.reporting?.totalRevenue).toBeCloseTo(48920 * 0.852);
+  });
+
+  it('exports a month a person entered', () => {
+    const corrected: RevenueAnalysis = { ...totalOnly, thisMonth: 9500, fieldSources: { ...totalOnly.fieldSources, thisMonth: 'corrected' } };
+
+    expect(analysisToExport(corrected, { exportedAt }).totals).toMatchObject({ thisMonth: 9500, lastMonth: null, growth: null });
+  });
+});
+
+describe('batchToExport', () => {
+  it('keeps failed files with their error', () => {
+    const exported = batchToExport([
+      { sourceName: 'stripe.png', outcome: { ok: true, value: sample }, durationMs: 120 },
+      { sourceName: 'blank.png', outcome: { ok: false, error: analysisError('no-numbers', null) } },
+    ], { exportedAt });
+
+    expect(exported.results).toMatchObject([
+      { ok: true, source: 'stripe.png', durationMs: 120, analysis: { exportedAt: '2026-10-19T12:00:00.000Z' } },
+      { ok: false, source: 'blank.png', error: { kind: 'no-numbers' } },
+    ]);
+  });
+});
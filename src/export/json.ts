@@ -0,0 +1,242 @@
+/**
+ * Versioned JSON export
+ *
+ * The export has its own schema instead of dumping RevenueAnalysis as-is,
+ * so the file other tools read doesn't change whenever the analyzer's
+ * internals do. `version` goes up when a field is removed or changes
+ * meaning; new optional fields keep the version. The schema is the set of
+ * interfaces below (see also "Export formats" in the README).
+ */
+
+import { knownBreakdown } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import type { RevenueTimeline } from '../timeline';
+import type { AnalysisError, Outcome } from '../analysisErrors';
+import type { Diagnostic } from '../diagnostics';
+
+export const EXPORT_SCHEMA_VERSION = 2;  // 2: months and growth are null when unknown, not 0
+
+// Where an exported analysis came from
+export interface ExportSourceV2 {
+  name: string | null;  // File name, when known
+  method: RevenueAnalysis['analysisMethod'];
+  numberLocale: string;
+  ocrLanguages: string[];
+  preprocessing: string[];  // Image cleanup steps, e.g. ["grayscale", "deskew"]
+  template: { id: string, name: string, period: string | null } | null;
+}
+
+export interface ExportAmountV2 {
+  amount: number;
+  currency: string;
+}
+
+export interface AnalysisExportV2 {
+  schema: 'revtrackr.analysis';
+  version: 2;
+  exportedAt: string;  // ISO 8601
+  source: ExportSourceV2;
+  currency: string;  // Currency of every amount below unless it says otherwise
+  totals: {
+    totalRevenue: number;
+    thisMonth: number | null;  // null: no monthly table or labelled months, and not entered
+    lastMonth: number | null;
+    growth: number | null;  // Percent
+  };
+  fieldSources: RevenueAnalysis['fieldSources'];  // 'corrected' where a person set the value
+  breakdownSource: RevenueAnalysis['breakdownSource'];
+  reporting: {
+    currency: string;
+    totalRevenue: number;
+    thisMonth: number | null;
+    lastMonth: number | null;
+    rate: number;
+    rateDate: string;
+    rateSource: string;
+  } | null;
+  currencyBreakdown: Array<ExportAmountV2 & { figureCount: number }>;
+  series: Array<{ period: string, label: string, amount: number, rowCount: number }>;
+  confidence: {
+    overall: number;  // 0-1
+    factors: Array<{ name: string, contribution: number, detail: string }>;
+  };
+  figures: Array<ExportAmountV2 & {
+    label: string;
+    text: string;
+    confidence: number;
+    labelPosition: string;
+    bbox: { x0: number, y0: number, x1: number, y1: number };
+  }>;
+  rawText: string;  // Personal data masked; empty when strict privacy kept it local
+  redactions?: Array<{ kind: string, bbox: { x0: number, y0: number, x1: number, y1: number } | null }>;  // What was masked
+  lineItems?: Array<ExportAmountV2 & { label: string, text: string, rowCount: number }>;  // Labelled amounts, uncategorised
+}
+
+export interface TimelineExportV2 {
+  schema: 'revtrackr.timeline';
+  version: 2;
+  exportedAt: string;
+  currency: string;
+  periods: Array<{
+    period: string;
+    label: string;
+    amount: number;
+    status: 'single' | 'duplicate' | 'conflict';
+    source: string;  // Name of the source whose figure was used
+    contributions: Array<{
+      source: string;
+      amount: number;
+      originalAmount: number;
+      originalCurrency: string;
+      confidence: number;
+      from: 'table' | 'period-label';
+    }>;
+  }>;
+  skipped: Array<{ source: string, reason: string }>;
+}
+
+// Several files analysed together, e.g. by the CLI
+export interface BatchExportV2 {
+  schema: 'revtrackr.batch';
+  version: 2;
+  exportedAt: string;
+  results: Array<({ ok: true, analysis: AnalysisExportV2 } | { ok: false, error: AnalysisError }) & {
+    source: string;
+    durationMs?: number;
+    diagnostics?: Array<{ level: Diagnostic['level'], stage: Diagnostic['stage'], message: string }>;
+  }>;
+}
+
+/**
+ * Map an analysis onto the export schema
+ *
+ * @param analysis - Analysis to export, with corrections already applied
+ * @param options - File name of the source and the export time (defaults to now)
+ * @returns AnalysisExportV2
+ */
+export function analysisToExport(
+  analysis: RevenueAnalysis,
+  options: { sourceName?: string | null, exportedAt?: Date } = {}
+): AnalysisExportV2 {
+  const { reporting, template } = analysis;
+  const months = knownBreakdown(analysis);
+  return {
+    schema: 'revtrackr.analysis',
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    source: {
+      name: options.sourceName ?? null,
+      method: analysis.analysisMethod,
+      numberLocale: analysis.numberLocale,
+      ocrLanguages: analysis.ocrLanguages,
+      preprocessing: analysis.preprocessing.map(step => step.step),
+      template: template ? { id: template.id, name: template.name, period: template.period } : null,
+    },
+    currency: analysis.currency,
+    totals: {
+      totalRevenue: analysis.totalRevenue,
+      thisMonth: months.thisMonth,
+      lastMonth: months.lastMonth,
+      growth: months.growth,
+    },
+    fieldSources: analysis.fieldSources,
+    breakdownSource: analysis.breakdownSource,
+    reporting: reporting && {
+      currency: reporting.currency,
+      totalRevenue: reporting.totalRevenue.amount,
+      thisMonth: months.thisMonth !== null ? reporting.thisMonth.amount : null,
+      lastMonth: months.lastMonth !== null ? reporting.lastMonth.amount : null,
+      rate: reporting.totalRevenue.rate,
+      rateDate: reporting.totalRevenue.rateDate,
+      rateSource: reporting.totalRevenue.rateSource,
+    },
+    currencyBreakdown: analysis.currencyBreakdown.map(share => ({
+      amount: share.revenue,
+      currency: share.currency,
+      figureCount: share.figureCount,
+    })),
+    series: analysis.series.map(({ period, label, amount, rowCount }) => ({ period, label, amount, rowCount })),
+    confidence: {
+      overall: analysis.confidence,
+      factors: analysis.confidenceFactors.map(({ name, contribution, detail }) => ({ name, contribution, detail })),
+    },
+    figures: analysis.figures.map(figure => ({
+      label: figure.label,
+      text: figure.text,
+      amount: figure.value,
+      currency: figure.currency ?? analysis.currency,
+      confidence: figure.confidence,
+      labelPosition: figure.labelPosition,
+      bbox: figure.bbox,
+    })),
+    rawText: analysis.rawText,
+    redactions: (analysis.redactions ?? []).map(({ kind, bbox }) => ({ kind, bbox })),
+    lineItems: (analysis.lineItems ?? []).map(({ label, text, amount, currency, rowCount }) => ({ label, text, amount, currency, rowCount })),
+  };
+}
+
+/**
+ * Map a merged timeline onto the export schema
+ */
+export function timelineToExport(timeline: RevenueTimeline, options: { exportedAt?: Date } = {}): TimelineExportV2 {
+  return {
+    schema: 'revtrackr.timeline',
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    currency: timeline.currency,
+    periods: timeline.periods.map(period => ({
+      period: period.period,
+      label: period.label,
+      amount: period.amount,
+      status: period.status,
+      source: period.chosen.sourceName,
+      contributions: period.contributions.map(contribution => ({
+        source: contribution.sourceName,
+        amount: contribution.amount,
+        originalAmount: contribution.originalAmount,
+        originalCurrency: contribution.originalCurrency,
+        confidence: contribution.confidence,
+        from: contribution.from,
+      })),
+    })),
+    skipped: timeline.skipped.map(entry => ({ source: entry.sourceName, reason: entry.reason })),
+  };
+}
+
+/**
+ * Map a batch of analyses onto the export schema
+ *
+ * Diagnostics keep their level, stage and message; their debugging data
+ * isn't part of the schema.
+ */
+export function batchToExport(
+  entries: Array<{ sourceName: string, outcome: Outcome<RevenueAnalysis>, durationMs?: number, diagnostics?: Diagnostic[] }>,
+  options: { exportedAt?: Date } = {}
+): BatchExportV2 {
+  const exportedAt = options.exportedAt ?? new Date();
+  return {
+    schema: 'revtrackr.batch',
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    results: entries.map(({ sourceName, outcome, durationMs, diagnostics }) => ({
+      ...(outcome.ok
+        ? { ok: true as const, analysis: analysisToExport(outcome.value, { sourceName, exportedAt }) }
+        : { ok: false as const, error: outcome.error }),
+      source: sourceName,
+      ...(durationMs !== undefined ? { durationMs } : {}),
+      ...(diagnostics ? { diagnostics: diagnostics.map(({ level, stage, message }) => ({ level, stage, message })) } : {}),
+    })),
+  };
+}
+
+export function analysisToJson(analysis: RevenueAnalysis, options: { sourceName?: string | null, exportedAt?: Date } = {}): string {
+  return JSON.stringify(analysisToExport(analysis, options), null, 2);
+}
+
+export function timelineToJson(timeline: RevenueTimeline, options: { exportedAt?: Date } = {}): string {
+  return JSON.stringify(timelineToExport(timeline, options), null, 2);
+}
+
+export function batchToJson(entries: Parameters<typeof batchToExport>[0], options: { exportedAt?: Date } = {}): string {
+  return JSON.stringify(batchToExport(entries, options), null, 2);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { analysisReportHtml } from './report';
+import { analyzeSample } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+
+const sample = analyzeSample({ defaultCurrency: 'USD' });
+const generatedAt = new Date('2026-10-19T12:00:00.000Z');
+
+describe('analysisReportHtml', () => {
+  it('renders the figures, months and extraction details', () => {
+    const html = analysisReportHtml(sample, { sourceName: 'stripe.png', generatedAt });
+
+    expect(html).toMatch(/^<!doctype html>/);
+    expect(html).toContain('<title>Revenue Report – stripe.png</title>');
+    expect(html).toContain('$48,920');
+    expect(html).toContain('<h2>Monthly Revenue</h2>');
+    expect(html).toContain('Sep 2025');
+    expect(html).toContain('<h2>Extraction Details</h2>');
+  });
+
+  it('says so instead of showing 0 when the months aren\'t known', () => {
+    const totalOnly: RevenueAnalysis = { ...sample, series: [], breakdownSource: 'unavailable', thisMonth: 0, lastMonth: 0, growth: 0 };
+    const html = analysisReportHtml(totalOnly, { generatedAt });
+
+    expect(html).toContain('This Month, Last Month and Growth are left out');
+    expect(html).not.toContain('$0');
+    expect(html).not.toContain('Monthly Revenue');
+  });
+
+  it('escapes text from the source', () => {
+    const figure = { ...sample.figures[1], label: '<script>alert(1)</script>' };
+    const html = analysisReportHtml({ ...sample, figures: [figure], rawText: '<img src=x onerror=alert(1)>' }, { sourceName: '"><b>x', generatedAt });
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&quot;&gt;&lt;b&gt;x');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Printable HTML report
+ *
+ * A single self-contained HTML page: the dashboard figures, the monthly
+ * series with comparisons, the source screenshot and how the numbers were
+ * extracted. Open it and print to get a PDF. With the screenshot passed
+ * as a data: URL nothing in it loads from the network, so it can be
+ * attached or shared as-is.
+ */
+
+import { ANALYSIS_METHOD_NAMES, formatCurrency, knownBreakdown } from '../revenueAnalyzer';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import type { RateProvider } from '../fx';
+import { summarizeSeries } from '../seriesStats';
+
+export interface ReportOptions {
+  sourceName?: string | null;  // Shown under the title
+  imageUrl?: string | null;  // Source screenshot; a data: URL keeps the report self-contained
+  convertTo?: string;  // Reporting currency, as on the dashboard
+  rateProvider?: RateProvider;
+  generatedAt?: Date;  // Defaults to now
+}
+
+const STYLE = `
+  body { font: 14px/1.5 system-ui, sans-serif; color: #0f172a; max-width: 800px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 24px; margin: 0; }
+  h2 { font-size: 16px; margin: 32px 0 8px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .muted { color: #64748b; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 12px; margin-top: 24px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .card .value { font-size: 20px; font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 8px 4px 0; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 500; }
+  .num { text-align: right; white-space: nowrap; }
+  .up { color: #059669; } .down { color: #dc2626; }
+  img { max-width: 100%; border: 1px solid #e2e8f0; border-radius: 8px; }
+  pre { white-space: pre-wrap; font-size: 12px; background: #f8fafc; padding: 12px; border-radius: 8px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } img, tr { break-inside: avoid; } }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function change(growth: number | null): string {
+  if (growth === null) return '<span class="muted">–</span>';
+  return `<span class="${growth >= 0 ? 'up' : 'down'}">${growth >= 0 ? '+' : ''}${growth}%</span>`;
+}
+
+/**
+ * Render an analysis as a standalone HTML report
+ *
+ * Every amount goes through formatCurrency(), so the report reads exactly
+ * like the dashboard, including the reporting currency.
+ *
+ * @param analysis - Analysis to report, with corrections already applied
+ * @param options - Source name, screenshot, reporting currency
+ * @returns string - A complete HTML document
+ */
+export function analysisReportHtml(analysis: RevenueAnalysis, options: ReportOptions = {}): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(Math.round(amount), analysis.currency, {
+    convertTo: options.convertTo,
+    rateProvider: options.rateProvider,
+  }));
+  const edited = (field: keyof RevenueAnalysis['fieldSources']) =>
+    analysis.fieldSources[field] === 'corrected' ? ' <span class="muted">(edited)</span>' : '';
+  const summary = summarizeSeries(analysis.series);
+  const months = knownBreakdown(analysis);
+  const unknown = '<span class="muted">–</span>';
+  const generatedAt = options.generatedAt ?? new Date();
+
+  const cards = [
+    ['Total Revenue', money(analysis.totalRevenue) + edited('totalRevenue')],
+    ['This Month', months.thisMonth !== null ? money(months.thisMonth) + edited('thisMonth') : unknown],
+    ['Last Month', months.lastMonth !== null ? money(months.lastMonth) + edited('lastMonth') : unknown],
+    ['Growth', change(months.growth)],
+    ...(summary ? [
+      [`Trailing 12 Months${summary.trailingMonthCount < 12 ? ` (${summary.trailingMonthCount} in table)` : ''}`, money(summary.trailingTwelveMonths)],
+      ['Monthly Average', money(summary.average)],
+      [`Best Month (${escapeHtml(summary.best.label)})`, money(summary.best.amount)],
+      [`Worst Month (${escapeHtml(summary.worst.label)})`, money(summary.worst.amount)],
+    ] : []),
+  ];
+
+  const notes = [
+    months.growth === null ? 'No monthly table or amounts labelled this and last month were found, so This Month, Last Month and Growth are left out.' : null,
+    analysis.currencyBreakdown.length > 1
+      ? `The source mixes currencies: ${analysis.currencyBreakdown.map(share => formatCurrency(Math.round(share.revenue), share.currency)).join(' + ')}.`
+      : null,
+    analysis.template ? `Recognised as a ${analysis.template.name} screenshot${analysis.template.period ? ` (${analysis.template.period})` : ''}.` : null,
+    analysis.reporting
+      ? `Converted to ${analysis.reporting.currency} at ${analysis.reporting.totalRevenue.rate.toFixed(4)} (${analysis.reporting.totalRevenue.rateSource}, ${analysis.reporting.totalRevenue.rateDate}).`
+      : null,
+  ].filter((note): note is string => note !== null);
+
+  const sections = [
+    `<h1>Revenue Report</h1>
+<p class="muted">${options.sourceName ? `${escapeHtml(options.sourceName)} · ` : ''}Generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+<div class="cards">${cards.map(([label, value]) => `<div class="card"><div class="muted">${label}</div><div class="value">${value}</div></div>`).join('')}</div>
+${notes.map(note => `<p class="muted">${escapeHtml(note)}</p>`).join('\n')}`,
+  ];
+
+  if (summary) {
+    const yearOverYear = summary.months.some(month => month.previousYear !== null);
+    sections.push(`<h2>Monthly Revenue</h2>
+<table>
+<tr><th>Month</th><th class="num">Revenue</th><th class="num">vs previous month</th>${yearOverYear ? '<th class="num">vs last year</th>' : ''}</tr>
+${[...summary.months].reverse().map(month => `<tr><td>${escapeHtml(month.label)}</td><td class="num">${money(month.amount)}</td><td class="num">${change(month.monthOverMonth)}</td>${yearOverYear ? `<td class="num">${change(month.yearOverYear)}</td>` : ''}</tr>`).join('\n')}
+</table>`);
+  }
+
+  if (options.imageUrl) {
+    sections.push(`<h2>Source</h2>\n<img src="${escapeHtml(options.imageUrl)}" alt="Source screenshot">`);
+  }
+
+  sections.push(`<h2>Extraction Details</h2>
+<p>Method: ${escapeHtml(ANALYSIS_METHOD_NAMES[analysis.analysisMethod])}
+${analysis.ocrLanguages.length > 0 ? `· Languages: ${escapeHtml(analysis.ocrLanguages.join(', '))}` : ''}
+· Number format: ${escapeHtml(analysis.numberLocale)}
+· Currency: ${escapeHtml(analysis.currency)} (${escapeHtml(analysis.currencyExplanation)})
+· Confidence: ${Math.round(analysis.confidence * 100)}%</p>
+<table>
+<tr><th>Factor</th><th class="num">Points</th><th>Why</th></tr>
+${analysis.confidenceFactors.map(factor => `<tr><td>${escapeHtml(factor.name)}</td><td class="num">${factor.contribution >= 0 ? '+' : ''}${Math.round(factor.contribution * 100)}</td><td>${escapeHtml(factor.detail)}</td></tr>`).join('\n')}
+</table>`);
+
+  if (analysis.figures.length > 0) {
+    sections.push(`<h2>Amounts Found</h2>
+<table>
+<tr><th>Label</th><th>As read</th><th class="num">Confidence</th></tr>
+${analysis.figures.map(figure => `<tr><td>${escapeHtml(figure.label || '(no label)')}</td><td>${escapeHtml(figure.text)}</td><td class="num">${Math.round(figure.confidence * 100)}%</td></tr>`).join('\n')}
+</table>`);
+  }
+
+  if (analysis.rawText) sections.push(`<h2>Text Read</h2>\n<pre dir="auto">${escapeHtml(analysis.rawText)}</pre>`);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Revenue Report${options.sourceName ? ` – ${escapeHtml(options.sourceName)}` : ''}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${sections.join('\n\n')}
+</body>
+</html>
+`;
+}
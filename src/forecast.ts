@@ -0,0 +1,247 @@
+/**
+ * Revenue forecasts from a monthly series
+ *
+ * Projects the next months from the months a table gave us, with models
+ * simple enough to explain in one sentence: a straight-line trend, the
+ * average of recent months, or the same month a year earlier. Each
+ * projection comes with a band built from how far the model was off on
+ * the months we already have, so a noisy history gives a wide band.
+ *
+ * Forecasts only use a real series. Estimated breakdowns (no table) have
+ * no months to project from, so there is no forecast for them.
+ */
+
+import { monthPeriod } from './tableExtractor';
+import type { RevenuePeriod } from './tableExtractor';
+
+export type ForecastModel = 'linear' | 'moving-average' | 'seasonal-naive';
+
+export const FORECAST_MODELS: Array<{ value: ForecastModel, label: string, description: string, minMonths: number }> = [
+  {
+    value: 'linear',
+    label: 'Linear trend',
+    description: 'A straight line fitted through every month, continued forward.',
+    minMonths: 3,
+  },
+  {
+    value: 'moving-average',
+    label: 'Moving average',
+    description: 'The average of the last 3 months, held flat.',
+    minMonths: 4,
+  },
+  {
+    value: 'seasonal-naive',
+    label: 'Same month last year',
+    description: 'Each month repeats the same month a year earlier.',
+    minMonths: 13,
+  },
+];
+
+// Months ahead the dashboard offers
+export const FORECAST_HORIZONS = [3, 6, 12];
+
+const MOVING_AVERAGE_WINDOW = 3;
+
+// Bands cover 80% of outcomes if the model's past errors are normal
+const BAND_Z = 1.2816;
+
+// Months held back to pick a model (see recommendModel)
+const BACKTEST_MONTHS = 3;
+
+export interface ForecastPoint {
+  period: string;  // 'YYYY-MM'
+  label: string;
+  amount: number;
+  low: number;     // Lower edge of the 80% band
+  high: number;
+}
+
+export interface Forecast {
+  model: ForecastModel;
+  points: ForecastPoint[];  // The months after the latest one, in order
+  spread: number;           // Typical error on past months (standard deviation)
+  basedOn: number;          // Months the model was fitted on
+}
+
+// 'YYYY-MM' as a count of months, so gaps and year ends are plain arithmetic
+function monthIndex(period: string): number {
+  const [year, month] = period.split('-').map(Number);
+  return year * 12 + (month - 1);
+}
+
+function monthAt(index: number): { period: string, label: string } {
+  return monthPeriod(Math.floor(index / 12), (index % 12) + 1);
+}
+
+function rootMeanSquare(errors: number[]): number {
+  return Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length);
+}
+
+// Amount and band half-width for each month ahead (1-based)
+type Projection = (step: number) => { amount: number, margin: number };
+
+/**
+ * Least-squares line through every month, by calendar position
+ *
+ * The band is the usual prediction interval for a fitted line, so it
+ * widens the further the month is from the middle of the history.
+ */
+function linearTrend(months: RevenuePeriod[]): { projection: Projection, spread: number } {
+  const xs = months.map(month => monthIndex(month.period));
+  const ys = months.map(month => month.amount);
+  const n = months.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x));
+  const spread = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2));
+  const latest = xs[n - 1];
+
+  return {
+    spread,
+    projection: step => {
+      const x = latest + step;
+      return {
+        amount: intercept + slope * x,
+        margin: BAND_Z * spread * Math.sqrt(1 + 1 / n + (x - meanX) ** 2 / sxx),
+      };
+    },
+  };
+}
+
+/**
+ * Mean of the last few months, held flat
+ *
+ * The spread is how far each past month was from the mean of the months
+ * before it; the band widens with every month ahead.
+ */
+function movingAverage(months: RevenuePeriod[]): { projection: Projection, spread: number } {
+  const ys = months.map(month => month.amount);
+  const mean = (values: number[]) => values.reduce((sum, y) => sum + y, 0) / values.length;
+
+  const errors = ys.slice(MOVING_AVERAGE_WINDOW).map((y, i) => y - mean(ys.slice(i, i + MOVING_AVERAGE_WINDOW)));
+  const spread = rootMeanSquare(errors);
+  const level = mean(ys.slice(-MOVING_AVERAGE_WINDOW));
+
+  return {
+    spread,
+    projection: step => ({ amount: level, margin: BAND_Z * spread * Math.sqrt(step) }),
+  };
+}
+
+/**
+ * Each month repeats the same month a year earlier
+ *
+ * Needs the twelve months before the forecast in the series (a gap there
+ * leaves nothing to repeat). The spread is how much months changed from a
+ * year earlier; the band widens for each year ahead.
+ */
+function seasonalNaive(months: RevenuePeriod[]): { projection: Projection, spread: number } | null {
+  const byIndex = new Map(months.map(month => [monthIndex(month.period), month.amount]));
+  const latest = monthIndex(months[months.length - 1].period);
+  for (let index = latest - 11; index <= latest; index++) {
+    if (!byIndex.has(index)) return null;
+  }
+
+  const errors = months.flatMap(month => {
+    const yearEarlier = byIndex.get(monthIndex(month.period) - 12);
+    return yearEarlier === undefined ? [] : [month.amount - yearEarlier];
+  });
+  if (errors.length === 0) return null;
+  const spread = rootMeanSquare(errors);
+
+  return {
+    spread,
+    projection: step => ({
+      amount: byIndex.get(latest + step - 12 * Math.ceil(step / 12))!,
+      margin: BAND_Z * spread * Math.sqrt(Math.ceil(step / 12)),
+    }),
+  };
+}
+
+/**
+ * Project a monthly series forward
+ *
+ * How it works:
+ * - Fits the chosen model to every month of the series (oldest first)
+ * - Projects the months after the latest one, by calendar month
+ * - Bands come from the model's errors on past months; amounts and bands
+ *   stop at zero when the history has no negative months
+ *
+ * @param series - Monthly revenue, as read from a table
+ * @param model - Which model to use (see FORECAST_MODELS)
+ * @param horizon - Months to project
+ * @returns Forecast | null - null when the series is too short for the model
+ */
+export function forecastSeries(series: RevenuePeriod[], model: ForecastModel, horizon: number): Forecast | null {
+  const months = [...series].sort((a, b) => a.period.localeCompare(b.period));
+  const { minMonths } = FORECAST_MODELS.find(choice => choice.value === model)!;
+  if (months.length < minMonths || horizon < 1) return null;
+
+  const fitted = model === 'linear' ? linearTrend(months)
+    : model === 'moving-average' ? movingAverage(months)
+    : seasonalNaive(months);
+  if (!fitted) return null;
+
+  const floor = months.every(month => month.amount >= 0) ? 0 : -Infinity;
+  const latest = monthIndex(months[months.length - 1].period);
+  const points = Array.from({ length: horizon }, (_, i) => {
+    const { amount, margin } = fitted.projection(i + 1);
+    return {
+      ...monthAt(latest + i + 1),
+      amount: Math.max(floor, amount),
+      low: Math.max(floor, amount - margin),
+      high: Math.max(floor, amount + margin),
+    };
+  });
+
+  return { model, points, spread: fitted.spread, basedOn: months.length };
+}
+
+/**
+ * How far a model was off on the last few months, fitted on the rest
+ *
+ * @param series - Monthly revenue
+ * @param model - Model to test
+ * @returns Mean absolute error, or null when the rest is too short for the model
+ */
+export function backtestError(series: RevenuePeriod[], model: ForecastModel): number | null {
+  const months = [...series].sort((a, b) => a.period.localeCompare(b.period));
+  const heldBack = months.slice(-BACKTEST_MONTHS);
+  const training = months.slice(0, -BACKTEST_MONTHS);
+  if (training.length === 0) return null;
+
+  const latest = monthIndex(training[training.length - 1].period);
+  const forecast = forecastSeries(training, model, monthIndex(heldBack[heldBack.length - 1].period) - latest);
+  if (!forecast) return null;
+
+  const errors = heldBack.map(month => {
+    const point = forecast.points.find(p => p.period === month.period)!;
+    return Math.abs(month.amount - point.amount);
+  });
+  return errors.reduce((sum, error) => sum + error, 0) / errors.length;
+}
+
+/**
+ * The model that would have forecast the last few months best
+ *
+ * Holds the last BACKTEST_MONTHS months back, fits every model on the
+ * rest and keeps the one closest to what happened. With too little
+ * history to test, the first model the series is long enough for.
+ *
+ * @param series - Monthly revenue
+ * @returns ForecastModel | null - null when no model fits the series
+ */
+export function recommendModel(series: RevenuePeriod[]): ForecastModel | null {
+  const usable = FORECAST_MODELS.filter(choice => forecastSeries(series, choice.value, 1));
+  if (usable.length === 0) return null;
+
+  const tested = usable
+    .map(choice => ({ model: choice.value, error: backtestError(series, choice.value) }))
+    .filter((test): test is { model: ForecastModel, error: number } => test.error !== null)
+    .sort((a, b) => a.error - b.error);
+  return tested[0]?.model ?? usable[0].value;
+}
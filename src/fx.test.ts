@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { convertAmount, createTableRateProvider, parseRatesTable } from './fx';
+
+describe('parseRatesTable', () => {
+  it('reads a CSV table, skipping blank lines', () => {
+    const table = parseRatesTable('base,quote,rate,date\nUSD,AED,3.6725,2025-10-01\n\nUSD,eur,0.852,2025-10-02\n', 'rates.csv');
+
+    expect(table).toEqual({ base: 'USD', date: '2025-10-02', source: 'rates.csv', rates: { AED: 3.6725, EUR: 0.852 } });
+  });
+
+  it.each([
+    ['base,quote,rate\nUSD,AED,3.6725\nUSD', /line 3 has no quote currency/],
+    ['base,quote,rate\nUSD,AED', /line 2 has no usable rate for AED/],
+    ['base,quote,rate\nUSD,AED,n/a', /line 2 has no usable rate for AED \("n\/a"\)/],
+    ['base,quote,rate\nUSD,AED,Infinity', /line 2 has no usable rate/],
+    ['base,quote,rate\nUSD,AED,3.6725\nEUR,GBP,0.87', /mixes base currencies \(USD and EUR on line 3\)/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseRatesTable(text, 'rates.csv')).toThrow(message);
+  });
+
+  it('drops unusable rates from a JSON table', () => {
+    const table = parseRatesTable('{"base":"usd","date":"2025-10-01","rates":{"aed":3.6725,"eur":"n/a","gbp":-1}}', 'rates.json');
+
+    expect(table.base).toBe('USD');
+    expect(table.rates).toEqual({ AED: 3.6725 });
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through the base currency', () => {
+    const provider = createTableRateProvider({ base: 'USD', date: '2025-10-01', source: 'Test', rates: { AED: 3.6725, EUR: 0.852 } });
+
+    expect(convertAmount(100, 'EUR', 'AED', provider)?.amount).toBeCloseTo(100 * 3.6725 / 0.852);
+    expect(convertAmount(100, 'EUR', 'JPY', provider)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Offline FX conversion
+ *
+ * Converts amounts into one reporting currency so a USD Stripe screenshot
+ * and an AED bank screenshot can be compared. Rates come from a pluggable
+ * provider; the default reads a bundled rates table (or one the user
+ * imported), so conversion works fully offline.
+ */
+
+// A table of rates against one base currency: 1 base = rates[code] code
+export interface RatesTable {
+  base: string;
+  date: string;   // 'YYYY-MM-DD' the rates were published
+  source: string; // Where the table came from, shown next to converted figures
+  rates: { [code: string]: number };
+}
+
+export interface FxQuote {
+  from: string;
+  to: string;
+  rate: number;    // 1 from = rate to
+  date: string;
+  source: string;
+}
+
+// Anything that can quote a rate between two currencies
+export interface RateProvider {
+  name: string;
+  getRate(from: string, to: string): FxQuote | null;
+}
+
+// An amount with both its original and converted values
+export interface ConvertedAmount {
+  originalAmount: number;
+  originalCurrency: string;
+  amount: number;
+  currency: string;
+  rate: number;
+  rateDate: string;
+  rateSource: string;
+}
+
+/**
+ * Bundled reference rates (USD base)
+ *
+ * A snapshot so the app works without a network. Users who need current
+ * or historical rates import their own table (see parseRatesTable).
+ */
+export const BUNDLED_RATES: RatesTable = {
+  base: 'USD',
+  date: '2025-10-01',
+  source: 'Bundled reference rates',
+  rates: {
+    USD: 1, AED: 3.6725, SAR: 3.75, QAR: 3.64, OMR: 0.3845, KWD: 0.3055,
+    BHD: 0.376, EGP: 47.6, EUR: 0.852, GBP: 0.743, CHF: 0.796, SEK: 9.41,
+    NOK: 9.98, DKK: 6.36, ISK: 121.9, INR: 88.75, PKR: 281.2, LKR: 302.1,
+    NPR: 142.0, CAD: 1.392, AUD: 1.512, NZD: 1.721, SGD: 1.289, HKD: 7.782,
+    JPY: 147.9, CNY: 7.12, KRW: 1402, BRL: 5.33, MXN: 18.35, ZAR: 17.28,
+  },
+};
+
+/**
+ * Create a provider backed by a rates table
+ *
+ * Any pair is quoted through the table's base currency (cross rates).
+ *
+ * @param table - Rates against one base currency
+ * @returns RateProvider
+ */
+export function createTableRateProvider(table: RatesTable): RateProvider {
+  const rateAgainstBase = (code: string): number | null =>
+    code === table.base ? 1 : (table.rates[code] ?? null);
+
+  return {
+    name: table.source,
+    getRate(from: string, to: string): FxQuote | null {
+      if (from === to) return { from, to, rate: 1, date: table.date, source: table.source };
+      const fromRate = rateAgainstBase(from);
+      const toRate = rateAgainstBase(to);
+      if (!fromRate || !toRate) return null;
+      return { from, to, rate: toRate / fromRate, date: table.date, source: table.source };
+    },
+  };
+}
+
+export const bundledRateProvider = createTableRateProvider(BUNDLED_RATES);
+
+/**
+ * Read a rates table the user imported
+ *
+ * Accepts either JSON in the RatesTable shape, or CSV with a header row and
+ * the columns base, quote, rate and date (one row per currency, same base).
+ *
+ * @param text - File contents
+ * @param source - Name shown next to converted figures, e.g. the file name
+ * @returns RatesTable
+ * @throws Error when the file isn't a usable rates table
+ */
+export function parseRatesTable(text: string, source: string): RatesTable {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed) as Partial<RatesTable>;
+    if (typeof parsed.base !== 'string' || typeof parsed.date !== 'string' || typeof parsed.rates !== 'object' || !parsed.rates) {
+      throw new Error('Rates JSON needs "base", "date" and "rates"');
+    }
+    return { base: parsed.base.toUpperCase(), date: parsed.date, source, rates: normalizeRates(parsed.rates) };
+  }
+
+  const [header, ...lines] = trimmed.split(/\r?\n/).map(line => line.split(',').map(cell => cell.trim()));
+  const column = (name: string) => header.findIndex(cell => cell.toLowerCase() === name);
+  const [baseCol, quoteCol, rateCol, dateCol] = ['base', 'quote', 'rate', 'date'].map(column);
+  if (baseCol < 0 || quoteCol < 0 || rateCol < 0) {
+    throw new Error('Rates CSV needs base, quote and rate columns');
+  }
+
+  // Keep file line numbers (the header is line 1) for the errors; skip blank lines
+  const rows = lines
+    .map((cells, i) => ({ cells, line: i + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell !== ''));
+
+  const rates: { [code: string]: number } = {};
+  const base = rows[0]?.cells[baseCol]?.toUpperCase();
+  if (!base) throw new Error('Rates CSV has no rows');
+
+  let date = '';
+  for (const { cells, line } of rows) {
+    if (cells[baseCol]?.toUpperCase() !== base) {
+      throw new Error(`Rates CSV mixes base currencies (${base} and ${cells[baseCol] ?? 'none'} on line ${line})`);
+    }
+    const quote = cells[quoteCol];
+    const rate = Number(cells[rateCol]);
+    if (!quote) throw new Error(`Rates CSV line ${line} has no quote currency`);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Rates CSV line ${line} has no usable rate for ${quote.toUpperCase()} ("${cells[rateCol] ?? ''}")`);
+    }
+    rates[quote.toUpperCase()] = rate;
+    if (dateCol >= 0 && (cells[dateCol] ?? '') > date) date = cells[dateCol];
+  }
+
+  return { base, date: date || new Date().toISOString().slice(0, 10), source, rates: normalizeRates(rates) };
+}
+
+function normalizeRates(rates: { [code: string]: unknown }): { [code: string]: number } {
+  const normalized: { [code: string]: number } = {};
+  for (const [code, rate] of Object.entries(rates)) {
+    const value = typeof rate === 'number' ? rate : parseFloat(String(rate));
+    if (Number.isFinite(value) && value > 0) normalized[code.toUpperCase()] = value;
+  }
+  return normalized;
+}
+
+/**
+ * Convert an amount into another currency
+ *
+ * @param amount - Amount in the original currency
+ * @param from - Original currency (ISO code)
+ * @param to - Reporting currency (ISO code)
+ * @param provider - Where rates come from
+ * @returns ConvertedAmount | null - null when the provider has no rate
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  provider: RateProvider = bundledRateProvider
+): ConvertedAmount | null {
+  const quote = provider.getRate(from, to);
+  if (!quote) return null;
+
+  return {
+    originalAmount: amount,
+    originalCurrency: from,
+    amount: amount * quote.rate,
+    currency: to,
+    rate: quote.rate,
+    rateDate: quote.date,
+    rateSource: quote.source,
+  };
+}
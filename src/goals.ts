@@ -0,0 +1,104 @@
+/**
+ * Revenue goals and progress towards them
+ *
+ * A goal is a monthly or an annual revenue target the user sets. Progress
+ * is measured against the real months of the series; the forecast (see
+ * forecast.ts) then says when the goal would be reached if revenue
+ * follows it. Goals are kept in the browser, with the currency they were
+ * set in, so the dashboard converts them for analyses in another currency.
+ */
+
+import type { RevenuePeriod } from './tableExtractor';
+import type { Forecast } from './forecast';
+
+export type GoalPeriod = 'month' | 'year';
+
+export const GOAL_PERIOD_NAMES: { [period in GoalPeriod]: string } = {
+  month: 'Monthly goal',
+  year: 'Annual goal',
+};
+
+export interface RevenueGoal {
+  period: GoalPeriod;
+  amount: number;
+  currency: string;  // As set; convert before comparing with another currency
+}
+
+export interface GoalProgress {
+  period: GoalPeriod;
+  target: number;
+  scope: string;     // What is measured, e.g. "Mar 2025" or "2025"
+  actual: number;    // The latest month, or the year so far
+  progress: number;  // actual / target; 1 or more once reached
+  projected: number | null;  // The next month, or the whole year, per the forecast
+  reached: { period: string, label: string } | null;       // The month it was reached in
+  projectedHit: { period: string, label: string } | null;  // The forecast month it would be reached in
+}
+
+/**
+ * Measure a goal against a series and its forecast
+ *
+ * How it works:
+ * - Monthly: the latest month against the target; the projected hit is
+ *   the first forecast month at or above it
+ * - Annual: the months of the latest month's calendar year added up
+ *   (missing months count as nothing); the projected hit is the forecast
+ *   month in which the running total reaches the target, within that year
+ *
+ * @param goal - Target, already in the series currency
+ * @param series - Monthly revenue, as read from a table
+ * @param forecast - Projection of the series, if any
+ * @returns GoalProgress | null - null for an empty series or a target of zero or less
+ */
+export function goalProgress(
+  goal: { period: GoalPeriod, amount: number },
+  series: RevenuePeriod[],
+  forecast: Forecast | null
+): GoalProgress | null {
+  if (series.length === 0 || goal.amount <= 0) return null;
+  const months = [...series].sort((a, b) => a.period.localeCompare(b.period));
+  const latest = months[months.length - 1];
+  const ahead = forecast?.points ?? [];
+
+  if (goal.period === 'month') {
+    const hit = ahead.find(point => point.amount >= goal.amount);
+    return {
+      period: 'month',
+      target: goal.amount,
+      scope: latest.label,
+      actual: latest.amount,
+      progress: latest.amount / goal.amount,
+      projected: ahead[0]?.amount ?? null,
+      reached: latest.amount >= goal.amount ? { period: latest.period, label: latest.label } : null,
+      projectedHit: hit ? { period: hit.period, label: hit.label } : null,
+    };
+  }
+
+  const year = latest.period.slice(0, 4);
+  let total = 0;
+  let reached: GoalProgress['reached'] = null;
+  for (const month of months.filter(month => month.period.startsWith(year))) {
+    total += month.amount;
+    if (!reached && total >= goal.amount) reached = { period: month.period, label: month.label };
+  }
+
+  const actual = total;
+  let projectedHit: GoalProgress['projectedHit'] = null;
+  const restOfYear = ahead.filter(point => point.period.startsWith(year));
+  for (const point of restOfYear) {
+    total += point.amount;
+    if (!reached && !projectedHit && total >= goal.amount) projectedHit = { period: point.period, label: point.label };
+  }
+
+  return {
+    period: 'year',
+    target: goal.amount,
+    scope: year,
+    actual,
+    progress: actual / goal.amount,
+    // A year-end total needs December, read or forecast
+    projected: latest.period.endsWith('-12') || restOfYear.some(point => point.period.endsWith('-12')) ? total : null,
+    reached,
+    projectedHit,
+  };
+}
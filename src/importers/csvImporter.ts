@@ -0,0 +1,474 @@
+/**
+ * CSV statement import
+ *
+ * Payment platforms and banks export the same rows a screenshot shows, but
+ * as exact text. This importer works out the delimiter, which row is the
+ * header, which column holds the date and which the amount, and how the
+ * numbers are written, then sums the rows into a monthly series. No OCR is
+ * involved, so the result only depends on picking the right columns.
+ */
+
+import { parseAmounts, detectNumberLocale } from '../numberParser';
+import type { NumberLocale } from '../numberParser';
+import { AMOUNT_HEADER_KEYWORDS, NON_AMOUNT_HEADER_KEYWORDS, monthFromText, monthPeriod } from '../tableExtractor';
+import type { RevenuePeriod } from '../tableExtractor';
+import type { LabelledFigure } from '../layoutExtractor';
+import { SUPPORTED_CURRENCIES, attributeCurrencies, defaultCurrencyForLocale } from '../currencyDetector';
+import type { ConfidenceFactor } from '../confidenceModel';
+import { bundledRateProvider } from '../fx';
+import { failure, success } from '../analysisErrors';
+import type { Outcome } from '../analysisErrors';
+import { breakdownFromSeries, convertToReportingCurrency, reportMissingRate } from '../revenueAnalyzer';
+import type { AnalysisOptions, RevenueAnalysis } from '../revenueAnalyzer';
+import { emitDiagnostic } from '../diagnostics';
+import { describeRedactions, redactText } from '../redaction';
+import type { LineItem } from '../lineItems';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Rows looked at when guessing the delimiter
+const SNIFF_ROWS = 20;
+
+// A column is a date or amount column when at least this share of rows parse as one
+const MIN_COLUMN_COVERAGE = 0.6;
+
+// Headers that name a per-row currency column
+const CURRENCY_HEADER = /\b(currency|ccy)\b|عملة/i;
+
+const NO_BOX = { x0: 0, y0: 0, x1: 0, y1: 0 };
+
+// Headers of a column that says what each row is: its type, product or channel
+const LINE_ITEM_HEADER = /\b(type|category|product|item|plan|channel|source|method|status|description)\b|النوع|الفئة|المنتج/i;
+
+// More distinct values than this is free text (e.g. a description per row), not categories
+const MAX_LINE_ITEMS = 20;
+
+interface AmountColumn {
+  index: number;
+  header: string;
+  score: number;
+  amounts: Array<{ row: number, value: number, text: string, marker: string | null }>;
+}
+
+/**
+ * Split CSV text into rows of fields
+ *
+ * Handles quoted fields with embedded delimiters, newlines and doubled
+ * quotes ("a ""quoted"" word"), CRLF line ends and a leading BOM.
+ *
+ * @param text - File contents
+ * @param delimiter - Field separator
+ * @param maxRows - Stop after this many rows
+ * @returns string[][] - Trimmed fields; blank lines are skipped
+ */
+function parseRows(text: string, delimiter: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field.trim());
+    if (row.some(cell => cell !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length && rows.length < maxRows; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (rows.length < maxRows && (field !== '' || row.length > 0)) endRow();
+  return rows;
+}
+
+/**
+ * Guess the delimiter from the first rows
+ *
+ * The right delimiter splits most rows into the same number of fields
+ * (more than one). Ties go to the order of DELIMITERS.
+ */
+function detectDelimiter(text: string): string {
+  let best = DELIMITERS[0];
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = parseRows(text, delimiter, SNIFF_ROWS).map(row => row.length);
+    const mode = mostCommon(counts);
+    if (mode === null || mode < 2) continue;
+    const score = counts.filter(count => count === mode).length;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function mostCommon(values: number[]): number | null {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? null;
+}
+
+/**
+ * Parse one cell as an amount; the whole cell has to be the amount
+ */
+function parseAmountCell(text: string, locale: NumberLocale): { value: number, marker: string | null } | null {
+  if (text === '') return null;
+  const amounts = parseAmounts(text, locale);
+  if (amounts.length !== 1 || amounts[0].start !== 0 || amounts[0].end !== text.length) return null;
+  return { value: amounts[0].value, marker: amounts[0].currencyMarker };
+}
+
+/**
+ * Which part of an all-numeric date is the day: 'dmy' or 'mdy'
+ *
+ * Decided for the whole column: a first part above 12 means day-first,
+ * a second part above 12 means month-first. When nothing decides,
+ * day-first is assumed, as in tableExtractor.
+ */
+function detectDayOrder(cells: string[]): 'dmy' | 'mdy' {
+  for (const cell of cells) {
+    const match = cell.match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}\b/);
+    if (!match) continue;
+    if (parseInt(match[1], 10) > 12) return 'dmy';
+    if (parseInt(match[2], 10) > 12) return 'mdy';
+  }
+  return 'dmy';
+}
+
+/**
+ * Month a date cell falls in
+ *
+ * Accepts ISO dates and timestamps (2025-03-14, 2025-03-14T10:30:00Z),
+ * numeric dates in the column's day order (14/03/2025, 03/14/25), and
+ * anything monthFromText() reads ("Mar 2025", "14 Mar 2025").
+ */
+function parseDateCell(text: string, order: 'dmy' | 'mdy'): { period: string, label: string } | null {
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[T\s].*)?$/);
+  if (match) return validMonth(parseInt(match[1], 10), parseInt(match[2], 10));
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:[T\s,].*)?$/);
+  if (match) {
+    const month = parseInt(order === 'dmy' ? match[2] : match[1], 10);
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    return validMonth(year, month);
+  }
+
+  return /\p{L}/u.test(text) ? monthFromText(text.replace(/,/g, ' ')) : null;
+}
+
+function validMonth(year: number, month: number): { period: string, label: string } | null {
+  return month >= 1 && month <= 12 && year >= 1990 && year <= 2100 ? monthPeriod(year, month) : null;
+}
+
+/**
+ * Score every column as a revenue amount column
+ *
+ * Coverage first, like detectRevenueTable: the share of rows that hold a
+ * single amount. Headers such as "Amount" or "Credit" add to the score and
+ * "Balance" or "Quantity" take away from it. Columns where most values
+ * have decimals get a small bonus, which keeps IDs and counts out.
+ */
+function scoreAmountColumns(header: string[], rows: string[][], skip: number[], locale: NumberLocale): AmountColumn[] {
+  const columns: AmountColumn[] = [];
+  header.forEach((name, index) => {
+    if (skip.includes(index)) return;
+
+    const amounts: AmountColumn['amounts'] = [];
+    rows.forEach((row, rowIndex) => {
+      const parsed = parseAmountCell(row[index] ?? '', locale);
+      if (parsed) amounts.push({ row: rowIndex, value: parsed.value, text: row[index], marker: parsed.marker });
+    });
+    const lower = name.toLowerCase();
+    const named = AMOUNT_HEADER_KEYWORDS.some(k => lower.includes(k));
+    const coverage = amounts.length / rows.length;
+    // Split credit/debit columns are mostly empty, so a named one only needs some amounts
+    if (amounts.length === 0 || (coverage < MIN_COLUMN_COVERAGE && !named)) return;
+
+    let score = coverage;
+    if (named) score += 0.5;
+    if (NON_AMOUNT_HEADER_KEYWORDS.some(k => lower.includes(k))) score -= 1;
+    if (/debit|withdrawal|fee|مدين|سحب/i.test(lower)) score -= 0.5;
+    const withDecimals = amounts.filter(a => /[.,٫]\d{1,2}\D*$/.test(a.text)).length;
+    if (withDecimals >= amounts.length / 2) score += 0.25;
+
+    columns.push({ index, header: name, score, amounts });
+  });
+  return columns.sort((a, b) => b.score - a.score || b.index - a.index);
+}
+
+/**
+ * Currency the amount column's header names, e.g. "Amount (EUR)" or "Total $"
+ */
+function headerCurrency(name: string): string | null {
+  const code = name.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(word => SUPPORTED_CURRENCIES.includes(word));
+  if (code) return code;
+  return name.match(/[$€£₹¥₩]/)?.[0] ?? null;
+}
+
+/**
+ * Sum the rows per value of a type or category column
+ *
+ * Takes the first column whose header names one (see LINE_ITEM_HEADER)
+ * and that has at most MAX_LINE_ITEMS values. Negative rows count too,
+ * so refunds and fees show up as line items of their own.
+ *
+ * @returns LineItem[] - One per value and currency; [] without such a column
+ */
+function lineItemsFromColumn(
+  header: string[],
+  rows: string[][],
+  amounts: AmountColumn['amounts'],
+  skip: number[],
+  rowCurrency: (row: number) => string
+): LineItem[] {
+  const index = header.findIndex((name, i) => {
+    if (skip.includes(i) || !LINE_ITEM_HEADER.test(name)) return false;
+    const values = new Set(amounts.map(amount => rows[amount.row][i] ?? '').filter(value => value !== ''));
+    return values.size > 0 && values.size <= MAX_LINE_ITEMS;
+  });
+  if (index < 0) return [];
+
+  const byValue = new Map<string, LineItem>();
+  for (const amount of amounts) {
+    const label = rows[amount.row][index] ?? '';
+    if (label === '') continue;
+    const currency = rowCurrency(amount.row);
+    const key = `${label}|${currency}`;
+    const item = byValue.get(key) ?? { label, amount: 0, currency, text: '', rowCount: 0, bbox: null };
+    item.amount += amount.value;
+    item.rowCount++;
+    byValue.set(key, item);
+  }
+  return [...byValue.values()].map(item => ({ ...item, text: `${item.amount.toFixed(2)} ${item.currency}` }));
+}
+
+/**
+ * Import a CSV export as a revenue analysis
+ *
+ * How it works:
+ * - Detects the delimiter (, ; tab |) and skips preamble lines
+ * - Takes the first full-width row as the header unless it holds data
+ * - Picks the date column with the most parseable dates, reading numeric
+ *   dates day- or month-first as the column shows
+ * - Detects the number locale from the cells, then picks the amount column
+ *   (see scoreAmountColumns); in a signed column only money in is counted
+ * - Takes currencies from a currency column, the amount header, symbols in
+ *   the cells or the default currency, in that order
+ * - Sums rows per month; the total is the sum over every month
+ * - Sums rows per type or category, refunds included, as line items
+ * - Masks personal data in the text it keeps (see redaction.ts)
+ *
+ * @param text - File contents
+ * @param options - Per-analysis settings (number locale, currencies, FX rates)
+ * @returns Outcome<RevenueAnalysis> - 'no-numbers' when no dated amounts are found
+ */
+export function analyzeCsv(text: string, options: AnalysisOptions = {}): Outcome<RevenueAnalysis> {
+  const delimiter = detectDelimiter(text);
+  const allRows = parseRows(text, delimiter);
+  const width = mostCommon(allRows.map(row => row.length));
+  if (width === null || width < 2) return failure('no-numbers', 'No columns found in the file');
+
+  const table = allRows.slice(allRows.findIndex(row => row.length === width));
+  const firstIsData = table[0].some(cell => parseDateCell(cell, 'dmy') !== null);
+  const header = firstIsData ? table[0].map((_, i) => `Column ${i + 1}`) : table[0];
+  const rows = firstIsData ? table : table.slice(1);
+  if (rows.length === 0) return failure('no-numbers', 'The file has a header but no rows');
+
+  // Date column: most rows with a date
+  let dateIndex = -1;
+  let dateOrder: 'dmy' | 'mdy' = 'dmy';
+  let dates: Array<{ period: string, label: string } | null> = [];
+  header.forEach((_, index) => {
+    const cells = rows.map(row => row[index] ?? '');
+    const order = detectDayOrder(cells);
+    const parsed = cells.map(cell => parseDateCell(cell, order));
+    const count = parsed.filter(Boolean).length;
+    if (count > dates.filter(Boolean).length) {
+      dateIndex = index;
+      dateOrder = order;
+      dates = parsed;
+    }
+  });
+  if (dateIndex < 0 || dates.filter(Boolean).length < rows.length * MIN_COLUMN_COVERAGE) {
+    return failure('no-numbers', 'No date column found');
+  }
+
+  // Number locale from every non-date cell
+  const currencyIndex = header.findIndex(name => CURRENCY_HEADER.test(name));
+  const numberLocale = !options.locale || options.locale === 'auto'
+    ? detectNumberLocale(rows.map(row => row.filter((_, i) => i !== dateIndex).join(' ')).join('\n'))
+    : options.locale;
+
+  const columns = scoreAmountColumns(header, rows, [dateIndex, currencyIndex], numberLocale);
+  if (columns.length === 0) return failure('no-numbers', 'No amount column found');
+  const [amountColumn, runnerUp] = columns;
+
+  // Revenue is money in: a signed column counts its positive rows only
+  const dated = amountColumn.amounts.filter(amount => dates[amount.row] !== null);
+  const credits = dated.filter(amount => amount.value > 0);
+  const leftOut = dated.length - credits.length;
+  if (credits.length === 0) return failure('no-numbers', `No positive amounts in "${amountColumn.header}"`);
+
+  // Currency of every row
+  const columnCurrency = headerCurrency(amountColumn.header);
+  const rowFigures: LabelledFigure[] = credits.map(amount => ({
+    label: amountColumn.header,
+    value: amount.value,
+    text: amount.text,
+    bbox: NO_BOX,
+    labelBbox: null,
+    labelPosition: 'none',
+    ocrConfidence: 1,
+    currencyMarker: (currencyIndex >= 0 ? rows[amount.row][currencyIndex] || null : null) ?? amount.marker ?? columnCurrency,
+    currency: null,
+    currencyConfidence: 0,
+    converted: null,
+    confidence: 0,
+    confidenceFactors: [],
+  }));
+  const defaultCurrency = options.defaultCurrency
+    ?? defaultCurrencyForLocale(typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+  const { figures: attributed, summary } = attributeCurrencies(rowFigures, header.join(' '), { defaultCurrency }, null);
+  const currencyExplanation = currencyIndex >= 0
+    ? `Read from the "${header[currencyIndex]}" column`
+    : columnCurrency
+      ? `The "${amountColumn.header}" column header says ${summary.currency}`
+      : summary.explanation;
+
+  // Monthly series per currency; the primary one becomes the breakdown
+  const byMonth = new Map<string, RevenuePeriod & { currency: string }>();
+  attributed.forEach((figure, i) => {
+    const date = dates[credits[i].row]!;
+    const key = `${figure.currency}|${date.period}`;
+    const existing = byMonth.get(key);
+    if (existing) {
+      existing.amount += figure.value;
+      existing.rowCount++;
+    } else {
+      byMonth.set(key, { ...date, amount: figure.value, rowCount: 1, currency: figure.currency! });
+    }
+  });
+  const months = [...byMonth.values()].sort((a, b) => a.period.localeCompare(b.period));
+  const series: RevenuePeriod[] = months
+    .filter(month => month.currency === summary.currency)
+    .map(({ period, label, amount, rowCount }) => ({ period, label, amount, rowCount }));
+  const totalRevenue = series.reduce((sum, month) => sum + month.amount, 0);
+  // Every credit row is revenue, so each currency's revenue is its rows' sum
+  const currencyBreakdown = summary.breakdown.map(share => ({
+    ...share,
+    revenue: months.filter(month => month.currency === share.currency).reduce((sum, month) => sum + month.amount, 0),
+  }));
+  const breakdownSource = series.length >= 2 ? 'table' : 'unavailable';
+  const breakdown = breakdownSource === 'table'
+    ? breakdownFromSeries(series)
+    : { thisMonth: 0, lastMonth: 0, growth: 0 };
+
+  // Confidence comes from the column choice, not the digits
+  const lower = amountColumn.header.toLowerCase();
+  const factors: ConfidenceFactor[] = [
+    { name: 'base', contribution: 0.3, detail: 'Starting score for any amount' },
+    { name: 'source', contribution: 0.45, detail: `Read from the file's "${amountColumn.header}" column, so no digits were misread` },
+    AMOUNT_HEADER_KEYWORDS.some(k => lower.includes(k))
+      ? { name: 'keywords', contribution: 0.2, detail: `"${amountColumn.header}" names a revenue column` }
+      : { name: 'keywords', contribution: 0, detail: 'No header names the amount column; picked because most rows have an amount in it' },
+  ];
+  if (leftOut > 0) {
+    factors.push({ name: 'source', contribution: 0, detail: `Only money in counted: ${leftOut} negative row${leftOut === 1 ? '' : 's'} left out` });
+  }
+  if (runnerUp && amountColumn.score - runnerUp.score < 0.5) {
+    factors.push({ name: 'margin', contribution: -0.2, detail: `The "${runnerUp.header}" column looked almost as likely` });
+  }
+  const confidence = Math.min(1, Math.max(0, factors.reduce((sum, factor) => sum + factor.contribution, 0)));
+
+  // One figure per month and currency, for the details panel and review
+  const figures: LabelledFigure[] = months.map(month => ({
+    ...rowFigures[0],
+    label: `${amountColumn.header} · ${month.label}`,
+    value: month.amount,
+    text: `${month.amount.toFixed(2)} ${month.currency}`,
+    labelPosition: 'same-row',
+    currencyMarker: month.currency,
+    currency: month.currency,
+    currencyConfidence: summary.confidence,
+    confidence,
+    confidenceFactors: factors,
+  }));
+
+  // Convert to the reporting currency
+  const { figures: convertedFigures, reporting } = convertToReportingCurrency(
+    figures,
+    { currency: summary.currency, totalRevenue, thisMonth: breakdown.thisMonth, lastMonth: breakdown.lastMonth },
+    currencyBreakdown,
+    options.reportingCurrency,
+    options.rateProvider ?? bundledRateProvider
+  );
+
+  reportMissingRate(reporting, summary.currency, options);
+  emitDiagnostic(
+    options.onDiagnostic, 'info', 'csv',
+    `"${delimiter}" delimited, dates in "${header[dateIndex]}" (${dateOrder}), amounts in "${amountColumn.header}" (${numberLocale})`
+  );
+
+  // Line items; a row's currency is its currency cell when that holds a known code
+  const lineItems = lineItemsFromColumn(header, rows, dated, [dateIndex, currencyIndex, amountColumn.index], row => {
+    const code = currencyIndex >= 0 ? rows[row][currencyIndex]?.toUpperCase() : undefined;
+    return code && SUPPORTED_CURRENCIES.includes(code) ? code : summary.currency;
+  });
+
+  // Customer emails and names often sit in the other columns
+  const { text: rawText, redactions } = options.redact === false ? { text, redactions: [] } : redactText(text);
+  if (redactions.length > 0) {
+    emitDiagnostic(options.onDiagnostic, 'info', 'privacy', `Masked ${describeRedactions(redactions)}`);
+  }
+
+  return success({
+    totalRevenue: Math.round(totalRevenue),
+    currency: summary.currency,
+    currencyBreakdown,
+    currencyMethod: summary.method,
+    currencyExplanation,
+    reporting,
+    thisMonth: breakdown.thisMonth,
+    lastMonth: breakdown.lastMonth,
+    growth: breakdown.growth,
+    fieldSources: { totalRevenue: 'extracted', thisMonth: 'extracted', lastMonth: 'extracted' },
+    series,
+    breakdownSource,
+    template: null,
+    confidence,
+    confidenceFactors: factors,
+    rawText,
+    redactions,
+    detectedNumbers: dated.map(amount => amount.value),
+    numberLocale,
+    figures: convertedFigures,
+    totalRevenueFigure: null,
+    lineItems,
+    analysisMethod: 'csv',
+    preprocessing: [],
+    ocrLanguages: [],
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * One entry point for every kind of upload
+ *
+ * Screenshots go through OCR, PDFs through their text layer (or OCR for
+ * scans) and CSV exports through column detection. All of them return the
+ * same RevenueAnalysis, so the dashboard doesn't care which it was.
+ */
+
+import { failure } from '../analysisErrors';
+import type { Outcome } from '../analysisErrors';
+import { analyzeRevenueScreenshot } from '../revenueAnalyzer';
+import type { AnalysisOptions, RevenueAnalysis } from '../revenueAnalyzer';
+import { analyzeCsv } from './csvImporter';
+import { analyzePdf, configurePdfJs } from './pdfImporter';
+
+export type FileKind = 'image' | 'pdf' | 'csv' | 'unsupported';
+
+// For <input accept>: everything analyzeFile() takes
+export const UPLOAD_ACCEPT = 'image/*,application/pdf,.pdf,text/csv,.csv,.tsv,.txt';
+
+/**
+ * What kind of upload a file is, from its type or else its extension
+ */
+export function detectFileKind(file: File): FileKind {
+  const type = file.type.toLowerCase();
+  const name = file.name.toLowerCase();
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (['text/csv', 'text/tab-separated-values', 'application/vnd.ms-excel'].includes(type) || /\.(csv|tsv|txt)$/.test(name)) return 'csv';
+  if (!type && /\.(png|jpe?g|webp|bmp)$/.test(name)) return 'image';
+  return 'unsupported';
+}
+
+/**
+ * Analyse any supported upload
+ *
+ * @param file - Screenshot, PDF statement or CSV export
+ * @param options - Per-analysis settings; image ones only apply to OCR
+ * @returns Promise<Outcome<RevenueAnalysis>> - 'unsupported-file' for anything else
+ */
+export async function analyzeFile(file: File, options: AnalysisOptions = {}): Promise<Outcome<RevenueAnalysis>> {
+  switch (detectFileKind(file)) {
+    case 'image':
+      return analyzeRevenueScreenshot(file, options);
+    case 'pdf':
+      return analyzePdf(file, options);
+    case 'csv':
+      options.onProgress?.({ stage: 'analyzing', progress: 1 });
+      return analyzeCsv(await file.text(), options);
+    case 'unsupported':
+      return failure('unsupported-file', `${file.name} (${file.type || 'unknown type'})`);
+  }
+}
+
+export { analyzeCsv, analyzePdf, configurePdfJs };
+export type { PdfJsLoader } from './pdfImporter';
@@ -0,0 +1,232 @@
+/**
+ * PDF statement import
+ *
+ * Most statements downloaded from a platform or bank carry a text layer:
+ * every word with its exact position. Those pages are turned straight into
+ * an OCR-style layout, with nothing misread. Scanned pages have no text
+ * layer, so they are rendered and read with OCR like a screenshot. Either
+ * way the pages end up in one layout that the usual pipeline analyses.
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { DocumentInitParameters, PDFDocumentLoadingTask, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { OcrLayout, OcrLine, OcrWord } from '../layoutExtractor';
+import { textDirection } from '../ocrLanguages';
+import { failure } from '../analysisErrors';
+import type { Outcome } from '../analysisErrors';
+import { analyzeLayout, recognizeImage } from '../revenueAnalyzer';
+import type { AnalysisOptions, RevenueAnalysis } from '../revenueAnalyzer';
+import type { PreprocessingStep } from '../preprocessing';
+import { emitDiagnostic } from '../diagnostics';
+
+// Pixels per PDF point: text-layer pages and rendered pages share this scale,
+// so a 12pt line is 24px tall either way, like a screenshot
+const RENDER_SCALE = 2;
+
+// Pages with fewer characters than this in their text layer are treated as scans
+const MIN_TEXT_CHARS = 20;
+
+// Statements are a few pages; past this, the rest is ignored
+const MAX_PAGES = 30;
+
+// Space left between stacked pages, in pixels
+const PAGE_GAP = 40;
+
+// The part of pdf.js the importer uses
+export type PdfJsLoader = () => Promise<{ getDocument(params: DocumentInitParameters): PDFDocumentLoadingTask }>;
+
+/**
+ * Load pdf.js on first use, with its worker bundled as a separate file
+ */
+async function loadBundledPdfJs() {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+let loadPdfJs: PdfJsLoader = loadBundledPdfJs;
+
+/**
+ * Load pdf.js some other way
+ *
+ * The bundled build targets browsers; Node loads pdf.js's legacy build
+ * instead (see cli/).
+ *
+ * @param loader - Resolves to the pdf.js module, ready to use
+ */
+export function configurePdfJs(loader: PdfJsLoader): void {
+  loadPdfJs = loader;
+}
+
+/**
+ * Lay out a page's text layer like OCR output
+ *
+ * How it works:
+ * - Places every text item on the page at RENDER_SCALE, from its
+ *   transform (baseline origin) and font size
+ * - Splits items into words, sharing the item's width by characters
+ * - Groups items into lines by baseline, then orders the words by x
+ *
+ * @param page - pdf.js page
+ * @param offsetY - Where the page starts in the combined layout
+ * @returns OcrLayout - Words with full confidence; empty for scanned pages
+ */
+async function layoutFromTextLayer(page: PDFPageProxy, offsetY: number): Promise<OcrLayout> {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const content = await page.getTextContent();
+  const items = content.items.filter((item): item is TextItem => 'str' in item && item.str.trim() !== '');
+
+  const placed = items.map(item => {
+    const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]) as [number, number];
+    const height = Math.max(1, Math.hypot(item.transform[2], item.transform[3]) * RENDER_SCALE);
+    const width = item.width * RENDER_SCALE;
+    return { item, x, baseline: y + offsetY, height, width };
+  });
+  placed.sort((a, b) => a.baseline - b.baseline || a.x - b.x);
+
+  // Items whose baselines are within half a line of each other share a line
+  const rows: Array<typeof placed> = [];
+  for (const entry of placed) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(entry.baseline - row[0].baseline) <= row[0].height / 2) {
+      row.push(entry);
+    } else {
+      rows.push([entry]);
+    }
+  }
+
+  const lines: OcrLine[] = rows.map(row => {
+    const words: OcrWord[] = row.flatMap(({ item, x, baseline, height, width }) => {
+      const charWidth = width / Math.max(1, item.str.length);
+      return [...item.str.matchAll(/\S+/g)].map(match => ({
+        text: match[0],
+        confidence: 1,
+        bbox: {
+          x0: x + match.index * charWidth,
+          y0: baseline - height,
+          x1: x + (match.index + match[0].length) * charWidth,
+          y1: baseline,
+        },
+      }));
+    });
+    words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+
+    const visual = words.map(word => word.text).join(' ');
+    const text = textDirection(visual) === 'rtl' ? [...words].reverse().map(word => word.text).join(' ') : visual;
+    return {
+      text,
+      confidence: 1,
+      bbox: {
+        x0: Math.min(...words.map(w => w.bbox.x0)),
+        y0: Math.min(...words.map(w => w.bbox.y0)),
+        x1: Math.max(...words.map(w => w.bbox.x1)),
+        y1: Math.max(...words.map(w => w.bbox.y1)),
+      },
+      words,
+    };
+  });
+
+  return { text: lines.map(line => line.text).join('\n'), lines };
+}
+
+/**
+ * Render a page to a PNG at RENDER_SCALE, for OCR
+ */
+async function renderPage(page: PDFPageProxy): Promise<Blob> {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render page')), 'image/png');
+  });
+}
+
+function shiftLayout(layout: OcrLayout, offsetY: number): OcrLayout {
+  const shift = <T extends { bbox: OcrWord['bbox'] }>(entry: T): T => ({
+    ...entry,
+    bbox: { ...entry.bbox, y0: entry.bbox.y0 + offsetY, y1: entry.bbox.y1 + offsetY },
+  });
+  return {
+    text: layout.text,
+    lines: layout.lines.map(line => ({ ...shift(line), words: line.words.map(shift) })),
+  };
+}
+
+/**
+ * Import a PDF statement as a revenue analysis
+ *
+ * Pages are stacked top to bottom into one layout. Pages with a text layer
+ * are read from it; the others are rendered and read with OCR, which needs
+ * a browser. The result says 'pdf-text' when no page needed OCR.
+ *
+ * @param file - The PDF uploaded by user
+ * @param options - Per-analysis settings, as for screenshots
+ * @returns Promise<Outcome<RevenueAnalysis>> - 'unsupported-file' for broken or locked PDFs
+ */
+export async function analyzePdf(file: Blob, options: AnalysisOptions = {}): Promise<Outcome<RevenueAnalysis>> {
+  options.onProgress?.({ stage: 'checking', progress: 0 });
+
+  let pdf: PDFDocumentProxy;
+  try {
+    const pdfjs = await loadPdfJs();
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch (error) {
+    return failure('unsupported-file', error);
+  }
+
+  try {
+    const pageCount = Math.min(pdf.numPages, MAX_PAGES);
+    if (pdf.numPages > MAX_PAGES) {
+      emitDiagnostic(options.onDiagnostic, 'warning', 'pdf', `PDF has ${pdf.numPages} pages; reading the first ${MAX_PAGES}`);
+    }
+
+    const pages: OcrLayout[] = [];
+    const languages = new Set<string>();
+    let preprocessing: PreprocessingStep[] = [];
+    let offsetY = 0;
+
+    for (let number = 1; number <= pageCount; number++) {
+      if (options.signal?.aborted) return failure('cancelled');
+      const page = await pdf.getPage(number);
+
+      let layout = await layoutFromTextLayer(page, offsetY);
+      if (layout.text.replace(/\s/g, '').length < MIN_TEXT_CHARS) {
+        if (typeof document === 'undefined') {
+          return failure('unsupported-file', `Page ${number} is a scan; reading it needs a browser`);
+        }
+        emitDiagnostic(options.onDiagnostic, 'info', 'pdf', `Page ${number} has no text layer, reading it with OCR`);
+        const ocr = await recognizeImage(await renderPage(page), options);
+        if (!ocr.ok) return ocr;
+        ocr.value.languages.forEach(language => languages.add(language));
+        preprocessing = [...preprocessing, ...ocr.value.preprocessing];
+        layout = shiftLayout(ocr.value.layout, offsetY);
+      }
+
+      pages.push(layout);
+      offsetY += Math.ceil(page.getViewport({ scale: RENDER_SCALE }).height) + PAGE_GAP;
+      page.cleanup();
+    }
+
+    const layout: OcrLayout = {
+      text: pages.map(page => page.text).join('\n\n'),
+      lines: pages.flatMap(page => page.lines),
+    };
+    if (layout.lines.length === 0) return failure('ocr-failed', `${pageCount} page${pageCount === 1 ? '' : 's'} without text`);
+
+    options.onProgress?.({ stage: 'analyzing', progress: 1 });
+    return analyzeLayout(layout, options, {
+      analysisMethod: languages.size > 0 ? 'ocr' : 'pdf-text',
+      preprocessing,
+      ocrLanguages: [...languages],
+    });
+  } catch (error) {
+    return failure('unexpected', error);
+  } finally {
+    await pdf.destroy();
+  }
+}
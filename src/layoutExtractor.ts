@@ -0,0 +1,394 @@
+/**
+ * Layout-aware figure extraction
+ *
+ * Tesseract reports where every word sits on the page. Instead of guessing
+ * label/value pairs from a flattened string, this module keeps that geometry
+ * and pairs each amount with the label on the same row, or with the label
+ * directly above it (the usual "Gross volume" / "$12,340.00" card layout).
+ * Right-to-left lines (Arabic) are read right to left, so their labels are
+ * found to the right of the amount.
+ */
+
+import type Tesseract from 'tesseract.js';
+import { parseAmounts } from './numberParser';
+import type { NumberLocale, ParsedAmount } from './numberParser';
+import { CURRENCY_MARKER_PATTERN } from './currencyDetector';
+import type { ConvertedAmount } from './fx';
+import type { ConfidenceFactor } from './confidenceModel';
+import { textDirection } from './ocrLanguages';
+
+// Pixel rectangle on the source image (top-left origin)
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;  // 0-1 scale, as reported by Tesseract
+  bbox: BoundingBox;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  words: OcrWord[];
+}
+
+// OCR output with the geometry we need for pairing
+export interface OcrLayout {
+  text: string;
+  lines: OcrLine[];
+}
+
+// An amount found on the page together with the label that describes it
+export interface LabelledFigure {
+  label: string;          // e.g. "Gross volume" ('' when no label was found)
+  value: number;          // Negative for "(1,200.00)" / "-$40"
+  text: string;           // Amount exactly as OCR read it, e.g. "$12,340.00"
+  bbox: BoundingBox;
+  labelBbox: BoundingBox | null;
+  labelPosition: 'same-row' | 'above' | 'none';
+  ocrConfidence: number;  // 0-1 scale, lowest word confidence of the amount
+  currencyMarker: string | null;  // Symbol or code printed with the amount
+  currency: string | null;        // ISO code, filled in by currencyDetector
+  currencyConfidence: number;     // 0-1 scale, 0 until attributed
+  converted: ConvertedAmount | null;  // Value in the reporting currency, filled in by the analyzer
+  confidence: number;                 // 0-1 scale, filled in by confidenceModel
+  confidenceFactors: ConfidenceFactor[];  // Why it got that score
+}
+
+// Currency markers that sit next to an amount as a separate word
+const CURRENCY_TOKEN = new RegExp(`^${CURRENCY_MARKER_PATTERN}$`, 'iu');
+
+// How far above an amount we look for its label, in multiples of line height
+const MAX_LABEL_GAP_LINES = 2.5;
+
+/**
+ * Flatten Tesseract's block → paragraph → line → word tree into lines
+ *
+ * @param page - data returned by worker.recognize() with blocks enabled
+ * @returns OcrLayout - full text plus every line with its words
+ */
+export function layoutFromTesseract(page: Tesseract.Page): OcrLayout {
+  const lines: OcrLine[] = [];
+
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        lines.push({
+          text: line.text.trim(),
+          confidence: line.confidence / 100,
+          bbox: line.bbox,
+          words: line.words.map(word => ({
+            text: word.text,
+            confidence: word.confidence / 100,
+            bbox: word.bbox,
+          })),
+        });
+      }
+    }
+  }
+
+  // Reading order: top to bottom, then left to right
+  lines.sort((a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0);
+
+  return { text: page.text, lines };
+}
+
+// Character cell used when laying out plain text (see layoutFromText)
+const TEXT_CHAR_WIDTH = 10;
+const TEXT_LINE_HEIGHT = 20;
+const TEXT_LINE_PITCH = 30;
+
+/**
+ * Build a layout from plain text, one character = one fixed-width cell
+ *
+ * Used for fixture text and cached OCR output, where no image exists.
+ * Columns are kept by spacing: words separated by several spaces land
+ * far enough apart to count as separate cards or table cells.
+ * Right-to-left rows are written in reading order and laid out mirrored,
+ * flush right, the way they appear on screen.
+ *
+ * @param text - Multi-line text, laid out the way it appears on screen
+ * @returns OcrLayout - Synthetic geometry with full word confidence
+ */
+export function layoutFromText(text: string): OcrLayout {
+  const lines: OcrLine[] = [];
+  const rows = text.split(/\r?\n/);
+  const pageWidth = Math.max(0, ...rows.map(row => row.length));
+
+  rows.forEach((row, rowIndex) => {
+    const y0 = rowIndex * TEXT_LINE_PITCH;
+    const y1 = y0 + TEXT_LINE_HEIGHT;
+    const rtl = textDirection(row) === 'rtl';
+    const words: OcrWord[] = [...row.matchAll(/\S+/g)].map(match => {
+      const start = rtl ? pageWidth - match.index - match[0].length : match.index;
+      return {
+        text: match[0],
+        confidence: 1,
+        bbox: { x0: start * TEXT_CHAR_WIDTH, y0, x1: (start + match[0].length) * TEXT_CHAR_WIDTH, y1 },
+      };
+    });
+    if (words.length === 0) return;
+
+    lines.push({
+      text: row.trim(),
+      confidence: 1,
+      bbox: unionBox(words.map(w => w.bbox)),
+      words,
+    });
+  });
+
+  return { text, lines };
+}
+
+/**
+ * Parse one OCR word as an amount
+ *
+ * The whole word has to be a single amount (currency markers, sign and
+ * "k"/"M" suffixes included), read with the page's number locale.
+ * Percentages, dates and IDs are not amounts.
+ *
+ * @param text - A single OCR word
+ * @param locale - Number conventions of the page
+ * @returns number | null - The signed amount, or null if the word isn't one
+ */
+export function parseAmountToken(text: string, locale: NumberLocale = 'en'): number | null {
+  return parseAmountWord(text, locale)?.value ?? null;
+}
+
+// Same as parseAmountToken, keeping the sign and currency marker details
+function parseAmountWord(text: string, locale: NumberLocale): ParsedAmount | null {
+  const trimmed = text.trim().replace(/[:;]+$/, '');
+  const amounts = parseAmounts(trimmed, locale);
+  if (amounts.length !== 1) return null;
+
+  const [amount] = amounts;
+  if (amount.start !== 0 || amount.end !== trimmed.length) return null;
+  return amount.value === 0 ? null : amount;
+}
+
+function isLabelWord(text: string): boolean {
+  return /\p{L}/u.test(text) && !CURRENCY_TOKEN.test(text);
+}
+
+function unionBox(boxes: BoundingBox[]): BoundingBox {
+  return {
+    x0: Math.min(...boxes.map(b => b.x0)),
+    y0: Math.min(...boxes.map(b => b.y0)),
+    x1: Math.max(...boxes.map(b => b.x1)),
+    y1: Math.max(...boxes.map(b => b.y1)),
+  };
+}
+
+function horizontalOverlap(a: BoundingBox, b: BoundingBox): number {
+  return Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+}
+
+// A word ending in a group of 1-3 digits, and one starting with 3 more
+const LEADING_DIGIT_GROUP = /(?:^|[^\d.,'\u066B\u066C])\d{1,3}$/;
+const FOLLOWING_DIGIT_GROUP = /^\d{3}(?!\d)/;
+
+/**
+ * Join words that are one space-grouped number, e.g. "1" "234,56" "€"
+ *
+ * OCR splits "1 234,56 €" at the space into separate words. Words one
+ * space apart at most (less than a line height) are joined with a
+ * no-break space, which parseAmounts reads as grouping in every locale.
+ */
+function joinDigitGroups(line: OcrLine): OcrWord[] {
+  const height = line.bbox.y1 - line.bbox.y0;
+  const joined: OcrWord[] = [];
+
+  for (const word of [...line.words].sort((a, b) => a.bbox.x0 - b.bbox.x0)) {
+    const previous = joined[joined.length - 1];
+    if (previous
+      && LEADING_DIGIT_GROUP.test(previous.text)
+      && FOLLOWING_DIGIT_GROUP.test(word.text)
+      && word.bbox.x0 - previous.bbox.x1 < height) {
+      joined[joined.length - 1] = {
+        text: `${previous.text}\u00A0${word.text}`,
+        confidence: Math.min(previous.confidence, word.confidence),
+        bbox: unionBox([previous.bbox, word.bbox]),
+      };
+    } else {
+      joined.push(word);
+    }
+  }
+
+  return joined;
+}
+
+/**
+ * A line's words in reading order: left to right, or right to left for
+ * Arabic and Hebrew lines. Space-grouped numbers come as one word.
+ */
+function readingOrder(line: OcrLine): OcrWord[] {
+  const rtl = textDirection(line.text) === 'rtl';
+  return joinDigitGroups(line).sort((a, b) => rtl ? b.bbox.x1 - a.bbox.x1 : a.bbox.x0 - b.bbox.x0);
+}
+
+/**
+ * Split a line into runs of words separated by wide gaps
+ *
+ * A row of dashboard cards ("Gross volume     Net volume") is read by
+ * Tesseract as one line; each run is one card's label.
+ */
+function splitIntoSegments(line: OcrLine): OcrWord[][] {
+  const height = line.bbox.y1 - line.bbox.y0;
+  const segments: OcrWord[][] = [];
+
+  // Visual order, whichever way the line reads
+  for (const word of [...line.words].sort((a, b) => a.bbox.x0 - b.bbox.x0)) {
+    const current = segments[segments.length - 1];
+    const previous = current?.[current.length - 1];
+    if (previous && word.bbox.x0 - previous.bbox.x1 <= height * 2) {
+      current.push(word);
+    } else {
+      segments.push([word]);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Find the label for an amount in the lines above it
+ *
+ * Picks the nearest line above (within MAX_LABEL_GAP_LINES line heights),
+ * then the run of words on that line that lines up with the amount's column.
+ * Right-to-left labels line up on their right edge.
+ */
+function findLabelAbove(
+  lines: OcrLine[],
+  lineIndex: number,
+  amountBox: BoundingBox,
+  locale: NumberLocale
+): { label: string, bbox: BoundingBox } | null {
+  const height = amountBox.y1 - amountBox.y0;
+
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    const candidate = lines[i];
+    const gap = amountBox.y0 - candidate.bbox.y1;
+    if (gap > height * MAX_LABEL_GAP_LINES) break;
+    if (candidate.bbox.y1 > amountBox.y0 + height / 2) continue;  // Same row, not above
+
+    let best: OcrWord[] | null = null;
+    let bestScore = -Infinity;
+
+    for (const segment of splitIntoSegments(candidate)) {
+      const labelWords = segment.filter(w => isLabelWord(w.text));
+      if (labelWords.length === 0) continue;
+      if (segment.some(w => parseAmountToken(w.text, locale) !== null)) continue;
+
+      const box = unionBox(segment.map(w => w.bbox));
+      const overlap = horizontalOverlap(box, amountBox);
+      const rtl = textDirection(segment.map(w => w.text).join(' ')) === 'rtl';
+      // Prefer overlapping columns; otherwise the closest starting edge
+      const score = overlap > 0 ? overlap : -(rtl ? Math.abs(box.x1 - amountBox.x1) : Math.abs(box.x0 - amountBox.x0));
+      if (score > bestScore) {
+        bestScore = score;
+        best = segment;
+      }
+    }
+
+    // Only accept a label that sits in the same column as the amount
+    if (best && bestScore > -height * 4) {
+      const words = textDirection(best.map(w => w.text).join(' ')) === 'rtl' ? [...best].reverse() : best;
+      return {
+        label: words.map(w => w.text).join(' '),
+        bbox: unionBox(best.map(w => w.bbox)),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pair every amount on the page with its label
+ *
+ * How it works:
+ * - Walks each line in reading order (right to left for Arabic) looking
+ *   for amount words
+ * - A currency word right next to an amount ("AED 12,340") joins the amount
+ * - Label words between the previous amount and this one form a same-row label
+ * - Otherwise the label is the run of words directly above, in the same column
+ *
+ * @param layout - OCR output with line and word geometry
+ * @param locale - Number conventions of the page
+ * @returns LabelledFigure[] - Amounts in reading order
+ */
+export function extractLabelledFigures(layout: OcrLayout, locale: NumberLocale = 'en'): LabelledFigure[] {
+  const figures: LabelledFigure[] = [];
+
+  layout.lines.forEach((line, lineIndex) => {
+    let labelStart = 0;
+    const words = readingOrder(line);
+
+    words.forEach((word, wordIndex) => {
+      const parsed = parseAmountWord(word.text, locale);
+      if (parsed === null) return;
+      const value = parsed.value;
+
+      const amountWords = [word];
+      const before = words[wordIndex - 1];
+      const after = words[wordIndex + 1];
+      if (before && CURRENCY_TOKEN.test(before.text)) amountWords.unshift(before);
+      if (after && CURRENCY_TOKEN.test(after.text)) amountWords.push(after);
+
+      const bbox = unionBox(amountWords.map(w => w.bbox));
+      const ocrConfidence = Math.min(...amountWords.map(w => w.confidence));
+      const text = amountWords.map(w => w.text).join(' ');
+      const markerWord = amountWords.find(w => w !== word);
+      const currencyMarker = parsed.currencyMarker ?? (markerWord ? markerWord.text : null);
+
+      const rowLabelWords = words
+        .slice(labelStart, wordIndex)
+        .filter(w => isLabelWord(w.text) && !amountWords.includes(w));
+      labelStart = wordIndex + 1;
+
+      if (rowLabelWords.length > 0) {
+        figures.push({
+          label: rowLabelWords.map(w => w.text).join(' ').replace(/[:\s]+$/, ''),
+          value,
+          text,
+          bbox,
+          labelBbox: unionBox(rowLabelWords.map(w => w.bbox)),
+          labelPosition: 'same-row',
+          ocrConfidence,
+          currencyMarker,
+          currency: null,
+          currencyConfidence: 0,
+          converted: null,
+          confidence: 0,
+          confidenceFactors: [],
+        });
+        return;
+      }
+
+      const above = findLabelAbove(layout.lines, lineIndex, bbox, locale);
+      figures.push({
+        label: above ? above.label.replace(/[:\s]+$/, '') : '',
+        value,
+        text,
+        bbox,
+        labelBbox: above ? above.bbox : null,
+        labelPosition: above ? 'above' : 'none',
+        ocrConfidence,
+        currencyMarker,
+        currency: null,
+        currencyConfidence: 0,
+        converted: null,
+        confidence: 0,
+        confidenceFactors: [],
+      });
+    });
+  });
+
+  return figures;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LINE_ITEM_RULES, UNATTRIBUTED_SOURCE, breakDownRevenue, categorizeLabel } from './lineItems';
+import type { LineItem } from './lineItems';
+import { analyzeSample } from './revenueAnalyzer';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+
+// Stripe sample: its template reports a gross of 48,920
+const sample = analyzeSample({ defaultCurrency: 'USD' });
+
+function item(label: string, amount: number, currency = 'USD'): LineItem {
+  return { label, amount, currency, text: String(amount), rowCount: 1, bbox: null };
+}
+
+function withItems(lineItems: LineItem[], template: RevenueAnalysis['template'] = null): RevenueAnalysis {
+  return { ...sample, lineItems, template };
+}
+
+describe('categorizeLabel', () => {
+  it.each([
+    ['Refunds', 'refund'],
+    ['Refunded', 'refund'],
+    ['Returns', 'refund'],
+    ['Returning customers', null],
+    ['Fees', 'fee'],
+    ['Stripe fee', 'fee'],
+    ['Taxes', 'tax'],
+    ['VAT', 'tax'],
+    ['Net revenue', 'summary'],
+    ['Nets', null],
+    ['Abo', 'subscription'],
+    ['Aboen', null],
+    ['Subscriptions', 'subscription'],
+  ] as const)('%s → %s', (label, category) => {
+    expect(categorizeLabel(label, DEFAULT_LINE_ITEM_RULES).category).toBe(category);
+  });
+
+  it.each([
+    ['POS sales', 'Point of Sale'],
+    ['Posted', null],
+    ['ACH transfer', 'Bank transfer'],
+    ['Achievements', null],
+    ['Card payments', 'Card'],
+  ] as const)('%s → source %s', (label, source) => {
+    expect(categorizeLabel(label, DEFAULT_LINE_ITEM_RULES).source).toBe(source);
+  });
+
+  it('takes the category and the source from different rules', () => {
+    expect(categorizeLabel('PayPal refunds', DEFAULT_LINE_ITEM_RULES)).toEqual({ category: 'refund', source: 'PayPal' });
+  });
+});
+
+describe('breakDownRevenue', () => {
+  it('adds revenue items up by category and source, and deducts refunds and fees', () => {
+    const breakdown = breakDownRevenue(withItems([
+      item('Subscriptions (card)', 1000),
+      item('One-time purchases via PayPal', 500),
+      item('Refunds', -100),
+      item('Processing fees', 50),
+      item('Total volume', 1350),
+    ]))!;
+
+    expect(breakdown).toMatchObject({ gross: 1500, grossFrom: 'items', refunds: 100, fees: 50, net: 1350, unconverted: 0 });
+    expect(breakdown.sources).toEqual([
+      { source: 'Card', amount: 1000, count: 1 },
+      { source: 'PayPal', amount: 500, count: 1 },
+    ]);
+    expect(breakdown.items.find(entry => entry.label === 'Total volume')?.category).toBe('summary');
+  });
+
+  it('tries rules in order: deductions and summaries before revenue words', () => {
+    const breakdown = breakDownRevenue(withItems([
+      item('Subscription refunds', -80),
+      item('Subscriptions this month', 900),
+      item('Subscriptions', 1000),
+    ]))!;
+
+    expect(breakdown.items.map(entry => entry.category)).toEqual(['refund', 'summary', 'subscription']);
+    expect(breakdown.gross).toBe(1000);
+    expect(breakdown.refunds).toBe(80);
+  });
+
+  it('puts unmatched items under other revenue, or refunds when negative', () => {
+    const breakdown = breakDownRevenue(withItems([item('Consulting', 300), item('Adjustment', -20)]))!;
+
+    expect(breakdown.items.map(({ category, source }) => ({ category, source }))).toEqual([
+      { category: 'other-revenue', source: UNATTRIBUTED_SOURCE },
+      { category: 'refund', source: UNATTRIBUTED_SOURCE },
+    ]);
+  });
+
+  it('uses the platform\'s gross when only deductions are itemised', () => {
+    const breakdown = breakDownRevenue(withItems([item('Refunds', -120), item('Fees', 1420)], sample.template))!;
+
+    expect(breakdown).toMatchObject({ gross: 48920, grossFrom: 'template', refunds: 120, fees: 1420, net: 47380 });
+    expect(breakdown.items.every(entry => entry.source === 'Stripe')).toBe(true);
+  });
+
+  it('leaves out items it has no rate for, and converts the rest', () => {
+    const breakdown = breakDownRevenue(withItems([
+      item('Subscriptions', 1000),
+      item('Card payments', 367.25, 'AED'),
+      item('Card payments', 5000, 'XYZ'),
+    ]))!;
+
+    expect(breakdown.unconverted).toBe(1);
+    expect(breakdown.items).toHaveLength(2);
+    expect(breakdown.gross).toBeCloseTo(1100);
+  });
+
+  it('gives nothing when nothing is itemised or nothing gives a gross', () => {
+    expect(breakDownRevenue(withItems([]))).toBeNull();
+    expect(breakDownRevenue(withItems([item('Total', 1000), item('VAT', 190)]))).toBeNull();
+    expect(breakDownRevenue(withItems([item('Refunds', -120)]))).toBeNull();
+  });
+});
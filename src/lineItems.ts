@@ -0,0 +1,276 @@
+/**
+ * Line items: every labelled amount, sorted into categories and sources
+ *
+ * A screenshot often shows more than one total: products, channels,
+ * payment methods, refunds and fees, each with its own amount. Extraction
+ * keeps each of those amounts with its label. Categorising is separate, so
+ * it can be re-run when the user edits the rules. A rule maps words in a
+ * label to a category ("Refunds" → refund) and/or a source ("PayPal").
+ * From the categories we get gross revenue, and net revenue as gross minus
+ * refunds and fees.
+ */
+
+import type { BoundingBox, LabelledFigure } from './layoutExtractor';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+import { monthFromText } from './tableExtractor';
+import type { RevenueTable } from './tableExtractor';
+import { bundledRateProvider, convertAmount } from './fx';
+import type { RateProvider } from './fx';
+
+export interface LineItem {
+  label: string;   // e.g. "Subscriptions", or a CSV cell such as "Refunded"
+  amount: number;  // As printed: negative for "(40.00)" / "-$40"
+  currency: string;
+  text: string;    // Amount as read; for CSV rows, their sum
+  rowCount: number;  // Figures or CSV rows behind it
+  bbox: BoundingBox | null;  // On the screenshot; null for CSV
+}
+
+export type LineItemCategory = 'subscription' | 'one-time' | 'other-revenue' | 'refund' | 'fee' | 'tax' | 'summary';
+
+export const LINE_ITEM_CATEGORY_NAMES: { [category in LineItemCategory]: string } = {
+  'subscription': 'Subscriptions',
+  'one-time': 'One-time',
+  'other-revenue': 'Other revenue',
+  'refund': 'Refunds',
+  'fee': 'Fees',
+  'tax': 'Taxes (not counted)',
+  'summary': 'Totals and averages (not counted)',
+};
+
+// Categories that add up to gross revenue
+const REVENUE_CATEGORIES: LineItemCategory[] = ['subscription', 'one-time', 'other-revenue'];
+
+// A word or phrase in a label, and what it says about the amount
+export interface LineItemRule {
+  match: string;  // A whole word or phrase in any case, plural or -ed too ("refund" matches "Refunds"); three letters or fewer only as written
+  category?: LineItemCategory;
+  source?: string;  // Product, channel or payment method
+}
+
+// Rules are tried in order and the first match wins, so deductions and
+// summaries ("Total", "Revenue this month") come before revenue words
+export const DEFAULT_LINE_ITEM_RULES: LineItemRule[] = [
+  { match: 'refund', category: 'refund' },
+  { match: 'chargeback', category: 'refund' },
+  { match: 'dispute', category: 'refund' },
+  { match: 'returns', category: 'refund' },
+  { match: 'erstattung', category: 'refund' },
+  { match: 'استرداد', category: 'refund' },
+  { match: 'fee', category: 'fee' },
+  { match: 'fees', category: 'fee' },
+  { match: 'bank charge', category: 'fee' },
+  { match: 'commission', category: 'fee' },
+  { match: 'processing', category: 'fee' },
+  { match: 'gebühr', category: 'fee' },
+  { match: 'رسوم', category: 'fee' },
+  { match: 'tax', category: 'tax' },
+  { match: 'taxes', category: 'tax' },
+  { match: 'vat', category: 'tax' },
+  { match: 'gst', category: 'tax' },
+  { match: 'mwst', category: 'tax' },
+  { match: 'ضريبة', category: 'tax' },
+  { match: 'total', category: 'summary' },
+  { match: 'gross', category: 'summary' },
+  { match: 'net', category: 'summary' },
+  { match: 'balance', category: 'summary' },
+  { match: 'payout', category: 'summary' },
+  { match: 'gesamt', category: 'summary' },
+  { match: 'summe', category: 'summary' },
+  { match: 'إجمالي', category: 'summary' },
+  { match: 'average', category: 'summary' },
+  { match: 'this month', category: 'summary' },
+  { match: 'last month', category: 'summary' },
+  { match: 'this year', category: 'summary' },
+  { match: 'year to date', category: 'summary' },
+  { match: 'subscription', category: 'subscription' },
+  { match: 'recurring', category: 'subscription' },
+  { match: 'renewal', category: 'subscription' },
+  { match: 'membership', category: 'subscription' },
+  { match: 'mrr', category: 'subscription' },
+  { match: 'abo', category: 'subscription' },
+  { match: 'one-time', category: 'one-time' },
+  { match: 'one time', category: 'one-time' },
+  { match: 'one-off', category: 'one-time' },
+  { match: 'single purchase', category: 'one-time' },
+  { match: 'card', source: 'Card' },
+  { match: 'visa', source: 'Card' },
+  { match: 'mastercard', source: 'Card' },
+  { match: 'paypal', source: 'PayPal' },
+  { match: 'apple pay', source: 'Apple Pay' },
+  { match: 'google pay', source: 'Google Pay' },
+  { match: 'bank transfer', source: 'Bank transfer' },
+  { match: 'sepa', source: 'Bank transfer' },
+  { match: 'ach', source: 'Bank transfer' },
+  { match: 'online store', source: 'Online Store' },
+  { match: 'point of sale', source: 'Point of Sale' },
+  { match: 'pos', source: 'Point of Sale' },
+  { match: 'app store', source: 'App Store' },
+  { match: 'google play', source: 'Google Play' },
+];
+
+// Where an item comes from when no rule names a source or platform
+export const UNATTRIBUTED_SOURCE = 'Unattributed';
+
+export interface CategorizedItem extends LineItem {
+  category: LineItemCategory;
+  source: string;
+  value: number;  // In the breakdown currency; refunds and fees as positive amounts
+}
+
+export interface RevenueBreakdown {
+  currency: string;
+  items: CategorizedItem[];
+  categories: Array<{ category: LineItemCategory, amount: number, count: number }>;  // Largest first
+  sources: Array<{ source: string, amount: number, count: number }>;  // Gross revenue by source, largest first
+  gross: number;
+  grossFrom: 'items' | 'template';  // Summed from items, or the platform's gross when nothing is itemised
+  refunds: number;
+  fees: number;
+  net: number;  // gross - refunds - fees
+  unconverted: number;  // Items left out for lack of an FX rate
+}
+
+/**
+ * Keep the labelled amounts of a page as line items
+ *
+ * How it works:
+ * - Takes figures that have a label (same row or above)
+ * - Leaves out table rows, which the series already has
+ * - Leaves out counts such as "Customers 1,284": an amount needs a currency
+ *   marker or two decimals
+ *
+ * @param figures - Labelled figures, with currencies attributed
+ * @param currency - Currency for figures without their own
+ * @param table - The page's monthly table, if it has one
+ * @returns LineItem[] - In reading order
+ */
+export function lineItemsFromFigures(figures: LabelledFigure[], currency: string, table: RevenueTable | null = null): LineItem[] {
+  const inTable = (figure: LabelledFigure) => {
+    if (!table) return false;
+    const middle = (figure.bbox.y0 + figure.bbox.y1) / 2;
+    return table.rowBoxes.some(row => middle >= row.y0 && middle <= row.y1);
+  };
+
+  return figures
+    .filter(figure => figure.labelPosition !== 'none' && figure.label.trim() !== '')
+    .filter(figure => !inTable(figure) && monthFromText(figure.label) === null)
+    .filter(figure => figure.currencyMarker !== null || /[.,٫]\d{2}\)?$/.test(figure.text.trim()))
+    .map(figure => ({
+      label: figure.label,
+      amount: figure.value,
+      currency: figure.currency ?? currency,
+      text: figure.text,
+      rowCount: 1,
+      bbox: figure.bbox,
+    }));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Rules this short match only as written: with endings, "net" would match
+// "Nets" and "abo" "Aboen"
+const SHORT_RULE_LENGTH = 3;
+
+function ruleMatches(rule: LineItemRule, label: string): boolean {
+  const match = rule.match.trim();
+  const endings = match.length > SHORT_RULE_LENGTH ? '(?:s|es|ed|en|ing)?' : '';
+  return match !== '' && new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(match)}${endings}(?![\\p{L}\\p{N}])`, 'iu').test(label);
+}
+
+/**
+ * Category and source of one label
+ *
+ * The first rule with a category sets the category and the first with a
+ * source sets the source; they needn't be the same rule.
+ */
+export function categorizeLabel(label: string, rules: LineItemRule[]): { category: LineItemCategory | null, source: string | null } {
+  const matching = rules.filter(rule => ruleMatches(rule, label));
+  return {
+    category: matching.find(rule => rule.category)?.category ?? null,
+    source: matching.find(rule => rule.source)?.source ?? null,
+  };
+}
+
+function addUp<K extends string>(items: CategorizedItem[], key: (item: CategorizedItem) => K): Array<{ key: K, amount: number, count: number }> {
+  const totals = new Map<K, { key: K, amount: number, count: number }>();
+  for (const item of items) {
+    const entry = totals.get(key(item)) ?? { key: key(item), amount: 0, count: 0 };
+    entry.amount += item.value;
+    entry.count += item.rowCount;
+    totals.set(key(item), entry);
+  }
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Break an analysis's revenue down by category and source
+ *
+ * How it works:
+ * - Categorises every line item with the rules; unmatched ones are
+ *   'other-revenue' (negative amounts: refunds)
+ * - Sources come from the rules, else the platform the screenshot was
+ *   recognised as, else UNATTRIBUTED_SOURCE
+ * - Converts items in other currencies to the analysis currency
+ * - Gross is the sum of revenue items; with none, a platform's gross field.
+ *   Net is gross minus refunds and fees. Taxes and summaries are listed but
+ *   not counted, so a "Total" row isn't added to its own parts
+ *
+ * @param analysis - The analysis, with its line items
+ * @param rules - Categorisation rules; DEFAULT_LINE_ITEM_RULES unless the user edited them
+ * @param provider - FX rates for items in other currencies
+ * @returns RevenueBreakdown | null - null when nothing is itemised, or nothing gives a gross
+ */
+export function breakDownRevenue(
+  analysis: RevenueAnalysis,
+  rules: LineItemRule[] = DEFAULT_LINE_ITEM_RULES,
+  provider: RateProvider = bundledRateProvider
+): RevenueBreakdown | null {
+  const fallbackSource = analysis.template?.name ?? UNATTRIBUTED_SOURCE;
+  let unconverted = 0;
+
+  const items: CategorizedItem[] = [];
+  for (const item of analysis.lineItems ?? []) {
+    const rate = convertAmount(1, item.currency, analysis.currency, provider)?.rate;
+    if (rate === undefined) {
+      unconverted++;
+      continue;
+    }
+    const { category, source } = categorizeLabel(item.label, rules);
+    const resolved = category ?? (item.amount < 0 ? 'refund' : 'other-revenue');
+    const deducted = resolved === 'refund' || resolved === 'fee';
+    items.push({
+      ...item,
+      category: resolved,
+      source: source ?? fallbackSource,
+      value: (deducted ? Math.abs(item.amount) : item.amount) * rate,
+    });
+  }
+
+  const revenue = items.filter(item => REVENUE_CATEGORIES.includes(item.category));
+  const templateGross = analysis.template?.fields.gross;
+  const itemised = items.some(item => item.category !== 'tax' && item.category !== 'summary');
+  if (!itemised || (revenue.length === 0 && templateGross === undefined)) return null;
+
+  const sum = (category: LineItemCategory) =>
+    items.filter(item => item.category === category).reduce((total, item) => total + item.value, 0);
+  const grossFrom = revenue.length === 0 && templateGross !== undefined ? 'template' : 'items';
+  const gross = grossFrom === 'template' ? templateGross! : revenue.reduce((total, item) => total + item.value, 0);
+  const refunds = sum('refund');
+  const fees = sum('fee');
+
+  return {
+    currency: analysis.currency,
+    items,
+    categories: addUp(items, item => item.category).map(({ key, amount, count }) => ({ category: key, amount, count })),
+    sources: addUp(revenue, item => item.source).map(({ key, amount, count }) => ({ source: key, amount, count })),
+    gross,
+    grossFrom,
+    refunds,
+    fees,
+    net: gross - refunds - fees,
+    unconverted,
+  };
+}
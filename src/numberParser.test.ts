@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { detectNumberLocale, parseAmounts } from './numberParser';
+import type { NumberLocale } from './numberParser';
+
+// Tricky strings and what has to come out: every amount's value, in order
+const FIXTURES: Array<{ text: string, locale?: NumberLocale, values: number[] }> = [
+  // Separators by locale
+  { text: '1.234,56', values: [1234.56] },
+  { text: '1 234,56', values: [1234.56] },
+  { text: '1 234,56 €', values: [1234.56] },
+  { text: '1,234.56', values: [1234.56] },
+  { text: '12,34,567', values: [1234567] },
+  { text: '12,34,567.89', values: [1234567.89] },
+  { text: '١٢٬٣٤٥٫٦٧', values: [12345.67] },
+  { text: 'AED ١٬٢٠٠', values: [1200] },
+  { text: '12,50', locale: 'eu', values: [12.5] },
+  { text: '12,500', locale: 'en', values: [12500] },
+
+  // Signs
+  { text: '(1,200)', values: [-1200] },
+  { text: '(AED 1,200.00)', values: [-1200] },
+  { text: '-€3.420', values: [-3420] },
+  { text: '$40-', values: [-40] },
+  { text: '−$12.00', values: [-12] },
+  { text: 'Salary credit 45,000.00 Cr', values: [45000] },
+  { text: '1,200.00 Dr', values: [-1200] },
+  { text: '1,200.00 DR', values: [-1200] },
+
+  // Currency markers and three-decimal currencies
+  { text: '€3.420', values: [3420] },
+  { text: 'Umsatz 3.420 €', values: [3420] },
+  { text: 'KWD 1.250', values: [1.25] },
+
+  // Multipliers
+  { text: '12.5k', values: [12500] },
+  { text: '$4.2M', values: [4200000] },
+  { text: '3 MM', values: [3000000] },
+  { text: '2 Mio', values: [2000000] },
+  { text: '3 lakh', values: [300000] },
+  { text: '1.5 crore', values: [15000000] },
+  { text: '12m', values: [] },
+  { text: '100 mm', values: [] },
+  { text: '5b', values: [] },
+  { text: '5B', values: [5000000000] },
+
+  // Not amounts
+  { text: 'Invoice 2025', values: [] },
+  { text: 'Order #1042', values: [] },
+  { text: 'INV2025', values: [] },
+  { text: '14.03.2025', values: [] },
+  { text: '14/03/2025', values: [] },
+  { text: '10:30', values: [] },
+  { text: '12.5%', values: [] },
+  { text: '3rd', values: [] },
+
+  // Several in one line
+  { text: 'Gross $1,200.00  Fees ($36.10)  Net $1,163.90', values: [1200, -36.1, 1163.9] },
+];
+
+describe('parseAmounts', () => {
+  it.each(FIXTURES)('$text', ({ text, locale, values }) => {
+    expect(parseAmounts(text, locale).map(amount => amount.value)).toEqual(values);
+  });
+
+  it('keeps the span and currency marker', () => {
+    const [amount] = parseAmounts('Total: (AED 1,200.00) due');
+    expect(amount).toMatchObject({ text: '(AED 1,200.00)', negative: true, currencyMarker: 'AED' });
+  });
+});
+
+describe('detectNumberLocale', () => {
+  it.each([
+    ['Total 1.234,56 €', 'eu'],
+    ['Total 1 234,56 €', 'fr'],
+    ['Total 12,34,567', 'in'],
+    ['الإجمالي ١٢٬٣٤٥', 'ar'],
+    ['Total $1,234.56', 'en'],
+    ['Nothing to go on', 'en'],
+  ] as const)('%s → %s', (text, locale) => {
+    expect(detectNumberLocale(text)).toBe(locale);
+  });
+});
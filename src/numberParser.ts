@@ -0,0 +1,267 @@
+/**
+ * Locale-aware number and amount parsing
+ *
+ * Screenshots come from the UAE, the EU and India as often as from the US,
+ * so "1.234,56", "12,34,567", "١٢٬٣٤٥٫٦٧", "(1,200.00)" and "12.5k" all
+ * have to come out as the right number. This module finds every amount in
+ * a string and returns its value, text span, sign and currency marker.
+ */
+
+import { CURRENCY_MARKER_PATTERN } from './currencyDetector';
+
+// Number conventions we understand
+// - en: 1,234.56    - eu: 1.234,56    - fr: 1 234,56
+// - in: 12,34,567.89 (lakh grouping)  - ar: ١٢٬٣٤٥٫٦٧ (Arabic-Indic digits)
+export type NumberLocale = 'en' | 'eu' | 'fr' | 'in' | 'ar';
+
+export const NUMBER_LOCALES: Array<{ value: NumberLocale, label: string }> = [
+  { value: 'en', label: '1,234.56' },
+  { value: 'eu', label: '1.234,56' },
+  { value: 'fr', label: '1 234,56' },
+  { value: 'in', label: '12,34,567.89' },
+  { value: 'ar', label: '١٬٢٣٤٫٥٦' },
+];
+
+export interface ParsedAmount {
+  value: number;                 // Signed, multiplier applied
+  text: string;                  // Exactly as it appears, e.g. "(AED 1,200.00)"
+  start: number;                 // Span in the input string
+  end: number;
+  negative: boolean;
+  multiplier: number;            // 1, or 1e3 for "k", 1e5 for "lakh", ...
+  currencyMarker: string | null; // Symbol or code next to the number, e.g. "$", "AED"
+}
+
+// Which separator is the decimal point when a number has only one
+const DECIMAL_SEPARATOR: { [key in NumberLocale]: string } = {
+  en: '.',
+  eu: ',',
+  fr: ',',
+  in: '.',
+  ar: '٫',
+};
+
+// Magnitude suffixes: words in any case ("3 lakh", "2 Mio")...
+const MULTIPLIER_WORDS: { [key: string]: number } = {
+  thousand: 1e3,
+  million: 1e6, mn: 1e6, mio: 1e6,
+  billion: 1e9, bn: 1e9,
+  lac: 1e5, lakh: 1e5, lakhs: 1e5,
+  crore: 1e7, crores: 1e7,  // Not "Cr": on statements that means credit
+};
+
+// ...and glued letters, which are case-sensitive: "12M" is a million,
+// "12m" and "100 mm" are lengths, "5b" is a footnote or a unit
+const MULTIPLIER_LETTERS: { [key: string]: number } = {
+  k: 1e3, K: 1e3,
+  M: 1e6, MM: 1e6,
+  B: 1e9,
+  L: 1e5,
+};
+
+// Matched in any case like the rest of the context; the letter's case is checked after
+const MULTIPLIER_PATTERN = '(?:thousand|million|billion|lakhs?|lac|crores?|mn|mio|bn|mm|[kmbl])';
+
+// Text to the left of a number: "(", sign, currency marker, sign again
+const LEFT_CONTEXT = new RegExp(`(\\(\\s*)?([-−]\\s*)?(${CURRENCY_MARKER_PATTERN}\\s?)?([-−])?$`, 'iu');
+// Text to the right: multiplier, currency marker, ")", trailing minus, and
+// the "Cr"/"Dr" (credit/debit) of bank statements.
+// A marker directly followed by another number belongs to that number.
+const RIGHT_CONTEXT = new RegExp(`^(\\s?${MULTIPLIER_PATTERN}(?!\\p{L}))?(\\s?${CURRENCY_MARKER_PATTERN}(?!\\s?[-−(]?\\d))?(\\s*\\))?(-(?![\\d]))?(\\s?(?:cr|dr)(?!\\p{L}))?`, 'iu');
+
+// "14.03.2025" and "2025.03.14" are dates, not 14,032,025
+const DOTTED_DATE = /^(\d{1,2}\.\d{1,2}\.\d{2}(\d{2})?|\d{4}\.\d{1,2}\.\d{1,2})$/;
+
+// "Invoice 2025", "Order #1042", "Ref. no: 88": a number right after these is an ID
+const ID_LABEL = /(?<!\p{L})(?:invoice|inv|order|ref(?:erence)?|receipt|ticket|account|customer|rechnung|facture|factura)\.?(?:\s*(?:no|nr|number|id)\.?)?\s*[:#]?\s*#?$/iu;
+
+// Money has at most two decimals, so "€3.420" is 3,420; except in these
+// currencies, which have three
+const THREE_DECIMAL_CURRENCIES = /^(?:KWD|BHD|OMR|JOD|TND|LYD|IQD)$/i;
+const ARABIC_INDIC_ZERO = 0x0660;
+const EXTENDED_ARABIC_INDIC_ZERO = 0x06F0;
+
+/**
+ * Replace Arabic-Indic and Extended Arabic-Indic digits with ASCII digits
+ *
+ * Each digit is a single UTF-16 unit either way, so spans stay valid.
+ */
+export function normalizeDigits(text: string): string {
+  return text.replace(/[٠-٩۰-۹]/g, ch => {
+    const code = ch.charCodeAt(0);
+    const zero = code >= EXTENDED_ARABIC_INDIC_ZERO ? EXTENDED_ARABIC_INDIC_ZERO : ARABIC_INDIC_ZERO;
+    return String(code - zero);
+  });
+}
+
+// Digit runs joined by separators; a plain space only joins a 3-digit group
+function corePattern(locale: NumberLocale): RegExp {
+  const spaceGroup = locale === 'fr' ? '|[ \\u00A0\\u202F](?=\\d{3}(?!\\d))' : '|[\\u00A0\\u202F](?=\\d{3}(?!\\d))';
+  return new RegExp(`\\d+(?:(?:[.,'\\u066B\\u066C]${spaceGroup})\\d+)*`, 'g');
+}
+
+/**
+ * Turn a digit run with separators into a number
+ *
+ * Rules, in order:
+ * - Arabic ٫ is always the decimal point, ٬ and spaces always group
+ * - Two different separators: the last one is the decimal point
+ * - One separator repeated: it groups thousands (or lakhs)
+ * - One separator used once: the locale decides, except that with a
+ *   currency marker it groups when three digits follow ("€3.420")
+ */
+function interpretCore(core: string, locale: NumberLocale, moneyDecimals = false): number {
+  const separators = core.replace(/\d/g, '');
+  let decimalChar: string | null = null;
+
+  if (separators.includes('٫')) {
+    decimalChar = '٫';
+  } else {
+    const distinct = [...new Set(separators.replace(/[\s٬']/g, ''))];
+    if (distinct.length >= 2) {
+      decimalChar = separators.replace(/[\s٬']/g, '').slice(-1);
+    } else if (distinct.length === 1) {
+      const occurrences = separators.split(distinct[0]).length - 1;
+      const groupsThree = moneyDecimals && /[.,]\d{3}$/.test(core);
+      if (groupsThree) {
+        decimalChar = null;
+      } else if (occurrences === 1 && distinct[0] === DECIMAL_SEPARATOR[locale]) {
+        decimalChar = distinct[0];
+      } else if (occurrences === 1 && locale === 'ar' && distinct[0] === '.') {
+        decimalChar = '.';  // Arabic screenshots often mix in Western punctuation
+      }
+    }
+  }
+
+  let normalized = '';
+  const lastDecimal = decimalChar === null ? -1 : core.lastIndexOf(decimalChar);
+  for (let i = 0; i < core.length; i++) {
+    const ch = core[i];
+    if (ch >= '0' && ch <= '9') normalized += ch;
+    else if (i === lastDecimal) normalized += '.';
+  }
+
+  return parseFloat(normalized);
+}
+
+/**
+ * Guess the number locale of a whole text from its unambiguous numbers
+ *
+ * How it works:
+ * - Arabic-Indic digits or Arabic separators → ar
+ * - Lakh grouping (12,34,567) → in
+ * - Numbers with both separators vote for whichever comes last
+ * - A repeated separator must be grouping; "12,50" / "12.50" vote too
+ * - Defaults to en when nothing decides
+ *
+ * @param text - Raw OCR text
+ * @returns NumberLocale - Best guess for the whole text
+ */
+export function detectNumberLocale(text: string): NumberLocale {
+  if (/[٠-٩۰-۹٫٬]/.test(text)) return 'ar';
+
+  const votes: { [key in NumberLocale]: number } = { en: 0, eu: 0, fr: 0, in: 0, ar: 0 };
+  const cores = text.match(/\d+(?:(?:[.,]|[ \u00A0\u202F](?=\d{3}(?!\d)))\d+)+/g) ?? [];
+
+  for (const core of cores) {
+    if (/^\d{1,2}(,\d{2})+,\d{3}(\.\d+)?$/.test(core)) {
+      votes.in += 2;
+    } else if (/^\d{1,3}([ \u00A0\u202F]\d{3})+(,\d+)?$/.test(core)) {
+      votes.fr += 2;
+    } else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(core) || /^\d{1,3}(,\d{3}){2,}$/.test(core)) {
+      votes.en += 2;
+    } else if (/^\d{1,3}(\.\d{3})+,\d+$/.test(core) || /^\d{1,3}(\.\d{3}){2,}$/.test(core)) {
+      votes.eu += 2;
+    } else if (/^\d+\.\d{1,2}$/.test(core)) {
+      votes.en += 1;
+    } else if (/^\d+,\d{1,2}$/.test(core)) {
+      votes.eu += 1;
+    }
+  }
+
+  let best: NumberLocale = 'en';
+  for (const locale of Object.keys(votes) as NumberLocale[]) {
+    if (votes[locale] > votes[best]) best = locale;
+  }
+  return best;
+}
+
+/**
+ * Find every amount in a text
+ *
+ * How it works:
+ * - Normalizes Arabic-Indic digits, keeping character positions
+ * - Matches digit runs with any separators, then reads the context around
+ *   each one: currency marker, "(…)", "-" or "Dr" for negatives, "k"/"M"/"lakh"
+ * - Skips numbers that are part of a word, ID, date, time or percentage,
+ *   and IDs after words such as "Invoice" or "Order #"
+ * - Interprets separators with the given (or detected) locale
+ *
+ * @param text - Raw OCR text
+ * @param locale - Number conventions to use, or 'auto' to detect them
+ * @returns ParsedAmount[] - Amounts in order of appearance
+ */
+export function parseAmounts(text: string, locale: NumberLocale | 'auto' = 'auto'): ParsedAmount[] {
+  const resolved = locale === 'auto' ? detectNumberLocale(text) : locale;
+  const normalized = normalizeDigits(text);
+  const amounts: ParsedAmount[] = [];
+
+  for (const match of normalized.matchAll(corePattern(resolved))) {
+    const coreStart = match.index;
+    const coreEnd = coreStart + match[0].length;
+
+    const left = LEFT_CONTEXT.exec(normalized.slice(Math.max(0, coreStart - 12), coreStart));
+    const right = RIGHT_CONTEXT.exec(normalized.slice(coreEnd, coreEnd + 16));
+    const leftText = left ? left[0] : '';
+    const rightText = right ? right[0] : '';
+
+    const start = coreStart - leftText.length;
+    const end = coreEnd + rightText.length;
+    const before = normalized[start - 1] ?? '';
+    const after = normalized[end] ?? '';
+    const justAfterCore = normalized[coreEnd] ?? '';
+
+    // Part of a word or ID ("INV2025", "3rd"), a date/time ("14/03", "10:30") or a percentage
+    if (/[\p{L}\d_#/:.]/u.test(before) && !left?.[3]) continue;
+    if (/[\p{L}\d_]/u.test(after) && !right?.[2]) continue;
+    if (/[-/:]/.test(justAfterCore) && /\d/.test(normalized[coreEnd + 1] ?? '')) continue;
+    if (DOTTED_DATE.test(match[0])) continue;
+    if (!left?.[3] && ID_LABEL.test(normalized.slice(Math.max(0, start - 24), start))) continue;
+    if (/^\s?%/.test(normalized.slice(coreEnd))) continue;
+
+    const openParen = Boolean(left?.[1]);
+    const closeParen = Boolean(right?.[3]);
+    const debit = /dr/i.test(right?.[5] ?? '');
+    const negative = (openParen && closeParen) || Boolean(left?.[2]) || Boolean(left?.[4]) || Boolean(right?.[4]) || debit;
+
+    const suffix = right?.[1]?.trim();
+    const multiplier = suffix ? MULTIPLIER_WORDS[suffix.toLowerCase()] ?? MULTIPLIER_LETTERS[suffix] : 1;
+    // A unit such as "m" or "mm": a measurement, not an amount
+    if (multiplier === undefined) continue;
+
+    const marker = (left?.[3] ?? right?.[2] ?? '').trim();
+    const currencyMarker = marker || null;
+
+    // Drop an unmatched parenthesis from the span
+    const spanStart = openParen && !closeParen ? start + left![1].length : start;
+    const spanEnd = closeParen && !openParen
+      ? end - right![3].length - (right?.[4]?.length ?? 0) - (right?.[5]?.length ?? 0)
+      : end;
+
+    const moneyDecimals = currencyMarker !== null && !THREE_DECIMAL_CURRENCIES.test(currencyMarker);
+    const magnitude = interpretCore(match[0], resolved, moneyDecimals) * multiplier;
+    if (isNaN(magnitude)) continue;
+
+    amounts.push({
+      value: negative ? -magnitude : magnitude,
+      text: text.slice(spanStart, spanEnd),
+      start: spanStart,
+      end: spanEnd,
+      negative,
+      multiplier,
+      currencyMarker,
+    });
+  }
+
+  return amounts;
+}
@@ -0,0 +1,108 @@
+/**
+ * OCR languages and right-to-left text
+ *
+ * Tesseract only reads the scripts it was started with, so Arabic
+ * statements come back as noise from an English-only worker. This module
+ * decides which languages to load, tells right-to-left lines from
+ * left-to-right ones, and normalises Arabic words so keywords match
+ * however they were spelled.
+ */
+
+import type { OcrLayout } from './layoutExtractor';
+
+// Languages with bundled traineddata (public/tessdata, see scripts/fetch-tessdata.mjs)
+export const OCR_LANGUAGES = [
+  { value: 'eng', label: 'English' },
+  { value: 'ara', label: 'Arabic' },
+];
+
+// Language sets offered in the UI, as Tesseract's '+'-joined codes
+export const OCR_LANGUAGE_CHOICES = [
+  { value: 'eng', label: 'English' },
+  { value: 'eng+ara', label: 'English and Arabic' },
+  { value: 'ara', label: 'Arabic' },
+];
+
+// Which languages to read: a fixed list, or 'auto' to pick per screenshot
+export type OcrLanguageSetting = string[] | 'auto';
+
+export const DEFAULT_OCR_LANGUAGES = ['eng'];
+
+// Currencies of Arabic-speaking markets; amounts in them suggest Arabic pages
+const ARABIC_MARKET_CURRENCIES = ['AED', 'SAR', 'QAR', 'OMR', 'KWD', 'BHD', 'EGP', 'JOD'];
+
+// Below this mean word confidence an English-only read is probably another script
+export const AUTO_RETRY_CONFIDENCE = 0.6;
+
+const RTL_LETTER = /[\p{Script=Arabic}\p{Script=Hebrew}]/gu;
+const LTR_LETTER = /\p{Script=Latin}/gu;
+
+/**
+ * Languages to start with when the setting is 'auto'
+ *
+ * English always; Arabic too when the browser is set to Arabic or the
+ * user's default currency is from an Arabic-speaking market.
+ *
+ * @param hints - Browser languages and the default currency
+ * @returns string[] - Tesseract language codes
+ */
+export function suggestOcrLanguages(hints: { browserLanguages: readonly string[], defaultCurrency?: string }): string[] {
+  const arabic = hints.browserLanguages.some(language => /^ar\b/i.test(language))
+    || (hints.defaultCurrency !== undefined && ARABIC_MARKET_CURRENCIES.includes(hints.defaultCurrency));
+  return arabic ? [...DEFAULT_OCR_LANGUAGES, 'ara'] : [...DEFAULT_OCR_LANGUAGES];
+}
+
+/**
+ * Readable names for a list of language codes, e.g. "English + Arabic"
+ */
+export function languageNames(codes: string[]): string {
+  return codes.map(code => OCR_LANGUAGES.find(language => language.value === code)?.label ?? code).join(' + ');
+}
+
+/**
+ * Reading direction of a line, from its letters
+ *
+ * Digits and punctuation are neutral; a line is right-to-left when it has
+ * more Arabic or Hebrew letters than Latin ones.
+ *
+ * @param text - Line text
+ * @returns 'ltr' | 'rtl'
+ */
+export function textDirection(text: string): 'ltr' | 'rtl' {
+  const rtl = text.match(RTL_LETTER)?.length ?? 0;
+  const ltr = text.match(LTR_LETTER)?.length ?? 0;
+  return rtl > ltr ? 'rtl' : 'ltr';
+}
+
+/**
+ * Mean word confidence over a page (0-1)
+ *
+ * @param layout - OCR output
+ * @returns number - 0 when no words were read
+ */
+export function readingConfidence(layout: OcrLayout): number {
+  const words = layout.lines.flatMap(line => line.words);
+  if (words.length === 0) return 0;
+  return words.reduce((sum, word) => sum + word.confidence, 0) / words.length;
+}
+
+/**
+ * Normalise an Arabic word for keyword lookup
+ *
+ * Strips diacritics and tatweel, unifies the forms of alef, and drops the
+ * definite article (with a leading و/ب/ل), so "الإيرادات", "ايرادات"
+ * and "والإيرادات" all match "ايرادات". Other words are just lower-cased.
+ *
+ * @param word - One word of a label
+ * @returns string
+ */
+export function normalizeKeyword(word: string): string {
+  const lower = word.toLowerCase();
+  if (!/\p{Script=Arabic}/u.test(lower)) return lower;
+
+  const plain = lower
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627');
+  const stripped = plain.replace(/^(?:[وبل]?ال|لل)/, '');
+  return stripped.length >= 3 ? stripped : plain;
+}
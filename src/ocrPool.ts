@@ -0,0 +1,256 @@
+/**
+ * Long-lived Tesseract worker pool
+ *
+ * Starting a worker loads the OCR core and language data, which takes
+ * longer than recognising a typical screenshot. The pool starts workers on
+ * demand (up to its size), keeps them between analyses and queues jobs
+ * when all are busy. Each job reports its own progress and can be
+ * cancelled with an AbortSignal.
+ *
+ * The worker script, the OCR core and language data all load from the
+ * app's own origin (public/tesseract and public/tessdata), where the
+ * service worker keeps them, so OCR works offline. In Node, langPath is a
+ * folder on disk instead (see cli/) and Tesseract uses its own worker.
+ */
+
+import Tesseract from 'tesseract.js';
+
+export interface OcrPoolOptions {
+  size: number;         // Maximum workers running at once
+  languages: string[];  // Tesseract language codes, e.g. ['eng'] or ['eng', 'ara']
+  langPath: string;     // URL of the folder holding <lang>.traineddata.gz
+  workerPath?: string;  // URL of Tesseract's worker script; its CDN copy if unset
+  corePath?: string;    // URL of the folder holding the OCR core (tesseract-core-*.wasm.js); likewise
+  cache?: boolean;      // Keep loaded language data (IndexedDB; files in the working directory under Node); default true
+}
+
+// Where a job is, with progress (0-1) within that stage
+export interface OcrProgress {
+  stage: 'queued' | 'loading' | 'recognizing';
+  progress: number;
+}
+
+export interface OcrJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: OcrProgress) => void;
+}
+
+export interface OcrPool {
+  options: OcrPoolOptions;
+  recognize(image: Tesseract.ImageLike, job?: OcrJobOptions): Promise<Tesseract.Page>;
+  terminate(): Promise<void>;
+}
+
+// Error names callers can tell apart
+export const OCR_ABORTED = 'AbortError';
+export const OCR_WORKER_FAILED = 'OcrWorkerError';
+
+interface PoolSlot {
+  worker: Promise<Tesseract.Worker>;
+  busy: boolean;
+  onProgress: ((progress: OcrProgress) => void) | null;  // Current job's listener
+}
+
+function namedError(name: string, message: string, cause?: unknown): Error {
+  const error = new Error(message, { cause });
+  error.name = name;
+  return error;
+}
+
+function abortError(): Error {
+  return namedError(OCR_ABORTED, 'Recognition cancelled');
+}
+
+/**
+ * Create a worker pool
+ *
+ * @param options - Pool size and OCR languages
+ * @returns OcrPool
+ */
+export function createOcrPool(options: OcrPoolOptions): OcrPool {
+  const slots: PoolSlot[] = [];
+  const waiting: Array<(slot: PoolSlot) => void> = [];
+
+  const startSlot = (): PoolSlot => {
+    const slot = { busy: true, onProgress: null } as PoolSlot;
+    // Tesseract never settles createWorker() when language data fails to
+    // load; it only reports the error, so that has to fail the start
+    let startFailed: (error: unknown) => void = () => undefined;
+    const failure = new Promise<never>((_, reject) => { startFailed = reject; });
+    slot.worker = Promise.race([
+      Tesseract.createWorker(options.languages, 1, {
+        langPath: options.langPath,
+        // Started from its URL rather than a blob, so the service worker serves it
+        ...(options.workerPath ? { workerPath: options.workerPath, workerBlobURL: false } : {}),
+        ...(options.corePath ? { corePath: options.corePath } : {}),
+        cacheMethod: options.cache === false ? 'none' : undefined,
+        // Later failures reject their job too, which is where they're handled
+        errorHandler: error => startFailed(error),
+        logger: (m) => {
+          if (m.status === 'recognizing text') {
+            slot.onProgress?.({ stage: 'recognizing', progress: m.progress });
+          } else if (/^(loading|initializ)/.test(m.status)) {
+            slot.onProgress?.({ stage: 'loading', progress: m.progress });
+          }
+        },
+      }),
+      failure,
+    ]);
+    slots.push(slot);
+    return slot;
+  };
+
+  const removeSlot = (slot: PoolSlot) => {
+    const index = slots.indexOf(slot);
+    if (index >= 0) slots.splice(index, 1);
+    slot.worker.then(worker => worker.terminate()).catch(() => undefined);
+  };
+
+  // Hand a free slot to the next waiting job, or start one if there's room
+  const release = (slot: PoolSlot | null) => {
+    if (slot) {
+      slot.busy = false;
+      slot.onProgress = null;
+    }
+    const next = waiting.shift();
+    if (!next) return;
+    const free = slots.find(s => !s.busy) ?? (slots.length < options.size ? startSlot() : null);
+    if (free) {
+      free.busy = true;
+      next(free);
+    } else {
+      waiting.unshift(next);
+    }
+  };
+
+  const acquire = (signal?: AbortSignal): Promise<PoolSlot> => {
+    const free = slots.find(s => !s.busy);
+    if (free) {
+      free.busy = true;
+      return Promise.resolve(free);
+    }
+    if (slots.length < options.size) return Promise.resolve(startSlot());
+
+    return new Promise((resolve, reject) => {
+      const onSlot = (slot: PoolSlot) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(slot);
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(onSlot);
+        if (index >= 0) waiting.splice(index, 1);
+        reject(abortError());
+      };
+      waiting.push(onSlot);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  return {
+    options,
+
+    async recognize(image: Tesseract.ImageLike, { signal, onProgress }: OcrJobOptions = {}): Promise<Tesseract.Page> {
+      if (signal?.aborted) throw abortError();
+      onProgress?.({ stage: 'queued', progress: 0 });
+
+      // Tesseract's Node build can't read Blobs; both builds read bytes
+      if (image instanceof Blob) image = new Uint8Array(await image.arrayBuffer()) as Tesseract.ImageLike;
+
+      const slot = await acquire(signal);
+      slot.onProgress = onProgress ?? null;
+
+      // Tesseract can't stop a running job, so cancelling replaces the worker
+      let onAbort: () => void = () => undefined;
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => {
+          removeSlot(slot);
+          reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+
+      try {
+        let worker: Tesseract.Worker;
+        try {
+          worker = await Promise.race([slot.worker, aborted]);
+        } catch (error) {
+          if (error instanceof Error && error.name === OCR_ABORTED) throw error;
+          removeSlot(slot);
+          throw namedError(OCR_WORKER_FAILED, 'OCR worker failed to start', error);
+        }
+
+        try {
+          const { data } = await Promise.race([
+            worker.recognize(image, {}, { text: true, blocks: true }),
+            aborted,
+          ]);
+          return data;
+        } catch (error) {
+          // A worker that failed mid-job may be broken; don't reuse it
+          if (!(error instanceof Error && error.name === OCR_ABORTED)) removeSlot(slot);
+          throw error;
+        }
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        release(slots.includes(slot) ? slot : null);
+      }
+    },
+
+    async terminate(): Promise<void> {
+      const workers = slots.splice(0).map(slot => slot.worker);
+      await Promise.all(workers.map(worker => worker.then(w => w.terminate()).catch(() => undefined)));
+    },
+  };
+}
+
+// One shared pool per language set, e.g. 'eng' and 'eng+ara'
+const sharedPools = new Map<string, OcrPool>();
+const BASE_URL = import.meta.env?.BASE_URL ?? '/';
+let sharedOptions: OcrPoolOptions = {
+  size: Math.max(1, Math.min(2, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0) || 1)),
+  languages: ['eng'],
+  langPath: `${BASE_URL}tessdata`,
+  // Copied there by scripts/copy-tesseract.mjs; Node loads its own
+  ...(typeof window !== 'undefined' ? { workerPath: `${BASE_URL}tesseract/worker.min.js`, corePath: `${BASE_URL}tesseract` } : {}),
+};
+
+/**
+ * The pool shared by every analysis, started on first use
+ *
+ * @param languages - Languages to read; the configured default if omitted
+ * @returns OcrPool
+ */
+export function getOcrPool(languages: string[] = sharedOptions.languages): OcrPool {
+  const key = languages.join('+');
+  let pool = sharedPools.get(key);
+  if (!pool) {
+    pool = createOcrPool({ ...sharedOptions, languages });
+    sharedPools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * Change the shared pools' size, default languages or data location
+ *
+ * Stops the current workers, including any job still running; the next
+ * analysis starts new ones.
+ *
+ * @param options - Settings to change
+ */
+export function configureOcrPool(options: Partial<OcrPoolOptions>): void {
+  sharedOptions = { ...sharedOptions, ...options };
+  void stopOcrPools();
+}
+
+/**
+ * Stop every shared worker
+ *
+ * The next analysis starts new ones. Node needs this to exit once the
+ * work is done, since running workers keep the process alive.
+ */
+export async function stopOcrPools(): Promise<void> {
+  const previous = [...sharedPools.values()];
+  sharedPools.clear();
+  await Promise.all(previous.map(pool => pool.terminate()));
+}
@@ -0,0 +1,108 @@
+/**
+ * Browser glue: decode an image file into a raster and encode one back
+ *
+ * Uses OffscreenCanvas where available (also inside workers) and a
+ * detached <canvas> otherwise.
+ */
+
+import { createRaster, pixelate } from './raster';
+import type { Raster } from './raster';
+import { preprocessRaster } from './pipeline';
+import type { PreprocessedRaster, PreprocessingOptions } from './pipeline';
+import type { BoundingBox } from '../layoutExtractor';
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+function createContext(width: number, height: number): Canvas2D {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const context = new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+    if (context) return context;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available');
+  return context;
+}
+
+/**
+ * Whether this environment can decode and preprocess images
+ */
+export function canPreprocess(): boolean {
+  return typeof createImageBitmap !== 'undefined'
+    && (typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined');
+}
+
+export async function decodeImage(image: Blob): Promise<Raster> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const context = createContext(bitmap.width, bitmap.height);
+    context.drawImage(bitmap, 0, 0);
+    const { data } = context.getImageData(0, 0, bitmap.width, bitmap.height);
+    return { width: bitmap.width, height: bitmap.height, channels: 4, data };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function encodeRaster(raster: Raster): Promise<Blob> {
+  const rgba = raster.channels === 4 ? raster : createRaster(raster.width, raster.height, 4);
+  if (raster.channels === 1) {
+    for (let i = 0, p = 0; i < raster.data.length; i++, p += 4) {
+      rgba.data.fill(raster.data[i], p, p + 3);
+      rgba.data[p + 3] = 255;
+    }
+  }
+
+  const context = createContext(raster.width, raster.height);
+  context.putImageData(new ImageData(rgba.data, raster.width, raster.height), 0, 0);
+  if ('convertToBlob' in context.canvas) return context.canvas.convertToBlob({ type: 'image/png' });
+  const canvas = context.canvas;
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), 'image/png');
+  });
+}
+
+/**
+ * Decode, preprocess and re-encode an image file
+ *
+ * When no step changes the image the original file is returned as-is,
+ * so nothing is lost to re-encoding.
+ *
+ * @param image - Uploaded screenshot
+ * @param options - Which steps to run
+ * @returns Image to OCR, the steps that ran, and the transform back to the original
+ */
+export async function preprocessImage(
+  image: Blob,
+  options: Partial<PreprocessingOptions> = {}
+): Promise<Omit<PreprocessedRaster, 'raster'> & { image: Blob }> {
+  const { raster, steps, transform } = preprocessRaster(await decodeImage(image), options);
+  return {
+    image: steps.length > 0 ? await encodeRaster(raster) : image,
+    steps,
+    transform,
+  };
+}
+
+// Margin around each blurred box, in pixels, for ascenders and anti-aliasing
+const BLUR_MARGIN = 3;
+
+/**
+ * Blur parts of an image, e.g. masked account numbers on a screenshot
+ *
+ * @param image - Original screenshot
+ * @param boxes - Areas to blur, in the image's pixels
+ * @returns Promise<Blob> - A PNG with the areas pixelated (the original when there are none)
+ */
+export async function blurRegions(image: Blob, boxes: BoundingBox[]): Promise<Blob> {
+  if (boxes.length === 0) return image;
+  const regions = boxes.map(box => ({
+    x: box.x0 - BLUR_MARGIN,
+    y: box.y0 - BLUR_MARGIN,
+    width: box.x1 - box.x0 + 2 * BLUR_MARGIN,
+    height: box.y1 - box.y0 + 2 * BLUR_MARGIN,
+  }));
+  return encodeRaster(pixelate(await decodeImage(image), regions));
+}
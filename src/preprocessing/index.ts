@@ -0,0 +1,10 @@
+export { DEFAULT_PREPROCESSING, mapBoxToSource, mapLayoutToSource, preprocessRaster } from './pipeline';
+export type {
+  PreprocessedRaster,
+  PreprocessingOptions,
+  PreprocessingStep,
+  PreprocessingStepName,
+  SourceTransform,
+} from './pipeline';
+export type { PixelRegion, Raster } from './raster';
+export { blurRegions, canPreprocess, decodeImage, encodeRaster, preprocessImage } from './canvas';
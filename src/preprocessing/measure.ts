@@ -0,0 +1,132 @@
+/**
+ * Measurements that decide which preprocessing steps an image needs
+ *
+ * All of them take a grey raster and assume nothing about where it came
+ * from, so they work on screenshots and phone photos alike.
+ */
+
+import { otsuThreshold, scale } from './raster';
+import type { Raster } from './raster';
+
+// Measuring skew on a smaller copy is as accurate and much faster
+const SKEW_SAMPLE_WIDTH = 600;
+const MAX_SKEW_DEGREES = 10;
+
+// Line runs shorter than this are rules, borders or noise, not text
+const MIN_LINE_HEIGHT = 4;
+
+/**
+ * Whether the page is light text on a dark background (dark mode)
+ *
+ * Looks at the median brightness: on a dark-mode dashboard most pixels
+ * are background, so the median sits well below the middle.
+ *
+ * @param gray - Grey raster
+ * @returns boolean
+ */
+export function isDarkBackground(gray: Raster): boolean {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray.data) histogram[value]++;
+
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= gray.data.length / 2) return v < 110;
+  }
+  return false;
+}
+
+// Rows holding enough ink to be part of a line of text
+function inkRows(gray: Raster, threshold: number): boolean[] {
+  const minInk = Math.max(2, Math.round(gray.width * 0.002));
+  const rows: boolean[] = [];
+  for (let y = 0; y < gray.height; y++) {
+    let ink = 0;
+    for (let x = 0; x < gray.width; x++) {
+      if (gray.data[y * gray.width + x] <= threshold) ink++;
+    }
+    rows.push(ink >= minInk);
+  }
+  return rows;
+}
+
+/**
+ * Typical height of a line of text, in pixels
+ *
+ * Finds runs of rows that contain ink (dark on light) and takes the
+ * median run. Good enough to tell 9 px text from 30 px text.
+ *
+ * @param gray - Grey raster, dark text on a light background
+ * @returns number | null - null when no lines were found
+ */
+export function estimateTextHeight(gray: Raster): number | null {
+  const rows = inkRows(gray, otsuThreshold(gray));
+  const heights: number[] = [];
+  let run = 0;
+  for (const ink of [...rows, false]) {
+    if (ink) {
+      run++;
+    } else {
+      if (run >= MIN_LINE_HEIGHT) heights.push(run);
+      run = 0;
+    }
+  }
+  if (heights.length === 0) return null;
+
+  heights.sort((a, b) => a - b);
+  return heights[Math.floor(heights.length / 2)];
+}
+
+// How sharply ink piles up into rows when projected at this slope
+function projectionScore(points: Array<[number, number]>, degrees: number, height: number): number {
+  const tan = Math.tan((degrees * Math.PI) / 180);
+  const bins = new Map<number, number>();
+  for (const [x, y] of points) {
+    const row = Math.round(y - x * tan + height);
+    bins.set(row, (bins.get(row) ?? 0) + 1);
+  }
+  let score = 0;
+  for (const count of bins.values()) score += count * count;
+  return score;
+}
+
+/**
+ * Angle the text lines slope at, clockwise in degrees
+ *
+ * Projects the ink onto rows at each candidate angle and keeps the one
+ * where it piles up most sharply (lines of text line up with the rows).
+ * Returns 0 unless the best angle is clearly better than level, so
+ * straight screenshots are never rotated.
+ *
+ * @param gray - Grey raster, dark text on a light background
+ * @returns number - Degrees; rotate by the negative to straighten
+ */
+export function estimateSkew(gray: Raster): number {
+  const small = gray.width > SKEW_SAMPLE_WIDTH ? scale(gray, SKEW_SAMPLE_WIDTH / gray.width) : gray;
+  const threshold = otsuThreshold(small);
+
+  const points: Array<[number, number]> = [];
+  for (let y = 0; y < small.height; y++) {
+    for (let x = 0; x < small.width; x++) {
+      if (small.data[y * small.width + x] <= threshold) points.push([x, y]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const score = (degrees: number) => projectionScore(points, degrees, small.height);
+  let best = 0;
+  let bestScore = score(0);
+  const level = bestScore;
+  // Coarse sweep, then refine around the winner
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += 0.5) {
+    const s = score(degrees);
+    if (s > bestScore) [best, bestScore] = [degrees, s];
+  }
+  const coarse = best;
+  for (let degrees = coarse - 0.4; degrees <= coarse + 0.4; degrees += 0.1) {
+    const s = score(degrees);
+    if (s > bestScore) [best, bestScore] = [degrees, s];
+  }
+
+  return bestScore > level * 1.1 ? Math.round(best * 10) / 10 : 0;
+}
@@ -0,0 +1,202 @@
+/**
+ * Preprocessing pipeline
+ *
+ * Cleans an image up before OCR: crop to the part the user cares about,
+ * grayscale, invert dark mode, straighten, upscale small text and
+ * binarize. Each step can be switched off, and the ones that ran are
+ * recorded so the dashboard can say what was done to the image.
+ *
+ * Steps change the geometry (crop, rotate, scale), so the pipeline also
+ * returns the transform needed to map OCR boxes back onto the original.
+ */
+
+import type { BoundingBox, OcrLayout } from '../layoutExtractor';
+import { adaptiveThreshold, crop, invert, rotate, scale, toGrayscale } from './raster';
+import type { PixelRegion, Raster } from './raster';
+import { estimateSkew, estimateTextHeight, isDarkBackground } from './measure';
+
+export interface PreprocessingOptions {
+  crop: PixelRegion | null;  // Region of the original image to read; null for all of it
+  grayscale: boolean;
+  invert: 'auto' | boolean;  // 'auto' inverts when the background is dark
+  deskew: boolean;
+  upscale: boolean;          // Enlarge when text is too small for OCR
+  threshold: boolean;        // Adaptive black-and-white
+}
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  crop: null,
+  grayscale: true,
+  invert: 'auto',
+  deskew: true,
+  upscale: true,
+  threshold: true,
+};
+
+export type PreprocessingStepName = 'crop' | 'grayscale' | 'invert' | 'deskew' | 'upscale' | 'threshold';
+
+// A step that changed the image, and how
+export interface PreprocessingStep {
+  step: PreprocessingStepName;
+  detail: string;  // e.g. "rotated 1.8°", "2.5× (text was 11 px tall)"
+}
+
+// How a point on the processed image maps back onto the original
+export interface SourceTransform {
+  offsetX: number;   // Crop origin on the original
+  offsetY: number;
+  width: number;     // Size after cropping; rotation is about its centre
+  height: number;
+  rotation: number;  // Degrees clockwise applied after cropping
+  scale: number;     // Factor applied after rotating
+}
+
+export interface PreprocessedRaster {
+  raster: Raster;
+  steps: PreprocessingStep[];
+  transform: SourceTransform;
+}
+
+// Tesseract reads best with capital letters around 30 px tall
+const TARGET_TEXT_HEIGHT = 32;
+const MIN_TEXT_HEIGHT = 20;
+const MAX_UPSCALE = 4;
+// Keep the upscaled image within what a browser tab can hold comfortably
+const MAX_PIXELS = 12_000_000;
+// Rotations smaller than this don't bother Tesseract
+const MIN_DESKEW_DEGREES = 0.3;
+
+/**
+ * Run the enabled steps on a decoded image
+ *
+ * Order: crop → grayscale → invert → deskew → upscale → threshold.
+ * Measurements (background, skew, text height) are always taken on a
+ * grey copy, so they work whether or not grayscale output is enabled.
+ *
+ * @param source - Decoded image (RGBA or grey)
+ * @param options - Which steps to run; missing ones use the defaults
+ * @returns PreprocessedRaster - Image to OCR, the steps that ran, and the transform back
+ */
+export function preprocessRaster(source: Raster, options: Partial<PreprocessingOptions> = {}): PreprocessedRaster {
+  const settings = { ...DEFAULT_PREPROCESSING, ...options };
+  const steps: PreprocessingStep[] = [];
+  const transform: SourceTransform = {
+    offsetX: 0, offsetY: 0, width: source.width, height: source.height, rotation: 0, scale: 1,
+  };
+
+  let image = source;
+  if (settings.crop) {
+    image = crop(image, settings.crop);
+    const { x, y } = settings.crop;
+    transform.offsetX = Math.max(0, Math.min(source.width - 1, Math.round(x)));
+    transform.offsetY = Math.max(0, Math.min(source.height - 1, Math.round(y)));
+    transform.width = image.width;
+    transform.height = image.height;
+    steps.push({ step: 'crop', detail: `${image.width}×${image.height} px at (${transform.offsetX}, ${transform.offsetY})` });
+  }
+
+  let gray = toGrayscale(image);
+  if (settings.grayscale && image.channels === 4) {
+    image = gray;
+    steps.push({ step: 'grayscale', detail: 'colour removed' });
+  }
+
+  const dark = settings.invert === 'auto' ? isDarkBackground(gray) : settings.invert;
+  if (dark) {
+    image = invert(image);
+    gray = image.channels === 1 ? image : invert(gray);
+    steps.push({
+      step: 'invert',
+      detail: settings.invert === 'auto' ? 'dark background detected' : 'inverted on request',
+    });
+  }
+
+  if (settings.deskew) {
+    const skew = estimateSkew(gray);
+    if (Math.abs(skew) >= MIN_DESKEW_DEGREES) {
+      image = rotate(image, -skew);
+      gray = image.channels === 1 ? image : rotate(gray, -skew);
+      transform.rotation = -skew;
+      steps.push({ step: 'deskew', detail: `rotated ${-skew > 0 ? '+' : ''}${-skew}°` });
+    }
+  }
+
+  if (settings.upscale) {
+    const textHeight = estimateTextHeight(gray);
+    if (textHeight !== null && textHeight < MIN_TEXT_HEIGHT) {
+      const factor = Math.min(
+        MAX_UPSCALE,
+        TARGET_TEXT_HEIGHT / textHeight,
+        Math.sqrt(MAX_PIXELS / (image.width * image.height))
+      );
+      if (factor >= 1.1) {
+        const rounded = Math.round(factor * 10) / 10;
+        image = scale(image, rounded);
+        transform.scale = image.width / transform.width;
+        steps.push({ step: 'upscale', detail: `${rounded}× (text was ${textHeight} px tall)` });
+      }
+    }
+  }
+
+  if (settings.threshold) {
+    image = adaptiveThreshold(toGrayscale(image), Math.max(15, Math.round(image.width / 16)));
+    steps.push({ step: 'threshold', detail: 'adaptive black and white' });
+  }
+
+  return { raster: image, steps, transform };
+}
+
+/**
+ * Map a box on the processed image back onto the original
+ *
+ * Rotation turns a box into a slanted quad; the result is the upright
+ * box around it.
+ *
+ * @param box - Box on the processed image
+ * @param transform - From preprocessRaster
+ * @returns BoundingBox - Box on the original image
+ */
+export function mapBoxToSource(box: BoundingBox, transform: SourceTransform): BoundingBox {
+  const radians = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = transform.width / 2;
+  const cy = transform.height / 2;
+
+  const corners = [[box.x0, box.y0], [box.x1, box.y0], [box.x0, box.y1], [box.x1, box.y1]].map(([x, y]) => {
+    // Undo the scale, then the rotation about the crop's centre, then the crop
+    const dx = x / transform.scale - cx;
+    const dy = y / transform.scale - cy;
+    return [cx + dx * cos + dy * sin + transform.offsetX, cy - dx * sin + dy * cos + transform.offsetY];
+  });
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return {
+    x0: Math.round(Math.min(...xs)),
+    y0: Math.round(Math.min(...ys)),
+    x1: Math.round(Math.max(...xs)),
+    y1: Math.round(Math.max(...ys)),
+  };
+}
+
+/**
+ * Map every line and word of an OCR layout back onto the original image
+ *
+ * @param layout - OCR output for the processed image
+ * @param transform - From preprocessRaster
+ * @returns OcrLayout - Same text, boxes on the original
+ */
+export function mapLayoutToSource(layout: OcrLayout, transform: SourceTransform): OcrLayout {
+  const identity = transform.offsetX === 0 && transform.offsetY === 0
+    && transform.rotation === 0 && transform.scale === 1;
+  if (identity) return layout;
+
+  return {
+    text: layout.text,
+    lines: layout.lines.map(line => ({
+      ...line,
+      bbox: mapBoxToSource(line.bbox, transform),
+      words: line.words.map(word => ({ ...word, bbox: mapBoxToSource(word.bbox, transform) })),
+    })),
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Pixel operations on plain arrays
+ *
+ * Nothing here touches the DOM, so the filters run the same in a browser,
+ * a worker or Node. A raster is either RGBA (straight from ImageData) or a
+ * single grey channel.
+ */
+
+export interface Raster {
+  width: number;
+  height: number;
+  channels: 1 | 4;
+  data: Uint8ClampedArray<ArrayBuffer>;  // Row-major, `channels` bytes per pixel
+}
+
+// Rectangle on an image, in pixels (top-left origin)
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createRaster(width: number, height: number, channels: 1 | 4): Raster {
+  return { width, height, channels, data: new Uint8ClampedArray(width * height * channels) };
+}
+
+/**
+ * Perceived brightness of every pixel (Rec. 601 weights)
+ *
+ * @param raster - RGBA or grey image
+ * @returns Raster - One grey channel
+ */
+export function toGrayscale(raster: Raster): Raster {
+  if (raster.channels === 1) return raster;
+  const gray = createRaster(raster.width, raster.height, 1);
+  for (let i = 0, p = 0; i < gray.data.length; i++, p += 4) {
+    const alpha = raster.data[p + 3] / 255;
+    // Transparent pixels count as white, like the page behind a screenshot
+    const luma = 0.299 * raster.data[p] + 0.587 * raster.data[p + 1] + 0.114 * raster.data[p + 2];
+    gray.data[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+}
+
+export function invert(raster: Raster): Raster {
+  const out = createRaster(raster.width, raster.height, raster.channels);
+  for (let i = 0; i < raster.data.length; i++) {
+    // Leave alpha alone
+    out.data[i] = raster.channels === 4 && i % 4 === 3 ? raster.data[i] : 255 - raster.data[i];
+  }
+  return out;
+}
+
+/**
+ * Cut a region out of the image, clamped to its edges
+ */
+export function crop(raster: Raster, region: PixelRegion): Raster {
+  const x0 = Math.max(0, Math.min(raster.width - 1, Math.round(region.x)));
+  const y0 = Math.max(0, Math.min(raster.height - 1, Math.round(region.y)));
+  const width = Math.max(1, Math.min(raster.width - x0, Math.round(region.width)));
+  const height = Math.max(1, Math.min(raster.height - y0, Math.round(region.height)));
+
+  const out = createRaster(width, height, raster.channels);
+  const rowBytes = width * raster.channels;
+  for (let y = 0; y < height; y++) {
+    const from = ((y0 + y) * raster.width + x0) * raster.channels;
+    out.data.set(raster.data.subarray(from, from + rowBytes), y * rowBytes);
+  }
+  return out;
+}
+
+/**
+ * Pixelate regions so the text in them can't be read back
+ *
+ * Each region is averaged in square blocks half its height, so no
+ * character keeps its shape.
+ *
+ * @param raster - Image to cover
+ * @param regions - Areas to pixelate, clamped to the image
+ * @returns Raster - A copy with the regions pixelated
+ */
+export function pixelate(raster: Raster, regions: PixelRegion[]): Raster {
+  const out: Raster = { ...raster, data: raster.data.slice() };
+  const { width, height, channels } = raster;
+
+  for (const region of regions) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    const block = Math.max(4, Math.ceil(region.height / 2));
+
+    for (let by = y0; by < y1; by += block) {
+      for (let bx = x0; bx < x1; bx += block) {
+        const bw = Math.min(block, x1 - bx);
+        const bh = Math.min(block, y1 - by);
+        const sums = new Array<number>(channels).fill(0);
+        for (let y = by; y < by + bh; y++) {
+          for (let x = bx; x < bx + bw; x++) {
+            for (let c = 0; c < channels; c++) sums[c] += raster.data[(y * width + x) * channels + c];
+          }
+        }
+        const means = sums.map(sum => sum / (bw * bh));
+        for (let y = by; y < by + bh; y++) {
+          for (let x = bx; x < bx + bw; x++) {
+            for (let c = 0; c < channels; c++) out.data[(y * width + x) * channels + c] = means[c];
+          }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// Bilinear sample at a fractional position; `fill` outside the image
+function sample(raster: Raster, x: number, y: number, channel: number, fill: number): number {
+  if (x < -0.5 || y < -0.5 || x > raster.width - 0.5 || y > raster.height - 0.5) return fill;
+  const cx = Math.max(0, Math.min(raster.width - 1, x));
+  const cy = Math.max(0, Math.min(raster.height - 1, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(raster.width - 1, x0 + 1);
+  const y1 = Math.min(raster.height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const at = (px: number, py: number) => raster.data[(py * raster.width + px) * raster.channels + channel];
+  const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+  const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Resize by a factor with bilinear interpolation
+ */
+export function scale(raster: Raster, factor: number): Raster {
+  const width = Math.max(1, Math.round(raster.width * factor));
+  const height = Math.max(1, Math.round(raster.height * factor));
+  const out = createRaster(width, height, raster.channels);
+  for (let y = 0; y < height; y++) {
+    const sy = (y + 0.5) / factor - 0.5;
+    for (let x = 0; x < width; x++) {
+      const sx = (x + 0.5) / factor - 0.5;
+      for (let c = 0; c < raster.channels; c++) {
+        out.data[(y * width + x) * raster.channels + c] = sample(raster, sx, sy, c, 255);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Rotate about the centre, keeping the same size
+ *
+ * Corners that rotate in from outside are filled with `background`, so
+ * they read as empty page rather than dark wedges.
+ *
+ * @param raster - Image to rotate
+ * @param degrees - Clockwise angle
+ * @param background - Fill value for every colour channel
+ * @returns Raster
+ */
+export function rotate(raster: Raster, degrees: number, background = 255): Raster {
+  const out = createRaster(raster.width, raster.height, raster.channels);
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = raster.width / 2;
+  const cy = raster.height / 2;
+
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      // Inverse mapping: where in the source does this output pixel come from
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      const sx = cx + dx * cos + dy * sin - 0.5;
+      const sy = cy - dx * sin + dy * cos - 0.5;
+      for (let c = 0; c < raster.channels; c++) {
+        const fill = raster.channels === 4 && c === 3 ? 255 : background;
+        out.data[(y * raster.width + x) * raster.channels + c] = sample(raster, sx, sy, c, fill);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Global threshold that best separates dark and light pixels (Otsu)
+ *
+ * @param gray - Grey raster
+ * @returns number - Pixels at or below it are ink
+ */
+export function otsuThreshold(gray: Raster): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray.data) histogram[value]++;
+
+  const total = gray.data.length;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * histogram[v];
+
+  let best = 127;
+  let bestVariance = -1;
+  let weightDark = 0;
+  let sumDark = 0;
+  for (let v = 0; v < 256; v++) {
+    weightDark += histogram[v];
+    if (weightDark === 0) continue;
+    const weightLight = total - weightDark;
+    if (weightLight === 0) break;
+    sumDark += v * histogram[v];
+    const meanDark = sumDark / weightDark;
+    const meanLight = (sumAll - sumDark) / weightLight;
+    const variance = weightDark * weightLight * (meanDark - meanLight) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = v;
+    }
+  }
+  return best;
+}
+
+/**
+ * Black-and-white image with a threshold that follows local brightness
+ *
+ * Bradley's method: a pixel is ink when it is `sensitivity` darker than
+ * the mean of the window around it. Unlike one global threshold this
+ * survives shadows and gradients across phone photos.
+ *
+ * @param gray - Grey raster, dark text on a light background
+ * @param windowSize - Side of the averaging window in pixels
+ * @param sensitivity - 0-1, how much darker than its surroundings ink must be
+ * @returns Raster - Grey raster with only 0 (ink) and 255 (paper)
+ */
+export function adaptiveThreshold(gray: Raster, windowSize: number, sensitivity = 0.15): Raster {
+  const { width, height } = gray;
+  // Summed-area table, one row and column of padding
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const out = createRaster(width, height, 1);
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      const mean = sum / ((right - left) * (bottom - top));
+      out.data[y * width + x] = gray.data[y * width + x] <= mean * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,61 @@
+/**
+ * Installing the app, and running it offline
+ *
+ * The service worker (src/serviceWorker.js, built by vite.config.ts) keeps
+ * the app, the OCR worker and core, and language data in the browser.
+ * Analyses are kept in IndexedDB and synced when there is a connection
+ * (see storage/syncQueue.ts).
+ */
+
+import { useEffect, useState } from 'react';
+
+// Not in the DOM typings yet: Chromium's event for offering to install
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Register the service worker
+ *
+ * Production builds only: in development every file changes all the time,
+ * and a cached copy would hide the changes.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}service-worker.js`)
+      .catch(error => console.warn('Offline use unavailable: the service worker did not register', error));
+  });
+}
+
+/**
+ * Offer to install the app, where the browser allows it
+ *
+ * @returns A function that shows the browser's install prompt, or null
+ *   while the browser isn't offering (already installed, or unsupported)
+ */
+export function useInstallPrompt(): (() => Promise<void>) | null {
+  const [event, setEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const onPrompt = (e: Event) => {
+      e.preventDefault();
+      setEvent(e as BeforeInstallPromptEvent);
+    };
+    const onInstalled = () => setEvent(null);
+    window.addEventListener('beforeinstallprompt', onPrompt);
+    window.addEventListener('appinstalled', onInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', onPrompt);
+      window.removeEventListener('appinstalled', onInstalled);
+    };
+  }, []);
+
+  if (!event) return null;
+  return async () => {
+    await event.prompt();
+    await event.userChoice;
+    setEvent(null);
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Privacy: masking personal data in what was read
+ *
+ * Bank statements and payout pages carry IBANs, account and card numbers,
+ * email addresses, phone numbers and names next to the figures we want.
+ * This module finds them in OCR text and masks them before anything else
+ * reads the text, so they never reach the figures, the stored result or an
+ * export. Masks keep the length of what they hide, so columns still line
+ * up. Each redaction keeps its box on the page, to blur the screenshot.
+ *
+ * Detection leans towards masking: a number that fails its checksum is
+ * still masked when a label ("IBAN", "Card") says what it is.
+ */
+
+import type { BoundingBox, LabelledFigure, OcrLayout, OcrLine } from './layoutExtractor';
+import { DEFAULT_LINE_ITEM_RULES, LINE_ITEM_CATEGORY_NAMES, categorizeLabel } from './lineItems';
+import { monthPeriod } from './tableExtractor';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+
+export type RedactionKind = 'iban' | 'card' | 'account' | 'email' | 'phone' | 'name';
+
+export const REDACTION_KIND_NAMES: { [kind in RedactionKind]: string } = {
+  iban: 'IBAN',
+  card: 'Card number',
+  account: 'Account number',
+  email: 'Email',
+  phone: 'Phone number',
+  name: 'Name',
+};
+
+// Something masked, and where it was on the page
+export interface Redaction {
+  kind: RedactionKind;
+  bbox: BoundingBox | null;  // On the screenshot; null for text without a layout (CSV)
+}
+
+// How much of an upload is kept, chosen by the user
+export type PrivacyMode = 'off' | 'standard' | 'strict';
+
+export const PRIVACY_MODES: Array<{ value: PrivacyMode, label: string, description: string }> = [
+  {
+    value: 'standard',
+    label: 'Mask personal data',
+    description: 'Account numbers, cards, emails, phones and names are masked, and blurred on the saved screenshot.',
+  },
+  {
+    value: 'strict',
+    label: 'Strict: keep screenshots local',
+    description: 'Personal data is masked, and neither the file nor the text read from it leaves this browser. Only the figures are saved.',
+  },
+  {
+    value: 'off',
+    label: 'Off',
+    description: 'Everything is kept as read.',
+  },
+];
+
+const MASK_CHAR = '•';
+
+// Part of a line that must be masked, as character offsets
+interface TextMatch {
+  kind: RedactionKind;
+  start: number;
+  end: number;
+}
+
+// Labelled values: the label says what the value after it is
+interface LabelledRule {
+  kind: RedactionKind;
+  label: RegExp;
+  value: RegExp;  // Sticky; tried right after the label
+  minDigits?: number;
+}
+
+const IBAN = /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{4}){2,7}(?:[ ]?[A-Z0-9]{1,3})?\b/g;
+const IBAN_LABEL = /\bIBAN\b/i;
+
+// 13 to 19 digits in groups of four (or Amex's 4-6-5)
+const CARD = /\b(?:\d{4}[ -]?\d{6}[ -]?\d{5}|\d{4}(?:[ -]?\d{4}){2}[ -]?\d{1,7})\b/g;
+const CARD_LABEL = /\b(?:card|visa|mastercard|amex|karte)\b|بطاقة/i;
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// International (+country code) and North American "(555) 123-4567" numbers
+const PHONE = /\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}|\(\d{3}\)[ ]?\d{3}[ -]\d{4}/g;
+const MIN_PHONE_DIGITS = 8;
+
+// A capitalised name of up to four words, or an Arabic one
+const NAME_WORD = String.raw`(?:\p{Lu}[\p{L}'.-]*|\p{Script=Arabic}+)`;
+const NAME_VALUE = new RegExp(`${NAME_WORD}(?:[ ]${NAME_WORD}){0,3}`, 'uy');
+const DIGITS_VALUE = /\+?\(?\d+\)?(?:[ /-]\(?\d+\)?)*/y;
+
+const LABELLED_RULES: LabelledRule[] = [
+  {
+    kind: 'account',
+    label: /(?:\b(?:account|acct|a\/c)(?:[ ]?(?:no\.?|number|nr\.?|#))?|\bkonto(?:nummer|nr\.?)?|رقم الحساب)[ ]*[:#]?[ ]*/gi,
+    value: DIGITS_VALUE,
+    minDigits: 6,
+  },
+  {
+    kind: 'phone',
+    label: /(?:\b(?:phone|tel\.?|telephone|mobile|telefon|handy)|هاتف|جوال)[ ]*:?[ ]*/gi,
+    value: DIGITS_VALUE,
+    minDigits: 7,
+  },
+  {
+    // Names only after a colon, so headers like "Name  Amount" stay readable
+    kind: 'name',
+    label: /(?:\b(?:name|account holder|account name|cardholder|customer|beneficiary|recipient|payee|bill to|kontoinhaber|inhaber|empfänger)|الاسم|اسم العميل)[ ]*:[ ]*/giu,
+    value: NAME_VALUE,
+  },
+  {
+    kind: 'name',
+    label: /\b(?:Mr|Mrs|Ms|Miss|Dr|Herr|Frau)\.?[ ]+/gu,
+    value: NAME_VALUE,
+  },
+];
+
+function digitCount(text: string): number {
+  return text.replace(/\D/g, '').length;
+}
+
+// ISO 13616 check: move the first four characters to the end, read letters as 10-35, mod 97
+function validIban(candidate: string): boolean {
+  const compact = candidate.replace(/ /g, '');
+  if (compact.length < 15 || compact.length > 34) return false;
+  let remainder = 0;
+  for (const char of compact.slice(4) + compact.slice(0, 4)) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+function validLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function patternMatches(line: string, pattern: RegExp, kind: RedactionKind, accept: (text: string) => boolean): TextMatch[] {
+  return [...line.matchAll(pattern)]
+    .filter(match => accept(match[0]))
+    .map(match => ({ kind, start: match.index, end: match.index + match[0].length }));
+}
+
+function labelledMatches(line: string, rule: LabelledRule): TextMatch[] {
+  const matches: TextMatch[] = [];
+  for (const label of line.matchAll(rule.label)) {
+    rule.value.lastIndex = label.index + label[0].length;
+    const value = rule.value.exec(line);
+    if (!value || (rule.minDigits && digitCount(value[0]) < rule.minDigits)) continue;
+    matches.push({ kind: rule.kind, start: value.index, end: value.index + value[0].length });
+  }
+  return matches;
+}
+
+/**
+ * Find personal data on one line of text
+ *
+ * @param line - Text without line breaks
+ * @returns TextMatch[] - Non-overlapping matches in reading order
+ */
+function findSensitive(line: string): TextMatch[] {
+  const found = [
+    ...patternMatches(line, IBAN, 'iban', text => validIban(text) || IBAN_LABEL.test(line)),
+    ...patternMatches(line, CARD, 'card', text => {
+      const digits = digitCount(text);
+      return digits >= 13 && digits <= 19 && (validLuhn(text) || CARD_LABEL.test(line));
+    }),
+    ...patternMatches(line, EMAIL, 'email', () => true),
+    ...patternMatches(line, PHONE, 'phone', text => digitCount(text) >= MIN_PHONE_DIGITS),
+    ...LABELLED_RULES.flatMap(rule => labelledMatches(line, rule)),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Keep the first (longest) of overlapping matches
+  const matches: TextMatch[] = [];
+  for (const match of found) {
+    const previous = matches[matches.length - 1];
+    if (previous && match.start < previous.end) previous.end = Math.max(previous.end, match.end);
+    else matches.push({ ...match });
+  }
+  return matches;
+}
+
+function maskRanges(text: string, matches: TextMatch[], offset = 0): string {
+  let masked = text;
+  for (const { start, end } of matches) {
+    const from = Math.max(0, start - offset);
+    const to = Math.min(text.length, end - offset);
+    if (from >= to) continue;
+    masked = masked.slice(0, from) + masked.slice(from, to).replace(/\S/g, MASK_CHAR) + masked.slice(to);
+  }
+  return masked;
+}
+
+function unionBox(boxes: BoundingBox[]): BoundingBox {
+  return {
+    x0: Math.min(...boxes.map(box => box.x0)),
+    y0: Math.min(...boxes.map(box => box.y0)),
+    x1: Math.max(...boxes.map(box => box.x1)),
+    y1: Math.max(...boxes.map(box => box.y1)),
+  };
+}
+
+function redactLine(line: OcrLine): { line: OcrLine, redactions: Redaction[] } {
+  const matches = findSensitive(line.text);
+  if (matches.length === 0) return { line, redactions: [] };
+
+  // Where each word sits in the line's text
+  let cursor = 0;
+  const placed = line.words.map(word => {
+    const start = line.text.indexOf(word.text, cursor);
+    if (start === -1) return { word, start: -1, end: -1 };
+    cursor = start + word.text.length;
+    return { word, start, end: cursor };
+  });
+
+  const words = placed.map(({ word, start, end }) => {
+    const overlapping = matches.filter(match => start !== -1 && match.start < end && match.end > start);
+    return overlapping.length > 0 ? { ...word, text: maskRanges(word.text, overlapping, start) } : word;
+  });
+  const redactions = matches.map(match => {
+    const boxes = placed.filter(({ start, end }) => start !== -1 && match.start < end && match.end > start).map(({ word }) => word.bbox);
+    // A word we couldn't place could be the one matched, so cover the line
+    const unplaced = placed.some(({ start }) => start === -1);
+    return { kind: match.kind, bbox: boxes.length > 0 && !unplaced ? unionBox(boxes) : line.bbox };
+  });
+
+  return { line: { ...line, text: maskRanges(line.text, matches), words }, redactions };
+}
+
+/**
+ * Mask personal data in plain text
+ *
+ * @param text - e.g. a CSV file
+ * @returns The masked text, and what was masked
+ */
+export function redactText(text: string): { text: string, redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const lines = text.split('\n').map(line => {
+    const matches = findSensitive(line);
+    matches.forEach(match => redactions.push({ kind: match.kind, bbox: null }));
+    return maskRanges(line, matches);
+  });
+  return { text: lines.join('\n'), redactions };
+}
+
+/**
+ * Mask personal data in an OCR layout
+ *
+ * Masks the full text, each line and the words in it, so figures and
+ * tables read from the layout can't pick any of it up.
+ *
+ * @param layout - OCR output
+ * @returns The masked layout, and what was masked with its box on the page
+ */
+export function redactLayout(layout: OcrLayout): { layout: OcrLayout, redactions: Redaction[] } {
+  const lines = layout.lines.map(redactLine);
+  return {
+    layout: { text: redactText(layout.text).text, lines: lines.map(({ line }) => line) },
+    redactions: lines.flatMap(({ redactions }) => redactions),
+  };
+}
+
+// A figure without its label, including where its scores quote it
+function withoutLabel(figure: LabelledFigure): LabelledFigure {
+  return {
+    ...figure,
+    label: '',
+    confidenceFactors: figure.confidenceFactors.map(factor => ({ ...factor, detail: withoutQuote(factor.detail, figure.label) })),
+  };
+}
+
+function withoutQuote(detail: string, text: string): string {
+  return text ? detail.replaceAll(`"${text}"`, `"${MASK_CHAR.repeat(text.length)}"`) : detail;
+}
+
+/**
+ * The analysis without the text it was read from, for strict privacy
+ *
+ * Only figures are kept. Labels go too, as they're words from the source:
+ * line items are named after their category instead (with the default
+ * rules, so the breakdown comes out the same), months after their period.
+ */
+export function withoutSourceText(analysis: RevenueAnalysis): RevenueAnalysis {
+  const labels = (analysis.figures ?? []).map(figure => figure.label);
+  return {
+    ...analysis,
+    rawText: '',
+    figures: (analysis.figures ?? []).map(withoutLabel),
+    totalRevenueFigure: analysis.totalRevenueFigure && withoutLabel(analysis.totalRevenueFigure),
+    lineItems: (analysis.lineItems ?? []).map(item => {
+      const { category } = categorizeLabel(item.label, DEFAULT_LINE_ITEM_RULES);
+      return { ...item, label: category ? LINE_ITEM_CATEGORY_NAMES[category] : 'Line item' };
+    }),
+    series: analysis.series.map(month => {
+      const [year, number] = month.period.split('-').map(Number);
+      return { ...month, label: monthPeriod(year, number).label };
+    }),
+    template: analysis.template && { ...analysis.template, period: null },
+    confidenceFactors: analysis.confidenceFactors.map(factor =>
+      ({ ...factor, detail: labels.reduce(withoutQuote, factor.detail) })),
+  };
+}
+
+/**
+ * Count redactions by kind, for display, e.g. "2 IBANs"
+ */
+export function describeRedactions(redactions: Redaction[]): string {
+  const counts = new Map<RedactionKind, number>();
+  redactions.forEach(({ kind }) => counts.set(kind, (counts.get(kind) ?? 0) + 1));
+  return [...counts].map(([kind, count]) => `${count} × ${REDACTION_KIND_NAMES[kind]}`).join(', ');
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeLayout } from './revenueAnalyzer';
+import type { AnalysisOptions, RevenueAnalysis } from './revenueAnalyzer';
+import { layoutFromText } from './layoutExtractor';
+
+// Stripe reports page (corpus/cases/stripe-reports.txt) with a deposit in a second currency
+const MIXED_TEXT = `Stripe      Home   Payments   Balances   Customers   Reports
+Reports overview      Last 6 months
+
+Gross volume             Net volume               Successful payments
+$48,920.00               $46,870.35               1,284
+
+Month                    Gross volume
+Apr 2025                 $6,880.00
+May 2025                 $7,420.00
+Jun 2025                 $7,960.50
+Jul 2025                 $8,310.00
+Aug 2025                 $8,905.25
+Sep 2025                 $9,444.25
+
+Bank deposit             AED 500.00`;
+
+function analyze(text: string, options: AnalysisOptions = {}): RevenueAnalysis {
+  const outcome = analyzeLayout(layoutFromText(text), { defaultCurrency: 'USD', ...options }, {
+    analysisMethod: 'sample',
+    preprocessing: [],
+    ocrLanguages: [],
+  });
+  if (!outcome.ok) throw new Error(outcome.error.message);
+  return outcome.value;
+}
+
+describe('analyzeLayout', () => {
+  it('gives each currency of a mixed page its own revenue, not the sum of its figures', () => {
+    const analysis = analyze(MIXED_TEXT);
+
+    expect(analysis.totalRevenue).toBe(48920);
+    expect(analysis.currency).toBe('USD');
+    expect(analysis.currencyBreakdown.map(({ currency, revenue }) => ({ currency, revenue }))).toEqual([
+      { currency: 'USD', revenue: 48920 },
+      { currency: 'AED', revenue: 500 },
+    ]);
+  });
+
+  it('converts only each currency\'s revenue into the reporting currency', () => {
+    const { reporting } = analyze(MIXED_TEXT, { reportingCurrency: 'AED' });
+
+    expect(reporting?.totalRevenue.amount).toBeCloseTo(48920 * 3.6725);
+    expect(reporting?.currencyBreakdown.map(({ originalCurrency, originalAmount }) => ({ originalCurrency, originalAmount }))).toEqual([
+      { originalCurrency: 'USD', originalAmount: 48920 },
+      { originalCurrency: 'AED', originalAmount: 500 },
+    ]);
+    expect(reporting?.currencyBreakdown[0].amount).toBeCloseTo(reporting!.totalRevenue.amount);
+  });
+});
@@ -2,199 +2,453 @@
  * Revenue Screenshot Analyzer Engine
  * 
  * This module handles the complete pipeline of analyzing revenue screenshots:
- * 1. OCR text extraction using Tesseract.js
- * 2. Pattern matching to find revenue-related numbers
- * 3. Data structuring and confidence scoring
- * 4. Return formatted dashboard data
+ * 1. OCR text and layout extraction using Tesseract.js
+ * 2. Masking personal data in what was read (see redaction.ts)
+ * 3. Pairing each amount with its label (see layoutExtractor.ts)
+ * 4. Rebuilding dated series from tables (see tableExtractor.ts)
+ * 5. Data structuring and confidence scoring (see confidenceModel.ts)
+ * 6. Platform-specific field rules (see templates/)
+ * 7. Converting to a reporting currency (see fx.ts)
+ * 8. Keeping labelled amounts as line items (see lineItems.ts)
+ * 9. Return formatted dashboard data
  */
 
-import Tesseract from 'tesseract.js';
+import { extractLabelledFigures, layoutFromTesseract, layoutFromText } from './layoutExtractor';
+import type { LabelledFigure, OcrLayout } from './layoutExtractor';
+import { detectRevenueTable } from './tableExtractor';
+import type { RevenuePeriod, RevenueTable } from './tableExtractor';
+import { detectNumberLocale, parseAmounts } from './numberParser';
+import type { NumberLocale } from './numberParser';
+import { attributeCurrencies, defaultCurrencyForLocale } from './currencyDetector';
+import type { CurrencyMethod, CurrencyShare, CurrencySummary } from './currencyDetector';
+import { bundledRateProvider, convertAmount } from './fx';
+import { overallConfidence, scoreFigure, withFactor } from './confidenceModel';
+import type { ConfidenceFactor } from './confidenceModel';
+import type { ConvertedAmount, RateProvider } from './fx';
+import { matchTemplate, summarizeMatch } from './templates';
+import type { TemplateMatchSummary } from './templates';
+import { failure, success } from './analysisErrors';
+import type { Outcome } from './analysisErrors';
+import { SAMPLE_SCREENSHOT_TEXT } from './sampleData';
+import { OCR_ABORTED, OCR_WORKER_FAILED, getOcrPool } from './ocrPool';
+import type { OcrJobOptions, OcrPool, OcrProgress } from './ocrPool';
+import type { FieldSources } from './corrections';
+import { canPreprocess, mapLayoutToSource, preprocessImage } from './preprocessing';
+import type { PreprocessingOptions, PreprocessingStep, SourceTransform } from './preprocessing';
+import { AUTO_RETRY_CONFIDENCE, readingConfidence, suggestOcrLanguages } from './ocrLanguages';
+import type { OcrLanguageSetting } from './ocrLanguages';
+import { emitDiagnostic } from './diagnostics';
+import type { DiagnosticListener } from './diagnostics';
+import { describeRedactions, redactLayout } from './redaction';
+import type { Redaction } from './redaction';
+import { lineItemsFromFigures } from './lineItems';
+import type { LineItem } from './lineItems';
 
 // Define the structure of our analysis result
 export interface RevenueAnalysis {
   // Main metrics
   totalRevenue: number;
-  currency: string;
+  currency: string;  // Currency of the total (ISO code)
+  currencyBreakdown: CurrencyShare[];  // One entry per currency when the screenshot mixes them
+  currencyMethod: CurrencyMethod;  // How the currency was chosen
+  currencyExplanation: string;  // Why, in words
+  reporting: ReportingTotals | null;  // Main metrics in the reporting currency, when one was requested
   thisMonth: number;
   lastMonth: number;
   growth: number;
+  fieldSources: FieldSources;  // Which of the three values above a user corrected (see corrections.ts)
+  series: RevenuePeriod[];  // Monthly rows read from a table, oldest first
+  breakdownSource: 'table' | 'labels' | 'unavailable' | 'estimated';  // Where thisMonth/lastMonth/growth came from; 0 when unavailable ('estimated': guessed by older versions)
+  template: TemplateMatchSummary | null;  // Platform the screenshot was recognised as, with its fields
   
   // Metadata
   confidence: number;  // 0-1 scale, how confident we are in the results
-  rawText: string;     // Original OCR text for debugging
+  confidenceFactors: ConfidenceFactor[];  // What the overall confidence is made of
+  rawText: string;     // OCR text for debugging, with personal data masked
+  redactions: Redaction[];  // What was masked, and where (see redaction.ts)
   detectedNumbers: number[];  // All numbers found in the image
-  analysisMethod: 'ocr' | 'mock';  // How we got the data
+  numberLocale: NumberLocale;  // Number format used to read them (chosen or detected)
+  figures: LabelledFigure[];  // Amounts paired with their labels and boxes
+  totalRevenueFigure: LabelledFigure | null;  // The figure that became totalRevenue
+  lineItems: LineItem[];  // Every labelled amount, to break revenue down (see lineItems.ts)
+  analysisMethod: 'ocr' | 'pdf-text' | 'csv' | 'sample';  // OCR, a PDF's text layer, a CSV export, or the bundled sample
+  preprocessing: PreprocessingStep[];  // What was done to the image before OCR (see preprocessing/)
+  ocrLanguages: string[];  // Tesseract languages the text was read with ([] for the sample)
+}
+
+// Readable names for analysisMethod
+export const ANALYSIS_METHOD_NAMES: { [method in RevenueAnalysis['analysisMethod']]: string } = {
+  'ocr': 'OCR Text Recognition',
+  'pdf-text': 'PDF Text Layer',
+  'csv': 'CSV Import',
+  'sample': 'Sample Data',
+};
+
+// Readable names for breakdownSource
+export const BREAKDOWN_SOURCE_NAMES: { [source in RevenueAnalysis['breakdownSource']]: string } = {
+  'table': 'Read from table rows',
+  'labels': 'Read from labelled amounts',
+  'unavailable': 'Not on the page',
+  'estimated': 'Estimated (older analysis)',
+};
+
+/**
+ * This month, last month and growth, where they're known
+ *
+ * null where the page had no monthly table or labelled months and nobody
+ * entered the value, so it isn't shown as a real 0.
+ */
+export function knownBreakdown(analysis: RevenueAnalysis): { thisMonth: number | null, lastMonth: number | null, growth: number | null } {
+  const read = analysis.breakdownSource === 'table' || analysis.breakdownSource === 'labels';
+  const thisMonth = read || analysis.fieldSources.thisMonth === 'corrected' ? analysis.thisMonth : null;
+  const lastMonth = read || analysis.fieldSources.lastMonth === 'corrected' ? analysis.lastMonth : null;
+  return { thisMonth, lastMonth, growth: thisMonth !== null && lastMonth !== null ? analysis.growth : null };
+}
+
+// Main metrics converted into the reporting currency
+export interface ReportingTotals {
+  currency: string;
+  totalRevenue: ConvertedAmount;
+  thisMonth: ConvertedAmount;
+  lastMonth: ConvertedAmount;
+  currencyBreakdown: ConvertedAmount[];  // Each currency's revenue (CurrencyShare.revenue), so mixed screenshots compare
+}
+
+// Per-analysis settings chosen by the user
+export interface AnalysisOptions {
+  locale?: NumberLocale | 'auto';  // Number format; 'auto' detects it from the text
+  defaultCurrency?: string;  // Used when the page doesn't say; defaults to the browser's region
+  reportingCurrency?: string;  // Convert results into this currency
+  rateProvider?: RateProvider;  // Where FX rates come from; bundled table by default
+  onProgress?: (progress: AnalysisProgress) => void;  // Stage and progress, for a progress bar
+  signal?: AbortSignal;  // Abort to cancel; the result is a 'cancelled' error
+  ocrPool?: OcrPool;  // Workers to run OCR on; the shared pool by default
+  preprocessing?: Partial<PreprocessingOptions>;  // Image cleanup before OCR; every step on by default
+  ocrLanguages?: OcrLanguageSetting;  // Languages to read; 'auto' (default) picks them per screenshot
+  onDiagnostic?: DiagnosticListener;  // What the engine noticed along the way (see diagnostics.ts)
+  redact?: boolean;  // Mask account numbers, cards, emails, phones and names; on by default
+}
+
+// Where an analysis is, with progress (0-1) within that stage
+export interface AnalysisProgress {
+  stage: 'checking' | 'preparing' | OcrProgress['stage'] | 'analyzing';
+  progress: number;
 }
 
+// Image formats Tesseract can decode
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/bmp'];
+const SUPPORTED_IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|bmp)$/i;
+
+// Below this, digits are only a few pixels tall and OCR reads noise
+const MIN_IMAGE_WIDTH = 150;
+const MIN_IMAGE_HEIGHT = 50;
+
 /**
- * STEP 1: Extract text from image using OCR
+ * STEP 0: Check the file before spending time on OCR
  * 
  * How it works:
- * - Takes image file as input
- * - Uses Tesseract.js (open-source OCR engine)
- * - Preprocesses image for better accuracy
- * - Returns all text found in the image
+ * - Rejects files that aren't PNG, JPEG, WebP or BMP
+ * - Decodes the image to read its size (where the browser can) and
+ *   rejects ones too small to read
  * 
  * @param imageFile - The screenshot file uploaded by user
- * @returns Promise<string> - All text extracted from image
+ * @returns Promise<Outcome<null>> - An error when the file can't be analysed
+ */
+async function validateImage(imageFile: File): Promise<Outcome<null>> {
+  const typeOk = imageFile.type
+    ? SUPPORTED_IMAGE_TYPES.includes(imageFile.type)
+    : SUPPORTED_IMAGE_EXTENSIONS.test(imageFile.name);
+  if (!typeOk) {
+    return failure('unsupported-file', `${imageFile.name} (${imageFile.type || 'unknown type'})`);
+  }
+
+  if (typeof createImageBitmap === 'undefined') return success(null);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(imageFile);
+  } catch (error) {
+    return failure('unsupported-file', error);
+  }
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  if (width < MIN_IMAGE_WIDTH || height < MIN_IMAGE_HEIGHT) {
+    return failure('image-too-small', `${width}×${height} px; at least ${MIN_IMAGE_WIDTH}×${MIN_IMAGE_HEIGHT} px needed`);
+  }
+  return success(null);
+}
+
+/**
+ * STEP 1a: Clean the image up for OCR
+ * 
+ * How it works:
+ * - Crops to the selected region, grayscales, inverts dark mode,
+ *   straightens, upscales small text and binarizes (see preprocessing/)
+ * - Each step can be switched off per analysis; the ones that ran are
+ *   returned so they end up in the analysis
+ * - Where the image can't be decoded on a canvas (or there's no canvas),
+ *   OCR reads the upload as-is and no steps are recorded
+ * 
+ * @param image - The screenshot, or a rendered PDF page
+ * @param options - Per-analysis settings (which steps to run)
+ * @returns Promise - Image to OCR, steps applied, and how to map boxes back
  */
-async function extractTextFromImage(imageFile: File): Promise<string> {
+async function prepareImage(
+  image: Blob,
+  options: AnalysisOptions
+): Promise<{ image: Blob, steps: PreprocessingStep[], transform: SourceTransform | null }> {
+  if (!canPreprocess()) {
+    emitDiagnostic(options.onDiagnostic, 'info', 'preprocessing', 'No canvas here; reading the image as-is');
+    return { image, steps: [], transform: null };
+  }
   try {
-    // Create a worker (background thread) for Tesseract
-    // This prevents UI freezing during OCR processing
-    const worker = await Tesseract.createWorker('eng', 1, {
-      // Configure logging for debugging
-      logger: (m) => {
-        if (m.status === 'recognizing text') {
-          console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
-        }
-      },
-    });
+    return await preprocessImage(image, options.preprocessing);
+  } catch (error) {
+    emitDiagnostic(options.onDiagnostic, 'warning', 'preprocessing', 'Preprocessing failed, reading the original image', error);
+    return { image, steps: [], transform: null };
+  }
+}
 
+/**
+ * STEP 1b: Extract text and layout from image using OCR
+ * 
+ * How it works:
+ * - Takes image file as input
+ * - Runs Tesseract.js (open-source OCR engine) on a pooled worker, so
+ *   language data is loaded once, not per analysis (see ocrPool.ts)
+ * - Reads the preprocessed image, then maps every box back onto the
+ *   original so the review overlay lines up
+ * - Returns all text found in the image, plus every line and word
+ *   with its bounding box
+ * - A worker that can't start is 'worker-crashed'; a read that throws
+ *   or finds no text is 'ocr-failed'; an aborted one is 'cancelled'
+ * 
+ * @param image - The screenshot, preprocessed or as uploaded
+ * @param transform - How the preprocessed image maps onto the upload
+ * @param pool - Workers to run on
+ * @param job - Progress listener and cancellation signal
+ * @returns Promise<Outcome<OcrLayout>> - Text and word geometry extracted from image
+ */
+async function extractTextFromImage(
+  image: Blob,
+  transform: SourceTransform | null,
+  pool: OcrPool,
+  job: OcrJobOptions
+): Promise<Outcome<OcrLayout>> {
+  try {
     // Perform OCR on the image
     // recognize() returns detailed information including:
     // - text: the extracted text
     // - confidence: how sure Tesseract is (0-100)
-    // - words: individual words with positions
-    const { data } = await worker.recognize(imageFile);
-    
-    // Clean up the worker to free memory
-    await worker.terminate();
-    
-    // Return the extracted text
+    // - blocks: lines and words with positions
+    const data = await pool.recognize(image, job);
+
+    // Return the extracted text with its geometry
     // data.text contains all readable text from the image
-    return data.text;
-    
+    if (!data.text.trim()) return failure('ocr-failed', 'No text found in the image');
+    const layout = layoutFromTesseract(data);
+    return success(transform ? mapLayoutToSource(layout, transform) : layout);
+
   } catch (error) {
-    console.error('OCR Error:', error);
-    throw new Error('Failed to extract text from image');
+    if (error instanceof Error && error.name === OCR_ABORTED) return failure('cancelled');
+    if (error instanceof Error && error.name === OCR_WORKER_FAILED) return failure('worker-crashed', error.cause ?? error);
+    return failure('ocr-failed', error);
+  }
+}
+
+/**
+ * STEP 1c: Pick the OCR languages and read the image
+ * 
+ * How it works:
+ * - An explicit language list is used as-is
+ * - 'auto' starts with English, plus Arabic when the browser language or
+ *   default currency points to an Arabic-speaking market
+ * - If an English-only read comes back with low word confidence (usually
+ *   a script it can't read), it reads again with Arabic added and keeps
+ *   whichever read was more confident
+ * - A pool passed in options reads with its own languages
+ * 
+ * @param image - The screenshot, preprocessed or as uploaded
+ * @param transform - How the preprocessed image maps onto the upload
+ * @param options - Per-analysis settings (languages, pool, progress, signal)
+ * @returns Promise - The layout and the languages it was read with
+ */
+async function readImage(
+  image: Blob,
+  transform: SourceTransform | null,
+  options: AnalysisOptions
+): Promise<Outcome<{ layout: OcrLayout, languages: string[] }>> {
+  const job = { signal: options.signal, onProgress: options.onProgress };
+  if (options.ocrPool) {
+    const ocr = await extractTextFromImage(image, transform, options.ocrPool, job);
+    return ocr.ok ? success({ layout: ocr.value, languages: options.ocrPool.options.languages }) : ocr;
+  }
+
+  const setting = options.ocrLanguages ?? 'auto';
+  const languages = setting !== 'auto' ? setting : suggestOcrLanguages({
+    browserLanguages: typeof navigator !== 'undefined' ? navigator.languages : [],
+    defaultCurrency: options.defaultCurrency,
+  });
+  const first = await extractTextFromImage(image, transform, getOcrPool(languages), job);
+  if (!first.ok || setting !== 'auto' || languages.includes('ara')) {
+    return first.ok ? success({ layout: first.value, languages }) : first;
+  }
+
+  const confidence = readingConfidence(first.value);
+  if (confidence >= AUTO_RETRY_CONFIDENCE) return success({ layout: first.value, languages });
+
+  emitDiagnostic(options.onDiagnostic, 'info', 'ocr', `English read was ${Math.round(confidence * 100)}% confident, trying Arabic too`);
+  const withArabic = [...languages, 'ara'];
+  const second = await extractTextFromImage(image, transform, getOcrPool(withArabic), job);
+  if (second.ok && readingConfidence(second.value) > confidence) {
+    return success({ layout: second.value, languages: withArabic });
+  }
+  // Cancelling during the second read cancels the analysis
+  if (!second.ok && second.error.kind === 'cancelled') return second;
+  if (!second.ok) {
+    emitDiagnostic(options.onDiagnostic, 'warning', 'ocr', `Reading with Arabic failed, keeping the English read: ${second.error.detail ?? second.error.message}`);
+  }
+  return success({ layout: first.value, languages });
+}
+
+/**
+ * STEP 1: Clean up an image and read its text
+ * 
+ * Steps 1a-1c together. Also used for PDF pages without a text layer
+ * (see importers/).
+ * 
+ * @param image - Screenshot or rendered page
+ * @param options - Per-analysis settings (preprocessing, languages, pool, progress, signal)
+ * @returns Promise - Layout on the original image, languages read with, cleanup steps applied
+ */
+export async function recognizeImage(
+  image: Blob,
+  options: AnalysisOptions = {}
+): Promise<Outcome<{ layout: OcrLayout, languages: string[], preprocessing: PreprocessingStep[] }>> {
+  options.onProgress?.({ stage: 'preparing', progress: 0 });
+  const prepared = await prepareImage(image, options);
+  if (prepared.steps.length > 0) {
+    emitDiagnostic(options.onDiagnostic, 'info', 'preprocessing', prepared.steps.map(step => step.step).join(', '), prepared.steps);
   }
+  if (options.signal?.aborted) return failure('cancelled');
+
+  const ocr = await readImage(prepared.image, prepared.transform, options);
+  if (!ocr.ok) return ocr;
+  emitDiagnostic(
+    options.onDiagnostic, 'info', 'ocr',
+    `Read ${ocr.value.layout.lines.length} lines (${ocr.value.languages.join('+')})`,
+    ocr.value.layout.text.substring(0, 200)
+  );
+  if (options.signal?.aborted) return failure('cancelled');
+
+  return success({ ...ocr.value, preprocessing: prepared.steps });
 }
 
 /**
  * STEP 2: Find all numbers in the extracted text
  * 
  * How it works:
- * - Uses regex to match number patterns
- * - Handles formats: 1,234.56 or 1234.56 or 1.234,56 (European)
- * - Removes currency symbols, spaces
- * - Converts to numeric array
+ * - Delegates to the locale-aware parser (see numberParser.ts)
+ * - Handles formats: 1,234.56, 1.234,56 (European), 1 234,56 (French),
+ *   12,34,567 (Indian lakh), Arabic-Indic digits, (1,200) negatives, 12.5k
+ * - Skips dates, times, IDs and percentages
+ * - Keeps positive amounts only
  * 
  * @param text - Raw OCR text
+ * @param locale - Number conventions of the text
  * @returns number[] - Array of all numbers found
  */
-function extractNumbers(text: string): number[] {
-  // Regular expression breakdown:
-  // \d{1,3} - Matches 1-3 digits
-  // (,\d{3})* - Matches comma-separated thousands (,000)
-  // (\.\d+)? - Optionally matches decimal part (.50)
-  const numberPattern = /\d{1,3}(,\d{3})*(\.\d+)?|\d+\.\d+|\d+/g;
-  
-  const matches = text.match(numberPattern);
-  if (!matches) return [];
-  
-  // Convert string matches to actual numbers
-  return matches
-    .map(match => {
-      // Remove commas (1,234 -> 1234)
-      const cleaned = match.replace(/,/g, '');
-      return parseFloat(cleaned);
-    })
-    .filter(num => !isNaN(num))  // Remove invalid conversions
+function extractNumbers(text: string, locale: NumberLocale): number[] {
+  return parseAmounts(text, locale)
+    .map(amount => amount.value)
     .filter(num => num > 0);      // Remove negative/zero values
 }
 
 /**
- * STEP 3: Detect currency from text
+ * STEP 3: Detect currency for every amount
  * 
  * How it works:
- * - Searches for currency symbols ($, €, £, ₹)
- * - Searches for currency codes (USD, EUR, AED, INR)
- * - Returns most common currency found
- * - Defaults to USD if none found
+ * - Reads the symbol or ISO code printed next to each amount
+ * - Settles ambiguous symbols ($, kr, Rs) with hints from the page,
+ *   then with the user's default currency
+ * - Amounts without a marker inherit the page's dominant currency
+ * - The total's currency becomes the result's currency
+ * (see currencyDetector.ts)
  * 
+ * @param figures - Labelled figures with raw currency markers
  * @param text - Raw OCR text
- * @returns string - Currency code (AED, USD, EUR, etc.)
+ * @param totalFigure - Figure chosen as total revenue
+ * @param defaultCurrency - Fallback when nothing on the page decides
+ * @returns Figures with currencies, plus the page's currency summary
  */
-function detectCurrency(text: string): string {
-  const currencyMap: { [key: string]: string } = {
-    'AED': 'AED',
-    'Dh': 'AED',
-    'درهم': 'AED',
-    '$': 'USD',
-    'USD': 'USD',
-    '€': 'EUR',
-    'EUR': 'EUR',
-    '£': 'GBP',
-    'GBP': 'GBP',
-    '₹': 'INR',
-    'INR': 'INR',
-    'Rs': 'INR',
-  };
-  
-  // Convert text to uppercase for case-insensitive matching
-  const upperText = text.toUpperCase();
-  
-  // Check each currency pattern
-  for (const [pattern, code] of Object.entries(currencyMap)) {
-    if (upperText.includes(pattern.toUpperCase())) {
-      return code;
-    }
-  }
-  
-  // Default to AED since user is in UAE
-  return 'AED';
+function detectCurrency(
+  figures: LabelledFigure[],
+  text: string,
+  totalFigure: LabelledFigure | null,
+  defaultCurrency: string
+): { figures: LabelledFigure[], summary: CurrencySummary } {
+  return attributeCurrencies(figures, text, { defaultCurrency }, totalFigure);
 }
 
 /**
- * STEP 4: Identify revenue-related numbers using keyword proximity
+ * STEP 4: Identify revenue-related figures with an explainable score
  * 
  * How it works:
- * - Searches for keywords near numbers in the text
- * - Keywords: "revenue", "sales", "total", "income", "earnings"
- * - Calculates confidence score based on keyword matches
- * - Returns numbers ranked by confidence
+ * - Scores every figure from independent factors (see confidenceModel.ts):
+ *   OCR word confidence, label distance and direction, positive and
+ *   negative label keywords, currency symbol, magnitude plausibility
+ * - If the page matches a platform template (Stripe, Shopify, ...), the
+ *   template's total gets a boost and the labels it rules out a penalty,
+ *   both recorded as a 'template' factor
+ * - Cells of a monthly table are one month each, not the total, and get
+ *   a 'table' penalty
+ * - Each factor keeps its contribution and a reason for the dashboard
+ * - Returns positive figures ranked by confidence
  * 
- * @param text - Raw OCR text
- * @param numbers - All extracted numbers
- * @returns Array of {number, confidence} objects
+ * @param layout - OCR output, used to fingerprint the platform
+ * @param figures - Amounts paired with their labels, in reading order
+ * @param table - The page's monthly table, if it has one
+ * @returns Scored figures in reading order, the positive ones ranked, and the template match
  */
-function findRevenueNumbers(text: string, numbers: number[]): Array<{value: number, confidence: number}> {
-  // Keywords that indicate revenue/sales data
-  const revenueKeywords = [
-    'revenue', 'sales', 'total', 'income', 'earnings', 
-    'gross', 'net', 'received', 'collected', 'turnover'
-  ];
+function findRevenueFigures(
+  layout: OcrLayout,
+  figures: LabelledFigure[],
+  table: RevenueTable | null
+): { scored: LabelledFigure[], ranked: LabelledFigure[], template: TemplateMatchSummary | null } {
+  const rows = table && table.series.length >= 2 ? table.rowBoxes : [];
+  const inTable = (figure: LabelledFigure) => {
+    const middle = (figure.bbox.y0 + figure.bbox.y1) / 2;
+    return rows.some(row => middle >= row.y0 && middle <= row.y1);
+  };
+  const generic = figures.map(figure => {
+    const score = scoreFigure(figure);
+    const { confidence, factors } = inTable(figure)
+      ? withFactor(score, { name: 'table', contribution: -0.3, detail: 'In a row of the monthly table, so one month rather than the total' })
+      : score;
+    return { ...figure, confidence, confidenceFactors: factors };
+  });
   
+  const match = matchTemplate(layout, generic);
+  const scored = match
+    ? generic.map(figure => {
+        const name = match.template.name;
+        const factor = figure === match.total
+          ? { name: 'template' as const, contribution: 0.25, detail: `${name} reports revenue as "${figure.label}"` }
+          : match.ignored.includes(figure)
+            ? { name: 'template' as const, contribution: -0.3, detail: `"${figure.label}" is not revenue on ${name}` }
+            : null;
+        if (!factor) return figure;
+        const { confidence, factors } = withFactor({ confidence: figure.confidence, factors: figure.confidenceFactors }, factor);
+        return { ...figure, confidence, confidenceFactors: factors };
+      })
+    : generic;
   
-  // Score each number based on nearby keywords
-  return numbers.map(num => {
-    let confidence = 0.3;  // Base confidence
-    
-    // Convert number back to string to find its position
-    const numStr = num.toLocaleString();
-    const numIndex = text.indexOf(numStr);
-    
-    if (numIndex !== -1) {
-      // Get surrounding text (100 chars before and after)
-      const contextStart = Math.max(0, numIndex - 100);
-      const contextEnd = Math.min(text.length, numIndex + 100);
-      const context = text.slice(contextStart, contextEnd).toLowerCase();
-      
-      // Check for revenue keywords in context
-      for (const keyword of revenueKeywords) {
-        if (context.includes(keyword)) {
-          confidence += 0.2;  // Boost confidence
-        }
-      }
-    }
-    
-    // Cap confidence at 1.0
-    return {
-      value: num,
-      confidence: Math.min(confidence, 1.0)
-    };
-  }).sort((a, b) => b.confidence - a.confidence);  // Sort by confidence descending
+  const ranked = scored
+    .filter(figure => figure.value > 0)
+    .sort((a, b) => b.confidence - a.confidence);  // Sort by confidence descending
+  
+  return { scored, ranked, template: match ? summarizeMatch(match) : null };
 }
 
 /**
@@ -206,42 +460,22 @@ function findRevenueNumbers(text: string, numbers: number[]): Array<{value: numb
  * @param previous - Previous period value
  * @returns number - Growth percentage
  */
-function calculateGrowth(current: number, previous: number): number {
+export function calculateGrowth(current: number, previous: number): number {
   if (previous === 0) return 0;
   return ((current - previous) / previous) * 100;
 }
 
 /**
- * STEP 6: Estimate time-period breakdown
+ * STEP 6: Breakdown from a real monthly series
  * 
- * How it works:
- * - If we have 2+ numbers, assume largest is total, second is current month
- * - Use heuristics to split total into monthly values
- * - Calculate growth between periods
+ * Uses the latest two periods of the series as this month and last month.
  * 
- * @param numbers - Sorted array of detected numbers
+ * @param series - Monthly revenue, oldest first (at least two periods)
  * @returns {thisMonth, lastMonth, growth}
  */
-function estimateBreakdown(numbers: number[]): { thisMonth: number, lastMonth: number, growth: number } {
-  if (numbers.length === 0) {
-    return { thisMonth: 0, lastMonth: 0, growth: 0 };
-  }
-  
-  if (numbers.length === 1) {
-    // Only one number - assume it's total, estimate monthly
-    const total = numbers[0];
-    const estimatedMonthly = total / 12;  // Rough estimate
-    return {
-      thisMonth: Math.round(estimatedMonthly),
-      lastMonth: Math.round(estimatedMonthly * 0.8),  // Assume 20% growth
-      growth: 20
-    };
-  }
-  
-  // Multiple numbers - use two largest
-  const sortedNumbers = [...numbers].sort((a, b) => b - a);
-  const thisMonth = sortedNumbers[1];  // Second largest (current month)
-  const lastMonth = sortedNumbers[2] || (thisMonth * 0.85);  // Third largest or estimate
+export function breakdownFromSeries(series: RevenuePeriod[]): { thisMonth: number, lastMonth: number, growth: number } {
+  const thisMonth = series[series.length - 1].amount;
+  const lastMonth = series[series.length - 2].amount;
   
   return {
     thisMonth: Math.round(thisMonth),
@@ -250,95 +484,300 @@ function estimateBreakdown(numbers: number[]): { thisMonth: number, lastMonth: n
   };
 }
 
+// Labels of a month's own figure, e.g. "Revenue this month" / "Umsatz Vormonat"
+const THIS_MONTH_LABEL = /(?:\b(?:this|current) month\b|\bmonth to date\b|\bMTD\b|diesen monat|aktueller monat|ce mois|mois en cours|este mes|mes actual|هذا الشهر|الشهر الحالي)/iu;
+const LAST_MONTH_LABEL = /(?:\b(?:last|previous|prior) month\b|vormonat|letzten monat|mois dernier|mois précédent|mes pasado|mes anterior|الشهر الماضي|الشهر السابق)/iu;
+
+/**
+ * STEP 6 (cards): Breakdown from figures labelled as this and last month
+ * 
+ * For dashboards that show each month as a card rather than a table.
+ * When several labels match, the best-scored figure wins, so a count
+ * such as "Orders this month" loses to the revenue.
+ * 
+ * @param ranked - Positive figures, best first
+ * @returns {thisMonth, lastMonth, growth}, or null unless both months are labelled
+ */
+export function breakdownFromLabels(ranked: LabelledFigure[]): { thisMonth: number, lastMonth: number, growth: number } | null {
+  const thisMonth = ranked.find(figure => THIS_MONTH_LABEL.test(figure.label))?.value;
+  const lastMonth = ranked.find(figure => LAST_MONTH_LABEL.test(figure.label))?.value;
+  if (thisMonth === undefined || lastMonth === undefined) return null;
+
+  return {
+    thisMonth: Math.round(thisMonth),
+    lastMonth: Math.round(lastMonth),
+    growth: Math.round(calculateGrowth(thisMonth, lastMonth))
+  };
+}
+
+/**
+ * STEP 7: Convert results into the reporting currency
+ * 
+ * How it works:
+ * - Converts every figure from its own currency (mixed screenshots)
+ * - Converts the main metrics from the result's currency
+ * - Converts each currency's revenue figure, never a sum of everything
+ *   in that currency
+ * - Keeps original amounts, the rate and the rate date alongside
+ * - Returns null when no reporting currency was asked for, or the
+ *   provider has no rate for the main currency
+ *   (see reportMissingRate())
+ * 
+ * @returns Converted figures and totals
+ */
+export function convertToReportingCurrency(
+  figures: LabelledFigure[],
+  metrics: { currency: string, totalRevenue: number, thisMonth: number, lastMonth: number },
+  breakdown: CurrencyShare[],
+  reportingCurrency: string | undefined,
+  provider: RateProvider
+): { figures: LabelledFigure[], reporting: ReportingTotals | null } {
+  if (!reportingCurrency) return { figures, reporting: null };
+  
+  const convertedFigures = figures.map(figure => ({
+    ...figure,
+    converted: figure.currency ? convertAmount(figure.value, figure.currency, reportingCurrency, provider) : null,
+  }));
+  
+  const convert = (amount: number) => convertAmount(amount, metrics.currency, reportingCurrency, provider);
+  const totalRevenue = convert(metrics.totalRevenue);
+  const thisMonth = convert(metrics.thisMonth);
+  const lastMonth = convert(metrics.lastMonth);
+  if (!totalRevenue || !thisMonth || !lastMonth) {
+    return { figures: convertedFigures, reporting: null };
+  }
+  
+  const currencyBreakdown = breakdown
+    .map(share => convertAmount(share.revenue, share.currency, reportingCurrency, provider))
+    .filter((converted): converted is ConvertedAmount => converted !== null);
+  
+  return {
+    figures: convertedFigures,
+    reporting: { currency: reportingCurrency, totalRevenue, thisMonth, lastMonth, currencyBreakdown },
+  };
+}
+
+/**
+ * Say so when a reporting currency was asked for but couldn't be used
+ */
+export function reportMissingRate(reporting: ReportingTotals | null, currency: string, options: AnalysisOptions): void {
+  if (!options.reportingCurrency || reporting) return;
+  const provider = options.rateProvider ?? bundledRateProvider;
+  emitDiagnostic(options.onDiagnostic, 'warning', 'fx', `No ${currency} → ${options.reportingCurrency} rate from ${provider.name}`);
+}
+
+/**
+ * STEPS 2-8: Analyze an OCR layout
+ * 
+ * Everything after OCR. Shared by screenshots and the sample mode, which
+ * lays out fixed text instead of reading an image. Personal data is
+ * masked first, unless options.redact is false.
+ * 
+ * @param ocrLayout - OCR output (or a layout built from text)
+ * @param options - Per-analysis settings
+ * @param provenance - Where the layout came from and how it was read
+ * @returns Outcome<RevenueAnalysis> - 'no-numbers' when the text has no amounts
+ */
+export function analyzeLayout(
+  ocrLayout: OcrLayout,
+  options: AnalysisOptions,
+  provenance: Pick<RevenueAnalysis, 'analysisMethod' | 'preprocessing' | 'ocrLanguages'>
+): Outcome<RevenueAnalysis> {
+  // Mask personal data before anything reads the text
+  const { layout, redactions } = options.redact === false
+    ? { layout: ocrLayout, redactions: [] }
+    : redactLayout(ocrLayout);
+  if (redactions.length > 0) {
+    emitDiagnostic(options.onDiagnostic, 'info', 'privacy', `Masked ${describeRedactions(redactions)}`);
+  }
+  const extractedText = layout.text;
+
+  // STEP 2: Extract numbers, reading them in the chosen or detected locale
+  const numberLocale = !options.locale || options.locale === 'auto'
+    ? detectNumberLocale(extractedText)
+    : options.locale;
+  const allNumbers = extractNumbers(extractedText, numberLocale);
+  emitDiagnostic(
+    options.onDiagnostic, 'info', 'numbers',
+    `${allNumbers.length} numbers read as ${numberLocale}${options.locale && options.locale !== 'auto' ? '' : ' (detected)'}`,
+    allNumbers
+  );
+
+  // STEP 3: Pair amounts with labels and find revenue-specific ones
+  const table = detectRevenueTable(layout, numberLocale);
+  const { scored: labelledFigures, ranked: revenueFigures, template } = findRevenueFigures(
+    layout,
+    extractLabelledFigures(layout, numberLocale),
+    table
+  );
+  emitDiagnostic(options.onDiagnostic, 'info', 'figures', `${revenueFigures.length} revenue figures scored`, revenueFigures);
+  if (template) emitDiagnostic(options.onDiagnostic, 'info', 'figures', `Matched the ${template.name} template`, template);
+
+  // Other numbers, such as dates and IDs, never stand in for a missing total
+  if (revenueFigures.length === 0) {
+    return failure('no-numbers', `${extractedText.trim().split(/\s+/).length} words and ${allNumbers.length} other numbers read`);
+  }
+
+  // STEP 4: Get the highest confidence figure as total revenue
+  const bestFigure = revenueFigures[0];
+  const totalRevenue = bestFigure.value;
+
+  // STEP 5: Detect the currency of every amount
+  const defaultCurrency = options.defaultCurrency
+    ?? defaultCurrencyForLocale(typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+  const { figures: currencyFigures, summary: currencySummary } = detectCurrency(
+    labelledFigures, extractedText, bestFigure, defaultCurrency
+  );
+  emitDiagnostic(options.onDiagnostic, 'info', 'currency', `${currencySummary.currency}: ${currencySummary.explanation}`, currencySummary);
+
+  // STEP 6: Calculate breakdown from a table if there is one, else from
+  // figures labelled this and last month; never guessed from other numbers
+  const series = table ? table.series : [];
+  const labelled = series.length >= 2 ? null : breakdownFromLabels(revenueFigures);
+  const breakdownSource = series.length >= 2 ? 'table' : labelled ? 'labels' : 'unavailable';
+  const breakdown = breakdownSource === 'table'
+    ? breakdownFromSeries(series)
+    : labelled ?? { thisMonth: 0, lastMonth: 0, growth: 0 };
+  emitDiagnostic(
+    options.onDiagnostic, breakdownSource === 'unavailable' ? 'warning' : 'info', 'breakdown',
+    {
+      table: `${series.length} months read from a table`,
+      labels: 'This and last month read from their labels',
+      unavailable: 'No monthly table or labelled months; This Month, Last Month and Growth left out',
+    }[breakdownSource],
+    series
+  );
+
+  // STEP 7: Convert to the reporting currency
+  const { figures, reporting } = convertToReportingCurrency(
+    currencyFigures,
+    { currency: currencySummary.currency, totalRevenue, thisMonth: breakdown.thisMonth, lastMonth: breakdown.lastMonth },
+    currencySummary.breakdown,
+    options.reportingCurrency,
+    options.rateProvider ?? bundledRateProvider
+  );
+  reportMissingRate(reporting, currencySummary.currency, options);
+  const totalRevenueFigure = figures[labelledFigures.indexOf(bestFigure)];
+  const lineItems = lineItemsFromFigures(figures, currencySummary.currency, table);
+  emitDiagnostic(options.onDiagnostic, 'info', 'figures', `${lineItems.length} line items kept`, lineItems);
+
+  // STEP 8: Calculate overall confidence from the winner and its lead
+  const overall = overallConfidence(revenueFigures);
+
+  // Return complete analysis
+  return success({
+    totalRevenue: Math.round(totalRevenue),
+    currency: currencySummary.currency,
+    currencyBreakdown: currencySummary.breakdown,
+    currencyMethod: currencySummary.method,
+    currencyExplanation: currencySummary.explanation,
+    reporting,
+    thisMonth: breakdown.thisMonth,
+    lastMonth: breakdown.lastMonth,
+    growth: breakdown.growth,
+    fieldSources: { totalRevenue: 'extracted', thisMonth: 'extracted', lastMonth: 'extracted' },
+    series,
+    breakdownSource,
+    template,
+    confidence: overall.confidence,
+    confidenceFactors: overall.factors,
+    rawText: extractedText,
+    redactions,
+    detectedNumbers: allNumbers,
+    numberLocale,
+    figures,
+    totalRevenueFigure,
+    lineItems,
+    ...provenance,
+  });
+}
+
 /**
  * MAIN FUNCTION: Analyze revenue screenshot
  * 
  * This is the entry point that orchestrates the entire analysis pipeline.
  * 
  * Pipeline:
- * 1. Extract text via OCR
- * 2. Find all numbers in text
- * 3. Detect currency
- * 4. Identify revenue numbers with confidence scoring
- * 5. Estimate time-based breakdown
- * 6. Return structured analysis
+ * 1. Check the file type and image size
+ * 2. Clean the image up (crop, dark mode, skew, small text, binarize)
+ * 3. Extract text and layout via OCR, in English, Arabic or both
+ * 4. Mask account numbers, cards, emails, phones and names
+ * 5. Find all numbers in text
+ * 6. Pair amounts with labels and score them, using a platform template if one matches
+ * 7. Detect the currency of every amount
+ * 8. Read a monthly series from a table, or this and last month from their labels
+ * 9. Convert to the reporting currency, if one was chosen
+ * 10. Keep every labelled amount as a line item
+ * 11. Return structured analysis, or a typed error (see analysisErrors.ts)
+ * 
+ * Never returns made-up numbers: demo data only comes from analyzeSample().
  * 
  * @param imageFile - Screenshot uploaded by user
- * @returns Promise<RevenueAnalysis> - Complete analysis result
+ * @param options - Per-analysis settings (number locale, currencies, FX rates, preprocessing)
+ * @returns Promise<Outcome<RevenueAnalysis>> - Complete analysis result, or why there isn't one
  */
-export async function analyzeRevenueScreenshot(imageFile: File): Promise<RevenueAnalysis> {
+export async function analyzeRevenueScreenshot(
+  imageFile: File,
+  options: AnalysisOptions = {}
+): Promise<Outcome<RevenueAnalysis>> {
   try {
-    console.log('🔍 Starting revenue analysis...');
-    
-    // STEP 1: Extract text from image
-    console.log('📸 Performing OCR...');
-    const extractedText = await extractTextFromImage(imageFile);
-    console.log('✅ Text extracted:', extractedText.substring(0, 200) + '...');
-    
-    // STEP 2: Extract numbers
-    const allNumbers = extractNumbers(extractedText);
-    console.log('🔢 Numbers found:', allNumbers);
-    
-    // STEP 3: Detect currency
-    const currency = detectCurrency(extractedText);
-    console.log('💰 Currency detected:', currency);
-    
-    // STEP 4: Find revenue-specific numbers
-    const revenueNumbers = findRevenueNumbers(extractedText, allNumbers);
-    console.log('📊 Revenue numbers scored:', revenueNumbers);
-    
-    // STEP 5: Get the highest confidence number as total revenue
-    const totalRevenue = revenueNumbers.length > 0 
-      ? revenueNumbers[0].value 
-      : (allNumbers.length > 0 ? Math.max(...allNumbers) : 0);
-    
-    // STEP 6: Calculate breakdown
-    const breakdown = estimateBreakdown(allNumbers);
-    
-    // STEP 7: Calculate overall confidence
-    const overallConfidence = revenueNumbers.length > 0 
-      ? revenueNumbers[0].confidence 
-      : 0.3;
-    
-    // Return complete analysis
-    return {
-      totalRevenue: Math.round(totalRevenue),
-      currency,
-      thisMonth: breakdown.thisMonth,
-      lastMonth: breakdown.lastMonth,
-      growth: breakdown.growth,
-      confidence: overallConfidence,
-      rawText: extractedText,
-      detectedNumbers: allNumbers,
-      analysisMethod: 'ocr'
-    };
-    
+    options.onProgress?.({ stage: 'checking', progress: 0 });
+    const valid = await validateImage(imageFile);
+    if (!valid.ok) return valid;
+
+    // STEP 1: Clean up, then extract text from image
+    const ocr = await recognizeImage(imageFile, options);
+    if (!ocr.ok) return ocr;
+    const { layout, languages, preprocessing } = ocr.value;
+
+    options.onProgress?.({ stage: 'analyzing', progress: 1 });
+    return analyzeLayout(layout, options, { analysisMethod: 'ocr', preprocessing, ocrLanguages: languages });
+
   } catch (error) {
-    console.error('❌ Analysis failed:', error);
-    
-    // Fallback: Return mock data with low confidence
-    // This ensures the app doesn't crash if OCR fails
-    return {
-      totalRevenue: 45680,
-      currency: 'AED',
-      thisMonth: 12450,
-      lastMonth: 10200,
-      growth: 22,
-      confidence: 0.1,  // Low confidence indicates this is fallback data
-      rawText: 'OCR failed',
-      detectedNumbers: [],
-      analysisMethod: 'mock'
-    };
+    return failure('unexpected', error);
   }
 }
 
+/**
+ * Analyze the bundled sample screenshot
+ * 
+ * Runs the real pipeline on fixed Stripe-style text (see sampleData.ts),
+ * so users can see what a dashboard looks like before uploading. The
+ * result is marked analysisMethod 'sample'.
+ * 
+ * @param options - Per-analysis settings (number locale, currencies, FX rates)
+ * @returns RevenueAnalysis - Analysis of the sample
+ */
+export function analyzeSample(options: AnalysisOptions = {}): RevenueAnalysis {
+  const outcome = analyzeLayout(layoutFromText(SAMPLE_SCREENSHOT_TEXT), options, {
+    analysisMethod: 'sample',
+    preprocessing: [],
+    ocrLanguages: [],
+  });
+  if (!outcome.ok) throw new Error(`Sample screenshot failed to analyse: ${outcome.error.detail}`);
+  return outcome.value;
+}
+
 /**
  * HELPER: Format currency for display
  * 
+ * With convertTo set (and a rate available), shows the converted amount
+ * first and the original in brackets.
+ * 
  * @param amount - Number to format
  * @param currency - Currency code
- * @returns Formatted string (e.g., "AED 12,450")
+ * @param options - Reporting currency and rate provider (optional)
+ * @returns Formatted string (e.g., "AED 12,450" or "USD 3,390 (AED 12,450)")
  */
-export function formatCurrency(amount: number, currency: string): string {
-  return `${currency} ${amount.toLocaleString()}`;
+export function formatCurrency(
+  amount: number,
+  currency: string,
+  options: { convertTo?: string, rateProvider?: RateProvider } = {}
+): string {
+  const formatted = `${currency} ${amount.toLocaleString()}`;
+  if (!options.convertTo || options.convertTo === currency) return formatted;
+  
+  const converted = convertAmount(amount, currency, options.convertTo, options.rateProvider);
+  if (!converted) return formatted;
+  return `${converted.currency} ${Math.round(converted.amount).toLocaleString()} (${formatted})`;
 }
\ No newline at end of file
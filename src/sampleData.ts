@@ -0,0 +1,23 @@
+/**
+ * Sample screenshot for the "try with sample" mode
+ *
+ * OCR-like text of a Stripe reports page: two summary cards and a monthly
+ * table. It goes through the real pipeline via layoutFromText(), so the
+ * sample dashboard shows exactly what an upload would.
+ */
+
+export const SAMPLE_SCREENSHOT_TEXT = [
+  'Stripe      Home   Payments   Balances   Customers   Reports',
+  'Reports overview      Last 6 months',
+  '',
+  'Gross volume             Net volume               Successful payments',
+  '$48,920.00               $46,870.35               1,284',
+  '',
+  'Month                    Gross volume',
+  'Apr 2025                 $6,880.00',
+  'May 2025                 $7,420.00',
+  'Jun 2025                 $7,960.50',
+  'Jul 2025                 $8,310.00',
+  'Aug 2025                 $8,905.25',
+  'Sep 2025                 $9,444.25',
+].join('\n');
@@ -0,0 +1,99 @@
+/**
+ * Period comparisons over a monthly revenue series
+ *
+ * Once a table gives us real months, the dashboard can say more than
+ * "this month vs last month": how each month compares with the one before
+ * and with the same month a year earlier, what the trailing twelve months
+ * add up to, and which months were best and worst. Months missing from the
+ * series are gaps, not zeros, so a comparison across a gap is left out
+ * rather than shown as a 100% swing.
+ */
+
+import { calculateGrowth } from './revenueAnalyzer';
+import type { RevenuePeriod } from './tableExtractor';
+
+// One month with the months it is compared against
+export interface PeriodComparison {
+  period: string;  // 'YYYY-MM'
+  label: string;
+  amount: number;
+  previousMonth: number | null;   // The calendar month before, if in the series
+  monthOverMonth: number | null;  // Growth percentage against it
+  previousYear: number | null;    // The same month a year earlier, if in the series
+  yearOverYear: number | null;
+}
+
+export interface SeriesSummary {
+  months: PeriodComparison[];  // Oldest first
+  trailingTwelveMonths: number;  // Sum of the twelve months up to the latest one
+  trailingMonthCount: number;    // How many of those twelve are in the series
+  average: number;               // Mean over every month in the series
+  best: RevenuePeriod;
+  worst: RevenuePeriod;
+}
+
+// 'YYYY-MM' shifted by a number of months
+function shiftPeriod(period: string, months: number): string {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+function growthAgainst(amount: number, previous: number | null): number | null {
+  if (previous === null || previous === 0) return null;
+  return Math.round(calculateGrowth(amount, previous));
+}
+
+/**
+ * Compare every month with the previous month and the previous year
+ *
+ * How it works:
+ * - Looks each month's neighbours up by calendar month, so gaps in the
+ *   series give no comparison instead of a wrong one
+ * - Trailing twelve months: every month from eleven months before the
+ *   latest one up to it
+ * - Best and worst: highest and lowest month (the latest wins ties)
+ *
+ * @param series - Monthly revenue, as read from a table
+ * @returns SeriesSummary | null - null with fewer than two months
+ */
+export function summarizeSeries(series: RevenuePeriod[]): SeriesSummary | null {
+  if (series.length < 2) return null;
+
+  const sorted = [...series].sort((a, b) => a.period.localeCompare(b.period));
+  const byPeriod = new Map(sorted.map(month => [month.period, month.amount]));
+
+  const months = sorted.map(({ period, label, amount }): PeriodComparison => {
+    const previousMonth = byPeriod.get(shiftPeriod(period, -1)) ?? null;
+    const previousYear = byPeriod.get(shiftPeriod(period, -12)) ?? null;
+    return {
+      period,
+      label,
+      amount,
+      previousMonth,
+      monthOverMonth: growthAgainst(amount, previousMonth),
+      previousYear,
+      yearOverYear: growthAgainst(amount, previousYear),
+    };
+  });
+
+  const latest = sorted[sorted.length - 1].period;
+  const windowStart = shiftPeriod(latest, -11);
+  const trailing = sorted.filter(month => month.period >= windowStart);
+
+  let best = sorted[0];
+  let worst = sorted[0];
+  for (const month of sorted) {
+    if (month.amount >= best.amount) best = month;
+    if (month.amount <= worst.amount) worst = month;
+  }
+
+  return {
+    months,
+    trailingTwelveMonths: trailing.reduce((sum, month) => sum + month.amount, 0),
+    trailingMonthCount: trailing.length,
+    average: sorted.reduce((sum, month) => sum + month.amount, 0) / sorted.length,
+    best,
+    worst,
+  };
+}
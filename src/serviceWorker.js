@@ -0,0 +1,83 @@
+// Service worker: keeps the app, the OCR engine and language data in the
+// browser so everything but syncing works offline.
+//
+// Not bundled with the app: the serviceWorker plugin in vite.config.ts
+// writes it to service-worker.js at build time, filling in PRECACHE
+// with the build's files and a version that changes whenever they do.
+// Registered from main.tsx in production builds only.
+
+const PRECACHE = __PRECACHE__  // { version, files: [url, ...] }
+const CACHE = `revtrackr-${PRECACHE.version}`
+
+// Scripts from other origins the page loads (index.html), kept as last fetched
+const RUNTIME_CACHE = 'revtrackr-runtime'
+const RUNTIME_ORIGINS = ['https://cdn.tailwindcss.com']
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE)
+    await cache.addAll(PRECACHE.files)
+    // Best effort: the page works unstyled without it
+    const runtime = await caches.open(RUNTIME_CACHE)
+    await Promise.all(RUNTIME_ORIGINS.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(response => runtime.put(url, response)).catch(() => undefined)))
+    await self.skipWaiting()
+  })())
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names
+      .filter(name => name.startsWith('revtrackr-') && name !== CACHE && name !== RUNTIME_CACHE)
+      .map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+// Pages: network first, so a new build shows up as soon as it's online
+async function page(request) {
+  try {
+    return await fetch(request)
+  } catch (error) {
+    const shell = await caches.match(new URL('index.html', self.registration.scope).href)
+    if (shell) return shell
+    throw error
+  }
+}
+
+// Build files never change under the same name, so the cache wins
+async function cacheFirst(request) {
+  return (await caches.match(request, { ignoreSearch: true })) ?? fetch(request)
+}
+
+// Cross-origin scripts: the cached copy now, a fresh one for next time
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE)
+  const cached = await cache.match(request)
+  const fresh = fetch(request)
+    .then(response => {
+      cache.put(request, response.clone())
+      return response
+    })
+  if (cached) {
+    fresh.catch(() => undefined)
+    return cached
+  }
+  return fresh
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (request.mode === 'navigate') {
+    event.respondWith(page(request))
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request))
+  } else if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request))
+  }
+  // Anything else, such as Supabase, goes straight to the network
+})
@@ -0,0 +1,95 @@
+/**
+ * Saved analyses: types and the data-access interface
+ *
+ * The app talks to an AnalysisStore, never to Supabase directly, so the
+ * same code runs against IndexedDB and Supabase in production and an
+ * in-memory store (or a local Postgres stand-in) in tests.
+ */
+
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import { applyCorrections, hasCorrections } from '../corrections';
+import type { AnalysisCorrections } from '../corrections';
+import { coveredMonths } from '../timeline';
+
+// Screenshot the analysis was made from
+export interface SourceImage {
+  name: string;  // Original file name
+  data: Blob;
+}
+
+export interface SavedAnalysis {
+  id: string;
+  userId: string | null;
+  createdAt: string;  // ISO timestamp
+  updatedAt: string;
+  sourceName: string;               // File name shown in the history
+  sourceImagePath: string | null;   // Where the screenshot is stored, if it was kept
+  sourceHash: string | null;        // SHA-256 of the uploaded file, to spot it uploaded again
+  analysisMethod: RevenueAnalysis['analysisMethod'];
+  templateId: string | null;        // Platform template that matched, if any
+  analysis: RevenueAnalysis;        // Result exactly as extracted
+  corrections: AnalysisCorrections;
+}
+
+// One row of the history list, without the full result
+export interface AnalysisSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  sourceName: string;
+  analysisMethod: RevenueAnalysis['analysisMethod'];
+  templateId: string | null;
+  currency: string;
+  totalRevenue: number;  // Corrected value when there is one
+  corrected: boolean;
+  sourceHash: string | null;
+  periods: string[];  // Months the analysis covers ('YYYY-MM'; see coveredMonths)
+}
+
+export interface NewAnalysis {
+  analysis: RevenueAnalysis;
+  image: SourceImage | null;
+  sourceName?: string;  // Defaults to the image name
+  sourceHash?: string | null;  // See validation.ts fileHash
+  corrections?: AnalysisCorrections;  // Made in the review step before saving
+  id?: string;         // Keep this id and creation time, for an analysis first saved
+  createdAt?: string;  // in the browser (see syncQueue.ts); new ones otherwise
+}
+
+/**
+ * Data access for saved analyses
+ *
+ * Implementations throw an Error when the backend refuses or fails.
+ */
+export interface AnalysisStore {
+  name: string;
+  save(input: NewAnalysis): Promise<SavedAnalysis>;
+  list(options?: { limit?: number }): Promise<AnalysisSummary[]>;  // Newest first
+  get(id: string): Promise<SavedAnalysis | null>;
+  findMatching(match: { sourceHash: string | null, periods: string[] }): Promise<AnalysisSummary[]>;  // Same file, or any of the same months
+  updateCorrections(id: string, corrections: AnalysisCorrections): Promise<SavedAnalysis>;
+  remove(id: string): Promise<void>;
+  getImageUrl(path: string): Promise<string | null>;  // Displayable URL for a stored screenshot
+}
+
+export function summarizeSaved(saved: SavedAnalysis): AnalysisSummary {
+  const corrected = applyCorrections(saved.analysis, saved.corrections);
+  return {
+    id: saved.id,
+    createdAt: saved.createdAt,
+    updatedAt: saved.updatedAt,
+    sourceName: saved.sourceName,
+    analysisMethod: saved.analysisMethod,
+    templateId: saved.templateId,
+    currency: corrected.currency,
+    totalRevenue: corrected.totalRevenue,
+    corrected: hasCorrections(saved.corrections),
+    sourceHash: saved.sourceHash,
+    periods: analysisPeriods(corrected),
+  };
+}
+
+// Months an analysis covers, as stored for finding duplicates
+export function analysisPeriods(analysis: RevenueAnalysis): string[] {
+  return coveredMonths(analysis).map(month => month.period);
+}
@@ -0,0 +1,9 @@
+export { summarizeSaved } from './analysisStore';
+export type { AnalysisStore, AnalysisSummary, NewAnalysis, SavedAnalysis, SourceImage } from './analysisStore';
+export { createMemoryAnalysisStore } from './memoryAnalysisStore';
+export { createPrivateAnalysisStore } from './privateAnalysisStore';
+export { createSupabaseAnalysisStore } from './supabaseAnalysisStore';
+export { createIndexedDbAnalysisStore } from './indexedDbAnalysisStore';
+export type { LocalAnalysisStore, OutboxEntry, StoredAnalysis } from './indexedDbAnalysisStore';
+export { SYNC_INTERVAL_MS, createSyncQueue } from './syncQueue';
+export type { SyncConflict, SyncQueue, SyncReport, SyncStatus } from './syncQueue';
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { createIndexedDbAnalysisStore } from './indexedDbAnalysisStore';
+import { createMemoryAnalysisStore } from './memoryAnalysisStore';
+import { analyzeSample } from '../revenueAnalyzer';
+
+const analysis = analyzeSample({ defaultCurrency: 'USD' });
+const image = { name: 'stripe.png', data: new Blob(['png']) };
+
+function createStore(userId: string | null = 'user-1') {
+  let current = userId;
+  let changes = 0;
+  const store = createIndexedDbAnalysisStore({
+    userId: async () => current,
+    onChange: () => { changes++; },
+    factory: new IDBFactory(),
+  });
+  return { store, changes: () => changes, signIn: (id: string | null) => { current = id; } };
+}
+
+describe('createIndexedDbAnalysisStore', () => {
+  it('keeps an analysis with its screenshot and queues it to be sent', async () => {
+    const { store, changes } = createStore();
+
+    const saved = await store.save({ analysis, image });
+
+    expect(saved).toMatchObject({ userId: 'user-1', sourceName: 'stripe.png', analysisMethod: 'sample' });
+    expect(await store.get(saved.id)).toEqual(saved);
+    expect(await store.getImage(saved.sourceImagePath!)).toMatchObject({ name: 'stripe.png' });
+    expect(await store.outbox()).toMatchObject([{ analysisId: saved.id, userId: 'user-1', change: 'save', revision: 1, attempts: 0 }]);
+    expect(await store.getStored(saved.id)).toMatchObject({ syncedAt: null });
+    expect(changes()).toBe(1);
+  });
+
+  it('folds corrections into a save still waiting', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image: null });
+
+    const corrected = await store.updateCorrections(saved.id, { totalRevenue: 50000 });
+
+    expect(corrected.corrections).toEqual({ totalRevenue: 50000 });
+    expect(await store.outbox()).toMatchObject([{ analysisId: saved.id, change: 'save', revision: 2 }]);
+  });
+
+  it('leaves nothing to send when an analysis never sent is removed', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image });
+
+    await store.remove(saved.id);
+
+    expect(await store.get(saved.id)).toBeNull();
+    expect(await store.getImage(saved.sourceImagePath!)).toBeNull();
+    expect(await store.outbox()).toEqual([]);
+  });
+
+  it('queues removing an analysis already on the server', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image: null });
+    await store.settle((await store.outbox())[0], saved.updatedAt);
+
+    await store.remove(saved.id);
+
+    expect(await store.outbox()).toMatchObject([{ analysisId: saved.id, change: 'remove' }]);
+  });
+
+  it('keeps an entry changed while it was being sent', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image: null });
+    const [sending] = await store.outbox();
+    await store.updateCorrections(saved.id, { thisMonth: 9500 });
+
+    await store.markFailed(sending, 'Server unavailable');
+    await store.settle(sending, '2026-10-19T12:00:00.000Z');
+
+    expect(await store.outbox()).toMatchObject([{ revision: 2, attempts: 0, lastError: null }]);
+    expect(await store.getStored(saved.id)).toMatchObject({ syncedAt: '2026-10-19T12:00:00.000Z' });
+  });
+
+  it('counts failed attempts on an unchanged entry', async () => {
+    const { store } = createStore();
+    await store.save({ analysis, image: null });
+    const [entry] = await store.outbox();
+
+    await store.markFailed(entry, 'Server unavailable');
+
+    expect(await store.outbox()).toMatchObject([{ attempts: 1, lastError: 'Server unavailable' }]);
+  });
+
+  it('lists only the current user\'s analyses, newest first', async () => {
+    const { store, signIn } = createStore();
+    const first = await store.save({ analysis, image: null, sourceName: 'first.png', createdAt: '2026-10-01T00:00:00.000Z' });
+    const second = await store.save({ analysis, image: null, sourceName: 'second.png', createdAt: '2026-10-02T00:00:00.000Z' });
+    signIn('user-2');
+    await store.save({ analysis, image: null, sourceName: 'other.png' });
+    signIn('user-1');
+
+    expect((await store.list()).map(summary => summary.id)).toEqual([second.id, first.id]);
+    expect(await store.findMatching({ sourceHash: null, periods: ['2025-09'] })).toHaveLength(2);
+  });
+
+  it('keeps showing the screenshot from this browser when a server copy arrives', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image });
+
+    await store.put({ ...saved, sourceImagePath: 'user-1/server.png', updatedAt: '2026-10-19T12:00:00.000Z' });
+
+    expect(await store.getStored(saved.id)).toMatchObject({
+      saved: { sourceImagePath: saved.sourceImagePath },
+      syncedAt: '2026-10-19T12:00:00.000Z',
+    });
+  });
+
+  it('forgets an analysis removed on the server without queueing anything', async () => {
+    const { store } = createStore();
+    const saved = await store.save({ analysis, image: null });
+    await store.settle((await store.outbox())[0], saved.updatedAt);
+
+    await store.drop(saved.id);
+
+    expect(await store.get(saved.id)).toBeNull();
+    expect(await store.outbox()).toEqual([]);
+  });
+});
+
+describe('createMemoryAnalysisStore', () => {
+  it('saves, corrects and removes analyses', async () => {
+    const store = createMemoryAnalysisStore('user-1');
+    const saved = await store.save({ analysis, image, sourceHash: 'abc' });
+
+    expect(saved).toMatchObject({ id: '1', userId: 'user-1', sourceName: 'stripe.png', sourceHash: 'abc' });
+    expect(await store.findMatching({ sourceHash: 'abc', periods: [] })).toHaveLength(1);
+
+    const corrected = await store.updateCorrections(saved.id, { totalRevenue: 50000 });
+    expect((await store.list())[0]).toMatchObject({ totalRevenue: 50000, corrected: true });
+    expect(corrected.analysis.totalRevenue).toBe(analysis.totalRevenue);
+
+    await store.remove(saved.id);
+    expect(await store.get(saved.id)).toBeNull();
+    await expect(store.remove(saved.id)).rejects.toThrow('No saved analysis with id 1');
+  });
+});
@@ -0,0 +1,297 @@
+import { summarizeSaved } from './analysisStore';
+import type { AnalysisStore, NewAnalysis, SavedAnalysis, SourceImage } from './analysisStore';
+import type { AnalysisCorrections } from '../corrections';
+
+const DB_NAME = 'revtrackr';
+const DB_VERSION = 1;
+const ANALYSES = 'analyses';
+const IMAGES = 'images';
+const OUTBOX = 'outbox';
+
+// Paths of screenshots kept in this browser; others are on the server
+const LOCAL_IMAGE_PREFIX = 'local/';
+
+// An analysis as kept in the browser
+export interface StoredAnalysis {
+  id: string;
+  saved: SavedAnalysis;
+  syncedAt: string | null;  // Server's updatedAt when last in step; null until first sent
+}
+
+interface StoredImage extends SourceImage {
+  path: string;
+}
+
+// A change waiting to be sent to the server, one per analysis (see syncQueue.ts)
+export interface OutboxEntry {
+  analysisId: string;
+  userId: string | null;
+  change: 'save' | 'corrections' | 'remove';
+  revision: number;  // Goes up with every change, so a change made while sending isn't lost
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * The browser store, plus what syncing needs
+ *
+ * save, updateCorrections and remove each queue an outbox entry in the
+ * same transaction, so no change is kept without also being queued.
+ */
+export interface LocalAnalysisStore extends AnalysisStore {
+  getStored(id: string): Promise<StoredAnalysis | null>;
+  listStored(): Promise<StoredAnalysis[]>;  // The current user's
+  outbox(): Promise<OutboxEntry[]>;  // Oldest first, every user's
+  getImage(path: string): Promise<SourceImage | null>;
+  settle(entry: OutboxEntry, syncedAt: string | null): Promise<void>;  // Sent: drop the entry unless changed since
+  markFailed(entry: OutboxEntry, error: string): Promise<void>;
+  put(saved: SavedAnalysis): Promise<void>;  // A copy from the server, in step with it
+  drop(id: string): Promise<void>;  // Removed on the server; nothing to queue
+}
+
+export interface IndexedDbStoreOptions {
+  userId: () => Promise<string | null>;  // Owner of new analyses, and whose are listed
+  remoteImageUrl?: (path: string) => Promise<string | null>;  // For screenshots only on the server
+  onChange?: () => void;  // After every queued change, e.g. to sync straight away
+  dbName?: string;
+  factory?: IDBFactory;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  const open = factory.open(name, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    if (!db.objectStoreNames.contains(ANALYSES)) db.createObjectStore(ANALYSES, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'path' });
+    if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'analysisId' });
+  };
+  return request(open);
+}
+
+// Queue a change, folded into any change already waiting for the analysis:
+// a save sends the latest corrections anyway, and removing an analysis
+// that was never sent leaves nothing to send
+async function enqueue(outbox: IDBObjectStore, analysisId: string, userId: string | null, change: OutboxEntry['change']): Promise<void> {
+  const waiting = await request(outbox.get(analysisId)) as OutboxEntry | undefined;
+  if (change === 'remove' && waiting?.change === 'save') {
+    await request(outbox.delete(analysisId));
+    return;
+  }
+  const entry: OutboxEntry = {
+    analysisId,
+    userId,
+    change: change === 'corrections' && waiting?.change === 'save' ? 'save' : change,
+    revision: (waiting?.revision ?? 0) + 1,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+  await request(outbox.put(entry));
+}
+
+/**
+ * Create a store that keeps analyses in the browser's IndexedDB
+ *
+ * Works with no connection: analyses, their screenshots and the changes
+ * not yet on the server all stay on this device. New analyses get a UUID
+ * here, which the server keeps when they're sent, so the same analysis
+ * never ends up saved twice.
+ *
+ * @param options - Current user, and how to show screenshots kept on the server
+ * @returns LocalAnalysisStore
+ */
+export function createIndexedDbAnalysisStore(options: IndexedDbStoreOptions): LocalAnalysisStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const database = () => {
+    db ??= openDatabase(options.factory ?? indexedDB, options.dbName ?? DB_NAME);
+    return db;
+  };
+
+  const transaction = async (names: string[], mode: IDBTransactionMode = 'readonly') =>
+    (await database()).transaction(names, mode);
+
+  const getStored = async (id: string): Promise<StoredAnalysis | null> => {
+    const tx = await transaction([ANALYSES]);
+    return (await request(tx.objectStore(ANALYSES).get(id)) as StoredAnalysis | undefined) ?? null;
+  };
+
+  const listStored = async (): Promise<StoredAnalysis[]> => {
+    const userId = await options.userId();
+    const tx = await transaction([ANALYSES]);
+    const all = await request(tx.objectStore(ANALYSES).getAll()) as StoredAnalysis[];
+    return all.filter(stored => stored.saved.userId === userId);
+  };
+
+  const getImage = async (path: string): Promise<SourceImage | null> => {
+    const tx = await transaction([IMAGES]);
+    const image = await request(tx.objectStore(IMAGES).get(path)) as StoredImage | undefined;
+    return image ? { name: image.name, data: image.data } : null;
+  };
+
+  const changed = () => options.onChange?.();
+
+  return {
+    name: 'This browser',
+
+    async save({ analysis, image, sourceName, sourceHash = null, corrections = {}, ...kept }: NewAnalysis): Promise<SavedAnalysis> {
+      const userId = await options.userId();
+      const id = kept.id ?? crypto.randomUUID();
+      const now = new Date().toISOString();
+      const sourceImagePath = image ? `${LOCAL_IMAGE_PREFIX}${id}/${image.name}` : null;
+
+      const saved: SavedAnalysis = {
+        id,
+        userId,
+        createdAt: kept.createdAt ?? now,
+        updatedAt: now,
+        sourceName: sourceName ?? image?.name ?? 'Untitled',
+        sourceImagePath,
+        sourceHash,
+        analysisMethod: analysis.analysisMethod,
+        templateId: analysis.template?.id ?? null,
+        analysis,
+        corrections: { ...corrections },
+      };
+
+      const tx = await transaction([ANALYSES, IMAGES, OUTBOX], 'readwrite');
+      const done = completion(tx);
+      tx.objectStore(ANALYSES).put({ id, saved, syncedAt: null } satisfies StoredAnalysis);
+      if (image && sourceImagePath) tx.objectStore(IMAGES).put({ path: sourceImagePath, ...image } satisfies StoredImage);
+      await enqueue(tx.objectStore(OUTBOX), id, userId, 'save');
+      await done;
+      changed();
+      return saved;
+    },
+
+    async list({ limit = 50 } = {}) {
+      return (await listStored())
+        .map(stored => stored.saved)
+        // Server times have another format, so compare them as times
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+        .slice(0, limit)
+        .map(summarizeSaved);
+    },
+
+    async get(id: string) {
+      return (await getStored(id))?.saved ?? null;
+    },
+
+    async findMatching({ sourceHash, periods }) {
+      return (await listStored())
+        .map(stored => summarizeSaved(stored.saved))
+        .filter(summary => (sourceHash !== null && summary.sourceHash === sourceHash)
+          || summary.periods.some(period => periods.includes(period)));
+    },
+
+    async updateCorrections(id: string, corrections: AnalysisCorrections) {
+      const tx = await transaction([ANALYSES, OUTBOX], 'readwrite');
+      const done = completion(tx);
+      const stored = await request(tx.objectStore(ANALYSES).get(id)) as StoredAnalysis | undefined;
+      if (!stored) {
+        tx.abort();
+        await done.catch(() => undefined);
+        throw new Error(`No saved analysis with id ${id}`);
+      }
+      const saved = { ...stored.saved, corrections: { ...corrections }, updatedAt: new Date().toISOString() };
+      tx.objectStore(ANALYSES).put({ ...stored, saved });
+      await enqueue(tx.objectStore(OUTBOX), id, saved.userId, 'corrections');
+      await done;
+      changed();
+      return saved;
+    },
+
+    async remove(id: string) {
+      const tx = await transaction([ANALYSES, IMAGES, OUTBOX], 'readwrite');
+      const done = completion(tx);
+      const stored = await request(tx.objectStore(ANALYSES).get(id)) as StoredAnalysis | undefined;
+      if (!stored) {
+        tx.abort();
+        await done.catch(() => undefined);
+        throw new Error(`No saved analysis with id ${id}`);
+      }
+      tx.objectStore(ANALYSES).delete(id);
+      if (stored.saved.sourceImagePath) tx.objectStore(IMAGES).delete(stored.saved.sourceImagePath);
+      await enqueue(tx.objectStore(OUTBOX), id, stored.saved.userId, 'remove');
+      await done;
+      changed();
+    },
+
+    async getImageUrl(path: string) {
+      const image = await getImage(path);
+      if (image) return URL.createObjectURL(image.data);
+      return path.startsWith(LOCAL_IMAGE_PREFIX) ? null : options.remoteImageUrl?.(path) ?? null;
+    },
+
+    getStored,
+    listStored,
+
+    async outbox() {
+      const tx = await transaction([OUTBOX]);
+      const entries = await request(tx.objectStore(OUTBOX).getAll()) as OutboxEntry[];
+      return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    },
+
+    getImage,
+
+    async settle(entry: OutboxEntry, syncedAt: string | null) {
+      const tx = await transaction([ANALYSES, OUTBOX], 'readwrite');
+      const done = completion(tx);
+      const waiting = await request(tx.objectStore(OUTBOX).get(entry.analysisId)) as OutboxEntry | undefined;
+      if (waiting?.revision === entry.revision) tx.objectStore(OUTBOX).delete(entry.analysisId);
+      if (syncedAt !== null) {
+        const stored = await request(tx.objectStore(ANALYSES).get(entry.analysisId)) as StoredAnalysis | undefined;
+        if (stored) tx.objectStore(ANALYSES).put({ ...stored, syncedAt });
+      }
+      await done;
+    },
+
+    async markFailed(entry: OutboxEntry, error: string) {
+      const tx = await transaction([OUTBOX], 'readwrite');
+      const done = completion(tx);
+      const waiting = await request(tx.objectStore(OUTBOX).get(entry.analysisId)) as OutboxEntry | undefined;
+      if (waiting?.revision === entry.revision) {
+        tx.objectStore(OUTBOX).put({ ...waiting, attempts: waiting.attempts + 1, lastError: error });
+      }
+      await done;
+    },
+
+    async put(saved: SavedAnalysis) {
+      const tx = await transaction([ANALYSES], 'readwrite');
+      const done = completion(tx);
+      const stored = await request(tx.objectStore(ANALYSES).get(saved.id)) as StoredAnalysis | undefined;
+      // Keep showing the screenshot from this browser when there is one
+      const localImage = stored?.saved.sourceImagePath?.startsWith(LOCAL_IMAGE_PREFIX) ? stored.saved.sourceImagePath : null;
+      tx.objectStore(ANALYSES).put({
+        id: saved.id,
+        saved: { ...saved, sourceImagePath: localImage ?? saved.sourceImagePath },
+        syncedAt: saved.updatedAt,
+      } satisfies StoredAnalysis);
+      await done;
+    },
+
+    async drop(id: string) {
+      const tx = await transaction([ANALYSES, IMAGES], 'readwrite');
+      const done = completion(tx);
+      const stored = await request(tx.objectStore(ANALYSES).get(id)) as StoredAnalysis | undefined;
+      tx.objectStore(ANALYSES).delete(id);
+      if (stored?.saved.sourceImagePath) tx.objectStore(IMAGES).delete(stored.saved.sourceImagePath);
+      await done;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { summarizeSaved } from './analysisStore';
+import type { AnalysisStore, NewAnalysis, SavedAnalysis } from './analysisStore';
+import type { AnalysisCorrections } from '../corrections';
+
+/**
+ * Create a store that keeps analyses in memory
+ *
+ * For tests and for running without a Supabase project. Nothing survives
+ * a reload.
+ *
+ * @param userId - Owner recorded on every saved analysis
+ * @returns AnalysisStore
+ */
+export function createMemoryAnalysisStore(userId: string | null = null): AnalysisStore {
+  const records = new Map<string, SavedAnalysis>();
+  const images = new Map<string, Blob>();
+  let nextId = 1;
+
+  const find = (id: string): SavedAnalysis => {
+    const record = records.get(id);
+    if (!record) throw new Error(`No saved analysis with id ${id}`);
+    return record;
+  };
+
+  return {
+    name: 'In-memory store',
+
+    async save({ analysis, image, sourceName, sourceHash = null, corrections = {}, ...kept }: NewAnalysis): Promise<SavedAnalysis> {
+      const id = kept.id ?? String(nextId++);
+      const now = new Date().toISOString();
+      const sourceImagePath = image ? `memory/${id}/${image.name}` : null;
+      if (image && sourceImagePath) images.set(sourceImagePath, image.data);
+
+      const record: SavedAnalysis = {
+        id,
+        userId,
+        createdAt: kept.createdAt ?? now,
+        updatedAt: now,
+        sourceName: sourceName ?? image?.name ?? 'Untitled',
+        sourceImagePath,
+        sourceHash,
+        analysisMethod: analysis.analysisMethod,
+        templateId: analysis.template?.id ?? null,
+        analysis: structuredClone(analysis),
+        corrections: { ...corrections },
+      };
+      records.set(id, record);
+      return structuredClone(record);
+    },
+
+    async list({ limit = 50 } = {}) {
+      return [...records.values()]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || Number(b.id) - Number(a.id))
+        .slice(0, limit)
+        .map(summarizeSaved);
+    },
+
+    async get(id: string) {
+      const record = records.get(id);
+      return record ? structuredClone(record) : null;
+    },
+
+    async findMatching({ sourceHash, periods }) {
+      return [...records.values()]
+        .map(summarizeSaved)
+        .filter(summary => (sourceHash !== null && summary.sourceHash === sourceHash)
+          || summary.periods.some(period => periods.includes(period)));
+    },
+
+    async updateCorrections(id: string, corrections: AnalysisCorrections) {
+      const record = find(id);
+      record.corrections = { ...corrections };
+      record.updatedAt = new Date().toISOString();
+      return structuredClone(record);
+    },
+
+    async remove(id: string) {
+      const record = find(id);
+      if (record.sourceImagePath) images.delete(record.sourceImagePath);
+      records.delete(id);
+    },
+
+    async getImageUrl(path: string) {
+      const image = images.get(path);
+      return image && typeof URL.createObjectURL === 'function' ? URL.createObjectURL(image) : null;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryAnalysisStore } from './memoryAnalysisStore';
+import { createPrivateAnalysisStore } from './privateAnalysisStore';
+import { analyzeSample } from '../revenueAnalyzer';
+import type { PrivacyMode } from '../redaction';
+
+const analysis = analyzeSample({ defaultCurrency: 'USD' });
+const image = { name: 'stripe-march.png', data: new Blob(['png']) };
+
+function save(mode: PrivacyMode, input = { analysis, image }) {
+  const store = createPrivateAnalysisStore(createMemoryAnalysisStore('user-1'), () => mode);
+  return store.save(input);
+}
+
+describe('createPrivateAnalysisStore', () => {
+  it('saves everything as given when privacy is off', async () => {
+    const saved = await save('off');
+
+    expect(saved.sourceName).toBe('stripe-march.png');
+    expect(saved.sourceImagePath).not.toBeNull();
+    expect(saved.analysis.rawText).toBe(analysis.rawText);
+  });
+
+  it('keeps a screenshot with nothing masked in standard mode', async () => {
+    const saved = await save('standard');
+
+    expect(saved.sourceImagePath).not.toBeNull();
+    expect(saved.analysis.rawText).toBe(analysis.rawText);
+  });
+
+  it('drops a masked screenshot it has no canvas to blur', async () => {
+    const masked = { ...analysis, analysisMethod: 'ocr' as const, redactions: [{ kind: 'email' as const, bbox: { x0: 0, y0: 0, x1: 10, y1: 10 } }] };
+    const saved = await save('standard', { analysis: masked, image });
+
+    expect(saved.sourceImagePath).toBeNull();
+    expect(saved.sourceName).toBe('stripe-march.png');
+  });
+
+  it('keeps only the figures in strict mode: no file, file name or source text', async () => {
+    const saved = await save('strict');
+
+    expect(saved.sourceImagePath).toBeNull();
+    expect(saved.sourceName).toBe('Untitled');
+    expect(saved.analysis.rawText).toBe('');
+    expect(saved.analysis.totalRevenue).toBe(analysis.totalRevenue);
+    expect(saved.analysis.series.map(period => period.amount)).toEqual(analysis.series.map(period => period.amount));
+
+    const json = JSON.stringify(saved);
+    for (const label of ['Gross volume', 'Net volume', 'Successful payments', 'stripe-march']) {
+      expect(json).not.toContain(label);
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import type { AnalysisStore, NewAnalysis, SourceImage } from './analysisStore';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import { withoutSourceText } from '../redaction';
+import type { PrivacyMode } from '../redaction';
+import { blurRegions, canPreprocess } from '../preprocessing';
+
+/**
+ * The screenshot as it may be kept: blurred where data was masked
+ *
+ * PDFs and CSVs can't be masked, and neither can an image without a
+ * canvas to blur it on, so those are only kept when nothing was masked.
+ */
+async function maskedImage(image: SourceImage, analysis: RevenueAnalysis): Promise<SourceImage | null> {
+  const redactions = analysis.redactions ?? [];
+  if (redactions.length === 0) return image;
+  if (analysis.analysisMethod !== 'ocr' || !canPreprocess()) return null;
+  const boxes = redactions.flatMap(redaction => redaction.bbox ? [redaction.bbox] : []);
+  return { name: image.name.replace(/\.[^.]+$/, '') + '.png', data: await blurRegions(image.data, boxes) };
+}
+
+/**
+ * Wrap a store so saving follows the user's privacy mode
+ *
+ * Every save goes through here, so the mode holds wherever it is saved from:
+ * - off: saved as given
+ * - standard: the screenshot is blurred where data was masked (see maskedImage)
+ * - strict: neither the file, its name nor the text read from it is sent,
+ *   only the figures
+ *
+ * Wrapping the server store as well applies the mode again when a change
+ * queued in the browser is sent, so switching to strict holds for those too.
+ *
+ * @param store - Store to save to
+ * @param mode - Current privacy mode, read on every save
+ * @returns AnalysisStore
+ */
+export function createPrivateAnalysisStore(store: AnalysisStore, mode: () => PrivacyMode): AnalysisStore {
+  return {
+    ...store,
+
+    async save(input: NewAnalysis) {
+      const { analysis, image } = input;
+      const sourceName = input.sourceName ?? image?.name;
+      switch (mode()) {
+        case 'off':
+          return store.save(input);
+        case 'standard':
+          return store.save({ ...input, sourceName, image: image && await maskedImage(image, analysis) });
+        case 'strict':
+          return store.save({ ...input, sourceName: undefined, analysis: withoutSourceText(analysis), image: null });
+      }
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RevenueAnalysis } from '../revenueAnalyzer';
+import { analysisPeriods } from './analysisStore';
+import type { AnalysisStore, AnalysisSummary, NewAnalysis, SavedAnalysis } from './analysisStore';
+import { hasCorrections } from '../corrections';
+import type { AnalysisCorrections } from '../corrections';
+
+// Table and storage bucket created by supabase/migrations
+const ANALYSES_TABLE = 'analyses';
+const SCREENSHOTS_BUCKET = 'screenshots';
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Row shape of the analyses table
+interface AnalysisRow {
+  id: string;
+  user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  source_name: string;
+  source_image_path: string | null;
+  source_hash: string | null;
+  analysis_method: RevenueAnalysis['analysisMethod'];
+  template_id: string | null;
+  currency: string;
+  total_revenue: number;
+  periods: string[] | null;
+  result: RevenueAnalysis;
+  corrections: AnalysisCorrections;
+}
+
+const SUMMARY_COLUMNS = 'id, created_at, updated_at, source_name, analysis_method, template_id, currency, total_revenue, corrections, source_hash, periods';
+
+function fromRow(row: AnalysisRow): SavedAnalysis {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sourceName: row.source_name,
+    sourceImagePath: row.source_image_path,
+    sourceHash: row.source_hash,
+    analysisMethod: row.analysis_method,
+    templateId: row.template_id,
+    analysis: row.result,
+    corrections: row.corrections ?? {},
+  };
+}
+
+function summaryFromRow(row: Pick<AnalysisRow, 'id' | 'created_at' | 'updated_at' | 'source_name' | 'analysis_method' | 'template_id' | 'currency' | 'total_revenue' | 'corrections' | 'source_hash' | 'periods'>): AnalysisSummary {
+  const corrections = row.corrections ?? {};
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sourceName: row.source_name,
+    analysisMethod: row.analysis_method,
+    templateId: row.template_id,
+    currency: corrections.currency ?? row.currency,
+    totalRevenue: corrections.totalRevenue ?? Number(row.total_revenue),
+    corrected: hasCorrections(corrections),
+    sourceHash: row.source_hash,
+    periods: row.periods ?? [],
+  };
+}
+
+function fail(action: string, error: { message: string }): never {
+  throw new Error(`Could not ${action}: ${error.message}`);
+}
+
+/**
+ * Create a store backed by Supabase
+ *
+ * Analyses live in the analyses table and screenshots in the private
+ * screenshots bucket, both keyed by the signed-in user. Row-level
+ * security limits every query to that user's rows; calls made without a
+ * session fail.
+ *
+ * @param client - Supabase client (see supabase.ts)
+ * @returns AnalysisStore
+ */
+export function createSupabaseAnalysisStore(client: SupabaseClient): AnalysisStore {
+  const currentUserId = async (): Promise<string> => {
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) throw new Error('Sign in to save and view your analyses');
+    return session.user.id;
+  };
+
+  const uploadImage = async (userId: string, image: NewAnalysis['image']): Promise<string | null> => {
+    if (!image) return null;
+    const safeName = image.name.replace(/[^\w.-]+/g, '_');
+    const path = `${userId}/${crypto.randomUUID()}-${safeName}`;
+    const { error } = await client.storage.from(SCREENSHOTS_BUCKET).upload(path, image.data, {
+      contentType: image.data.type || undefined,
+    });
+    if (error) fail('upload the screenshot', error);
+    return path;
+  };
+
+  // Best effort: a screenshot left behind only takes up space
+  const removeImage = async (path: string): Promise<void> => {
+    await client.storage.from(SCREENSHOTS_BUCKET).remove([path]).catch(() => undefined);
+  };
+
+  return {
+    name: 'Supabase',
+
+    async save({ analysis, image, sourceName, sourceHash = null, corrections = {}, id, createdAt }: NewAnalysis): Promise<SavedAnalysis> {
+      const userId = await currentUserId();
+      const sourceImagePath = await uploadImage(userId, image);
+
+      try {
+        const { data, error } = await client
+          .from(ANALYSES_TABLE)
+          .insert({
+            ...(id ? { id } : {}),
+            ...(createdAt ? { created_at: createdAt } : {}),
+            user_id: userId,
+            source_name: sourceName ?? image?.name ?? 'Untitled',
+            source_image_path: sourceImagePath,
+            source_hash: sourceHash,
+            analysis_method: analysis.analysisMethod,
+            template_id: analysis.template?.id ?? null,
+            currency: analysis.currency,
+            total_revenue: analysis.totalRevenue,
+            periods: analysisPeriods(analysis),
+            result: analysis,
+            corrections,
+          })
+          .select()
+          .single<AnalysisRow>();
+        if (error) fail('save the analysis', error);
+        return fromRow(data);
+      } catch (error) {
+        // No row points at the screenshot, so nothing would ever remove it
+        if (sourceImagePath) await removeImage(sourceImagePath);
+        throw error;
+      }
+    },
+
+    async list({ limit = 50 } = {}) {
+      const userId = await currentUserId();
+      const { data, error } = await client
+        .from(ANALYSES_TABLE)
+        .select(SUMMARY_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) fail('load your history', error);
+      return data.map(summaryFromRow);
+    },
+
+    async get(id: string) {
+      const { data, error } = await client
+        .from(ANALYSES_TABLE)
+        .select()
+        .eq('id', id)
+        .maybeSingle<AnalysisRow>();
+      if (error) fail('open the analysis', error);
+      return data ? fromRow(data) : null;
+    },
+
+    async findMatching({ sourceHash, periods }) {
+      const filters = [
+        ...(sourceHash ? [`source_hash.eq.${sourceHash}`] : []),
+        ...(periods.length > 0 ? [`periods.ov.{${periods.join(',')}}`] : []),
+      ];
+      if (filters.length === 0) return [];
+      const userId = await currentUserId();
+      const { data, error } = await client
+        .from(ANALYSES_TABLE)
+        .select(SUMMARY_COLUMNS)
+        .eq('user_id', userId)
+        .or(filters.join(','))
+        .order('created_at', { ascending: false });
+      if (error) fail('check for earlier uploads', error);
+      return data.map(summaryFromRow);
+    },
+
+    async updateCorrections(id: string, corrections: AnalysisCorrections) {
+      const { data, error } = await client
+        .from(ANALYSES_TABLE)
+        .update({ corrections, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single<AnalysisRow>();
+      if (error) fail('save your corrections', error);
+      return fromRow(data);
+    },
+
+    async remove(id: string) {
+      const { data, error } = await client
+        .from(ANALYSES_TABLE)
+        .delete()
+        .eq('id', id)
+        .select('source_image_path')
+        .maybeSingle<Pick<AnalysisRow, 'source_image_path'>>();
+      if (error) fail('delete the analysis', error);
+      if (data?.source_image_path) await removeImage(data.source_image_path);
+    },
+
+    async getImageUrl(path: string) {
+      const { data, error } = await client.storage.from(SCREENSHOTS_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+      return error ? null : data.signedUrl;
+    },
+  };
+}
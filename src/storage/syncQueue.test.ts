@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { createIndexedDbAnalysisStore } from './indexedDbAnalysisStore';
+import { createMemoryAnalysisStore } from './memoryAnalysisStore';
+import { createPrivateAnalysisStore } from './privateAnalysisStore';
+import { createSyncQueue } from './syncQueue';
+import type { AnalysisStore } from './analysisStore';
+import { analyzeSample } from '../revenueAnalyzer';
+import type { PrivacyMode } from '../redaction';
+
+const analysis = analyzeSample({ defaultCurrency: 'USD' });
+
+// A browser store in a fresh database, with one analysis waiting to be sent
+async function setup(userId: string | null = 'user-1') {
+  const local = createIndexedDbAnalysisStore({ userId: async () => userId, factory: new IDBFactory() });
+  const saved = await local.save({ analysis, image: null, sourceName: 'stripe.png' });
+  return { local, saved };
+}
+
+describe('createSyncQueue', () => {
+  it('sends waiting changes and ends idle', async () => {
+    const { local, saved } = await setup();
+    const remote = createMemoryAnalysisStore('user-1');
+    const queue = createSyncQueue(local, remote, { userId: async () => 'user-1', online: () => true });
+
+    const report = await queue.sync();
+
+    expect(report).toMatchObject({ pushed: 1, error: null });
+    expect(await remote.get(saved.id)).toMatchObject({ id: saved.id, sourceName: 'stripe.png' });
+    expect(await local.outbox()).toEqual([]);
+    expect(queue.status()).toMatchObject({ state: 'idle', pending: 0, error: null });
+    expect(queue.status().lastSyncedAt).not.toBeNull();
+  });
+
+  it('applies the privacy mode of the time a change is sent', async () => {
+    const local = createIndexedDbAnalysisStore({ userId: async () => 'user-1', factory: new IDBFactory() });
+    const image = { name: 'stripe-march.png', data: new Blob(['png']) };
+    const saved = await local.save({ analysis, image, sourceName: image.name });
+    let mode: PrivacyMode = 'off';
+    const remote = createPrivateAnalysisStore(createMemoryAnalysisStore('user-1'), () => mode);
+    const queue = createSyncQueue(local, remote, { userId: async () => 'user-1', online: () => true });
+
+    mode = 'strict';
+    await queue.sync();
+
+    const sent = await remote.get(saved.id);
+    expect(sent).toMatchObject({ sourceName: 'Untitled', sourceImagePath: null });
+    expect(sent?.analysis.rawText).toBe('');
+    expect(sent?.analysis.totalRevenue).toBe(analysis.totalRevenue);
+    expect((await local.get(saved.id))?.sourceName).toBe('stripe-march.png');
+  });
+
+  it('keeps changes queued while offline', async () => {
+    const { local } = await setup();
+    const remote = createMemoryAnalysisStore('user-1');
+    const queue = createSyncQueue(local, remote, { userId: async () => 'user-1', online: () => false });
+
+    const report = await queue.sync();
+
+    expect(report.pushed).toBe(0);
+    expect(await remote.list()).toEqual([]);
+    expect(queue.status()).toMatchObject({ state: 'offline', pending: 1 });
+  });
+
+  it('sends nothing while signed out', async () => {
+    const { local } = await setup(null);
+    const remote = createMemoryAnalysisStore();
+    const queue = createSyncQueue(local, remote, { userId: async () => null, online: () => true });
+
+    await queue.sync();
+
+    expect(await remote.list()).toEqual([]);
+    expect(queue.status()).toMatchObject({ state: 'signed-out', pending: 1 });
+  });
+
+  it('keeps a change that failed to send queued, with the error', async () => {
+    const { local } = await setup();
+    const remote: AnalysisStore = {
+      ...createMemoryAnalysisStore('user-1'),
+      save: async () => { throw new Error('Server unavailable'); },
+    };
+    const queue = createSyncQueue(local, remote, { userId: async () => 'user-1', online: () => true });
+
+    const report = await queue.sync();
+
+    expect(report).toMatchObject({ pushed: 0, error: 'Server unavailable' });
+    expect(await local.outbox()).toMatchObject([{ attempts: 1, lastError: 'Server unavailable' }]);
+    expect(queue.status()).toMatchObject({ state: 'idle', pending: 1, error: 'Server unavailable', lastSyncedAt: null });
+  });
+
+  it('reports a failure to read the user instead of rejecting or staying busy', async () => {
+    const { local } = await setup();
+    const remote = createMemoryAnalysisStore('user-1');
+    const queue = createSyncQueue(local, remote, {
+      userId: async () => { throw new Error('Session expired'); },
+      online: () => true,
+    });
+    const states: string[] = [];
+    queue.subscribe(status => states.push(status.state));
+
+    const report = await queue.sync();
+
+    expect(report.error).toBe('Session expired');
+    expect(states).not.toContain('syncing');
+    expect(queue.status()).toMatchObject({ state: 'idle', error: 'Session expired' });
+  });
+});
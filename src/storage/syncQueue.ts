@@ -0,0 +1,266 @@
+/**
+ * Background sync: send analyses kept in the browser to the server
+ *
+ * The app saves to the browser store first (see indexedDbAnalysisStore.ts),
+ * so it works with no connection. Every change there leaves an entry in
+ * its outbox; the queue sends those whenever there is a connection and a
+ * signed-in user, then fetches analyses made on other devices.
+ *
+ * Conflicts, when an analysis changed on the server after this browser
+ * last synced it:
+ * - Corrections changed on both sides: the later change wins
+ * - Removed on another device but corrected here: sent again
+ * - Removed here: removed on the server, whatever changed there
+ */
+
+import type { AnalysisStore, SavedAnalysis } from './analysisStore';
+import type { LocalAnalysisStore, OutboxEntry, StoredAnalysis } from './indexedDbAnalysisStore';
+
+// How often to retry while changes are waiting
+export const SYNC_INTERVAL_MS = 60_000;
+
+// Most analyses fetched from the server per run
+const PULL_LIMIT = 200;
+
+export interface SyncConflict {
+  analysisId: string;
+  sourceName: string;
+  resolution: 'kept-local' | 'kept-server' | 'restored';
+}
+
+export interface SyncReport {
+  pushed: number;   // Changes sent
+  pulled: number;   // Analyses fetched, updated or removed from other devices
+  conflicts: SyncConflict[];
+  error: string | null;  // Last change that couldn't be sent; it stays queued
+}
+
+export interface SyncStatus {
+  state: 'offline' | 'signed-out' | 'syncing' | 'idle';
+  pending: number;  // Changes waiting to be sent
+  lastSyncedAt: string | null;
+  error: string | null;  // From the last run
+}
+
+export interface SyncQueue {
+  sync(): Promise<SyncReport>;  // Runs now; during a run, runs again after it
+  start(): () => void;  // Sync now, when back online and every SYNC_INTERVAL_MS; returns a stop function
+  subscribe(listener: (status: SyncStatus, report: SyncReport | null) => void): () => void;  // report after each run
+  status(): SyncStatus;
+}
+
+export interface SyncQueueOptions {
+  userId: () => Promise<string | null>;
+  online?: () => boolean;  // Default navigator.onLine
+}
+
+function sameTime(a: string, b: string): boolean {
+  return Date.parse(a) === Date.parse(b);
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Create the queue that syncs a browser store with the server
+ *
+ * @param local - Browser store the app saves to
+ * @param remote - Server store, e.g. createSupabaseAnalysisStore wrapped in createPrivateAnalysisStore
+ * @param options - Current user, and how to tell the browser is online
+ * @returns SyncQueue
+ */
+export function createSyncQueue(local: LocalAnalysisStore, remote: AnalysisStore, options: SyncQueueOptions): SyncQueue {
+  const online = options.online ?? (() => navigator.onLine);
+  const listeners = new Set<(status: SyncStatus, report: SyncReport | null) => void>();
+  let current: SyncStatus = { state: online() ? 'idle' : 'offline', pending: 0, lastSyncedAt: null, error: null };
+  let running: Promise<SyncReport> | null = null;
+  let again = false;
+
+  const update = (change: Partial<SyncStatus>, report: SyncReport | null = null) => {
+    current = { ...current, ...change };
+    listeners.forEach(listener => listener(current, report));
+  };
+
+  const pendingFor = async (userId: string | null) =>
+    (await local.outbox()).filter(entry => entry.userId === userId);
+
+  // The whole analysis, as first saved here
+  const pushRecord = async ({ saved }: StoredAnalysis): Promise<SavedAnalysis> => remote.save({
+    id: saved.id,
+    createdAt: saved.createdAt,
+    analysis: saved.analysis,
+    image: saved.sourceImagePath ? await local.getImage(saved.sourceImagePath) : null,
+    sourceName: saved.sourceName,
+    sourceHash: saved.sourceHash,
+    corrections: saved.corrections,
+  });
+
+  const pushCorrections = async (entry: OutboxEntry, stored: StoredAnalysis, server: SavedAnalysis | null, report: SyncReport) => {
+    const conflict = (resolution: SyncConflict['resolution']) =>
+      report.conflicts.push({ analysisId: stored.id, sourceName: stored.saved.sourceName, resolution });
+
+    if (!server) {
+      const saved = await pushRecord(stored);
+      await local.settle(entry, saved.updatedAt);
+      conflict('restored');
+    } else if (stored.syncedAt !== null && !sameTime(server.updatedAt, stored.syncedAt)) {
+      if (Date.parse(server.updatedAt) > Date.parse(stored.saved.updatedAt)) {
+        await local.put(server);
+        await local.settle(entry, server.updatedAt);
+        conflict('kept-server');
+      } else {
+        const saved = await remote.updateCorrections(stored.id, stored.saved.corrections);
+        await local.settle(entry, saved.updatedAt);
+        conflict('kept-local');
+      }
+    } else {
+      const saved = await remote.updateCorrections(stored.id, stored.saved.corrections);
+      await local.settle(entry, saved.updatedAt);
+    }
+  };
+
+  const push = async (entry: OutboxEntry, report: SyncReport) => {
+    if (entry.change === 'remove') {
+      await remote.remove(entry.analysisId);
+      await local.settle(entry, null);
+      return;
+    }
+
+    const stored = await local.getStored(entry.analysisId);
+    if (!stored) {
+      await local.settle(entry, null);
+      return;
+    }
+    // A save already on the server was sent before without the reply
+    // arriving; only its corrections may still differ
+    const server = await remote.get(stored.id);
+    if (entry.change === 'save' && !server) {
+      const saved = await pushRecord(stored);
+      await local.settle(entry, saved.updatedAt);
+    } else {
+      await pushCorrections(entry, stored, server, report);
+    }
+  };
+
+  // Fetch analyses new or changed on other devices, and forget those removed there
+  const pull = async (report: SyncReport) => {
+    const waiting = new Set((await local.outbox()).map(entry => entry.analysisId));
+    const listed = await remote.list({ limit: PULL_LIMIT });
+    const stored = new Map((await local.listStored()).map(item => [item.id, item]));
+
+    for (const summary of listed) {
+      if (waiting.has(summary.id)) continue;
+      const known = stored.get(summary.id);
+      if (known && (known.syncedAt === null || Date.parse(summary.updatedAt) <= Date.parse(known.syncedAt))) continue;
+      const saved = await remote.get(summary.id);
+      if (saved) {
+        await local.put(saved);
+        report.pulled++;
+      }
+    }
+
+    // Only the newest PULL_LIMIT are listed; older ones may still be there
+    const ids = new Set(listed.map(summary => summary.id));
+    const oldest = listed.length === PULL_LIMIT ? Date.parse(listed[listed.length - 1].createdAt) : -Infinity;
+    for (const item of stored.values()) {
+      if (item.syncedAt === null || ids.has(item.id) || waiting.has(item.id)) continue;
+      if (Date.parse(item.saved.createdAt) >= oldest) {
+        await local.drop(item.id);
+        report.pulled++;
+      }
+    }
+  };
+
+  // Never rejects: whatever fails ends up in the report and the status
+  const run = async (): Promise<SyncReport> => {
+    const report: SyncReport = { pushed: 0, pulled: 0, conflicts: [], error: null };
+    let userId: string | null = null;
+    let skipped: 'offline' | 'signed-out' | null = null;
+
+    try {
+      userId = await options.userId();
+      if (!online() || !userId) {
+        skipped = online() ? 'signed-out' : 'offline';
+        return report;
+      }
+
+      update({ state: 'syncing' });
+      for (const entry of await pendingFor(userId)) {
+        try {
+          await push(entry, report);
+          report.pushed++;
+        } catch (error) {
+          report.error = message(error);
+          await local.markFailed(entry, report.error);
+        }
+        if (!online()) break;
+      }
+      if (report.error === null && online()) {
+        try {
+          await pull(report);
+        } catch (error) {
+          report.error = message(error);
+        }
+      }
+    } catch (error) {
+      // The user or the outbox couldn't be read
+      report.error = message(error);
+    } finally {
+      const pending = await pendingFor(userId).then(entries => entries.length, () => current.pending);
+      if (skipped) {
+        update({ state: skipped, pending }, report);
+      } else {
+        update({
+          state: online() ? 'idle' : 'offline',
+          pending,
+          lastSyncedAt: report.error === null ? new Date().toISOString() : current.lastSyncedAt,
+          error: report.error,
+        }, report);
+      }
+    }
+    return report;
+  };
+
+  const sync = (): Promise<SyncReport> => {
+    if (running) {
+      again = true;
+      return running;
+    }
+    running = run().finally(() => {
+      running = null;
+      if (again) {
+        again = false;
+        void sync();
+      }
+    });
+    return running;
+  };
+
+  return {
+    sync,
+
+    start() {
+      const onOnline = () => void sync();
+      const onOffline = () => update({ state: 'offline' });
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+      const timer = window.setInterval(() => {
+        if (current.pending > 0 || current.error !== null) void sync();
+      }, SYNC_INTERVAL_MS);
+      void sync();
+      return () => {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+        window.clearInterval(timer);
+      };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    status: () => current,
+  };
+}
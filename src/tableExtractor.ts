@@ -0,0 +1,338 @@
+/**
+ * Table and time-series extraction
+ *
+ * Spreadsheet exports, monthly reports and bank statements are tables: a
+ * month/date column next to an amount column. This module recognises those
+ * rows in the OCR layout, picks the amount column and rebuilds a dated
+ * monthly series, so the breakdown comes from real rows instead of guesses.
+ */
+
+import { parseAmountToken } from './layoutExtractor';
+import type { BoundingBox, OcrLayout, OcrLine, OcrWord } from './layoutExtractor';
+import type { NumberLocale } from './numberParser';
+
+// One month of revenue reconstructed from table rows
+export interface RevenuePeriod {
+  period: string;    // 'YYYY-MM', sortable
+  label: string;     // Display form, e.g. "Mar 2025"
+  amount: number;
+  rowCount: number;  // Table rows summed into this month (daily statements)
+}
+
+export interface RevenueTable {
+  series: RevenuePeriod[];    // Ascending by period
+  amountColumnLabel: string;  // Header above the chosen amount column ('' if none)
+  rowBoxes: BoundingBox[];    // Lines of the dated rows, to tell table cells from other figures
+}
+
+// Month names and abbreviations in the languages we read (lower case,
+// without the trailing dot). Short words that are also common English
+// ("set", "ago") are left out, so they don't turn a line into a table row.
+const MONTHS: { [key: string]: number } = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3,
+  apr: 4, april: 4, may: 5, jun: 6, june: 6, jul: 7, july: 7,
+  aug: 8, august: 8, sep: 9, sept: 9, september: 9, oct: 10, october: 10,
+  nov: 11, november: 11, dec: 12, december: 12,
+  // German
+  januar: 1, jän: 1, jänner: 1, februar: 2, märz: 3, mär: 3, mrz: 3, mai: 5,
+  juni: 6, juli: 7, oktober: 10, okt: 10, dezember: 12, dez: 12,
+  // French
+  janvier: 1, janv: 1, février: 2, fevrier: 2, févr: 2, fevr: 2, mars: 3, avril: 4, avr: 4,
+  juin: 6, juillet: 7, juil: 7, août: 8, aout: 8, septembre: 9, octobre: 10, novembre: 11,
+  décembre: 12, decembre: 12, déc: 12,
+  // Spanish
+  enero: 1, ene: 1, febrero: 2, marzo: 3, abril: 4, abr: 4, mayo: 5, junio: 6, julio: 7,
+  agosto: 8, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12, dic: 12,
+  // Arabic: Gulf and Egyptian names, with and without hamza, then Levantine ones
+  'يناير': 1, 'فبراير': 2, 'مارس': 3, 'أبريل': 4, 'ابريل': 4, 'إبريل': 4, 'مايو': 5, 'يونيو': 6,
+  'يوليو': 7, 'أغسطس': 8, 'اغسطس': 8, 'سبتمبر': 9, 'أكتوبر': 10, 'اكتوبر': 10, 'نوفمبر': 11, 'ديسمبر': 12,
+  'شباط': 2, 'آذار': 3, 'اذار': 3, 'نيسان': 4, 'أيار': 5, 'ايار': 5, 'حزيران': 6, 'تموز': 7, 'آب': 8, 'أيلول': 9, 'ايلول': 9,
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Column headers that point at the revenue column, and ones that don't,
+// including the usual German, French and Spanish bank export headers
+// (Arabic stems leave off the first letter, so إ/ا spellings both match)
+export const AMOUNT_HEADER_KEYWORDS = [
+  'revenue', 'sales', 'amount', 'total', 'income', 'credit', 'gross', 'net', 'deposit',
+  'betrag', 'umsatz', 'montant', 'importe',
+  'يرادات', 'مبيعات', 'مبلغ', 'جمالي', 'صافي', 'دخل', 'دائن', 'يداع',
+];
+export const NON_AMOUNT_HEADER_KEYWORDS = [
+  'balance', 'orders', 'qty', 'quantity', 'count', 'customers', 'saldo', 'solde',
+  'رصيد', 'طلبات', 'عدد', 'كمية', 'عملاء',
+];
+
+interface PeriodMatch {
+  year: number | null;  // null when the row only names a month
+  month: number;        // 1-12
+  consumed: Set<number>;  // Word indexes that belong to the date
+}
+
+interface TableRow {
+  lineIndex: number;
+  period: PeriodMatch;
+  cells: Array<{ value: number, bbox: BoundingBox }>;
+}
+
+function clean(text: string): string {
+  return text.toLowerCase().replace(/^[([]+|[.,:;)\]]+$/g, '');
+}
+
+function monthFromWord(text: string): number | null {
+  return MONTHS[clean(text)] ?? null;
+}
+
+function yearFromWord(text: string): number | null {
+  const match = clean(text).match(/^(?:'(\d{2})|(\d{4}))$/);
+  if (!match) return null;
+  const year = match[1] ? 2000 + parseInt(match[1], 10) : parseInt(match[2], 10);
+  return year >= 1990 && year <= 2100 ? year : null;
+}
+
+function dayFromWord(text: string): number | null {
+  const match = clean(text).match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = parseInt(match[1], 10);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+/**
+ * Parse a numeric date written as one word
+ *
+ * Accepts 2025-03, 2025-03-14, 03/2025 and 14/03/2025. For d/m/y versus
+ * m/d/y, a part above 12 decides; otherwise day-first is assumed.
+ */
+function numericDate(text: string): { year: number, month: number } | null {
+  const word = clean(text);
+
+  let match = word.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?$/);
+  if (match) return validDate(parseInt(match[1], 10), parseInt(match[2], 10));
+
+  match = word.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (match) return validDate(parseInt(match[2], 10), parseInt(match[1], 10));
+
+  match = word.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (match) {
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    const month = first > 12 ? second : (second > 12 ? first : second);
+    return validDate(year, month);
+  }
+
+  return null;
+}
+
+/**
+ * A calendar month as a series key and display label
+ *
+ * @returns { period: 'YYYY-MM', label: e.g. "Mar 2025" }
+ */
+export function monthPeriod(year: number, month: number): { period: string, label: string } {
+  return { period: `${year}-${String(month).padStart(2, '0')}`, label: `${MONTH_LABELS[month - 1]} ${year}` };
+}
+
+function validDate(year: number, month: number): { year: number, month: number } | null {
+  return month >= 1 && month <= 12 && year >= 1990 && year <= 2100 ? { year, month } : null;
+}
+
+/**
+ * Find the first month or date mentioned on a line
+ *
+ * Handles "Mar", "March 2025", "Mar '25", "14 Mar 2025", "Mar 14, 2025",
+ * the same in German, French, Spanish and Arabic ("Juli 2025", "14 juil.
+ * 2025") and the numeric forms accepted by numericDate().
+ */
+function findPeriod(words: OcrWord[]): PeriodMatch | null {
+  for (let i = 0; i < words.length; i++) {
+    const numeric = numericDate(words[i].text);
+    if (numeric) return { ...numeric, consumed: new Set([i]) };
+
+    const month = monthFromWord(words[i].text);
+    if (month === null) continue;
+
+    const consumed = new Set([i]);
+    let year: number | null = null;
+
+    if (i > 0 && dayFromWord(words[i - 1].text) !== null) consumed.add(i - 1);
+
+    let next = i + 1;
+    if (next < words.length && dayFromWord(words[next].text) !== null && yearFromWord(words[next].text) === null) {
+      consumed.add(next);
+      next++;
+    }
+    if (next < words.length) {
+      year = yearFromWord(words[next].text);
+      if (year !== null) consumed.add(next);
+    }
+
+    return { year, month, consumed };
+  }
+
+  return null;
+}
+
+function headerWordsAbove(lines: OcrLine[], lineIndex: number, column: { x0: number, x1: number }): string {
+  const header = lines[lineIndex - 1];
+  if (!header) return '';
+  return header.words
+    .filter(w => Math.min(w.bbox.x1, column.x1) - Math.max(w.bbox.x0, column.x0) > 0)
+    .map(w => w.text)
+    .join(' ');
+}
+
+/**
+ * Fill in missing years for month-only rows
+ *
+ * Rows without a year get the first year seen on the page (or the current
+ * year). When the months wrap against the table's direction (Nov, Dec, Jan)
+ * the year rolls over.
+ */
+function resolveYears(rows: TableRow[], pageText: string): void {
+  const explicit = rows.find(r => r.period.year !== null)?.period.year;
+  const onPage = pageText.match(/\b(19|20)\d{2}\b/);
+  let year = explicit ?? (onPage ? parseInt(onPage[0], 10) : new Date().getFullYear());
+
+  let ups = 0;
+  let downs = 0;
+  for (let i = 1; i < rows.length; i++) {
+    if (rows[i].period.month > rows[i - 1].period.month) ups++;
+    if (rows[i].period.month < rows[i - 1].period.month) downs++;
+  }
+  const ascending = ups >= downs;
+
+  rows.forEach((row, i) => {
+    if (row.period.year !== null) {
+      year = row.period.year;
+      return;
+    }
+    const previous = rows[i - 1]?.period.month;
+    if (previous !== undefined) {
+      if (ascending && row.period.month < previous) year++;
+      if (!ascending && row.period.month > previous) year--;
+    }
+    row.period.year = year;
+  });
+}
+
+/**
+ * Detect a revenue table and rebuild its monthly series
+ *
+ * How it works:
+ * - Finds lines that start a row: a month or date plus at least one amount
+ * - Groups amount cells into columns by their right edge (numbers are right-aligned)
+ * - Picks the column that covers most rows, preferring "Revenue"/"Amount"
+ *   headers and avoiding "Balance"/"Orders"
+ * - Sums rows per calendar month (daily bank statements become months)
+ *
+ * @param layout - OCR output with line and word geometry
+ * @param locale - Number conventions of the page
+ * @returns RevenueTable | null - null when fewer than two dated rows are found
+ */
+export function detectRevenueTable(layout: OcrLayout, locale: NumberLocale = 'en'): RevenueTable | null {
+  const rows: TableRow[] = [];
+
+  layout.lines.forEach((line, lineIndex) => {
+    const period = findPeriod(line.words);
+    if (!period) return;
+
+    const cells = line.words
+      .filter((_, i) => !period.consumed.has(i))
+      .map(word => ({ value: parseAmountToken(word.text, locale), bbox: word.bbox }))
+      .filter((cell): cell is { value: number, bbox: BoundingBox } => cell.value !== null);
+
+    if (cells.length > 0) rows.push({ lineIndex, period, cells });
+  });
+
+  if (rows.length < 2) return null;
+
+  // Group cells into columns by right edge
+  const heights = rows.map(r => layout.lines[r.lineIndex].bbox.y1 - layout.lines[r.lineIndex].bbox.y0);
+  const tolerance = Math.max(...heights) * 1.5;
+  const cells = rows.flatMap((row, rowIndex) => row.cells.map(cell => ({ ...cell, rowIndex })));
+  cells.sort((a, b) => a.bbox.x1 - b.bbox.x1);
+
+  const columns: Array<{ x0: number, x1: number, rows: Set<number> }> = [];
+  for (const cell of cells) {
+    const column = columns[columns.length - 1];
+    if (column && cell.bbox.x1 - column.x1 <= tolerance) {
+      column.x0 = Math.min(column.x0, cell.bbox.x0);
+      column.x1 = cell.bbox.x1;
+      column.rows.add(cell.rowIndex);
+    } else {
+      columns.push({ x0: cell.bbox.x0, x1: cell.bbox.x1, rows: new Set([cell.rowIndex]) });
+    }
+  }
+
+  // Score columns: coverage first, header keywords break ties either way
+  let best = columns[0];
+  let bestScore = -Infinity;
+  let bestHeader = '';
+  for (const column of columns) {
+    const header = headerWordsAbove(layout.lines, rows[0].lineIndex, column);
+    const lower = header.toLowerCase();
+    let score = column.rows.size;
+    if (AMOUNT_HEADER_KEYWORDS.some(k => lower.includes(k))) score += rows.length / 2;
+    if (NON_AMOUNT_HEADER_KEYWORDS.some(k => lower.includes(k))) score -= rows.length;
+    if (score >= bestScore) {  // >= so the rightmost column wins ties
+      best = column;
+      bestScore = score;
+      bestHeader = header;
+    }
+  }
+
+  const datedRows = rows.filter((_, i) => best.rows.has(i));
+  if (datedRows.length < 2) return null;
+  resolveYears(datedRows, layout.text);
+
+  // Sum the chosen column per month
+  const byPeriod = new Map<string, RevenuePeriod>();
+  for (const row of datedRows) {
+    const cell = row.cells.find(c => c.bbox.x1 >= best.x0 && c.bbox.x0 <= best.x1);
+    if (!cell) continue;
+
+    const { period, label } = monthPeriod(row.period.year!, row.period.month);
+    const existing = byPeriod.get(period);
+    if (existing) {
+      existing.amount += cell.value;
+      existing.rowCount++;
+    } else {
+      byPeriod.set(period, { period, label, amount: cell.value, rowCount: 1 });
+    }
+  }
+
+  const series = [...byPeriod.values()].sort((a, b) => a.period.localeCompare(b.period));
+  return { series, amountColumnLabel: bestHeader, rowBoxes: datedRows.map(row => layout.lines[row.lineIndex].bbox) };
+}
+
+/**
+ * Find the single month a piece of text refers to
+ *
+ * For period labels such as "Mar 1, 2025 - Mar 31, 2025" or
+ * "01/03/2025 to 31/03/2025". Every date mentioned has to fall in the same
+ * month and at least one has to give the year.
+ *
+ * @param text - Period label, e.g. from a platform template
+ * @returns The month as 'YYYY-MM' with its display label, or null
+ */
+export function monthFromText(text: string): { period: string, label: string } | null {
+  const box = { x0: 0, y0: 0, x1: 0, y1: 0 };
+  const words: OcrWord[] = text.split(/\s+/).filter(Boolean).map(word => ({ text: word, confidence: 1, bbox: box }));
+
+  const found: PeriodMatch[] = [];
+  let start = 0;
+  while (start < words.length) {
+    const match = findPeriod(words.slice(start));
+    if (!match) break;
+    found.push(match);
+    start += Math.max(...match.consumed) + 1;
+  }
+
+  const year = found.find(match => match.year !== null)?.year ?? null;
+  if (found.length === 0 || year === null) return null;
+  if (found.some(match => match.month !== found[0].month || (match.year !== null && match.year !== year))) return null;
+
+  return monthPeriod(year, found[0].month);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue } from './taskQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('returns each task\'s value in the order of the items', async () => {
+    const results = await runQueue([30, 10, 20], 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual([
+      { ok: true, value: '0:30' },
+      { ok: true, value: '1:10' },
+      { ok: true, value: '2:20' },
+    ]);
+  });
+
+  it('puts a task\'s failure in its result and runs the rest', async () => {
+    const failure = new Error('OCR worker failed');
+    const results = await runQueue(['a', 'b', 'c'], 1, async item => {
+      if (item === 'b') throw failure;
+      return item.toUpperCase();
+    });
+
+    expect(results).toEqual([
+      { ok: true, value: 'A' },
+      { ok: false, error: failure },
+      { ok: true, value: 'C' },
+    ]);
+  });
+
+  it('never runs more tasks at once than asked', async () => {
+    let running = 0;
+    let most = 0;
+    await runQueue([1, 2, 3, 4, 5], 2, async () => {
+      running++;
+      most = Math.max(most, running);
+      await tick();
+      running--;
+    });
+
+    expect(most).toBe(2);
+  });
+
+  it('runs one at a time when asked for fewer than one, and nothing for no items', async () => {
+    let running = 0;
+    let most = 0;
+    const results = await runQueue([1, 2], 0, async item => {
+      running++;
+      most = Math.max(most, running);
+      await tick();
+      running--;
+      return item;
+    });
+
+    expect(most).toBe(1);
+    expect(results).toHaveLength(2);
+    expect(await runQueue([], 4, async () => 1)).toEqual([]);
+  });
+});
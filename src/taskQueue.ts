@@ -0,0 +1,46 @@
+/**
+ * Bounded-concurrency task queue
+ *
+ * Runs async tasks with at most `concurrency` in flight, so a dozen
+ * screenshots don't start a dozen OCR workers at once.
+ */
+
+// What one task gave: its value, or what it threw
+export type TaskResult<R> =
+  | { ok: true, value: R }
+  | { ok: false, error: unknown };
+
+/**
+ * Run a task for every item, a few at a time
+ *
+ * Results keep the order of the items. A task that throws doesn't stop
+ * the others; what it threw is in its result.
+ *
+ * @param items - Inputs, e.g. uploaded files
+ * @param concurrency - Maximum tasks running at once (at least 1)
+ * @param task - Work for one item
+ * @returns Promise<Array<TaskResult<R>>> - Each task's value or error
+ */
+export async function runQueue<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<Array<TaskResult<R>>> {
+  const results: Array<TaskResult<R>> = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await task(items[index], index) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runNext);
+  await Promise.all(runners);
+  return results;
+}
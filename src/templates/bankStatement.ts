@@ -0,0 +1,38 @@
+import { NUMERIC_DATE_RANGE } from './registry';
+import type { PlatformTemplate } from './registry';
+
+// Bank account statements: summary rows (credits, debits, charges, balances)
+export const bankStatementTemplate: PlatformTemplate = {
+  id: 'bank-statement',
+  name: 'Bank statement',
+  fingerprints: [
+    { pattern: /\bstatement\b/i, weight: 0.3 },
+    { pattern: /opening balance|closing balance/i, weight: 0.3 },
+    { pattern: /\bIBAN\b/, weight: 0.2 },
+    { pattern: /account (number|no\.?)/i, weight: 0.2 },
+    { pattern: /total (credits|debits|deposits|withdrawals)/i, weight: 0.2 },
+  ],
+  layout: 'rows',
+  minScore: 0.5,
+  fields: {
+    gross: [/^total credits?/i, /^total deposits?/i, /^credits?$/i, /^deposits?$/i],
+    fees: [/charges/i, /fees?/i],
+  },
+  totalFields: ['gross'],
+  ignore: [/balance/i, /account/i, /\biban\b/i, /debits?/i, /withdrawals?/i, /^statement/i],
+  period: NUMERIC_DATE_RANGE,
+  fixture: {
+    text: [
+      'Emirates NBD      Account Statement',
+      'Account Number: 1012345678901      IBAN AE07 0331 2345 6789 0123 456',
+      'Statement period: 01/03/2025 to 31/03/2025',
+      '',
+      'Opening balance                              AED 18,240.00',
+      'Total credits                                AED 42,310.00',
+      'Total debits                                 AED 27,115.50',
+      'Bank charges                                 AED 52.50',
+      'Closing balance                              AED 33,434.50',
+    ].join('\n'),
+    expected: { gross: 42310, fees: 52.5, period: '01/03/2025 to 31/03/2025' },
+  },
+};
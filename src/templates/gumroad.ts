@@ -0,0 +1,38 @@
+import { RELATIVE_PERIOD } from './registry';
+import type { PlatformTemplate } from './registry';
+
+// Gumroad creator dashboard: Views / Sales (a count) / Revenue cards
+export const gumroadTemplate: PlatformTemplate = {
+  id: 'gumroad',
+  name: 'Gumroad',
+  fingerprints: [
+    { pattern: /\bgumroad\b/i, weight: 0.6 },
+    { pattern: /total earnings/i, weight: 0.2 },
+    { pattern: /\bviews\b/i, weight: 0.1 },
+    { pattern: /\bfollowers\b/i, weight: 0.1 },
+  ],
+  layout: 'cards',
+  minScore: 0.5,
+  fields: {
+    gross: [/^revenue/i, /^gross/i, /^total earnings/i],
+    net: [/^net/i],
+    fees: [/fees/i],
+    refunds: [/^refunds?/i],
+  },
+  totalFields: ['gross', 'net'],
+  ignore: [/^views/i, /^sales$/i, /^followers/i, /^balance/i, /conversion/i],
+  period: RELATIVE_PERIOD,
+  fixture: {
+    text: [
+      'Gumroad      Dashboard      Products      Payouts',
+      'Last 28 days',
+      '',
+      'Views              Sales              Revenue',
+      '1,204              37                 $1,813.00',
+      '',
+      'Balance            Total earnings',
+      '$412.00            $9,870.50',
+    ].join('\n'),
+    expected: { gross: 1813, period: 'Last 28 days' },
+  },
+};
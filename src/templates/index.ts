@@ -0,0 +1,26 @@
+/**
+ * Built-in platform templates
+ *
+ * Importing this module registers Stripe, Shopify, PayPal, Gumroad and a
+ * generic bank statement template. Register more with registerTemplate().
+ */
+
+import { registerTemplate } from './registry';
+import { stripeTemplate } from './stripe';
+import { shopifyTemplate } from './shopify';
+import { paypalTemplate } from './paypal';
+import { gumroadTemplate } from './gumroad';
+import { bankStatementTemplate } from './bankStatement';
+
+export const BUILT_IN_TEMPLATES = [
+  stripeTemplate,
+  shopifyTemplate,
+  paypalTemplate,
+  gumroadTemplate,
+  bankStatementTemplate,
+];
+
+BUILT_IN_TEMPLATES.forEach(registerTemplate);
+
+export { listTemplates, matchTemplate, registerTemplate, runTemplateFixture, summarizeMatch } from './registry';
+export type { PlatformTemplate, TemplateField, TemplateMatch, TemplateMatchSummary } from './registry';
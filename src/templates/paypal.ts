@@ -0,0 +1,39 @@
+import { DATE_RANGE, RELATIVE_PERIOD } from './registry';
+import type { PlatformTemplate } from './registry';
+
+// PayPal activity / financial summary: one row per line item, label left of value
+export const paypalTemplate: PlatformTemplate = {
+  id: 'paypal',
+  name: 'PayPal',
+  fingerprints: [
+    { pattern: /\bpaypal\b/i, weight: 0.5 },
+    { pattern: /total received/i, weight: 0.2 },
+    { pattern: /available balance/i, weight: 0.2 },
+    { pattern: /money (in|out)/i, weight: 0.2 },
+    { pattern: /transactions? summary/i, weight: 0.1 },
+  ],
+  layout: 'rows',
+  minScore: 0.5,
+  fields: {
+    gross: [/^total received/i, /^money in/i, /^gross/i],
+    net: [/^net/i],
+    fees: [/fees?$/i, /^(paypal )?fees?/i],
+    refunds: [/^refunds?/i, /^reversals?/i],
+  },
+  totalFields: ['gross', 'net'],
+  ignore: [/balance/i, /^money out/i, /^withdraw/i, /^transfers?/i],
+  period: new RegExp(`${DATE_RANGE.source}|${RELATIVE_PERIOD.source}`, 'i'),
+  fixture: {
+    text: [
+      'PayPal      Activity      Reports',
+      'Transactions summary      Mar 1, 2025 - Mar 31, 2025',
+      '',
+      'Total received                          USD 6,540.00',
+      'PayPal fees                             USD 231.45',
+      'Refunds                                 USD 120.00',
+      'Net amount                              USD 6,188.55',
+      'Available balance                       USD 2,015.30',
+    ].join('\n'),
+    expected: { gross: 6540, net: 6188.55, fees: 231.45, refunds: 120, period: 'Mar 1, 2025 - Mar 31, 2025' },
+  },
+};
@@ -0,0 +1,230 @@
+/**
+ * Platform template registry
+ *
+ * Generic keyword matching can't tell Stripe "Gross volume" from "Net
+ * volume", or Shopify "Total sales" from "Orders". A template fingerprints
+ * the source platform from OCR text and layout, then applies that
+ * platform's own field rules (gross, net, fees, refunds, period label).
+ *
+ * Templates are plain objects. Add one for a new gateway or bank export
+ * with registerTemplate(); each ships with fixture text so it can be
+ * checked offline with runTemplateFixture().
+ */
+
+import { extractLabelledFigures, layoutFromText } from '../layoutExtractor';
+import type { LabelledFigure, OcrLayout } from '../layoutExtractor';
+import { scoreFigure } from '../confidenceModel';
+
+export type TemplateField = 'gross' | 'net' | 'fees' | 'refunds';
+
+export interface PlatformTemplate {
+  id: string;    // Stable key, e.g. 'stripe'
+  name: string;  // Shown to users, e.g. 'Stripe'
+
+  // Text cues and how much each one says "this is our platform"
+  fingerprints: Array<{ pattern: RegExp, weight: number }>;
+  // Usual arrangement of labels: cards (label above) or rows (label left)
+  layout: 'cards' | 'rows' | 'any';
+  minScore: number;  // Fingerprint score needed to match (0-1)
+
+  // Label patterns for each field, most specific first; the first field
+  // listed in totalFields that is found becomes the total
+  fields: { [field in TemplateField]?: RegExp[] };
+  totalFields: TemplateField[];
+  // Labels that are never revenue on this platform ("Orders", "Balance")
+  ignore: RegExp[];
+  // Period label, e.g. "Last 30 days" or "Mar 1 – Mar 31"
+  period?: RegExp;
+
+  // OCR-like text with known answers, for offline regression checks
+  fixture: {
+    text: string;
+    expected: { [field in TemplateField]?: number } & { period?: string };
+  };
+}
+
+export interface TemplateMatch {
+  template: PlatformTemplate;
+  score: number;  // Fingerprint score (0-1)
+  fields: { [field in TemplateField]?: LabelledFigure };
+  total: LabelledFigure | null;  // Figure the template says is revenue
+  period: string | null;
+  ignored: LabelledFigure[];     // Figures the template rules out
+}
+
+// Summary kept on the analysis result
+export interface TemplateMatchSummary {
+  id: string;
+  name: string;
+  score: number;
+  fields: { [field in TemplateField]?: number };
+  totalField: TemplateField | null;
+  period: string | null;
+}
+
+// Period labels most dashboards share, for use in templates
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?';
+export const RELATIVE_PERIOD = /\b(?:(?:last|past|previous) \d+ (?:days|weeks|months)|(?:this|last) (?:week|month|quarter|year)|(?:year|month) to date)\b/i;
+export const DATE_RANGE = new RegExp(`${MONTH} \\d{1,2}(?:, \\d{4})?\\s*[-–]\\s*${MONTH} \\d{1,2}(?:, \\d{4})?`, 'i');
+export const NUMERIC_DATE_RANGE = /\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\s*(?:to|[-–])\s*\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/i;
+
+const templates: PlatformTemplate[] = [];
+
+/**
+ * Add a template, or replace the one with the same id
+ *
+ * @param template - Template to register
+ */
+export function registerTemplate(template: PlatformTemplate): void {
+  const existing = templates.findIndex(t => t.id === template.id);
+  if (existing >= 0) {
+    templates[existing] = template;
+  } else {
+    templates.push(template);
+  }
+}
+
+export function listTemplates(): PlatformTemplate[] {
+  return [...templates];
+}
+
+/**
+ * Fingerprint score for one template
+ *
+ * Sum of matched text cues (capped at 1), plus 0.1 when the page's
+ * label arrangement fits the template's usual layout.
+ */
+function fingerprint(template: PlatformTemplate, layout: OcrLayout, figures: LabelledFigure[]): number {
+  let score = 0;
+  for (const cue of template.fingerprints) {
+    if (cue.pattern.test(layout.text)) score += cue.weight;
+  }
+  score = Math.min(1, score);
+
+  if (template.layout !== 'any' && figures.length > 0) {
+    const expected = template.layout === 'cards' ? 'above' : 'same-row';
+    const share = figures.filter(f => f.labelPosition === expected).length / figures.length;
+    if (share >= 0.5) score += 0.1;
+  }
+
+  return Math.min(1, score);
+}
+
+function labelMatches(figure: LabelledFigure, patterns: RegExp[]): boolean {
+  const label = figure.label.trim();
+  return label !== '' && patterns.some(pattern => pattern.test(label));
+}
+
+/**
+ * Apply one template's field rules to the figures
+ */
+function applyTemplate(template: PlatformTemplate, score: number, layout: OcrLayout, figures: LabelledFigure[]): TemplateMatch {
+  const fields: TemplateMatch['fields'] = {};
+
+  // Earlier patterns win; among figures matching the same pattern, the best scored
+  for (const [field, patterns] of Object.entries(template.fields) as Array<[TemplateField, RegExp[]]>) {
+    for (const pattern of patterns) {
+      const candidates = figures
+        .filter(figure => labelMatches(figure, [pattern]))
+        .sort((a, b) => b.confidence - a.confidence);
+      if (candidates.length > 0) {
+        fields[field] = candidates[0];
+        break;
+      }
+    }
+  }
+
+  const totalField = template.totalFields.find(field => fields[field]);
+  const periodMatch = template.period ? layout.text.match(template.period) : null;
+
+  return {
+    template,
+    score,
+    fields,
+    total: totalField ? fields[totalField] ?? null : null,
+    period: periodMatch ? periodMatch[0].trim() : null,
+    ignored: figures.filter(figure => labelMatches(figure, template.ignore)),
+  };
+}
+
+/**
+ * Find the platform a screenshot came from and read its fields
+ *
+ * How it works:
+ * - Scores every registered template's fingerprint against the page
+ * - Picks the best one that reaches its minScore
+ * - Applies its field rules to the (already scored) figures
+ *
+ * @param layout - OCR output
+ * @param figures - Labelled, scored figures
+ * @returns TemplateMatch | null - null when no template fits
+ */
+export function matchTemplate(layout: OcrLayout, figures: LabelledFigure[]): TemplateMatch | null {
+  let best: { template: PlatformTemplate, score: number } | null = null;
+
+  for (const template of templates) {
+    const score = fingerprint(template, layout, figures);
+    if (score >= template.minScore && (!best || score > best.score)) {
+      best = { template, score };
+    }
+  }
+
+  return best ? applyTemplate(best.template, best.score, layout, figures) : null;
+}
+
+/**
+ * Shrink a match to what the analysis result keeps
+ */
+export function summarizeMatch(match: TemplateMatch): TemplateMatchSummary {
+  const fields: TemplateMatchSummary['fields'] = {};
+  for (const [field, figure] of Object.entries(match.fields) as Array<[TemplateField, LabelledFigure]>) {
+    fields[field] = figure.value;
+  }
+
+  return {
+    id: match.template.id,
+    name: match.template.name,
+    score: match.score,
+    fields,
+    totalField: match.template.totalFields.find(field => match.fields[field]) ?? null,
+    period: match.period,
+  };
+}
+
+/**
+ * Run a template against its own fixture text
+ *
+ * Lays the fixture out as text, scores its figures, matches templates and
+ * compares the fields with the fixture's expected values.
+ *
+ * @param template - Template to check
+ * @returns string[] - Problems found; empty when the fixture passes
+ */
+export function runTemplateFixture(template: PlatformTemplate): string[] {
+  const layout = layoutFromText(template.fixture.text);
+  const figures = extractLabelledFigures(layout).map(figure => {
+    const { confidence, factors } = scoreFigure(figure);
+    return { ...figure, confidence, confidenceFactors: factors };
+  });
+
+  const match = matchTemplate(layout, figures);
+  if (!match) return [`${template.id}: no template matched its fixture`];
+  if (match.template.id !== template.id) {
+    return [`${template.id}: fixture matched "${match.template.id}" instead`];
+  }
+
+  const problems: string[] = [];
+  const { period, ...expectedFields } = template.fixture.expected;
+
+  for (const [field, expected] of Object.entries(expectedFields) as Array<[TemplateField, number]>) {
+    const actual = match.fields[field]?.value;
+    if (actual !== expected) {
+      problems.push(`${template.id}: ${field} expected ${expected}, got ${actual ?? 'nothing'}`);
+    }
+  }
+  if (period !== undefined && match.period !== period) {
+    problems.push(`${template.id}: period expected "${period}", got "${match.period ?? 'nothing'}"`);
+  }
+
+  return problems;
+}
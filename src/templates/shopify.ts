@@ -0,0 +1,42 @@
+import { DATE_RANGE, RELATIVE_PERIOD } from './registry';
+import type { PlatformTemplate } from './registry';
+
+// Shopify admin Analytics overview: metric cards, label above value
+export const shopifyTemplate: PlatformTemplate = {
+  id: 'shopify',
+  name: 'Shopify',
+  fingerprints: [
+    { pattern: /\bshopify\b/i, weight: 0.5 },
+    { pattern: /online store sessions/i, weight: 0.3 },
+    { pattern: /total sales/i, weight: 0.2 },
+    { pattern: /returning customer rate/i, weight: 0.2 },
+    { pattern: /average order value/i, weight: 0.1 },
+  ],
+  layout: 'cards',
+  minScore: 0.5,
+  fields: {
+    gross: [/^gross sales/i, /^total sales/i],
+    net: [/^net sales/i],
+    refunds: [/^returns/i, /^refunds?/i],
+    fees: [/^(shopify )?(payment|transaction) fees/i],
+  },
+  totalFields: ['gross', 'net'],
+  ignore: [/^orders/i, /^total orders/i, /sessions/i, /conversion/i, /average order value/i, /customer/i, /^discounts?/i, /^taxes/i, /^shipping/i],
+  period: new RegExp(`${RELATIVE_PERIOD.source}|${DATE_RANGE.source}`, 'i'),
+  fixture: {
+    text: [
+      'shopify      Analytics      Overview dashboard',
+      'Last 30 days      compared to: Previous period',
+      '',
+      'Total sales                 Online store sessions        Returning customer rate',
+      '$8,450.20                   3,210                        12.4%',
+      '',
+      'Gross sales                 Net sales                    Returns',
+      '$9,100.00                   $8,120.00                    $380.00',
+      '',
+      'Orders                      Average order value',
+      '156                         $54.17',
+    ].join('\n'),
+    expected: { gross: 9100, net: 8120, refunds: 380, period: 'Last 30 days' },
+  },
+};
@@ -0,0 +1,39 @@
+import { DATE_RANGE, RELATIVE_PERIOD } from './registry';
+import type { PlatformTemplate } from './registry';
+
+// Stripe Dashboard home and Reports: one card per metric, label above value
+export const stripeTemplate: PlatformTemplate = {
+  id: 'stripe',
+  name: 'Stripe',
+  fingerprints: [
+    { pattern: /\bstripe\b/i, weight: 0.5 },
+    { pattern: /gross volume/i, weight: 0.3 },
+    { pattern: /net volume/i, weight: 0.3 },
+    { pattern: /successful payments/i, weight: 0.2 },
+    { pattern: /\bdisputes?\b/i, weight: 0.1 },
+  ],
+  layout: 'cards',
+  minScore: 0.5,
+  fields: {
+    gross: [/^gross volume/i],
+    net: [/^net volume/i],
+    fees: [/^(stripe )?(processing )?fees/i],
+    refunds: [/^refunds?/i],
+  },
+  totalFields: ['gross', 'net'],
+  ignore: [/successful payments/i, /^disputes?/i, /customers/i, /^(upcoming |in transit )?payouts?/i, /balance/i],
+  period: new RegExp(`${RELATIVE_PERIOD.source}|${DATE_RANGE.source}`, 'i'),
+  fixture: {
+    text: [
+      'Stripe      Home   Payments   Balances   Customers   Reports',
+      'Reports overview      Last 30 days',
+      '',
+      'Gross volume             Net volume               Successful payments',
+      '$12,340.00               $11,802.15               412',
+      '',
+      'Stripe fees              Refunds                  Disputes',
+      '$357.85                  $180.00                  0',
+    ].join('\n'),
+    expected: { gross: 12340, net: 11802.15, fees: 357.85, refunds: 180, period: 'Last 30 days' },
+  },
+};
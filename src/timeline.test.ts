@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { coveredMonths, mergeTimeline } from './timeline';
+import { applyCorrections } from './corrections';
+import { analyzeSample } from './revenueAnalyzer';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+
+// Stripe sample: a six-month table, Apr-Sep 2025
+const sample = analyzeSample({ defaultCurrency: 'USD' });
+
+// A screenshot of one month's total, without a table
+const oneMonth: RevenueAnalysis = {
+  ...sample,
+  series: [],
+  breakdownSource: 'unavailable',
+  template: { ...sample.template!, period: 'March 2025' },
+};
+
+describe('coveredMonths', () => {
+  it('takes the months of a table', () => {
+    expect(coveredMonths(sample).map(({ period, amount, from }) => ({ period, amount, from }))).toEqual([
+      { period: '2025-04', amount: 6880, from: 'table' },
+      { period: '2025-05', amount: 7420, from: 'table' },
+      { period: '2025-06', amount: 7960.5, from: 'table' },
+      { period: '2025-07', amount: 8310, from: 'table' },
+      { period: '2025-08', amount: 8905.25, from: 'table' },
+      { period: '2025-09', amount: 9444.25, from: 'table' },
+    ]);
+  });
+
+  it('takes the total when the period label is one month', () => {
+    expect(coveredMonths(oneMonth)).toEqual([{ period: '2025-03', label: 'Mar 2025', amount: 48920, from: 'period-label' }]);
+  });
+
+  it('covers nothing without a table or a one-month period', () => {
+    expect(coveredMonths({ ...oneMonth, template: null })).toEqual([]);
+    expect(coveredMonths({ ...oneMonth, template: { ...oneMonth.template!, period: 'Last 6 months' } })).toEqual([]);
+  });
+
+  it('uses corrected months and totals', () => {
+    const table = coveredMonths(applyCorrections(sample, { thisMonth: 9500, lastMonth: 8900 }));
+    expect(table.slice(-3).map(month => month.amount)).toEqual([8310, 8900, 9500]);
+
+    expect(coveredMonths(applyCorrections(oneMonth, { totalRevenue: 50000 }))).toMatchObject([{ period: '2025-03', amount: 50000 }]);
+  });
+});
+
+describe('mergeTimeline', () => {
+  it('counts a month reported twice once, and flags differing amounts', () => {
+    const timeline = mergeTimeline([
+      { id: 'a', name: 'reports.png', analysis: sample },
+      { id: 'b', name: 'september.png', analysis: { ...oneMonth, totalRevenue: 9444.25, template: { ...sample.template!, period: 'September 2025' } } },
+      { id: 'c', name: 'august.png', analysis: { ...oneMonth, totalRevenue: 9100, template: { ...sample.template!, period: 'August 2025' } } },
+      { id: 'd', name: 'undated.png', analysis: { ...oneMonth, template: null } },
+    ], 'USD');
+
+    const byPeriod = new Map(timeline.periods.map(period => [period.period, period]));
+    expect(timeline.periods).toHaveLength(6);
+    expect(byPeriod.get('2025-09')).toMatchObject({ status: 'duplicate', amount: 9444.25 });
+    expect(byPeriod.get('2025-08')).toMatchObject({ status: 'conflict', amount: 8905.25, chosen: { sourceName: 'reports.png' } });
+    expect(timeline.conflicts).toBe(1);
+    expect(timeline.skipped).toMatchObject([{ sourceName: 'undated.png' }]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Merged revenue timeline across screenshots
+ *
+ * A monthly close involves several screenshots: one per month, one per
+ * platform, or overlapping reports. This module combines their monthly
+ * figures into one timeline in a single currency. The same month reported
+ * twice with the same amount is a duplicate and counted once; different
+ * amounts for one month are flagged as a conflict instead of being added.
+ */
+
+import type { RevenueAnalysis } from './revenueAnalyzer';
+import { monthFromText } from './tableExtractor';
+import { bundledRateProvider, convertAmount } from './fx';
+import type { RateProvider } from './fx';
+
+export interface TimelineSource {
+  id: string;
+  name: string;  // e.g. the file name
+  analysis: RevenueAnalysis;
+}
+
+// One source's figure for a month
+export interface TimelineContribution {
+  sourceId: string;
+  sourceName: string;
+  amount: number;  // In the timeline currency
+  originalAmount: number;
+  originalCurrency: string;
+  confidence: number;
+  from: 'table' | 'period-label';  // A table row, or a whole screenshot covering one month
+}
+
+export interface TimelinePeriod {
+  period: string;  // 'YYYY-MM'
+  label: string;   // e.g. "Mar 2025"
+  amount: number;  // The chosen contribution's amount, never a sum across sources
+  status: 'single' | 'duplicate' | 'conflict';
+  chosen: TimelineContribution;
+  contributions: TimelineContribution[];  // Every source that reported this month
+}
+
+export interface RevenueTimeline {
+  currency: string;
+  periods: TimelinePeriod[];  // Oldest first
+  conflicts: number;
+  // Sources that added nothing, and why
+  skipped: Array<{ sourceId: string, sourceName: string, reason: string }>;
+}
+
+// Amounts within this share of each other are the same figure read twice
+const DUPLICATE_TOLERANCE = 0.005;
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * DUPLICATE_TOLERANCE;
+}
+
+/**
+ * Monthly figures one analysis contributes
+ *
+ * Table rows when there are any; otherwise the total, if the screenshot's
+ * period label covers exactly one month. Takes the analysis as shown,
+ * corrections applied (see applyCorrections), like checkAnalysis: a
+ * corrected this or last month replaces the table's latest two rows, and
+ * a corrected total the one-month total.
+ */
+export function coveredMonths(analysis: RevenueAnalysis): Array<{ period: string, label: string, amount: number, from: TimelineContribution['from'] }> {
+  if (analysis.series.length > 0) {
+    const latest = analysis.series.length - 1;
+    const corrected = (index: number, amount: number) => {
+      if (analysis.breakdownSource !== 'table') return amount;
+      if (index === latest && analysis.fieldSources.thisMonth === 'corrected') return analysis.thisMonth;
+      if (index === latest - 1 && analysis.fieldSources.lastMonth === 'corrected') return analysis.lastMonth;
+      return amount;
+    };
+    return analysis.series.map(({ period, label, amount }, index) => ({ period, label, amount: corrected(index, amount), from: 'table' as const }));
+  }
+
+  const month = analysis.template?.period ? monthFromText(analysis.template.period) : null;
+  return month ? [{ ...month, amount: analysis.totalRevenue, from: 'period-label' }] : [];
+}
+
+/**
+ * Merge analyses into one timeline
+ *
+ * How it works:
+ * - Collects each source's monthly figures (table rows or a one-month total)
+ * - Converts them into the timeline currency
+ * - Per month: one source → 'single'; matching amounts → 'duplicate',
+ *   counted once; differing amounts → 'conflict', showing the most
+ *   confident source and listing the others
+ *
+ * @param sources - Analyses to merge
+ * @param currency - Timeline currency; defaults to the most common one
+ * @param provider - FX rates for sources in other currencies
+ * @returns RevenueTimeline
+ */
+export function mergeTimeline(
+  sources: TimelineSource[],
+  currency?: string,
+  provider: RateProvider = bundledRateProvider
+): RevenueTimeline {
+  const target = currency ?? mostCommonCurrency(sources);
+  const byPeriod = new Map<string, { label: string, contributions: TimelineContribution[] }>();
+  const skipped: RevenueTimeline['skipped'] = [];
+
+  for (const { id, name, analysis } of sources) {
+    const months = coveredMonths(analysis);
+    if (months.length === 0) {
+      skipped.push({ sourceId: id, sourceName: name, reason: 'No dated months (no table, and the period is not a single month)' });
+      continue;
+    }
+
+    const rate = convertAmount(1, analysis.currency, target, provider)?.rate;
+    if (rate === undefined) {
+      skipped.push({ sourceId: id, sourceName: name, reason: `No ${analysis.currency} → ${target} rate` });
+      continue;
+    }
+
+    for (const month of months) {
+      const entry = byPeriod.get(month.period) ?? { label: month.label, contributions: [] };
+      entry.contributions.push({
+        sourceId: id,
+        sourceName: name,
+        amount: month.amount * rate,
+        originalAmount: month.amount,
+        originalCurrency: analysis.currency,
+        confidence: analysis.confidence,
+        from: month.from,
+      });
+      byPeriod.set(month.period, entry);
+    }
+  }
+
+  const periods = [...byPeriod.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, { label, contributions }]): TimelinePeriod => {
+      // Table rows beat whole-screenshot totals, then the more confident source wins
+      const ranked = [...contributions].sort((a, b) =>
+        Number(b.from === 'table') - Number(a.from === 'table') || b.confidence - a.confidence
+      );
+      const chosen = ranked[0];
+      const status = contributions.length === 1
+        ? 'single'
+        : contributions.every(c => sameAmount(c.amount, chosen.amount)) ? 'duplicate' : 'conflict';
+      return { period, label, amount: chosen.amount, status, chosen, contributions };
+    });
+
+  return {
+    currency: target,
+    periods,
+    conflicts: periods.filter(p => p.status === 'conflict').length,
+    skipped,
+  };
+}
+
+function mostCommonCurrency(sources: TimelineSource[]): string {
+  const counts = new Map<string, number>();
+  for (const { analysis } of sources) counts.set(analysis.currency, (counts.get(analysis.currency) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'USD';
+}
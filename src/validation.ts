@@ -0,0 +1,238 @@
+/**
+ * Plausibility checks on extracted figures
+ *
+ * Extraction picks the most revenue-like number, but a year, a date or an
+ * order ID can still win when nothing on the page is labelled as revenue.
+ * Nothing here changes a result: the checks flag values that don't look
+ * like money, totals smaller than their own parts and unusual jumps between
+ * months, so the dashboard can show the flag next to the figure. A second
+ * set of checks finds the same file or month uploaded before.
+ *
+ * Checks run on the analysis as shown, corrections included, and skip
+ * values a person set.
+ */
+
+import { formatCurrency } from './revenueAnalyzer';
+import type { RevenueAnalysis } from './revenueAnalyzer';
+import type { CorrectableField } from './corrections';
+import { parseAmounts } from './numberParser';
+import { summarizeSeries } from './seriesStats';
+import type { AnalysisSummary } from './storage';
+
+export type FlagKind =
+  | 'year'              // A four-digit year, e.g. from "Apr 2025"
+  | 'date'              // A date written as one number, or under a date label
+  | 'identifier'        // An order, invoice or account number
+  | 'percentage'        // A rate or a growth figure
+  | 'below-component'   // A total smaller than one of its own parts
+  | 'jump'              // A month far above or below the month before
+  | 'same-file'         // This exact file was saved before
+  | 'same-period';      // A saved analysis covers the same month
+
+// What a flag is shown next to
+export type FlaggedField = CorrectableField | 'growth' | 'series' | 'source';
+
+export interface ValueFlag {
+  kind: FlagKind;
+  field: FlaggedField;
+  period: string | null;  // 'YYYY-MM' for a month of the series
+  message: string;
+}
+
+// A month this many times the one before (or this fraction of it) is a jump
+export const JUMP_RATIO = 3;
+
+// Components within this share of the total are rounding, not an error
+const COMPONENT_TOLERANCE = 0.005;
+
+const ID_LABEL = /\b(?:id|order|invoice|ref|reference|transaction|txn)\b|\b(?:no|nr)\.|#/i;
+const DATE_LABEL = /\b(?:date|dated|datum|on|as of|since|until|year)\b|تاريخ/i;
+const PERCENT_LABEL = /%|\b(?:percent|rate|growth|margin|change|conversion|churn)\b/i;
+
+// A number as it appeared, with the text before it
+interface ValueSource {
+  text: string;
+  currencyMarker: string | null;
+  context: string;  // Its label, or the text just before it on the line
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * COMPONENT_TOLERANCE;
+}
+
+/**
+ * Where a value was read: the chosen figure, a labelled figure with that
+ * value, or the first place it occurs in the text
+ */
+function findSource(analysis: RevenueAnalysis, field: CorrectableField, value: number): ValueSource | null {
+  const figure = field === 'totalRevenue' && analysis.totalRevenueFigure?.value === value
+    ? analysis.totalRevenueFigure
+    : analysis.figures.find(f => f.value === value);
+  if (figure) return { text: figure.text, currencyMarker: figure.currencyMarker, context: figure.label };
+
+  const occurrence = parseAmounts(analysis.rawText, analysis.numberLocale).find(amount => amount.value === value);
+  if (!occurrence) return null;
+  const lineStart = analysis.rawText.lastIndexOf('\n', occurrence.start - 1) + 1;
+  return {
+    text: occurrence.text,
+    currencyMarker: occurrence.currencyMarker,
+    context: analysis.rawText.slice(Math.max(lineStart, occurrence.start - 40), occurrence.start),
+  };
+}
+
+// "20250401" → "2025-04-01", when it's a real calendar date
+function compactDate(text: string): string | null {
+  const match = /^(19\d{2}|20\d{2}|2100)(\d{2})(\d{2})$/.exec(text);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Why a value doesn't look like money, if it doesn't
+ *
+ * A currency symbol or code next to it settles it as money. Values that
+ * weren't read from the page (sums, estimates) aren't checked.
+ */
+function implausibleValue(value: number, source: ValueSource | null): { kind: FlagKind, message: string } | null {
+  if (!source || source.currencyMarker) return null;
+  const digitsOnly = /^\d+$/.test(source.text.trim());
+  const { context } = source;
+
+  if (digitsOnly) {
+    const date = compactDate(String(value));
+    if (date) return { kind: 'date', message: `Looks like a date (${date}), not an amount` };
+    if (String(value).length >= 7 || ID_LABEL.test(context)) {
+      return { kind: 'identifier', message: 'Looks like an ID or reference number, not an amount' };
+    }
+    if (value >= 1900 && value <= 2100) {
+      return DATE_LABEL.test(context)
+        ? { kind: 'date', message: `Looks like part of a date (${value}), not an amount` }
+        : { kind: 'year', message: `Looks like the year ${value}, not an amount` };
+    }
+  }
+  if (value <= 100 && PERCENT_LABEL.test(context)) {
+    return { kind: 'percentage', message: `Looks like a percentage ("${context.trim()}"), not an amount` };
+  }
+  return null;
+}
+
+/**
+ * Flag values in an analysis that don't add up or don't look like money
+ *
+ * How it works:
+ * - Total, this month and last month: flagged when the number reads like a
+ *   year, a date, an ID or a percentage (see implausibleValue)
+ * - Total: flagged when it's smaller than a month of its own table, or a
+ *   platform's gross is smaller than its net, fees or refunds
+ * - Each month of the series: flagged when it's JUMP_RATIO times the month
+ *   before or less than 1/JUMP_RATIO of it; the latest also flags growth
+ *
+ * @param analysis - The analysis as shown (corrections applied)
+ * @returns ValueFlag[] - Empty when everything looks plausible
+ */
+export function checkAnalysis(analysis: RevenueAnalysis): ValueFlag[] {
+  const flags: ValueFlag[] = [];
+  const money = (amount: number) => formatCurrency(Math.round(amount), analysis.currency);
+
+  for (const field of ['totalRevenue', 'thisMonth', 'lastMonth'] as const) {
+    const value = analysis[field];
+    if (analysis.fieldSources[field] === 'corrected' || value <= 0) continue;
+    // Table months are dated rows, so only labelled months can pick a stray number
+    if (field !== 'totalRevenue' && analysis.breakdownSource === 'table') continue;
+    const problem = implausibleValue(value, findSource(analysis, field, value));
+    if (problem) flags.push({ ...problem, field, period: null });
+  }
+
+  if (analysis.fieldSources.totalRevenue === 'extracted') {
+    const largest = analysis.series.reduce<RevenueAnalysis['series'][number] | null>(
+      (best, month) => !best || month.amount > best.amount ? month : best, null
+    );
+    if (largest && largest.amount > analysis.totalRevenue && !sameValue(largest.amount, analysis.totalRevenue)) {
+      flags.push({
+        kind: 'below-component',
+        field: 'totalRevenue',
+        period: null,
+        message: `Smaller than ${largest.label} alone (${money(largest.amount)})`,
+      });
+    }
+
+    const { gross, net, fees, refunds } = analysis.template?.fields ?? {};
+    if (gross !== undefined) {
+      const parts = [['net', net], ['fees', fees], ['refunds', refunds]] as const;
+      for (const [name, part] of parts) {
+        if (part === undefined || Math.abs(part) <= gross || sameValue(Math.abs(part), gross)) continue;
+        flags.push({
+          kind: 'below-component',
+          field: 'totalRevenue',
+          period: null,
+          message: `Gross (${money(gross)}) is smaller than ${name} (${money(Math.abs(part))})`,
+        });
+      }
+    }
+  }
+
+  const summary = summarizeSeries(analysis.series);
+  for (const month of summary?.months ?? []) {
+    if (month.previousMonth === null || month.previousMonth <= 0 || month.amount < 0) continue;
+    const ratio = month.amount / month.previousMonth;
+    if (ratio < JUMP_RATIO && ratio > 1 / JUMP_RATIO) continue;
+    const message = `${ratio > 1 ? 'Up' : 'Down'} ${Math.abs(month.monthOverMonth ?? 0)}% on the month before; worth checking the table was read right`;
+    flags.push({ kind: 'jump', field: 'series', period: month.period, message: `${month.label}: ${message}` });
+    if (month === summary?.months[summary.months.length - 1] && analysis.breakdownSource === 'table') {
+      flags.push({ kind: 'jump', field: 'growth', period: month.period, message });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * SHA-256 of a file, as hex, to recognise the same file uploaded again
+ */
+export async function fileHash(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Flag saved analyses of the same file, or of the same months
+ *
+ * A month counts as uploaded before when a saved analysis covers it,
+ * unless that analysis is of this very file (already flagged as such).
+ *
+ * @param current - This upload's file hash and the months it covers
+ * @param saved - Saved analyses that may match (see AnalysisStore.findMatching)
+ * @param excludeId - This analysis's own id, once it is saved
+ * @returns ValueFlag[] - 'same-file' and 'same-period' flags on the source
+ */
+export function findDuplicates(
+  current: { sourceHash: string | null, months: Array<{ period: string, label: string }> },
+  saved: AnalysisSummary[],
+  excludeId: string | null = null
+): ValueFlag[] {
+  const savedOn = (summary: AnalysisSummary) =>
+    `${summary.sourceName}, saved ${new Date(summary.createdAt).toLocaleDateString()}`;
+  const others = saved.filter(summary => summary.id !== excludeId);
+
+  const sameFile = others.filter(summary => current.sourceHash !== null && summary.sourceHash === current.sourceHash);
+  const flags: ValueFlag[] = sameFile.map(summary => ({
+    kind: 'same-file',
+    field: 'source',
+    period: null,
+    message: `This file was already analysed (${savedOn(summary)})`,
+  }));
+
+  for (const summary of others.filter(summary => !sameFile.includes(summary))) {
+    const overlap = current.months.filter(month => summary.periods.includes(month.period));
+    if (overlap.length === 0) continue;
+    flags.push({
+      kind: 'same-period',
+      field: 'source',
+      period: overlap[0].period,
+      message: `${overlap.map(month => month.label).join(', ')} ${overlap.length === 1 ? 'is' : 'are'} also in ${savedOn(summary)}`,
+    });
+  }
+  return flags;
+}
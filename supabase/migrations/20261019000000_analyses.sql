@@ -0,0 +1,49 @@
+-- Saved revenue analyses and their screenshots
+
+create table if not exists public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  source_name text not null,
+  source_image_path text,
+  analysis_method text not null check (analysis_method in ('ocr', 'sample')),
+  template_id text,
+  -- Copied out of result so the history list doesn't load every result
+  currency text not null,
+  total_revenue numeric not null,
+  result jsonb not null,
+  corrections jsonb not null default '{}'::jsonb
+);
+
+create index if not exists analyses_user_created_idx on public.analyses (user_id, created_at desc);
+
+-- The client uses the public anon key, so rows are private from the start:
+-- each signed-in user reaches only their own
+alter table public.analyses enable row level security;
+
+create policy "Users read their own analyses"
+  on public.analyses for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users add analyses for themselves"
+  on public.analyses for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users update their own analyses"
+  on public.analyses for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users delete their own analyses"
+  on public.analyses for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- Screenshots, one folder per user: <user_id>/<uuid>-<file name>
+insert into storage.buckets (id, name, public)
+values ('screenshots', 'screenshots', false)
+on conflict (id) do nothing;
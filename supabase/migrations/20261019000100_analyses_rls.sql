@@ -0,0 +1,33 @@
+-- Every analysis and screenshot belongs to one signed-in user
+-- (row-level security on analyses comes with the table)
+
+-- Rows without an owner can't be shown to anyone, but they're still
+-- someone's data: stop here rather than delete them
+do $$
+declare
+  orphans bigint;
+begin
+  select count(*) into orphans from public.analyses where user_id is null;
+  if orphans > 0 then
+    raise exception 'public.analyses has % rows without an owner', orphans
+      using hint = 'Set their user_id, or move them to another table, then apply this migration again';
+  end if;
+end
+$$;
+alter table public.analyses alter column user_id set not null;
+
+-- Screenshots: the first folder of the object path is the owner's id
+create policy "Users read their own screenshots"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
+
+create policy "Users upload screenshots to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
+
+create policy "Users delete their own screenshots"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
@@ -0,0 +1,5 @@
+-- Analyses imported from PDF text layers and CSV exports
+
+alter table public.analyses drop constraint if exists analyses_analysis_method_check;
+alter table public.analyses add constraint analyses_analysis_method_check
+  check (analysis_method in ('ocr', 'pdf-text', 'csv', 'sample'));
@@ -0,0 +1,12 @@
+-- What finding the same upload twice needs, copied out of result
+
+alter table public.analyses add column if not exists source_hash text;
+alter table public.analyses add column if not exists periods text[] not null default '{}';
+
+-- Months of the saved table rows; single-month totals are filled in from new saves on
+update public.analyses
+set periods = array(select jsonb_array_elements(result->'series')->>'period')
+where periods = '{}' and jsonb_typeof(result->'series') = 'array';
+
+create index if not exists analyses_user_source_hash_idx on public.analyses (user_id, source_hash);
+create index if not exists analyses_periods_idx on public.analyses using gin (periods);
@@ -0,0 +1,106 @@
+-- Row-level security for analyses and screenshots
+-- Run against a local stack: supabase start && supabase test db
+
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(13);
+
+-- Two users, one analysis and one screenshot each (inserted as postgres, bypassing RLS)
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+insert into public.analyses (id, user_id, source_name, analysis_method, currency, total_revenue, result) values
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'alice.png', 'ocr', 'USD', 1200, '{}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'bob.png', 'ocr', 'AED', 500, '{}');
+
+insert into storage.objects (bucket_id, name) values
+  ('screenshots', '22222222-2222-2222-2222-222222222222/bob.png');
+
+-- Signed in as Alice
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+select results_eq(
+  'select id from public.analyses',
+  $$ values ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::uuid) $$,
+  'Alice sees only her own analyses'
+);
+
+select is_empty(
+  $$ select * from public.analyses where id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  'Alice cannot read Bob''s analysis by id'
+);
+
+select throws_ok(
+  $$ insert into public.analyses (user_id, source_name, analysis_method, currency, total_revenue, result)
+     values ('22222222-2222-2222-2222-222222222222', 'forged.png', 'ocr', 'USD', 1, '{}') $$,
+  '42501',
+  null,
+  'Alice cannot save an analysis as Bob'
+);
+
+select lives_ok(
+  $$ insert into public.analyses (id, source_name, analysis_method, currency, total_revenue, result)
+     values ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'new.png', 'ocr', 'USD', 10, '{}') $$,
+  'Alice can save an analysis without naming an owner'
+);
+
+select results_eq(
+  $$ select user_id from public.analyses where id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ values ('11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'New analyses default to the signed-in user'
+);
+
+select lives_ok(
+  $$ update public.analyses set total_revenue = 0 where id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  'Updating Bob''s analysis is silently ignored'
+);
+
+select lives_ok(
+  $$ delete from public.analyses where id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  'Deleting Bob''s analysis is silently ignored'
+);
+
+select lives_ok(
+  $$ insert into storage.objects (bucket_id, name) values ('screenshots', '11111111-1111-1111-1111-111111111111/alice.png') $$,
+  'Alice can upload to her own folder'
+);
+
+select throws_ok(
+  $$ insert into storage.objects (bucket_id, name) values ('screenshots', '22222222-2222-2222-2222-222222222222/forged.png') $$,
+  '42501',
+  null,
+  'Alice cannot upload to Bob''s folder'
+);
+
+select is_empty(
+  $$ select * from storage.objects where name like '22222222-2222-2222-2222-222222222222/%' $$,
+  'Alice cannot list Bob''s screenshots'
+);
+
+-- Signed out
+reset role;
+set local role anon;
+
+select is_empty('select * from public.analyses', 'Signed-out visitors see no analyses');
+
+select throws_ok(
+  $$ insert into public.analyses (source_name, analysis_method, currency, total_revenue, result)
+     values ('anonymous.png', 'ocr', 'USD', 1, '{}') $$,
+  '42501',
+  null,
+  'Signed-out visitors cannot save analyses'
+);
+
+-- Back to postgres to check Bob's row survived
+reset role;
+
+select results_eq(
+  $$ select total_revenue from public.analyses where id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  $$ values (500::numeric) $$,
+  'Bob''s analysis is unchanged'
+);
+
+select * from finish();
+rollback;
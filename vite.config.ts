@@ -1,7 +1,55 @@
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+function filesIn(folder: string): string[] {
+  return readdirSync(folder, { withFileTypes: true, recursive: true })
+    .filter(entry => entry.isFile())
+    .map(entry => join(entry.parentPath, entry.name))
+}
+
+// Writes service-worker.js from src/serviceWorker.js, with everything the
+// build serves (bundle and public/, READMEs aside) to keep for offline use
+function serviceWorker(): Plugin {
+  let base = '/'
+  let publicDir = ''
+  return {
+    name: 'revtrackr-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base
+      publicDir = config.publicDir
+    },
+    writeBundle(output, bundle) {
+      const hash = createHash('sha256')
+      const files: string[] = []
+      for (const [name, file] of Object.entries(bundle)) {
+        if (name.endsWith('.map')) continue
+        files.push(name)
+        hash.update(name).update(file.type === 'chunk' ? file.code : file.source)
+      }
+      for (const path of publicDir ? filesIn(publicDir) : []) {
+        const name = relative(publicDir, path).split(sep).join('/')
+        if (name.endsWith('.md')) continue
+        files.push(name)
+        hash.update(name).update(readFileSync(path))
+      }
+
+      const precache = { version: hash.digest('hex').slice(0, 12), files: files.sort().map(name => base + name) }
+      const source = readFileSync('src/serviceWorker.js', 'utf8').replace('__PRECACHE__', JSON.stringify(precache))
+      writeFileSync(join(output.dir!, 'service-worker.js'), source)
+    },
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [react(), ...(isSsrBuild ? [] : [serviceWorker()])],
+  build: {
+    // The CLI build (npm run build:cli) reads language data from public/ in place
+    copyPublicDir: !isSsrBuild,
+  },
+}))